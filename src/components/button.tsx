@@ -23,6 +23,7 @@ import { JSX, mergeProps } from "solid-js";
  * @property {(event: FocusEvent) => void} [onBlur] - Event handler for button blur events.
  * @property {string} [aria-label] - Accessible label for the button when text content is not descriptive enough.
  * @property {string} [aria-describedby] - ID of element that describes the button for screen readers.
+ * @property {boolean} [aria-pressed] - Pressed state of a toggle button.
  * @property {string} [id] - Unique identifier for the button element.
  * @property {number} [tabIndex] - Tab order of the button for keyboard navigation.
  */
@@ -56,6 +57,7 @@ export interface ButtonProps {
   onBlur?: (event: FocusEvent) => void;
   "aria-label"?: string;
   "aria-describedby"?: string;
+  "aria-pressed"?: boolean;
   id?: string;
   tabIndex?: number;
 }
@@ -106,6 +108,7 @@ export default function Button(props: ButtonProps): JSX.Element {
       onBlur={mergedProps.onBlur}
       aria-label={mergedProps["aria-label"]}
       aria-describedby={mergedProps["aria-describedby"]}
+      aria-pressed={mergedProps["aria-pressed"]}
       aria-disabled={mergedProps.disabled || mergedProps.loading}
       aria-busy={mergedProps.loading}
       id={mergedProps.id}
@@ -1,4 +1,5 @@
 import { JSX, createSignal, createEffect, splitProps } from "solid-js";
+import { useField, mergeDescribedBy } from "./fieldset/field-context";
 
 /**
  * Props for the Checkbox component.
@@ -83,6 +84,11 @@ export default function Checkbox(props: CheckboxProps): JSX.Element {
 
   let checkboxRef: HTMLInputElement | undefined;
 
+  // Label, hint and error wiring from an enclosing Field
+  const field = useField();
+  field?.registerId(() => others.id);
+  const color = () => (field?.invalid() ? "error" : undefined) || local.color;
+
   // Handle indeterminate state changes
   createEffect(() => {
     if (checkboxRef) {
@@ -102,8 +108,8 @@ export default function Checkbox(props: CheckboxProps): JSX.Element {
     }
 
     // Add DaisyUI color classes
-    if (local.color) {
-      baseClasses[`checkbox-${local.color}`] = true;
+    if (color()) {
+      baseClasses[`checkbox-${color()}`] = true;
     }
 
     // Add custom class if provided
@@ -172,7 +178,6 @@ export default function Checkbox(props: CheckboxProps): JSX.Element {
       checked={checkedValue()}
       disabled={local.disabled}
       readOnly={local.readOnly}
-      required={local.required}
       tabIndex={others.tabIndex ?? 0}
       classList={{
         ...classes(),
@@ -183,6 +188,10 @@ export default function Checkbox(props: CheckboxProps): JSX.Element {
       onFocus={handleFocus}
       onBlur={handleBlur}
       {...others}
+      id={others.id ?? field?.id()}
+      required={local.required ?? field?.required()}
+      aria-describedby={mergeDescribedBy(others["aria-describedby"], field?.describedBy())}
+      aria-invalid={others["aria-invalid"] ?? (field?.invalid() || undefined)}
     />
   );
 }
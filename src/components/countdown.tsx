@@ -1,4 +1,317 @@
-// Countdown component
-export default function Countdown() {
-  return <div>Countdown Component</div>;
+import { Accessor, JSX, Index, Show, createEffect, createSignal, on, onCleanup, onMount } from "solid-js";
+
+/**
+ * Time unit shown as a Countdown segment.
+ */
+export type CountdownUnit = "days" | "hours" | "minutes" | "seconds";
+
+const unitOrder: CountdownUnit[] = ["days", "hours", "minutes", "seconds"];
+
+const unitSeconds: Record<CountdownUnit, number> = {
+  days: 86400,
+  hours: 3600,
+  minutes: 60,
+  seconds: 1,
+};
+
+// DaisyUI animates `--value` from 0 to 99
+const maxSegmentValue = 99;
+
+const defaultLabels: Record<CountdownUnit, string> = {
+  days: "days",
+  hours: "hours",
+  minutes: "min",
+  seconds: "sec",
+};
+
+/**
+ * Options for createCountdown.
+ *
+ * @property {Date | number} [target] - Date or timestamp to count down to. Takes precedence over `duration`.
+ * @property {number} [duration] - Duration to count down from, in milliseconds.
+ * @property {number} [interval] - Tick interval in milliseconds. Defaults to 1000.
+ * @property {boolean} [autoStart] - If false, the countdown waits for `resume()`. Defaults to true.
+ * @property {(remaining: number) => void} [onTick] - Called on every tick with the remaining milliseconds.
+ * @property {() => void} [onComplete] - Called once the countdown reaches zero, or on mount when the target has already passed.
+ */
+export interface CountdownOptions {
+  target?: Date | number;
+  duration?: number;
+  interval?: number;
+  autoStart?: boolean;
+  onTick?: (remaining: number) => void;
+  onComplete?: () => void;
+}
+
+/**
+ * Reactive countdown state and controls returned by createCountdown.
+ *
+ * @property {Accessor<number>} remaining - Remaining time in milliseconds.
+ * @property {Accessor<boolean>} isRunning - Whether the countdown is ticking.
+ * @property {Accessor<boolean>} isComplete - Whether the countdown reached zero.
+ * @property {() => void} pause - Stops ticking and keeps the remaining time.
+ * @property {() => void} resume - Continues ticking from the remaining time.
+ * @property {() => void} reset - Restores the initial time, and restarts unless `autoStart` is false.
+ */
+export interface CountdownApi {
+  remaining: Accessor<number>;
+  isRunning: Accessor<boolean>;
+  isComplete: Accessor<boolean>;
+  pause: () => void;
+  resume: () => void;
+  reset: () => void;
+}
+
+/**
+ * Props for the Countdown component.
+ *
+ * @property {Date | number} [target] - Date or timestamp to count down to. Takes precedence over `duration`.
+ * @property {number} [duration] - Duration to count down from, in milliseconds.
+ * @property {CountdownUnit[]} [format] - Segments to show. The largest unit absorbs larger amounts, but shows at most 99. Defaults to hours, minutes and seconds.
+ * @property {boolean | Partial<Record<CountdownUnit, string>>} [labels] - Shows a label under each segment, optionally with custom texts.
+ * @property {boolean} [autoStart] - If false, the countdown waits for `resume()`. Defaults to true.
+ * @property {(remaining: number) => void} [onTick] - Called on every tick with the remaining milliseconds.
+ * @property {() => void} [onComplete] - Called once the countdown reaches zero.
+ * @property {(api: CountdownApi) => void} [ref] - Receives the countdown controls to pause, resume and reset it.
+ * @property {string} [class] - Additional CSS classes to apply to the countdown.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the timer. Defaults to the remaining time in words.
+ */
+export interface CountdownProps {
+  target?: Date | number;
+  duration?: number;
+  format?: CountdownUnit[];
+  labels?: boolean | Partial<Record<CountdownUnit, string>>;
+  autoStart?: boolean;
+  onTick?: (remaining: number) => void;
+  onComplete?: () => void;
+  ref?: CountdownApi | ((api: CountdownApi) => void);
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+}
+
+/**
+ * Creates a countdown timer with reactive remaining time.
+ *
+ * The remaining time is computed from the clock on every tick, so slow ticks do not
+ * make the countdown drift, and the last tick lands exactly at zero. Timers are cleared
+ * when the owning reactive scope is disposed. Options are read when the countdown starts
+ * and on `reset()`, so getters can be passed to follow changing values. A countdown whose
+ * target has already passed calls `onComplete` on mount.
+ *
+ * @param {CountdownOptions} options - The target or duration and the countdown callbacks.
+ * @returns {CountdownApi} The reactive countdown state and controls.
+ */
+export function createCountdown(options: CountdownOptions): CountdownApi {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let endTime = 0;
+
+  const initialRemaining = () => {
+    if (options.target !== undefined) {
+      return Math.max(0, new Date(options.target).getTime() - Date.now());
+    }
+    return Math.max(0, options.duration ?? 0);
+  };
+
+  const [remaining, setRemaining] = createSignal(initialRemaining());
+  const [isRunning, setIsRunning] = createSignal(false);
+
+  const stop = () => {
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    setIsRunning(false);
+  };
+
+  const schedule = () => {
+    const delay = Math.min(options.interval ?? 1000, endTime - Date.now());
+    timer = setTimeout(tick, Math.max(0, delay));
+  };
+
+  const tick = () => {
+    const next = Math.max(0, endTime - Date.now());
+    setRemaining(next);
+    options.onTick?.(next);
+
+    if (next === 0) {
+      stop();
+      options.onComplete?.();
+    } else {
+      schedule();
+    }
+  };
+
+  const resume = () => {
+    if (isRunning() || remaining() <= 0) return;
+    endTime = Date.now() + remaining();
+    setIsRunning(true);
+    schedule();
+  };
+
+  const pause = () => {
+    if (!isRunning()) return;
+    setRemaining(Math.max(0, endTime - Date.now()));
+    stop();
+  };
+
+  // A countdown that starts at zero, e.g. with a target in the past, completes right away
+  const start = () => {
+    if (remaining() > 0) {
+      resume();
+    } else {
+      options.onComplete?.();
+    }
+  };
+
+  const reset = () => {
+    stop();
+    setRemaining(initialRemaining());
+    if (options.autoStart !== false) {
+      start();
+    }
+  };
+
+  if (options.autoStart !== false) {
+    if (remaining() > 0) {
+      resume();
+    } else {
+      onMount(start);
+    }
+  }
+
+  onCleanup(stop);
+
+  return {
+    remaining,
+    isRunning,
+    isComplete: () => remaining() === 0,
+    pause,
+    resume,
+    reset,
+  };
+}
+
+/**
+ * Countdown component for showing the time left until a date or after a duration.
+ *
+ * Renders DaisyUI `countdown` segments whose digits animate through the `--value` CSS
+ * variable. The `format` selects the days, hours, minutes and seconds segments; without
+ * labels they are separated by colons, with `labels` each segment gets a caption. DaisyUI
+ * shows values up to 99, so longer times are capped at 99 on screen and spoken in full.
+ *
+ * The timer logic lives in `createCountdown()`. Pass a `ref` callback to receive its
+ * controls and pause, resume or reset the countdown. Changing `target` or `duration`
+ * restarts the countdown.
+ *
+ * @param {CountdownProps} props - The properties to configure the Countdown component.
+ * @returns {JSX.Element} The rendered Countdown component.
+ */
+export default function Countdown(props: CountdownProps): JSX.Element {
+  const countdown = createCountdown({
+    get target() {
+      return props.target;
+    },
+    get duration() {
+      return props.duration;
+    },
+    get autoStart() {
+      return props.autoStart;
+    },
+    onTick: (remaining) => props.onTick?.(remaining),
+    onComplete: () => props.onComplete?.(),
+  });
+
+  if (typeof props.ref === "function") {
+    props.ref(countdown);
+  }
+
+  createEffect(on(() => [props.target, props.duration], countdown.reset, { defer: true }));
+
+  const units = () => {
+    const format = props.format ?? ["hours", "minutes", "seconds"];
+    return unitOrder.filter((unit) => format.includes(unit));
+  };
+
+  // Split the remaining time into segments; the largest unit absorbs larger amounts
+  const segments = () => {
+    let rest = Math.ceil(countdown.remaining() / 1000);
+    return units().map((unit) => {
+      const value = Math.floor(rest / unitSeconds[unit]);
+      rest -= value * unitSeconds[unit];
+      return { unit, value };
+    });
+  };
+
+  const labelOf = (unit: CountdownUnit) =>
+    typeof props.labels === "object" ? (props.labels[unit] ?? defaultLabels[unit]) : defaultLabels[unit];
+
+  const spokenTime = () =>
+    segments()
+      .map(({ unit, value }) => `${value} ${value === 1 ? unit.slice(0, -1) : unit}`)
+      .join(", ");
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = props.labels
+      ? { "grid grid-flow-col auto-cols-max gap-5 text-center": true }
+      : { countdown: true, "font-mono": true };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const digits = (value: () => number) => (
+    <span style={{ "--value": value() }} aria-hidden="true">
+      {value()}
+    </span>
+  );
+
+  return (
+    <Show
+      when={props.labels}
+      fallback={
+        <span
+          role="timer"
+          aria-label={props["aria-label"] ?? spokenTime()}
+          classList={{
+            ...classes(),
+            ...props.classList,
+          }}
+        >
+          <Index each={segments()}>
+            {(segment, index) => (
+              <>
+                <Show when={index > 0}>:</Show>
+                {digits(() => Math.min(segment().value, maxSegmentValue))}
+              </>
+            )}
+          </Index>
+        </span>
+      }
+    >
+      <div
+        role="timer"
+        aria-label={props["aria-label"] ?? spokenTime()}
+        classList={{
+          ...classes(),
+          ...props.classList,
+        }}
+      >
+        <Index each={segments()}>
+          {(segment) => (
+            <div class="flex flex-col" data-unit={segment().unit}>
+              <span class="countdown font-mono">{digits(() => Math.min(segment().value, maxSegmentValue))}</span>
+              <span aria-hidden="true">{labelOf(segment().unit)}</span>
+            </div>
+          )}
+        </Index>
+      </div>
+    </Show>
+  );
 }
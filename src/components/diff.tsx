@@ -1,4 +1,227 @@
-// Diff component
-export default function Diff() {
-  return <div>Diff Component</div>;
+import { JSX, Show, children as resolveChildren, createSignal } from "solid-js";
+
+/**
+ * Props for the Diff component.
+ *
+ * @property {JSX.Element} [children] - The two items to compare, e.g. before and after images. The first is shown on the left or top.
+ * @property {number} [position] - Position of the divider as a percentage from 0 to 100 (controlled mode).
+ * @property {number} [defaultPosition] - Initial position of the divider (uncontrolled mode). Defaults to 50.
+ * @property {(position: number) => void} [onPositionChange] - Callback fired when the divider is moved.
+ * @property {"horizontal" | "vertical"} [orientation] - Direction in which the divider moves. Defaults to "horizontal".
+ * @property {number} [step] - Percentage moved by the arrow keys. Defaults to 1. Page Up and Page Down move 10 steps.
+ * @property {boolean} [disabled] - If true, the divider cannot be moved.
+ * @property {string} [class] - Additional CSS classes to apply to the diff, e.g. an aspect ratio.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the divider slider. Defaults to "Comparison position".
+ */
+export interface DiffProps {
+  children?: JSX.Element;
+  position?: number;
+  defaultPosition?: number;
+  onPositionChange?: (position: number) => void;
+  orientation?: "horizontal" | "vertical";
+  step?: number;
+  disabled?: boolean;
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+}
+
+const clamp = (value: number) => Math.min(100, Math.max(0, value));
+
+/**
+ * Diff component for comparing two items side by side with a movable divider.
+ *
+ * Renders a DaisyUI `diff` with `diff-item-1`, `diff-item-2` and `diff-resizer`. The
+ * divider follows pointer and touch dragging anywhere on the component. Its handle, the
+ * resizer or the vertical divider line, is an ARIA slider that moves with the arrow
+ * keys, Page Up, Page Down, Home and End. DaisyUI only styles horizontal diffs, so the
+ * vertical orientation clips the first item with inline styles and draws its own
+ * divider line. Its slider value is measured from the bottom, so Arrow Up and Page Up
+ * move the divider up and raise the value.
+ *
+ * @param {DiffProps} props - The properties to configure the Diff component.
+ * @returns {JSX.Element} The rendered Diff component.
+ */
+export default function Diff(props: DiffProps): JSX.Element {
+  const items = resolveChildren(() => props.children);
+  const [internalPosition, setInternalPosition] = createSignal(clamp(props.defaultPosition ?? 50));
+  const [dragging, setDragging] = createSignal(false);
+
+  let diffRef: HTMLDivElement | undefined;
+  let resizerRef: HTMLDivElement | undefined;
+  let dividerRef: HTMLDivElement | undefined;
+
+  const isControlled = () => props.position !== undefined;
+  const position = () => (isControlled() ? clamp(props.position!) : internalPosition());
+  const isVertical = () => props.orientation === "vertical";
+  // The vertical position is measured from the top, while the slider value grows upward
+  const sliderValue = () => (isVertical() ? 100 - position() : position());
+  const positionFromSliderValue = (value: number) => (isVertical() ? 100 - value : value);
+
+  const setPosition = (value: number) => {
+    const next = clamp(value);
+    if (next === position()) return;
+
+    if (!isControlled()) {
+      setInternalPosition(next);
+    }
+    props.onPositionChange?.(next);
+  };
+
+  // Position under the pointer as a percentage of the diff size
+  const positionFromPointer = (event: PointerEvent) => {
+    const rect = diffRef!.getBoundingClientRect();
+    const size = isVertical() ? rect.height : rect.width;
+    if (size <= 0) return position();
+
+    const offset = isVertical() ? event.clientY - rect.top : event.clientX - rect.left;
+    return (offset / size) * 100;
+  };
+
+  const handlePointerDown = (event: PointerEvent) => {
+    if (props.disabled || event.button > 0) return;
+
+    event.preventDefault();
+    (isVertical() ? dividerRef : resizerRef)?.focus();
+    diffRef!.setPointerCapture?.(event.pointerId);
+    setDragging(true);
+    setPosition(positionFromPointer(event));
+  };
+
+  const handlePointerMove = (event: PointerEvent) => {
+    if (!dragging()) return;
+    setPosition(positionFromPointer(event));
+  };
+
+  const handlePointerUp = (event: PointerEvent) => {
+    if (!dragging()) return;
+    setDragging(false);
+    diffRef!.releasePointerCapture?.(event.pointerId);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (props.disabled) return;
+
+    const step = props.step ?? 1;
+    const keyValues: Record<string, number> = {
+      ArrowRight: sliderValue() + step,
+      ArrowUp: sliderValue() + step,
+      ArrowLeft: sliderValue() - step,
+      ArrowDown: sliderValue() - step,
+      PageUp: sliderValue() + step * 10,
+      PageDown: sliderValue() - step * 10,
+      Home: 0,
+      End: 100,
+    };
+
+    if (event.key in keyValues) {
+      event.preventDefault();
+      setPosition(positionFromSliderValue(keyValues[event.key]));
+    }
+  };
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      diff: true,
+      // DaisyUI keeps the resizer invisible, so the focus ring of the handle is drawn on the diff
+      "has-[:focus-visible]:outline-2 has-[:focus-visible]:outline-offset-2": true,
+      "cursor-ns-resize": isVertical() && !props.disabled,
+      "cursor-ew-resize": !isVertical() && !props.disabled,
+      // Let the page scroll across the drag direction on touch screens
+      "touch-pan-x": isVertical(),
+      "touch-pan-y": !isVertical(),
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  // The first item spans the whole diff when vertical and is clipped at the divider
+  const firstItemStyle = (): JSX.CSSProperties | undefined =>
+    isVertical()
+      ? {
+          "grid-column": "1 / -1",
+          "border-right-width": "0",
+          "clip-path": `inset(0 0 ${100 - position()}% 0)`,
+        }
+      : undefined;
+
+  // Slider semantics of the handle; the resizer is not displayed when vertical, so only one handle is exposed
+  const handleProps: JSX.HTMLAttributes<HTMLDivElement> = {
+    role: "slider",
+    get tabindex() {
+      return props.disabled ? -1 : 0;
+    },
+    get "aria-label"() {
+      return props["aria-label"] ?? "Comparison position";
+    },
+    get "aria-orientation"() {
+      return isVertical() ? "vertical" : "horizontal";
+    },
+    "aria-valuemin": 0,
+    "aria-valuemax": 100,
+    get "aria-valuenow"() {
+      return Math.round(sliderValue());
+    },
+    get "aria-valuetext"() {
+      return `${Math.round(sliderValue())}%`;
+    },
+    get "aria-disabled"() {
+      return props.disabled ? "true" : undefined;
+    },
+    onKeyDown: handleKeyDown,
+  };
+
+  return (
+    <div
+      ref={diffRef}
+      data-orientation={isVertical() ? "vertical" : "horizontal"}
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <div class="diff-item-1" style={firstItemStyle()}>
+        {items.toArray()[0]}
+      </div>
+      <div
+        classList={{ "diff-item-2": true, "after:hidden": isVertical() }}
+        style={isVertical() ? { "grid-column": "1 / -1" } : undefined}
+      >
+        {items.toArray()[1]}
+      </div>
+      {/* Sizes the first grid column; dragging is handled on the diff instead of by CSS resize */}
+      <div
+        ref={resizerRef}
+        class="diff-resizer"
+        {...handleProps}
+        style={{
+          width: `${position()}cqi`,
+          "min-width": "0",
+          "max-width": "100cqi",
+          resize: "none",
+          display: isVertical() ? "none" : undefined,
+        }}
+      />
+      <Show when={isVertical()}>
+        <div
+          ref={dividerRef}
+          {...handleProps}
+          class="pointer-events-none absolute inset-x-0 z-2 h-0.5 -translate-y-1/2 bg-base-100"
+          style={{ top: `${position()}%` }}
+          data-slot="divider"
+        />
+      </Show>
+    </div>
+  );
 }
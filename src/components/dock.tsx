@@ -1,4 +0,0 @@
-// Dock component
-export default function Dock() {
-  return <div>Dock Component</div>;
-}
@@ -0,0 +1,22 @@
+import { createContext, useContext } from "solid-js";
+
+/**
+ * Dock context for sharing the active item between Dock sub-components.
+ */
+export interface DockContextValue {
+  isActive: (value?: string, href?: string) => boolean;
+  select: (value: string) => void;
+}
+
+export const DockContext = createContext<DockContextValue>();
+
+/**
+ * Hook to access dock context
+ */
+export function useDockContext(): DockContextValue {
+  const context = useContext(DockContext);
+  if (!context) {
+    throw new Error("Dock sub-components must be used within a Dock component");
+  }
+  return context;
+}
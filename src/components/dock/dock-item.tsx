@@ -0,0 +1,122 @@
+import { JSX, Show } from "solid-js";
+import Link from "../link";
+import { useDockContext } from "./dock-context";
+
+/**
+ * Props for the DockItem component.
+ *
+ * @property {JSX.Element} [icon] - Icon shown above the label.
+ * @property {JSX.Element} [label] - Label shown under the icon.
+ * @property {string} [href] - URL of the item. Rendered with the Link component, so router links work.
+ * @property {string} [value] - Value matched against the Dock `value`. Defaults to `href`.
+ * @property {JSX.Element} [badge] - Badge shown on the icon, e.g. an unread count.
+ * @property {boolean} [active] - Forces the active state.
+ * @property {boolean} [disabled] - If true, the item cannot be selected.
+ * @property {(event: MouseEvent | KeyboardEvent) => void} [onClick] - Click handler of the item.
+ * @property {string} [class] - Additional CSS classes to apply to the item.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label, e.g. for items without a visible label.
+ */
+export interface DockItemProps {
+  icon?: JSX.Element;
+  label?: JSX.Element;
+  href?: string;
+  value?: string;
+  badge?: JSX.Element;
+  active?: boolean;
+  disabled?: boolean;
+  onClick?: (event: MouseEvent | KeyboardEvent) => void;
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+}
+
+/**
+ * DockItem component for a single entry of a Dock.
+ *
+ * Renders a Link when `href` is set and a button otherwise, with the icon, an optional
+ * badge and a `dock-label`. The active item gets `dock-active` and `aria-current`.
+ *
+ * @param {DockItemProps} props - The properties to configure the DockItem component.
+ * @returns {JSX.Element} The rendered DockItem component.
+ */
+export default function DockItem(props: DockItemProps): JSX.Element {
+  const context = useDockContext();
+
+  const value = () => props.value ?? props.href;
+  const isActive = () => props.active ?? context.isActive(value(), props.href);
+
+  const handleClick = (event: MouseEvent | KeyboardEvent) => {
+    if (props.disabled) return;
+    const itemValue = value();
+    if (itemValue !== undefined) {
+      context.select(itemValue);
+    }
+    props.onClick?.(event);
+  };
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "dock-active": isActive(),
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const content = () => (
+    <>
+      <span class="indicator">
+        {props.icon}
+        <Show when={props.badge !== undefined && props.badge !== null && props.badge !== false}>
+          <span class="indicator-item badge badge-primary badge-xs">{props.badge}</span>
+        </Show>
+      </span>
+      <Show when={props.label}>
+        <span class="dock-label">{props.label}</span>
+      </Show>
+    </>
+  );
+
+  return (
+    <Show
+      when={props.href}
+      fallback={
+        <button
+          type="button"
+          disabled={props.disabled}
+          aria-label={props["aria-label"]}
+          aria-current={isActive() ? "true" : undefined}
+          onClick={handleClick}
+          classList={{
+            ...classes(),
+            ...props.classList,
+          }}
+        >
+          {content()}
+        </button>
+      }
+    >
+      <Link
+        href={props.disabled ? undefined : props.href}
+        underline={false}
+        disabled={props.disabled}
+        aria-label={props["aria-label"]}
+        aria-current={isActive() ? "page" : undefined}
+        onClick={handleClick}
+        classList={{
+          ...classes(),
+          ...props.classList,
+          link: false,
+        }}
+      >
+        {content()}
+      </Link>
+    </Show>
+  );
+}
@@ -0,0 +1,135 @@
+import { JSX, For, createSignal } from "solid-js";
+import { useActiveRoute } from "../link";
+import { DockContext, DockContextValue } from "./dock-context";
+import DockItem from "./dock-item";
+
+/**
+ * An entry of a data-driven Dock.
+ *
+ * @property {JSX.Element} [icon] - Icon shown above the label.
+ * @property {JSX.Element} [label] - Label shown under the icon.
+ * @property {string} [href] - URL of the item.
+ * @property {string} [value] - Value matched against the Dock `value`. Defaults to `href`.
+ * @property {JSX.Element} [badge] - Badge shown on the icon.
+ * @property {boolean} [active] - Forces the active state.
+ * @property {boolean} [disabled] - If true, the item cannot be selected.
+ * @property {(event: MouseEvent | KeyboardEvent) => void} [onClick] - Click handler of the item.
+ * @property {string} [aria-label] - Accessible label for the item.
+ */
+export interface DockItemData {
+  icon?: JSX.Element;
+  label?: JSX.Element;
+  href?: string;
+  value?: string;
+  badge?: JSX.Element;
+  active?: boolean;
+  disabled?: boolean;
+  onClick?: (event: MouseEvent | KeyboardEvent) => void;
+  "aria-label"?: string;
+}
+
+/**
+ * Props for the Dock component.
+ *
+ * @property {DockItemData[]} [items] - Entries to render. Can be combined with children.
+ * @property {JSX.Element} [children] - DockItem elements.
+ * @property {string} [value] - Value of the active item (controlled mode).
+ * @property {string} [defaultValue] - Value of the initially active item (uncontrolled mode).
+ * @property {(value: string) => void} [onChange] - Callback fired when an item is selected.
+ * @property {string} [activePath] - Path used to pick the active link item. Defaults to the router location when @solidjs/router is available.
+ * @property {"xs" | "sm" | "md" | "lg" | "xl"} [size] - The size of the dock.
+ * @property {string} [class] - Additional CSS classes to apply to the dock.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the navigation. Defaults to "Dock".
+ */
+export interface DockProps {
+  items?: DockItemData[];
+  children?: JSX.Element;
+  value?: string;
+  defaultValue?: string;
+  onChange?: (value: string) => void;
+  activePath?: string;
+  size?: "xs" | "sm" | "md" | "lg" | "xl";
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+}
+
+/**
+ * Dock component for bottom navigation on mobile screens.
+ *
+ * Renders a DaisyUI `dock` in a `nav` landmark from an `items` list or DockItem children.
+ * The active item is set through `value`, or picked from the router location (or
+ * `activePath`) by matching the item `href`, using the same optional router detection
+ * as Link. Items without `href` act as buttons and become active when selected.
+ *
+ * The dock is fixed to the bottom of the viewport. DaisyUI pads it for the bottom
+ * safe-area inset, and the component adds the left and right insets for devices in
+ * landscape orientation.
+ *
+ * @param {DockProps} props - The properties to configure the Dock component.
+ * @returns {JSX.Element} The rendered Dock component.
+ */
+export default function Dock(props: DockProps): JSX.Element {
+  const isActiveRoute = useActiveRoute(() => props.activePath);
+  const [internalValue, setInternalValue] = createSignal(props.defaultValue);
+
+  const isActive = (value?: string, href?: string) => {
+    if (props.value !== undefined) return value === props.value;
+
+    const routeActive = isActiveRoute(href);
+    if (routeActive !== undefined) return routeActive;
+
+    return value !== undefined && value === internalValue();
+  };
+
+  const select = (value: string) => {
+    if (props.value === undefined) {
+      setInternalValue(value);
+    }
+    props.onChange?.(value);
+  };
+
+  const contextValue: DockContextValue = {
+    isActive,
+    select,
+  };
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      dock: true,
+    };
+
+    // Add DaisyUI size classes
+    if (props.size) {
+      baseClasses[`dock-${props.size}`] = true;
+    }
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <DockContext.Provider value={contextValue}>
+      <nav
+        aria-label={props["aria-label"] ?? "Dock"}
+        style={{
+          "padding-left": "max(0.5rem, env(safe-area-inset-left))",
+          "padding-right": "max(0.5rem, env(safe-area-inset-right))",
+        }}
+        classList={{
+          ...classes(),
+          ...props.classList,
+        }}
+      >
+        <For each={props.items}>{(item) => <DockItem {...item} />}</For>
+        {props.children}
+      </nav>
+    </DockContext.Provider>
+  );
+}
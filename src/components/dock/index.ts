@@ -0,0 +1,22 @@
+// Dock components
+import DockComponent from "./dock";
+import DockItem from "./dock-item";
+
+// Export types
+export type { DockProps, DockItemData } from "./dock";
+export type { DockItemProps } from "./dock-item";
+export type { DockContextValue } from "./dock-context";
+
+// Create compound component with attached sub-components
+const Dock = DockComponent as typeof DockComponent & {
+  Item: typeof DockItem;
+};
+
+// Attach sub-components to main Dock component
+Dock.Item = DockItem;
+
+// Export the compound component as default
+export default Dock;
+
+// Export individual components for those who prefer direct imports
+export { Dock, DockItem };
@@ -1,4 +0,0 @@
-// Drawer component
-export default function Drawer() {
-  return <div>Drawer Component</div>;
-}
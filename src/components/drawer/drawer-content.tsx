@@ -0,0 +1,50 @@
+import { JSX } from "solid-js";
+
+/**
+ * Props for the Drawer.Content component.
+ *
+ * @property {JSX.Element} [children] - The page content shown beside or under the drawer.
+ * @property {string} [class] - Additional CSS classes to apply to the content.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface DrawerContentProps {
+  children?: JSX.Element;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * Drawer.Content component for the page content of a Drawer.
+ *
+ * Holds everything that is not part of the sidebar, typically including the
+ * `<label for>` or button that opens the drawer.
+ *
+ * @param {DrawerContentProps} props - The properties to configure the Drawer.Content component.
+ * @returns {JSX.Element} The rendered Drawer.Content component.
+ */
+export default function DrawerContent(props: DrawerContentProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "drawer-content": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      {props.children}
+    </div>
+  );
+}
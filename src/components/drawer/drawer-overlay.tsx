@@ -0,0 +1,53 @@
+import { JSX } from "solid-js";
+import { useDrawer } from "./drawer";
+
+/**
+ * Props for the Drawer.Overlay component.
+ *
+ * @property {string} [class] - Additional CSS classes to apply to the overlay.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the overlay. Defaults to "Close sidebar".
+ */
+export interface DrawerOverlayProps {
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+}
+
+/**
+ * Drawer.Overlay component for the backdrop behind an open drawer.
+ *
+ * Renders a `label` for the drawer checkbox, so clicking it closes the drawer.
+ * Place it first inside Drawer.Side.
+ *
+ * @param {DrawerOverlayProps} props - The properties to configure the Drawer.Overlay component.
+ * @returns {JSX.Element} The rendered Drawer.Overlay component.
+ */
+export default function DrawerOverlay(props: DrawerOverlayProps): JSX.Element {
+  const drawer = useDrawer();
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "drawer-overlay": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <label
+      for={drawer.id}
+      aria-label={props["aria-label"] ?? "Close sidebar"}
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    />
+  );
+}
@@ -0,0 +1,57 @@
+import { JSX } from "solid-js";
+import { useDrawer } from "./drawer";
+
+/**
+ * Props for the Drawer.Side component.
+ *
+ * @property {JSX.Element} [children] - The sidebar content, usually a Drawer.Overlay followed by a menu.
+ * @property {string} [class] - Additional CSS classes to apply to the side.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the sidebar.
+ */
+export interface DrawerSideProps {
+  children?: JSX.Element;
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+}
+
+/**
+ * Drawer.Side component for the sidebar of a Drawer.
+ *
+ * Focus is trapped inside it while the drawer is open as an overlay.
+ *
+ * @param {DrawerSideProps} props - The properties to configure the Drawer.Side component.
+ * @returns {JSX.Element} The rendered Drawer.Side component.
+ */
+export default function DrawerSide(props: DrawerSideProps): JSX.Element {
+  const drawer = useDrawer();
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "drawer-side": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <aside
+      ref={drawer.registerSide}
+      tabIndex={-1}
+      aria-label={props["aria-label"]}
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      {props.children}
+    </aside>
+  );
+}
@@ -0,0 +1,280 @@
+import {
+  JSX,
+  createContext,
+  createEffect,
+  createRenderEffect,
+  createSignal,
+  createUniqueId,
+  on,
+  onCleanup,
+  useContext,
+} from "solid-js";
+
+/**
+ * Breakpoint above which a drawer stays open beside the content.
+ */
+export type DrawerBreakpoint = "sm" | "md" | "lg" | "xl" | "2xl";
+
+/**
+ * Drawer context for sharing open state between Drawer sub-components.
+ */
+export interface DrawerContextValue {
+  /** ID of the hidden drawer checkbox, used by `label for` toggles. */
+  id: string;
+  /** Whether the drawer is open. */
+  isOpen: () => boolean;
+  /** Whether the drawer is open as an overlay, i.e. open and not persistent at the current viewport. */
+  isOverlay: () => boolean;
+  /** Opens or closes the drawer. */
+  setOpen: (open: boolean) => void;
+  /** Toggles the drawer. */
+  toggle: () => void;
+  /** Registers the side element used as focus trap. Used by `Drawer.Side`. */
+  registerSide: (element: HTMLElement | undefined) => void;
+}
+
+const DrawerContext = createContext<DrawerContextValue>();
+
+/**
+ * Hook to access the state of the nearest Drawer.
+ */
+export function useDrawer(): DrawerContextValue {
+  const context = useContext(DrawerContext);
+  if (!context) {
+    throw new Error("useDrawer must be used within a Drawer component");
+  }
+  return context;
+}
+
+// Literal class names so Tailwind can find them
+const persistentClasses: Record<DrawerBreakpoint, string> = {
+  sm: "sm:drawer-open",
+  md: "md:drawer-open",
+  lg: "lg:drawer-open",
+  xl: "xl:drawer-open",
+  "2xl": "2xl:drawer-open",
+};
+
+const breakpointQueries: Record<DrawerBreakpoint, string> = {
+  sm: "(min-width: 640px)",
+  md: "(min-width: 768px)",
+  lg: "(min-width: 1024px)",
+  xl: "(min-width: 1280px)",
+  "2xl": "(min-width: 1536px)",
+};
+
+const getFocusableElements = (container: HTMLElement): HTMLElement[] =>
+  Array.from(
+    container.querySelectorAll<HTMLElement>(
+      "a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex='-1'])"
+    )
+  );
+
+/**
+ * Props for the Drawer component.
+ *
+ * @property {JSX.Element} [children] - The Drawer.Content and Drawer.Side elements.
+ * @property {string} [class] - Additional CSS classes to apply to the drawer.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [id] - ID of the hidden checkbox, for `<label for>` toggles. Generated when omitted.
+ * @property {boolean} [open] - Whether the drawer is open (controlled mode).
+ * @property {boolean} [defaultOpen] - Whether the drawer is initially open (uncontrolled mode).
+ * @property {(open: boolean) => void} [onOpenChange] - Callback fired when the drawer opens or closes.
+ * @property {boolean} [end] - If true, the drawer opens from the end (right) side.
+ * @property {boolean | DrawerBreakpoint} [persistent] - Keeps the drawer open beside the content, always or above a breakpoint.
+ * @property {boolean} [closeOnEscape=true] - Whether pressing Escape closes the overlay drawer.
+ * @property {boolean} [trapFocus=true] - Whether focus is kept inside the overlay drawer.
+ * @property {boolean} [lockScroll=true] - Whether body scrolling is locked while the overlay drawer is open.
+ */
+export interface DrawerProps {
+  children?: JSX.Element;
+  class?: string;
+  classList?: Record<string, boolean>;
+  id?: string;
+  open?: boolean;
+  defaultOpen?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  end?: boolean;
+  persistent?: boolean | DrawerBreakpoint;
+  closeOnEscape?: boolean;
+  trapFocus?: boolean;
+  lockScroll?: boolean;
+}
+
+/**
+ * Drawer component for sidebars that slide over or sit beside the page content.
+ *
+ * Uses DaisyUI's hidden-checkbox pattern, so `<label for={id}>` elements and the
+ * Drawer.Overlay toggle it without JavaScript, while the open state can also be
+ * controlled with `open` and `onOpenChange`. With `persistent`, the drawer stays open
+ * beside the content (`lg:drawer-open` and friends).
+ *
+ * While the drawer is open as an overlay, focus is trapped inside Drawer.Side,
+ * Escape closes it and body scrolling is locked. Focus returns to the previously
+ * focused element when it closes.
+ *
+ * @param {DrawerProps} props - The properties to configure the Drawer component.
+ * @returns {JSX.Element} The rendered Drawer component.
+ */
+export default function Drawer(props: DrawerProps): JSX.Element {
+  const generatedId = createUniqueId();
+  const id = () => props.id ?? `drawer-${generatedId}`;
+
+  const [internalOpen, setInternalOpen] = createSignal(props.defaultOpen ?? false);
+  const [isPersistent, setIsPersistent] = createSignal(false);
+  const [sideElement, setSideElement] = createSignal<HTMLElement>();
+
+  const isOpen = () => props.open ?? internalOpen();
+  const isOverlay = () => isOpen() && !isPersistent();
+
+  const setOpen = (open: boolean) => {
+    if (open === isOpen()) return;
+    if (props.open === undefined) {
+      setInternalOpen(open);
+    }
+    props.onOpenChange?.(open);
+  };
+
+  // Track whether the drawer is persistent at the current viewport
+  createRenderEffect(() => {
+    const persistent = props.persistent;
+    if (persistent === true) {
+      setIsPersistent(true);
+      return;
+    }
+    if (!persistent || typeof window === "undefined" || typeof window.matchMedia !== "function") {
+      setIsPersistent(false);
+      return;
+    }
+
+    const query = window.matchMedia(breakpointQueries[persistent]);
+    setIsPersistent(query.matches);
+
+    const handleChange = (event: MediaQueryListEvent) => setIsPersistent(event.matches);
+    query.addEventListener("change", handleChange);
+    onCleanup(() => query.removeEventListener("change", handleChange));
+  });
+
+  // Trap focus, handle Escape and lock scrolling while open as an overlay
+  createEffect(
+    on(isOverlay, (overlay) => {
+      if (!overlay) return;
+
+      const side = sideElement();
+      const trapFocus = props.trapFocus !== false;
+      const previousFocus = document.activeElement as HTMLElement | null;
+      const lockScroll = props.lockScroll !== false;
+      const previousOverflow = document.body.style.overflow;
+
+      if (lockScroll) {
+        document.body.style.overflow = "hidden";
+      }
+
+      if (trapFocus && side) {
+        (getFocusableElements(side)[0] ?? side).focus();
+      }
+
+      const handleKeyDown = (event: KeyboardEvent) => {
+        if (event.key === "Escape" && props.closeOnEscape !== false) {
+          event.preventDefault();
+          setOpen(false);
+          return;
+        }
+
+        if (event.key !== "Tab" || !trapFocus || !side) return;
+
+        const focusable = getFocusableElements(side);
+        if (focusable.length === 0) {
+          event.preventDefault();
+          side.focus();
+          return;
+        }
+
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        const active = document.activeElement;
+        const outside = !side.contains(active);
+
+        if (event.shiftKey && (active === first || outside)) {
+          event.preventDefault();
+          last.focus();
+        } else if (!event.shiftKey && (active === last || outside)) {
+          event.preventDefault();
+          first.focus();
+        }
+      };
+
+      document.addEventListener("keydown", handleKeyDown);
+      onCleanup(() => {
+        document.removeEventListener("keydown", handleKeyDown);
+        if (lockScroll) {
+          document.body.style.overflow = previousOverflow;
+        }
+        if (trapFocus && previousFocus?.isConnected) {
+          previousFocus.focus();
+        }
+      });
+    })
+  );
+
+  // The checkbox may be toggled by labels; keep it in sync when the change is not applied
+  const handleChange = (event: Event & { currentTarget: HTMLInputElement }) => {
+    setOpen(event.currentTarget.checked);
+    event.currentTarget.checked = isOpen();
+  };
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      drawer: true,
+      "drawer-end": !!props.end,
+    };
+
+    // Add persistent classes
+    if (props.persistent === true) {
+      baseClasses["drawer-open"] = true;
+    } else if (props.persistent) {
+      baseClasses[persistentClasses[props.persistent]] = true;
+    }
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const contextValue: DrawerContextValue = {
+    get id() {
+      return id();
+    },
+    isOpen,
+    isOverlay,
+    setOpen,
+    toggle: () => setOpen(!isOpen()),
+    registerSide: setSideElement,
+  };
+
+  return (
+    <DrawerContext.Provider value={contextValue}>
+      <div
+        classList={{
+          ...classes(),
+          ...props.classList,
+        }}
+      >
+        <input
+          id={id()}
+          type="checkbox"
+          class="drawer-toggle"
+          tabIndex={-1}
+          aria-hidden="true"
+          checked={isOpen()}
+          onChange={handleChange}
+        />
+        {props.children}
+      </div>
+    </DrawerContext.Provider>
+  );
+}
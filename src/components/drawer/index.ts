@@ -0,0 +1,30 @@
+// Drawer components
+import DrawerComponent from "./drawer";
+import DrawerContent from "./drawer-content";
+import DrawerSide from "./drawer-side";
+import DrawerOverlay from "./drawer-overlay";
+
+// Export types
+export type { DrawerProps, DrawerBreakpoint, DrawerContextValue } from "./drawer";
+export type { DrawerContentProps } from "./drawer-content";
+export type { DrawerSideProps } from "./drawer-side";
+export type { DrawerOverlayProps } from "./drawer-overlay";
+export { useDrawer } from "./drawer";
+
+// Create compound component with attached sub-components
+const Drawer = DrawerComponent as typeof DrawerComponent & {
+  Content: typeof DrawerContent;
+  Side: typeof DrawerSide;
+  Overlay: typeof DrawerOverlay;
+};
+
+// Attach sub-components to main Drawer component
+Drawer.Content = DrawerContent;
+Drawer.Side = DrawerSide;
+Drawer.Overlay = DrawerOverlay;
+
+// Export the compound component as default
+export default Drawer;
+
+// Export individual components for those who prefer direct imports
+export { Drawer, DrawerContent, DrawerSide, DrawerOverlay };
@@ -1,4 +0,0 @@
-// Fieldset component
-export default function Fieldset() {
-  return <div>Fieldset Component</div>;
-}
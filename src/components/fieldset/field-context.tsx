@@ -0,0 +1,36 @@
+import { Accessor, createContext, useContext } from "solid-js";
+
+/**
+ * Field context for wiring a form control to the label, hint and error of its Field.
+ *
+ * @property {Accessor<string | undefined>} id - Id of the control, referenced by the field label. Undefined in a group field.
+ * @property {Accessor<string | undefined>} describedBy - Ids of the hint and error text for `aria-describedby`. Undefined in a group field, which describes the group instead.
+ * @property {Accessor<boolean>} invalid - Whether the control should be marked invalid.
+ * @property {Accessor<boolean>} required - Whether the control is required.
+ * @property {(id: Accessor<string | undefined>) => void} registerId - Registers the id set on the control, so the field label points at it instead of the field id.
+ */
+export interface FieldContextValue {
+  id: Accessor<string | undefined>;
+  describedBy: Accessor<string | undefined>;
+  invalid: Accessor<boolean>;
+  required: Accessor<boolean>;
+  registerId: (id: Accessor<string | undefined>) => void;
+}
+
+export const FieldContext = createContext<FieldContextValue>();
+
+/**
+ * Hook to access the enclosing Field. Returns undefined outside a Field, so form
+ * controls can use it whether or not they are wrapped.
+ */
+export function useField(): FieldContextValue | undefined {
+  return useContext(FieldContext);
+}
+
+/**
+ * Joins the `aria-describedby` of a control with the ids of its Field.
+ */
+export function mergeDescribedBy(...ids: (string | undefined)[]): string | undefined {
+  const joined = ids.filter(Boolean).join(" ");
+  return joined || undefined;
+}
@@ -0,0 +1,162 @@
+import { Accessor, JSX, Show, createSignal, createUniqueId, onCleanup } from "solid-js";
+import { FieldContext, FieldContextValue, mergeDescribedBy } from "./field-context";
+
+/**
+ * Props for the Field component.
+ *
+ * @property {JSX.Element} [children] - The form control, e.g. an Input, Select or Checkbox.
+ * @property {JSX.Element} [label] - Label of the control.
+ * @property {JSX.Element} [hint] - Help text shown below the control.
+ * @property {JSX.Element} [error] - Error text shown below the control. Marks the control invalid.
+ * @property {boolean} [invalid] - If true, marks the control invalid without an error text.
+ * @property {boolean} [required] - If true, marks the control required and shows a required indicator.
+ * @property {string} [id] - Id of the control, or of the group element with `group`. Generated if not provided. An id set on the control takes precedence.
+ * @property {"top" | "end"} [labelPlacement] - Where the label is shown. "end" wraps the control and puts the label after it, for checkboxes, radios and toggles. Defaults to "top".
+ * @property {"group" | "radiogroup"} [group] - Labels a group of controls, e.g. radios. The field becomes a group element with the id, label and hint, and each control keeps its own id.
+ * @property {string} [class] - Additional CSS classes to apply to the field.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface FieldProps {
+  children?: JSX.Element;
+  label?: JSX.Element;
+  hint?: JSX.Element;
+  error?: JSX.Element;
+  invalid?: boolean;
+  required?: boolean;
+  id?: string;
+  labelPlacement?: "top" | "end";
+  group?: "group" | "radiogroup";
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * Field component for labeling a form control with a hint and error text.
+ *
+ * Renders the label as a DaisyUI `fieldset-label` and the hint and error as `label`
+ * text, the same way for every control. The control receives its `id`,
+ * `aria-describedby`, `aria-invalid` and `required` through context, so Input,
+ * Textarea, Select, Checkbox, Radio and Toggle are wired up without extra props.
+ * Custom controls can read the same values with `useField()`, and register an id of
+ * their own with `registerId` so the label points at it.
+ *
+ * With `group`, the field labels several controls, e.g. a radio group. The field
+ * element then gets the group role, the id, the label and the hint, while the
+ * controls keep their own ids and only receive `aria-invalid` and `required`.
+ *
+ * @param {FieldProps} props - The properties to configure the Field component.
+ * @returns {JSX.Element} The rendered Field component.
+ */
+export default function Field(props: FieldProps): JSX.Element {
+  const fieldId = createUniqueId();
+  const hintId = `${fieldId}-hint`;
+  const errorId = `${fieldId}-error`;
+  const labelId = `${fieldId}-label`;
+
+  const hasError = () => Boolean(props.error);
+  const isGroup = () => props.group !== undefined;
+  const id = () => props.id ?? fieldId;
+  const describedBy = () => mergeDescribedBy(props.hint ? hintId : undefined, hasError() ? errorId : undefined);
+
+  // An id set on the control overrides the field id, so the label follows it
+  const [controlId, setControlId] = createSignal<Accessor<string | undefined>>();
+  const registerId = (idAccessor: Accessor<string | undefined>) => {
+    setControlId(() => idAccessor);
+    onCleanup(() => setControlId((current) => (current === idAccessor ? undefined : current)));
+  };
+
+  // In a group, the id and description belong to the group element rather than to every control
+  const context: FieldContextValue = {
+    id: () => (isGroup() ? undefined : id()),
+    describedBy: () => (isGroup() ? undefined : describedBy()),
+    invalid: () => hasError() || Boolean(props.invalid),
+    required: () => Boolean(props.required),
+    registerId,
+  };
+
+  const labelFor = () => controlId()?.() ?? context.id();
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      fieldset: true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const labelText = () => (
+    <>
+      {props.label}
+      <Show when={props.required}>
+        <span class="text-error" aria-hidden="true">
+          *
+        </span>
+      </Show>
+    </>
+  );
+
+  return (
+    <FieldContext.Provider value={context}>
+      <div
+        id={isGroup() ? id() : undefined}
+        role={props.group}
+        aria-labelledby={isGroup() && props.label ? labelId : undefined}
+        aria-describedby={isGroup() ? describedBy() : undefined}
+        aria-required={props.group === "radiogroup" && props.required ? "true" : undefined}
+        classList={{
+          ...classes(),
+          ...props.classList,
+        }}
+      >
+        <Show
+          when={!isGroup()}
+          fallback={
+            <>
+              <Show when={props.label}>
+                <span class="fieldset-label" id={labelId}>
+                  {labelText()}
+                </span>
+              </Show>
+              {props.children}
+            </>
+          }
+        >
+          <Show
+            when={props.labelPlacement === "end"}
+            fallback={
+              <>
+                <Show when={props.label}>
+                  <label class="fieldset-label" for={labelFor()}>
+                    {labelText()}
+                  </label>
+                </Show>
+                {props.children}
+              </>
+            }
+          >
+            <label class="fieldset-label" for={labelFor()}>
+              {props.children}
+              <span>{labelText()}</span>
+            </label>
+          </Show>
+        </Show>
+        <Show when={props.hint}>
+          <p class="label" id={hintId}>
+            {props.hint}
+          </p>
+        </Show>
+        <Show when={hasError()}>
+          <p class="label text-error" id={errorId} role="alert">
+            {props.error}
+          </p>
+        </Show>
+      </div>
+    </FieldContext.Provider>
+  );
+}
@@ -0,0 +1,70 @@
+import { JSX, Show } from "solid-js";
+
+/**
+ * Props for the Fieldset component.
+ *
+ * @property {JSX.Element} [children] - The fields and controls of the fieldset.
+ * @property {JSX.Element} [legend] - Title of the fieldset, rendered as a `legend`.
+ * @property {JSX.Element} [hint] - Help text shown below the fields.
+ * @property {boolean} [disabled] - If true, disables every control in the fieldset.
+ * @property {string} [class] - Additional CSS classes to apply to the fieldset, e.g. `bg-base-200 border border-base-300 rounded-box p-4`.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [name] - The name of the fieldset for form submission.
+ * @property {string} [form] - Associates the fieldset with a form element.
+ */
+export interface FieldsetProps {
+  children?: JSX.Element;
+  legend?: JSX.Element;
+  hint?: JSX.Element;
+  disabled?: boolean;
+  class?: string;
+  classList?: Record<string, boolean>;
+  name?: string;
+  form?: string;
+}
+
+/**
+ * Fieldset component for grouping related form controls under a title.
+ *
+ * Renders a DaisyUI `fieldset` with an optional `fieldset-legend`, which also names the
+ * group for screen readers. Use it with Field to label each control, or as the group
+ * label of a set of radios or checkboxes.
+ *
+ * @param {FieldsetProps} props - The properties to configure the Fieldset component.
+ * @returns {JSX.Element} The rendered Fieldset component.
+ */
+export default function Fieldset(props: FieldsetProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      fieldset: true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <fieldset
+      disabled={props.disabled}
+      name={props.name}
+      form={props.form}
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <Show when={props.legend}>
+        <legend class="fieldset-legend">{props.legend}</legend>
+      </Show>
+      {props.children}
+      <Show when={props.hint}>
+        <p class="label">{props.hint}</p>
+      </Show>
+    </fieldset>
+  );
+}
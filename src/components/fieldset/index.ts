@@ -0,0 +1,25 @@
+// Fieldset components
+import FieldsetComponent from "./fieldset";
+import Field from "./field";
+
+// Export types
+export type { FieldsetProps } from "./fieldset";
+export type { FieldProps } from "./field";
+export type { FieldContextValue } from "./field-context";
+
+// Export the field hook for custom form controls
+export { useField } from "./field-context";
+
+// Create compound component with attached sub-components
+const Fieldset = FieldsetComponent as typeof FieldsetComponent & {
+  Field: typeof Field;
+};
+
+// Attach sub-components to main Fieldset component
+Fieldset.Field = Field;
+
+// Export the compound component as default
+export default Fieldset;
+
+// Export individual components for those who prefer direct imports
+export { Fieldset, Field };
@@ -1,4 +1,332 @@
-// File Input component
-export default function FileInput() {
-  return <div>File Input Component</div>;
+import { JSX, For, Show, createMemo, createSignal, createUniqueId, onCleanup, onMount } from "solid-js";
+import Button from "./button";
+import { UploadRejection, formatFileSize, isFileAccepted } from "./upload";
+import { useField, mergeDescribedBy } from "./fieldset/field-context";
+
+/**
+ * Props for the FileInput component.
+ *
+ * @property {(files: File[], event: Event) => void} [onChange] - Callback fired with the selected files that passed validation.
+ * @property {(rejections: UploadRejection[]) => void} [onReject] - Callback fired when selected files fail validation.
+ * @property {boolean} [multiple] - Whether several files can be selected.
+ * @property {string} [accept] - Accepted file types, e.g. "image/*,.pdf". Also checked on selection.
+ * @property {"user" | "environment"} [capture] - Camera to use for capturing media on mobile devices.
+ * @property {number} [maxSize] - Maximum size of a single file in bytes.
+ * @property {number} [maxFiles] - Maximum number of selected files.
+ * @property {boolean} [showFileList] - If true, lists the selected files with remove buttons.
+ * @property {"xs" | "sm" | "md" | "lg" | "xl"} [size] - The size of the file input using official DaisyUI classes.
+ * @property {"primary" | "secondary" | "accent" | "neutral" | "info" | "success" | "warning" | "error"} [variant] - The color variant using official DaisyUI classes.
+ * @property {boolean} [ghost] - Whether to apply the file-input-ghost class for ghost styling.
+ * @property {boolean} [disabled] - Whether the file input is disabled.
+ * @property {boolean} [required] - Whether a file is required.
+ * @property {string} [name] - The name attribute for form submission.
+ * @property {string} [id] - The id attribute for the file input.
+ * @property {string} [form] - Associates the file input with a form element.
+ * @property {string} [class] - Additional CSS classes to apply to the file input.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the file input.
+ * @property {string} [aria-describedby] - ID of element that describes the file input.
+ * @property {HTMLInputElement | ((el: HTMLInputElement) => void)} [ref] - Reference to the input element.
+ * @property {string | JSX.Element} [hint] - Help message to display below the file input.
+ * @property {"error" | "success" | "warning" | "info"} [state] - Validation state that determines file input styling.
+ * @property {string | JSX.Element} [label] - Main label to display above the file input.
+ * @property {string | JSX.Element} [altLabel] - Alternative label to display in the top-right.
+ */
+export interface FileInputProps {
+  onChange?: (files: File[], event: Event) => void;
+  onReject?: (rejections: UploadRejection[]) => void;
+  multiple?: boolean;
+  accept?: string;
+  capture?: "user" | "environment";
+  maxSize?: number;
+  maxFiles?: number;
+  showFileList?: boolean;
+  size?: "xs" | "sm" | "md" | "lg" | "xl";
+  variant?: "primary" | "secondary" | "accent" | "neutral" | "info" | "success" | "warning" | "error";
+  ghost?: boolean;
+  disabled?: boolean;
+  required?: boolean;
+  name?: string;
+  id?: string;
+  form?: string;
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+  "aria-describedby"?: string;
+  ref?: HTMLInputElement | ((el: HTMLInputElement) => void);
+  hint?: string | JSX.Element;
+  state?: "error" | "success" | "warning" | "info";
+  label?: string | JSX.Element;
+  altLabel?: string | JSX.Element;
+}
+
+/**
+ * FileInput component for selecting files with DaisyUI styling and client-side validation.
+ *
+ * Renders a DaisyUI `file-input` with sizes, colors and ghost style. Selected files are
+ * checked against `accept`, `maxSize` and `maxFiles`; rejected files are shown below the
+ * input in the same hint and error style as Input, and only accepted files are passed to
+ * `onChange` and kept in the input for form submission. An optional file list shows the
+ * selection with remove buttons. Resetting the parent form clears the selection.
+ *
+ * @param {FileInputProps} props - The properties to configure the FileInput component.
+ * @returns {JSX.Element} The rendered FileInput component.
+ */
+export default function FileInput(props: FileInputProps): JSX.Element {
+  const [files, setFiles] = createSignal<File[]>([]);
+  const [rejections, setRejections] = createSignal<UploadRejection[]>([]);
+
+  // Generate unique IDs for hint and error message association
+  const hintId = createUniqueId();
+  const errorId = createUniqueId();
+
+  // Label, hint and error wiring from an enclosing Field
+  const field = useField();
+  field?.registerId(() => props.id);
+
+  let inputRef: HTMLInputElement | undefined;
+
+  const hasRejections = () => rejections().length > 0;
+
+  // Rejections take precedence over the state, field error and variant props
+  const effectiveVariant = createMemo(
+    () =>
+      (hasRejections() ? "error" : undefined) ||
+      props.state ||
+      (field?.invalid() ? "error" : undefined) ||
+      props.variant
+  );
+
+  const shouldShowHint = () => Boolean(props.hint);
+  const shouldShowLabels = () => Boolean(props.label || props.altLabel);
+
+  // Validation errors need a place to be shown, so validating inputs are always wrapped
+  const needsWrapper =
+    shouldShowLabels() ||
+    shouldShowHint() ||
+    props.showFileList ||
+    props.accept !== undefined ||
+    props.maxSize !== undefined ||
+    props.maxFiles !== undefined;
+
+  // Validate files and return the accepted ones
+  const validate = (selected: File[]) => {
+    const accepted: File[] = [];
+    const rejected: UploadRejection[] = [];
+    const limit = props.maxFiles ?? Infinity;
+
+    selected.forEach((file) => {
+      if (!isFileAccepted(file, props.accept)) {
+        rejected.push({ file, reason: "file-type", message: `${file.name} is not an accepted file type` });
+      } else if (props.maxSize !== undefined && file.size > props.maxSize) {
+        rejected.push({
+          file,
+          reason: "file-too-large",
+          message: `${file.name} is larger than ${formatFileSize(props.maxSize)}`,
+        });
+      } else if (accepted.length >= limit) {
+        rejected.push({ file, reason: "too-many-files", message: `Only ${limit} files can be selected` });
+      } else {
+        accepted.push(file);
+      }
+    });
+
+    return { accepted, rejected };
+  };
+
+  // Keep only the given files in the input, so forms submit what the user sees
+  const syncInputFiles = (next: File[]) => {
+    if (!inputRef) return;
+
+    if (typeof DataTransfer !== "undefined") {
+      const transfer = new DataTransfer();
+      next.forEach((file) => transfer.items.add(file));
+      inputRef.files = transfer.files;
+    } else if (next.length === 0) {
+      inputRef.value = "";
+    }
+  };
+
+  const handleChange = (event: Event) => {
+    const target = event.target as HTMLInputElement;
+    const { accepted, rejected } = validate(Array.from(target.files ?? []));
+
+    setRejections(rejected);
+    if (rejected.length > 0) {
+      syncInputFiles(accepted);
+      props.onReject?.(rejected);
+    }
+
+    setFiles(accepted);
+    props.onChange?.(accepted, event);
+  };
+
+  const removeFile = (file: File, event: Event) => {
+    const next = files().filter((entry) => entry !== file);
+    syncInputFiles(next);
+    setFiles(next);
+    setRejections([]);
+    props.onChange?.(next, event);
+    inputRef?.focus();
+  };
+
+  // The browser clears the input on form reset, so clear the selection with it
+  const handleReset = (event: Event) => {
+    if (files().length === 0 && !hasRejections()) return;
+
+    setFiles([]);
+    setRejections([]);
+    props.onChange?.([], event);
+  };
+
+  onMount(() => {
+    const form = inputRef?.form;
+    if (!form) return;
+
+    form.addEventListener("reset", handleReset);
+    onCleanup(() => form.removeEventListener("reset", handleReset));
+  });
+
+  const handleRef = (el: HTMLInputElement) => {
+    inputRef = el;
+    if (typeof props.ref === "function") {
+      props.ref(el);
+    }
+  };
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "file-input": true,
+    };
+
+    // Add official DaisyUI size classes
+    if (props.size) {
+      baseClasses[`file-input-${props.size}`] = true;
+    }
+
+    // Add official DaisyUI color variant classes (use effective variant)
+    const variant = effectiveVariant();
+    if (variant) {
+      baseClasses[`file-input-${variant}`] = true;
+    }
+
+    // Add official DaisyUI style modifier classes
+    if (props.ghost) {
+      baseClasses["file-input-ghost"] = true;
+    }
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  // Determine aria-describedby for accessibility
+  const ariaDescribedBy = () =>
+    mergeDescribedBy(
+      props["aria-describedby"],
+      field?.describedBy(),
+      shouldShowHint() ? hintId : undefined,
+      hasRejections() ? errorId : undefined
+    );
+
+  const inputElement = (
+    <input
+      ref={handleRef}
+      type="file"
+      name={props.name}
+      id={props.id ?? field?.id()}
+      form={props.form}
+      accept={props.accept}
+      capture={props.capture}
+      multiple={props.multiple}
+      disabled={props.disabled}
+      required={props.required ?? field?.required()}
+      aria-label={props["aria-label"]}
+      aria-describedby={ariaDescribedBy()}
+      aria-invalid={effectiveVariant() === "error" ? "true" : undefined}
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+      onChange={handleChange}
+    />
+  );
+
+  // If no wrapper is needed, return just the input
+  if (!needsWrapper) {
+    return inputElement;
+  }
+
+  // Return input wrapped in form-control with labels, hint, errors and file list
+  return (
+    <div class="form-control">
+      {/* Labels */}
+      <Show when={shouldShowLabels()}>
+        <div class="label">
+          <Show when={props.label}>
+            <span class="label-text">{props.label}</span>
+          </Show>
+          <Show when={props.altLabel}>
+            <span class="label-text-alt">{props.altLabel}</span>
+          </Show>
+        </div>
+      </Show>
+
+      {/* File input */}
+      {inputElement}
+
+      {/* Hint message */}
+      <Show when={shouldShowHint()}>
+        <div class="label">
+          <span class="label-text-alt" id={hintId}>
+            {props.hint}
+          </span>
+        </div>
+      </Show>
+
+      {/* Validation errors */}
+      <Show when={hasRejections()}>
+        <div class="label">
+          <span class="label-text-alt text-error" id={errorId} role="alert">
+            <For each={rejections()}>
+              {(rejection) => (
+                <span class="block" data-reason={rejection.reason}>
+                  {rejection.message}
+                </span>
+              )}
+            </For>
+          </span>
+        </div>
+      </Show>
+
+      {/* Selected files */}
+      <Show when={props.showFileList && files().length > 0}>
+        <ul class="list bg-base-100 rounded-box" aria-label="Selected files">
+          <For each={files()}>
+            {(file) => (
+              <li class="list-row items-center">
+                <div class="flex flex-col min-w-0">
+                  <span class="truncate">{file.name}</span>
+                  <span class="text-xs opacity-70">{formatFileSize(file.size)}</span>
+                </div>
+                <Button
+                  size="xs"
+                  variant="ghost"
+                  aria-label={`Remove ${file.name}`}
+                  disabled={props.disabled}
+                  onClick={(event) => removeFile(file, event)}
+                >
+                  Remove
+                </Button>
+              </li>
+            )}
+          </For>
+        </ul>
+      </Show>
+    </div>
+  );
 }
@@ -1,4 +1,299 @@
-// Filter component
-export default function Filter() {
-  return <div>Filter Component</div>;
+import { JSX, For, Show, createSignal, createUniqueId, onCleanup, onMount } from "solid-js";
+import Badge from "./badge";
+
+/**
+ * An option of a Filter.
+ *
+ * @property {string} value - The value of the option.
+ * @property {string} label - The text of the option button, also its accessible name.
+ * @property {number} [count] - Number of matching items, shown in a badge on the button.
+ * @property {boolean} [disabled] - Whether the option is disabled.
+ */
+export interface FilterOption {
+  value: string;
+  label: string;
+  count?: number;
+  disabled?: boolean;
+}
+
+/**
+ * Props shared by single and multiple selection Filter components.
+ *
+ * @property {FilterOption[]} options - The options to choose from.
+ * @property {string} [name] - Name attribute of the inputs for form submission. Generated if not provided.
+ * @property {"xs" | "sm" | "md" | "lg" | "xl"} [size] - DaisyUI size of the option buttons.
+ * @property {"primary" | "secondary" | "accent" | "neutral" | "info" | "success" | "warning" | "error"} [color] - DaisyUI color of selected options. Defaults to "neutral".
+ * @property {boolean} [showReset] - If false, hides the reset button. Defaults to true.
+ * @property {string} [resetLabel] - Accessible label of the reset button. Defaults to "Clear filter".
+ * @property {boolean} [disabled] - Whether the whole filter is disabled.
+ * @property {string} [class] - Additional CSS classes to apply to the filter container.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the option group. Defaults to "Filter".
+ */
+interface FilterBaseProps {
+  options: FilterOption[];
+  name?: string;
+  size?: "xs" | "sm" | "md" | "lg" | "xl";
+  color?: "primary" | "secondary" | "accent" | "neutral" | "info" | "success" | "warning" | "error";
+  showReset?: boolean;
+  resetLabel?: string;
+  disabled?: boolean;
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+}
+
+/**
+ * Props for a single selection Filter.
+ *
+ * @property {false} [multiple] - Single selection with radio inputs.
+ * @property {string | null} [value] - The selected value, or null for none (controlled mode).
+ * @property {string} [defaultValue] - The initially selected value (uncontrolled mode).
+ * @property {(value: string | null) => void} [onChange] - Callback fired when the selection changes or is reset.
+ */
+export interface FilterSingleProps extends FilterBaseProps {
+  multiple?: false;
+  value?: string | null;
+  defaultValue?: string;
+  onChange?: (value: string | null) => void;
+}
+
+/**
+ * Props for a multiple selection Filter.
+ *
+ * @property {true} multiple - Multiple selection with checkbox inputs.
+ * @property {string[]} [value] - The selected values (controlled mode).
+ * @property {string[]} [defaultValue] - The initially selected values (uncontrolled mode).
+ * @property {(value: string[]) => void} [onChange] - Callback fired when the selection changes or is reset.
+ */
+export interface FilterMultipleProps extends FilterBaseProps {
+  multiple: true;
+  value?: string[];
+  defaultValue?: string[];
+  onChange?: (value: string[]) => void;
+}
+
+/**
+ * Props for the Filter component.
+ */
+export type FilterProps = FilterSingleProps | FilterMultipleProps;
+
+/**
+ * Filter component for narrowing down a list with a row of option buttons.
+ *
+ * Single selection renders a DaisyUI `filter` of `btn` radio inputs with a
+ * `filter-reset` radio, so DaisyUI hides the other options and shows the reset ("×")
+ * button while an option is selected. Multiple selection renders `btn` checkbox inputs
+ * in a plain row, since DaisyUI's filter would hide the unchecked ones, with a reset
+ * button after a selection. Keyboard support and form submission work natively. Options
+ * can show counts in a Badge indicator, and the row scrolls horizontally when it does
+ * not fit.
+ *
+ * @param {FilterProps} props - The properties to configure the Filter component.
+ * @returns {JSX.Element} The rendered Filter component.
+ */
+export default function Filter(props: FilterProps): JSX.Element {
+  const generatedName = createUniqueId();
+  let filterRef: HTMLDivElement | undefined;
+
+  const initialValue = (): string[] => {
+    if (props.multiple) return props.defaultValue ?? [];
+    return props.defaultValue !== undefined ? [props.defaultValue] : [];
+  };
+
+  // Single selection filters hold at most one value
+  const [internalValue, setInternalValue] = createSignal<string[]>(initialValue());
+  const isControlled = () => props.value !== undefined;
+
+  const selected = (): string[] => {
+    if (!isControlled()) return internalValue();
+    if (props.multiple) return props.value!;
+    return props.value !== null ? [props.value!] : [];
+  };
+
+  const isSelected = (value: string) => selected().includes(value);
+  const hasSelection = () => selected().length > 0;
+  const name = () => props.name ?? generatedName;
+
+  const commit = (next: string[]) => {
+    if (!isControlled()) {
+      setInternalValue(next);
+    }
+
+    if (props.multiple) {
+      props.onChange?.(next);
+    } else {
+      props.onChange?.(next[0] ?? null);
+    }
+  };
+
+  const handleChange = (option: FilterOption) => (event: Event) => {
+    const target = event.currentTarget as HTMLInputElement;
+
+    if (props.multiple) {
+      commit(target.checked ? [...selected(), option.value] : selected().filter((value) => value !== option.value));
+    } else {
+      commit([option.value]);
+    }
+
+    // Keep the input in sync when a controlled change is not applied
+    if (target.checked !== isSelected(option.value)) {
+      target.checked = isSelected(option.value);
+    }
+  };
+
+  const handleReset = (event: Event) => {
+    commit([]);
+
+    // Keep the reset radio in sync when a controlled change is not applied
+    const target = event.currentTarget as HTMLInputElement;
+    if (target.type === "radio") {
+      target.checked = !hasSelection();
+    }
+    filterRef?.querySelector<HTMLInputElement>("input:not(:disabled, .filter-reset)")?.focus();
+  };
+
+  // Return to the default selection when the surrounding form is reset
+  onMount(() => {
+    const form = filterRef?.closest("form");
+    if (!form) return;
+
+    const handleFormReset = () => {
+      // The form resets its controls after dispatching the event, so restore them afterwards
+      setTimeout(() => {
+        if (!isControlled()) {
+          setInternalValue(initialValue());
+        }
+        filterRef?.querySelectorAll<HTMLInputElement>("input").forEach((input) => {
+          input.checked = input.classList.contains("filter-reset") ? !hasSelection() : isSelected(input.value);
+        });
+      });
+    };
+
+    form.addEventListener("reset", handleFormReset);
+    onCleanup(() => form.removeEventListener("reset", handleFormReset));
+  });
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "overflow-x-auto": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const sizeClasses = () => {
+    const baseClasses: Record<string, boolean> = {};
+
+    // Add DaisyUI size classes
+    if (props.size) {
+      baseClasses[`btn-${props.size}`] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const optionClasses = (option: FilterOption) => {
+    const baseClasses: Record<string, boolean> = {
+      btn: true,
+      ...sizeClasses(),
+    };
+
+    // Add DaisyUI color classes to selected options
+    if (isSelected(option.value)) {
+      baseClasses[`btn-${props.color ?? "neutral"}`] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const renderOption = (option: FilterOption) => (
+    <input
+      type={props.multiple ? "checkbox" : "radio"}
+      classList={optionClasses(option)}
+      aria-label={option.label}
+      name={name()}
+      value={option.value}
+      checked={isSelected(option.value)}
+      disabled={props.disabled || option.disabled}
+      onChange={handleChange(option)}
+    />
+  );
+
+  return (
+    <div
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <div
+        ref={filterRef}
+        role={props.multiple ? "group" : "radiogroup"}
+        aria-label={props["aria-label"] ?? "Filter"}
+        aria-disabled={props.disabled ? "true" : undefined}
+        classList={{
+          "w-max": true,
+          "group/filter filter": !props.multiple,
+          "flex gap-1": !!props.multiple,
+        }}
+      >
+        {/* DaisyUI hides the reset radio until an option is selected, so it leaves the tab order meanwhile */}
+        <Show when={props.showReset !== false}>
+          <Show
+            when={props.multiple}
+            fallback={
+              <input
+                type="radio"
+                classList={{ "btn filter-reset": true, ...sizeClasses() }}
+                aria-label={props.resetLabel ?? "Clear filter"}
+                checked={!hasSelection()}
+                disabled={props.disabled}
+                tabindex={hasSelection() ? undefined : -1}
+                onChange={handleReset}
+              />
+            }
+          >
+            <Show when={hasSelection()}>
+              <button
+                type="button"
+                classList={{ "btn btn-square": true, ...sizeClasses() }}
+                aria-label={props.resetLabel ?? "Clear filter"}
+                disabled={props.disabled}
+                onClick={handleReset}
+              >
+                ×
+              </button>
+            </Show>
+          </Show>
+        </Show>
+        <For each={props.options}>
+          {(option) => (
+            <Show when={option.count !== undefined} fallback={renderOption(option)}>
+              <div
+                classList={{
+                  indicator: true,
+                  "[&:not(:last-child)]:me-1": !props.multiple,
+                  // Hide the badge with its option, as DaisyUI hides the unchecked options of a filter
+                  "group-has-[input:checked:not(.filter-reset)]/filter:has-[input:not(:checked)]:hidden":
+                    !props.multiple,
+                }}
+              >
+                <Badge size="sm" class="indicator-item">
+                  {option.count}
+                </Badge>
+                {renderOption(option)}
+              </div>
+            </Show>
+          )}
+        </For>
+      </div>
+    </div>
+  );
 }
@@ -1,4 +0,0 @@
-// Indicator component
-export default function Indicator() {
-  return <div>Indicator Component</div>;
-}
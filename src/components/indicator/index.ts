@@ -0,0 +1,21 @@
+// Indicator components
+import IndicatorComponent from "./indicator";
+import IndicatorItem from "./indicator-item";
+
+// Export types
+export type { IndicatorProps } from "./indicator";
+export type { IndicatorItemProps } from "./indicator-item";
+
+// Create compound component with attached sub-components
+const Indicator = IndicatorComponent as typeof IndicatorComponent & {
+  Item: typeof IndicatorItem;
+};
+
+// Attach sub-components to main Indicator component
+Indicator.Item = IndicatorItem;
+
+// Export the compound component as default
+export default Indicator;
+
+// Export individual components for those who prefer direct imports
+export { Indicator, IndicatorItem };
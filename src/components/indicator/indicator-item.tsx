@@ -0,0 +1,112 @@
+import { JSX, Show } from "solid-js";
+import Badge, { BadgeProps } from "../badge";
+
+/**
+ * Props for the IndicatorItem component.
+ *
+ * @property {JSX.Element} [children] - Custom item content, e.g. a Badge or Status. Ignored when `count` or `dot` is set.
+ * @property {"top" | "middle" | "bottom"} [vertical] - Vertical position of the item. Defaults to "top".
+ * @property {"start" | "center" | "end"} [horizontal] - Horizontal position of the item. Defaults to "end".
+ * @property {number} [count] - Count shown in a Badge, e.g. unread messages.
+ * @property {number} [max] - Highest count shown as is; larger counts show as "99+". Defaults to 99.
+ * @property {boolean} [showZero] - If true, shows the item when `count` is 0.
+ * @property {boolean} [dot] - If true, shows a small dot instead of the count.
+ * @property {BadgeProps["variant"]} [color] - Badge color for `count` and `dot`. Defaults to "primary".
+ * @property {BadgeProps["size"]} [size] - Badge size for `count`.
+ * @property {string | ((count: number) => string)} [label] - Visually hidden label for screen readers. Defaults to "{count} notifications", or "New notifications" for a dot.
+ * @property {string} [class] - Additional CSS classes to apply to the item.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface IndicatorItemProps {
+  children?: JSX.Element;
+  vertical?: "top" | "middle" | "bottom";
+  horizontal?: "start" | "center" | "end";
+  count?: number;
+  max?: number;
+  showZero?: boolean;
+  dot?: boolean;
+  color?: BadgeProps["variant"];
+  size?: BadgeProps["size"];
+  label?: string | ((count: number) => string);
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * IndicatorItem component for an item positioned on an Indicator.
+ *
+ * Renders a DaisyUI `indicator-item` at one of nine positions, combining
+ * `indicator-top`/`middle`/`bottom` with `indicator-start`/`center`/`end`. With `count`
+ * it shows a Badge capped at `max` ("99+") and hidden at zero unless `showZero` is set;
+ * with `dot` it shows a small dot instead. The visible badge is hidden from screen
+ * readers, which read a visually hidden `label` with the exact count instead.
+ *
+ * @param {IndicatorItemProps} props - The properties to configure the IndicatorItem component.
+ * @returns {JSX.Element} The rendered IndicatorItem component.
+ */
+export default function IndicatorItem(props: IndicatorItemProps): JSX.Element {
+  const max = () => props.max ?? 99;
+  const hasBadge = () => props.count !== undefined || !!props.dot;
+
+  const isVisible = () => {
+    if (props.count === undefined) return true;
+    return props.count > 0 || !!props.showZero;
+  };
+
+  const countText = () => {
+    const count = props.count ?? 0;
+    return count > max() ? `${max()}+` : `${count}`;
+  };
+
+  const label = () => {
+    const count = props.count ?? 0;
+    if (typeof props.label === "function") return props.label(count);
+    if (props.label !== undefined) return props.label;
+    if (props.dot && props.count === undefined) return "New notifications";
+    return count === 1 ? "1 notification" : `${count} notifications`;
+  };
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "indicator-item": true,
+    };
+
+    // Add DaisyUI position classes
+    baseClasses[`indicator-${props.vertical ?? "top"}`] = true;
+    baseClasses[`indicator-${props.horizontal ?? "end"}`] = true;
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <Show when={isVisible()}>
+      <span
+        aria-hidden={hasBadge() ? "true" : undefined}
+        classList={{
+          ...classes(),
+          ...props.classList,
+        }}
+      >
+        <Show when={hasBadge()} fallback={props.children}>
+          <Show
+            when={!props.dot}
+            fallback={<Badge variant={props.color ?? "primary"} class="size-2.5 p-0" />}
+          >
+            <Badge variant={props.color ?? "primary"} size={props.size}>
+              {countText()}
+            </Badge>
+          </Show>
+        </Show>
+      </span>
+      <Show when={hasBadge() || props.label !== undefined}>
+        <span class="sr-only">{label()}</span>
+      </Show>
+    </Show>
+  );
+}
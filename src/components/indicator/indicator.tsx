@@ -0,0 +1,50 @@
+import { JSX } from "solid-js";
+
+/**
+ * Props for the Indicator component.
+ *
+ * @property {JSX.Element} [children] - The content to decorate, e.g. an Avatar or Button, and its IndicatorItems.
+ * @property {string} [class] - Additional CSS classes to apply to the indicator.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface IndicatorProps {
+  children?: JSX.Element;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * Indicator component for placing badges and other items on the corner or edge of an element.
+ *
+ * Renders a DaisyUI `indicator` container. Put one or more IndicatorItems next to the
+ * decorated content; each item is positioned relative to the container.
+ *
+ * @param {IndicatorProps} props - The properties to configure the Indicator component.
+ * @returns {JSX.Element} The rendered Indicator component.
+ */
+export default function Indicator(props: IndicatorProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      indicator: true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      {props.children}
+    </div>
+  );
+}
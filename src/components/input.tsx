@@ -1,4 +1,5 @@
 import { JSX, createSignal, createMemo, createUniqueId, mergeProps, splitProps } from "solid-js";
+import { useField, mergeDescribedBy } from "./fieldset/field-context";
 
 /**
  * Props for the Input component.
@@ -89,6 +90,9 @@ export default function Input(props: InputProps): JSX.Element {
   
   // Generate unique ID for hint message association
   const hintId = createUniqueId();
+
+  // Label, hint and error wiring from an enclosing Field
+  const field = useField();
   
   // Split props into input-specific and our custom props
   const [local, inputProps] = splitProps(merged, [
@@ -107,6 +111,7 @@ export default function Input(props: InputProps): JSX.Element {
     "label",
     "altLabel"
   ]);
+  field?.registerId(() => inputProps.id);
 
   // Handle controlled vs uncontrolled mode
   const [internalValue, setInternalValue] = createSignal(local.defaultValue || "");
@@ -117,8 +122,10 @@ export default function Input(props: InputProps): JSX.Element {
     isControlled() ? (local.value || "") : internalValue()
   );
 
-  // Determine the effective variant based on state or variant prop
-  const effectiveVariant = createMemo(() => local.state || local.variant);
+  // Determine the effective variant based on state, field error or variant prop
+  const effectiveVariant = createMemo(
+    () => local.state || (field?.invalid() ? "error" : undefined) || local.variant
+  );
 
   // Determine if we should show hint message
   const shouldShowHint = createMemo(() => 
@@ -190,13 +197,13 @@ export default function Input(props: InputProps): JSX.Element {
   };
 
   // Determine aria-describedby for accessibility
-  const ariaDescribedBy = createMemo(() => {
-    const existingDescribedBy = (inputProps as any)["aria-describedby"];
-    if (shouldShowHint()) {
-      return existingDescribedBy ? `${existingDescribedBy} ${hintId}` : hintId;
-    }
-    return existingDescribedBy;
-  });
+  const ariaDescribedBy = createMemo(() =>
+    mergeDescribedBy(
+      (inputProps as any)["aria-describedby"],
+      field?.describedBy(),
+      shouldShowHint() ? hintId : undefined
+    )
+  );
 
   // Create the input element
   const inputElement = (
@@ -209,6 +216,8 @@ export default function Input(props: InputProps): JSX.Element {
         ...classes(),
         ...local.classList,
       }}
+      id={inputProps.id ?? field?.id()}
+      required={inputProps.required ?? field?.required()}
       aria-invalid={effectiveVariant() === "error" ? "true" : undefined}
       aria-describedby={ariaDescribedBy()}
     />
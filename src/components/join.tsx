@@ -1,4 +0,0 @@
-// Join component
-export default function Join() {
-  return <div>Join Component</div>;
-}
@@ -0,0 +1,207 @@
+import { JSX, For, createSignal } from "solid-js";
+import Button, { ButtonProps } from "../button";
+import Join, { JoinBreakpoint } from "./join";
+
+/**
+ * An option of a ButtonGroup.
+ *
+ * @property {string} value - The value of the option.
+ * @property {JSX.Element} [label] - The content of the button.
+ * @property {JSX.Element} [icon] - Icon shown before the label.
+ * @property {boolean} [disabled] - Whether the option is disabled.
+ * @property {string} [aria-label] - Accessible label, e.g. for icon-only buttons.
+ */
+export interface ButtonGroupOption {
+  value: string;
+  label?: JSX.Element;
+  icon?: JSX.Element;
+  disabled?: boolean;
+  "aria-label"?: string;
+}
+
+/**
+ * Props shared by single and multiple selection ButtonGroup components.
+ *
+ * @property {ButtonGroupOption[]} options - The options to choose from.
+ * @property {ButtonProps["size"]} [size] - Size of the buttons.
+ * @property {ButtonProps["variant"]} [color] - Button variant of pressed options. Defaults to "primary".
+ * @property {boolean} [outline] - If true, unpressed options use outline styling.
+ * @property {"horizontal" | "vertical"} [orientation] - Direction of the group. Defaults to "horizontal".
+ * @property {JoinBreakpoint} [horizontalFrom] - Breakpoint from which a vertical group is laid out horizontally.
+ * @property {boolean} [disabled] - Whether the whole group is disabled.
+ * @property {string} [class] - Additional CSS classes to apply to the group.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the group.
+ */
+interface ButtonGroupBaseProps {
+  options: ButtonGroupOption[];
+  size?: ButtonProps["size"];
+  color?: ButtonProps["variant"];
+  outline?: boolean;
+  orientation?: "horizontal" | "vertical";
+  horizontalFrom?: JoinBreakpoint;
+  disabled?: boolean;
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+}
+
+/**
+ * Props for a single selection ButtonGroup, e.g. a segmented control.
+ *
+ * @property {false} [multiple] - Exactly one option can be pressed.
+ * @property {string | null} [value] - The pressed value, or null for none (controlled mode).
+ * @property {string} [defaultValue] - The initially pressed value (uncontrolled mode).
+ * @property {(value: string) => void} [onChange] - Callback fired when another option is pressed.
+ */
+export interface ButtonGroupSingleProps extends ButtonGroupBaseProps {
+  multiple?: false;
+  value?: string | null;
+  defaultValue?: string;
+  onChange?: (value: string) => void;
+}
+
+/**
+ * Props for a multiple selection ButtonGroup, e.g. a formatting toolbar.
+ *
+ * @property {true} multiple - Each option toggles on its own.
+ * @property {string[]} [value] - The pressed values (controlled mode).
+ * @property {string[]} [defaultValue] - The initially pressed values (uncontrolled mode).
+ * @property {(value: string[]) => void} [onChange] - Callback fired when an option is toggled.
+ */
+export interface ButtonGroupMultipleProps extends ButtonGroupBaseProps {
+  multiple: true;
+  value?: string[];
+  defaultValue?: string[];
+  onChange?: (value: string[]) => void;
+}
+
+/**
+ * Props for the ButtonGroup component.
+ */
+export type ButtonGroupProps = ButtonGroupSingleProps | ButtonGroupMultipleProps;
+
+/**
+ * ButtonGroup component for segmented controls and toolbar toggles built on Join.
+ *
+ * Renders a Join of toggle Buttons with `aria-pressed`. In single selection mode,
+ * pressing an option selects it and pressing the selected option again keeps it; with
+ * `multiple`, each option toggles on its own. The group is a `toolbar` with a roving
+ * tabindex: only one button is in the tab order, the arrow keys move between enabled
+ * buttons and Home and End jump to the ends.
+ *
+ * @param {ButtonGroupProps} props - The properties to configure the ButtonGroup component.
+ * @returns {JSX.Element} The rendered ButtonGroup component.
+ */
+export default function ButtonGroup(props: ButtonGroupProps): JSX.Element {
+  const initialValue = (): string[] => {
+    if (props.multiple) return props.defaultValue ?? [];
+    return props.defaultValue !== undefined ? [props.defaultValue] : [];
+  };
+
+  // Single selection groups hold at most one value
+  const [internalValue, setInternalValue] = createSignal<string[]>(initialValue());
+  const isControlled = () => props.value !== undefined;
+
+  const selected = (): string[] => {
+    if (!isControlled()) return internalValue();
+    if (props.multiple) return props.value!;
+    return props.value !== null ? [props.value!] : [];
+  };
+
+  const isSelected = (value: string) => selected().includes(value);
+  const isDisabled = (option: ButtonGroupOption) => !!(props.disabled || option.disabled);
+
+  // The option in the tab order, set when a button receives focus
+  const [focusedValue, setFocusedValue] = createSignal<string>();
+
+  const tabStop = () => {
+    const enabled = props.options.filter((option) => !isDisabled(option));
+    const focused = enabled.find((option) => option.value === focusedValue());
+    return (focused ?? enabled.find((option) => isSelected(option.value)) ?? enabled[0])?.value;
+  };
+
+  const commit = (next: string[]) => {
+    if (!isControlled()) {
+      setInternalValue(next);
+    }
+
+    if (props.multiple) {
+      props.onChange?.(next);
+    } else {
+      props.onChange?.(next[0]);
+    }
+  };
+
+  const handlePress = (option: ButtonGroupOption) => {
+    if (isDisabled(option)) return;
+
+    if (props.multiple) {
+      commit(isSelected(option.value) ? selected().filter((value) => value !== option.value) : [...selected(), option.value]);
+    } else if (!isSelected(option.value)) {
+      commit([option.value]);
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    const group = event.currentTarget as HTMLElement;
+    const buttons = Array.from(group.querySelectorAll<HTMLButtonElement>("button:not(:disabled)"));
+    const index = buttons.indexOf(event.target as HTMLButtonElement);
+    if (index === -1) return;
+
+    let next: HTMLButtonElement | undefined;
+    switch (event.key) {
+      case "ArrowRight":
+      case "ArrowDown":
+        next = buttons[(index + 1) % buttons.length];
+        break;
+      case "ArrowLeft":
+      case "ArrowUp":
+        next = buttons[(index - 1 + buttons.length) % buttons.length];
+        break;
+      case "Home":
+        next = buttons[0];
+        break;
+      case "End":
+        next = buttons[buttons.length - 1];
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    next.focus();
+  };
+
+  return (
+    <Join
+      role="toolbar"
+      aria-label={props["aria-label"]}
+      aria-orientation={props.orientation === "vertical" && !props.horizontalFrom ? "vertical" : undefined}
+      orientation={props.orientation}
+      horizontalFrom={props.horizontalFrom}
+      onKeyDown={handleKeyDown}
+      class={props.class}
+      classList={props.classList}
+    >
+      <For each={props.options}>
+        {(option) => (
+          <Button
+            size={props.size}
+            variant={isSelected(option.value) ? props.color ?? "primary" : undefined}
+            outline={props.outline && !isSelected(option.value)}
+            disabled={isDisabled(option)}
+            startIcon={option.icon}
+            aria-pressed={isSelected(option.value)}
+            aria-label={option["aria-label"]}
+            tabIndex={option.value === tabStop() ? 0 : -1}
+            onClick={() => handlePress(option)}
+            onFocus={() => setFocusedValue(option.value)}
+          >
+            {option.label}
+          </Button>
+        )}
+      </For>
+    </Join>
+  );
+}
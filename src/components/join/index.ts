@@ -0,0 +1,28 @@
+// Join components
+import JoinComponent from "./join";
+import JoinItem from "./join-item";
+import ButtonGroup from "./button-group";
+
+// Export types
+export type { JoinProps, JoinBreakpoint } from "./join";
+export type { JoinItemProps } from "./join-item";
+export type {
+  ButtonGroupProps,
+  ButtonGroupSingleProps,
+  ButtonGroupMultipleProps,
+  ButtonGroupOption,
+} from "./button-group";
+
+// Create compound component with attached sub-components
+const Join = JoinComponent as typeof JoinComponent & {
+  Item: typeof JoinItem;
+};
+
+// Attach sub-components to main Join component
+Join.Item = JoinItem;
+
+// Export the compound component as default
+export default Join;
+
+// Export individual components for those who prefer direct imports
+export { Join, JoinItem, ButtonGroup };
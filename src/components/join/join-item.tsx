@@ -0,0 +1,35 @@
+import { JSX, children, createRenderEffect } from "solid-js";
+
+/**
+ * Props for the JoinItem component.
+ *
+ * @property {JSX.Element} [children] - The control to mark as a join item, e.g. an Input inside a wrapper.
+ */
+export interface JoinItemProps {
+  children?: JSX.Element;
+}
+
+/**
+ * JoinItem component for marking a nested control as an item of a Join.
+ *
+ * Adds `join-item` to its child elements without rendering a wrapper. Join already
+ * marks its direct children, so JoinItem is only needed for controls nested in
+ * another element, e.g. an Input inside an Indicator.
+ *
+ * @param {JoinItemProps} props - The properties to configure the JoinItem component.
+ * @returns {JSX.Element} The rendered JoinItem component.
+ */
+export default function JoinItem(props: JoinItemProps): JSX.Element {
+  const resolved = children(() => props.children);
+
+  // Runs during rendering, so the enclosing Join sees the class
+  createRenderEffect(() => {
+    resolved.toArray().forEach((child) => {
+      if (child instanceof HTMLElement) {
+        child.classList.add("join-item");
+      }
+    });
+  });
+
+  return <>{resolved()}</>;
+}
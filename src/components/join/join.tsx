@@ -0,0 +1,103 @@
+import { JSX, children, createEffect } from "solid-js";
+
+/**
+ * Breakpoints from which a vertical Join switches to horizontal.
+ */
+export type JoinBreakpoint = "sm" | "md" | "lg" | "xl" | "2xl";
+
+// Literal class names, so Tailwind picks them up
+const horizontalFromClasses: Record<JoinBreakpoint, string> = {
+  sm: "sm:join-horizontal",
+  md: "md:join-horizontal",
+  lg: "lg:join-horizontal",
+  xl: "xl:join-horizontal",
+  "2xl": "2xl:join-horizontal",
+};
+
+/**
+ * Props for the Join component.
+ *
+ * @property {JSX.Element} [children] - The items to group, e.g. Buttons, Inputs and Selects.
+ * @property {"horizontal" | "vertical"} [orientation] - Direction of the group. Defaults to "horizontal".
+ * @property {JoinBreakpoint} [horizontalFrom] - Breakpoint from which a vertical group is laid out horizontally, e.g. "lg".
+ * @property {string} [role] - ARIA role of the group, e.g. "group" or "toolbar".
+ * @property {string} [aria-label] - Accessible label for the group.
+ * @property {"horizontal" | "vertical"} [aria-orientation] - Orientation announced for roles such as "toolbar".
+ * @property {(event: KeyboardEvent) => void} [onKeyDown] - Key handler of the group, e.g. for arrow key navigation.
+ * @property {string} [class] - Additional CSS classes to apply to the group.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface JoinProps {
+  children?: JSX.Element;
+  orientation?: "horizontal" | "vertical";
+  horizontalFrom?: JoinBreakpoint;
+  role?: JSX.AriaAttributes["role"];
+  "aria-label"?: string;
+  "aria-orientation"?: "horizontal" | "vertical";
+  onKeyDown?: (event: KeyboardEvent) => void;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * Join component for grouping buttons, inputs and selects with shared borders and radius.
+ *
+ * Renders a DaisyUI `join` and adds `join-item` to each direct child element, so
+ * existing Button, Input and Select components can be grouped as they are. Children
+ * that wrap their control, e.g. in a Field or Indicator, are left alone when they
+ * contain a JoinItem. With `horizontalFrom`, the group is vertical on small screens
+ * and horizontal from the breakpoint on (`join-vertical lg:join-horizontal`).
+ *
+ * @param {JoinProps} props - The properties to configure the Join component.
+ * @returns {JSX.Element} The rendered Join component.
+ */
+export default function Join(props: JoinProps): JSX.Element {
+  const resolved = children(() => props.children);
+
+  // Mark direct children as join items, unless they wrap a JoinItem
+  createEffect(() => {
+    resolved.toArray().forEach((child) => {
+      if (child instanceof HTMLElement && !child.querySelector(".join-item")) {
+        child.classList.add("join-item");
+      }
+    });
+  });
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      join: true,
+    };
+
+    // Add DaisyUI orientation classes
+    if (props.orientation === "vertical" || props.horizontalFrom) {
+      baseClasses["join-vertical"] = true;
+    }
+
+    if (props.horizontalFrom) {
+      baseClasses[horizontalFromClasses[props.horizontalFrom]] = true;
+    }
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      role={props.role}
+      aria-label={props["aria-label"]}
+      aria-orientation={props["aria-orientation"]}
+      onKeyDown={props.onKeyDown}
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      {resolved()}
+    </div>
+  );
+}
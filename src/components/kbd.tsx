@@ -1,4 +0,0 @@
-// Kbd component
-export default function Kbd() {
-  return <div>Kbd Component</div>;
-}
@@ -0,0 +1,30 @@
+import { createContext, createRoot, useContext, onCleanup } from "solid-js";
+import { HotkeyOptions, HotkeysRegistry, createHotkeys } from "./hotkeys";
+
+export const HotkeysContext = createContext<HotkeysRegistry>();
+
+let globalHotkeys: HotkeysRegistry | undefined;
+
+/**
+ * Hook to access the hotkey registry of the nearest `HotkeysProvider`, or the global
+ * registry when there is none.
+ */
+export function useHotkeys(): HotkeysRegistry {
+  const context = useContext(HotkeysContext);
+  if (context) return context;
+
+  globalHotkeys ??= createRoot(() => createHotkeys());
+  return globalHotkeys;
+}
+
+/**
+ * Binds a shortcut for the lifetime of the calling component.
+ *
+ * @param {string} shortcut - The shortcut, e.g. "mod+k".
+ * @param {(event: KeyboardEvent) => void} handler - Called when the shortcut is pressed.
+ * @param {HotkeyOptions} [options] - Description, scope and other options of the hotkey.
+ */
+export function useHotkey(shortcut: string, handler: (event: KeyboardEvent) => void, options?: HotkeyOptions): void {
+  const registry = useHotkeys();
+  onCleanup(registry.register(shortcut, handler, options));
+}
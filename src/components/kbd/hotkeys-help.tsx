@@ -0,0 +1,110 @@
+import { JSX, For, Show, createUniqueId } from "solid-js";
+import Modal from "../modal/modal";
+import Kbd from "./kbd";
+import { HotkeyInfo, HotkeysRegistry } from "./hotkeys";
+import { useHotkeys } from "./hotkeys-context";
+
+/**
+ * Props for the HotkeysHelp component.
+ *
+ * @property {boolean} isOpen - Controls whether the dialog is visible.
+ * @property {() => void} [onClose] - Callback function called when the dialog should be closed.
+ * @property {JSX.Element} [title] - Title of the dialog. Defaults to "Keyboard shortcuts".
+ * @property {HotkeysRegistry} [registry] - Registry to list. Defaults to the registry of `useHotkeys()`.
+ * @property {boolean} [showInactive] - If true, also lists hotkeys of inactive scopes.
+ * @property {Record<string, string>} [scopeLabels] - Headings for scopes. Defaults to the scope names.
+ * @property {string} [generalLabel] - Heading for hotkeys without a scope. Defaults to "General".
+ * @property {string} [class] - Additional CSS classes to apply to the modal.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {boolean} [disablePortal=false] - Disable Portal rendering (mainly for testing).
+ */
+export interface HotkeysHelpProps {
+  isOpen: boolean;
+  onClose?: () => void;
+  title?: JSX.Element;
+  registry?: HotkeysRegistry;
+  showInactive?: boolean;
+  scopeLabels?: Record<string, string>;
+  generalLabel?: string;
+  class?: string;
+  classList?: Record<string, boolean>;
+  disablePortal?: boolean;
+}
+
+/**
+ * HotkeysHelp component for a "keyboard shortcuts" dialog generated from a hotkey registry.
+ *
+ * Lists every registered hotkey that has a description in a Modal, grouped by scope
+ * and printed with Kbd for the platform of the registry. Hotkeys without a scope come
+ * first under "General". Unless `showInactive` is set, hotkeys of inactive scopes are
+ * left out, so the dialog only shows what can be pressed right now.
+ *
+ * @param {HotkeysHelpProps} props - The properties to configure the HotkeysHelp component.
+ * @returns {JSX.Element} The rendered HotkeysHelp component.
+ */
+export default function HotkeysHelp(props: HotkeysHelpProps): JSX.Element {
+  const contextRegistry = useHotkeys();
+  const registry = () => props.registry ?? contextRegistry;
+  const titleId = createUniqueId();
+
+  // Described hotkeys grouped by scope, with unscoped hotkeys first
+  const groups = () => {
+    const active = registry().scopes();
+    const grouped = new Map<string | undefined, HotkeyInfo[]>([[undefined, []]]);
+
+    registry()
+      .hotkeys()
+      .filter((hotkey) => hotkey.description)
+      .filter((hotkey) => props.showInactive || hotkey.scope === undefined || active.includes(hotkey.scope))
+      .forEach((hotkey) => {
+        grouped.set(hotkey.scope, [...(grouped.get(hotkey.scope) ?? []), hotkey]);
+      });
+
+    return [...grouped.entries()]
+      .filter(([, hotkeys]) => hotkeys.length > 0)
+      .map(([scope, hotkeys]) => ({
+        label: scope === undefined ? props.generalLabel ?? "General" : props.scopeLabels?.[scope] ?? scope,
+        hotkeys,
+      }));
+  };
+
+  return (
+    <Modal
+      isOpen={props.isOpen}
+      onClose={props.onClose}
+      aria-labelledby={titleId}
+      class={props.class}
+      classList={props.classList}
+      disablePortal={props.disablePortal}
+    >
+      <h3 id={titleId} class="text-lg font-bold">
+        {props.title ?? "Keyboard shortcuts"}
+      </h3>
+      <Show when={groups().length > 0} fallback={<p class="py-4 opacity-70">No keyboard shortcuts.</p>}>
+        <For each={groups()}>
+          {(group) => (
+            <section class="mt-4">
+              <Show when={groups().length > 1}>
+                <h4 class="mb-1 text-sm font-semibold opacity-70">{group.label}</h4>
+              </Show>
+              <table class="table table-sm">
+                <tbody>
+                  <For each={group.hotkeys}>
+                    {(hotkey) => (
+                      <tr>
+                        <td>{hotkey.description}</td>
+                        <td class="text-right">
+                          <Kbd shortcut={hotkey.shortcut} platform={registry().platform} size="sm" />
+                        </td>
+                      </tr>
+                    )}
+                  </For>
+                </tbody>
+              </table>
+            </section>
+          )}
+        </For>
+      </Show>
+    </Modal>
+  );
+}
@@ -0,0 +1,28 @@
+import { JSX } from "solid-js";
+import { HotkeysOptions, createHotkeys } from "./hotkeys";
+import { HotkeysContext } from "./hotkeys-context";
+
+/**
+ * Props for the HotkeysProvider component.
+ *
+ * @property {JSX.Element} [children] - The content whose `useHotkey()` calls use this registry.
+ * @property {ShortcutPlatform} [platform] - Platform used to resolve `mod`. Defaults to the detected platform.
+ * @property {string[]} [scopes] - Initially active scopes.
+ * @property {EventTarget} [target] - Element or document that receives the key presses. Defaults to `document`.
+ */
+export interface HotkeysProviderProps extends HotkeysOptions {
+  children?: JSX.Element;
+}
+
+/**
+ * Provides its own hotkey registry to its children, e.g. for an embedded widget or
+ * tests. Without a provider, `useHotkey()` uses one global registry.
+ *
+ * @param {HotkeysProviderProps} props - The properties to configure the HotkeysProvider component.
+ * @returns {JSX.Element} The rendered HotkeysProvider component.
+ */
+export default function HotkeysProvider(props: HotkeysProviderProps): JSX.Element {
+  const registry = createHotkeys({ target: props.target, platform: props.platform, scopes: props.scopes });
+
+  return <HotkeysContext.Provider value={registry}>{props.children}</HotkeysContext.Provider>;
+}
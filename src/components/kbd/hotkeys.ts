@@ -0,0 +1,165 @@
+import { Accessor, createSignal, getOwner, onCleanup } from "solid-js";
+import { ParsedShortcut, ShortcutPlatform, detectPlatform, matchesShortcut, parseShortcut } from "./shortcut";
+
+/**
+ * Options for a single hotkey.
+ *
+ * @property {string} [description] - What the hotkey does. Hotkeys with a description are listed by HotkeysHelp.
+ * @property {string} [scope] - Scope of the hotkey. Scoped hotkeys only fire while their scope is active; hotkeys without a scope always fire.
+ * @property {() => boolean} [enabled] - Called on every key press; the hotkey is skipped while it returns false.
+ * @property {boolean} [allowInInputs] - If true, the hotkey also fires while typing in a text field.
+ * @property {boolean} [preventDefault] - If false, the browser default of the key press is kept. Defaults to true.
+ */
+export interface HotkeyOptions {
+  description?: string;
+  scope?: string;
+  enabled?: () => boolean;
+  allowInInputs?: boolean;
+  preventDefault?: boolean;
+}
+
+/**
+ * A registered hotkey, as listed by `hotkeys()`.
+ *
+ * @property {string} id - Unique ID of the registration.
+ * @property {string} shortcut - The shortcut, e.g. "mod+k".
+ * @property {string} [description] - What the hotkey does.
+ * @property {string} [scope] - Scope of the hotkey.
+ */
+export interface HotkeyInfo {
+  id: string;
+  shortcut: string;
+  description?: string;
+  scope?: string;
+}
+
+/**
+ * Options for `createHotkeys()`.
+ *
+ * @property {EventTarget} [target] - Element or document that receives the key presses. Defaults to `document`.
+ * @property {ShortcutPlatform} [platform] - Platform used to resolve `mod`. Defaults to the detected platform.
+ * @property {string[]} [scopes] - Initially active scopes.
+ */
+export interface HotkeysOptions {
+  target?: EventTarget;
+  platform?: ShortcutPlatform;
+  scopes?: string[];
+}
+
+/**
+ * A hotkey registry returned by `createHotkeys()`.
+ */
+export interface HotkeysRegistry {
+  /** Binds a shortcut and returns a function that removes it again. */
+  register: (shortcut: string, handler: (event: KeyboardEvent) => void, options?: HotkeyOptions) => () => void;
+  /** All registered hotkeys, in registration order. */
+  hotkeys: Accessor<HotkeyInfo[]>;
+  /** The active scopes, most recently activated last. */
+  scopes: Accessor<string[]>;
+  /** Activates a scope, giving its hotkeys priority over earlier scopes and unscoped hotkeys. */
+  activateScope: (scope: string) => void;
+  /** Deactivates a scope. */
+  deactivateScope: (scope: string) => void;
+  /** Platform used to resolve and print `mod`. */
+  platform: ShortcutPlatform;
+  /** Removes the key listener and every hotkey. */
+  dispose: () => void;
+}
+
+/**
+ * Internal state of a registered hotkey.
+ */
+interface HotkeyEntry extends HotkeyInfo {
+  parsed: ParsedShortcut;
+  handler: (event: KeyboardEvent) => void;
+  options: HotkeyOptions;
+}
+
+// Input types that do not take typed text, so hotkeys keep working while they are focused
+const nonTextInputTypes = ["checkbox", "radio", "button", "submit", "reset", "range", "color", "file", "image"];
+
+const isTyping = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLInputElement) return !nonTextInputTypes.includes(target.type);
+  return target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+};
+
+let nextId = 0;
+
+/**
+ * Creates a hotkey registry that listens for key presses and calls the handler of
+ * the matching hotkey. Only one hotkey fires per key press: hotkeys of the most
+ * recently activated scope come first, then earlier scopes, then unscoped hotkeys,
+ * and the latest registration wins within each. Key presses while typing in a text
+ * field are ignored unless the hotkey sets `allowInInputs`.
+ *
+ * When created inside a component or root, the registry is disposed with it.
+ *
+ * @param {HotkeysOptions} [options] - Options for the registry.
+ * @returns {HotkeysRegistry} The hotkey registry.
+ */
+export function createHotkeys(options: HotkeysOptions = {}): HotkeysRegistry {
+  const platform = options.platform ?? detectPlatform();
+  const target = options.target ?? (typeof document !== "undefined" ? document : undefined);
+
+  const [entries, setEntries] = createSignal<HotkeyEntry[]>([]);
+  const [scopes, setScopes] = createSignal<string[]>(options.scopes ?? []);
+
+  const priority = (entry: HotkeyEntry) => (entry.scope === undefined ? -1 : scopes().indexOf(entry.scope));
+
+  const handleKeyDown = (event: Event) => {
+    const keyboardEvent = event as KeyboardEvent;
+    const typing = isTyping(keyboardEvent.target);
+
+    const candidates = entries()
+      .filter((entry) => entry.scope === undefined || scopes().includes(entry.scope))
+      .filter((entry) => !typing || entry.options.allowInInputs)
+      .filter((entry) => entry.options.enabled?.() ?? true)
+      .filter((entry) => matchesShortcut(keyboardEvent, entry.parsed, platform));
+
+    const match = candidates.reverse().sort((a, b) => priority(b) - priority(a))[0];
+    if (!match) return;
+
+    if (match.options.preventDefault !== false) {
+      keyboardEvent.preventDefault();
+    }
+    match.handler(keyboardEvent);
+  };
+
+  target?.addEventListener("keydown", handleKeyDown);
+
+  const register = (shortcut: string, handler: (event: KeyboardEvent) => void, hotkeyOptions: HotkeyOptions = {}) => {
+    const entry: HotkeyEntry = {
+      id: `hotkey-${++nextId}`,
+      shortcut,
+      description: hotkeyOptions.description,
+      scope: hotkeyOptions.scope,
+      parsed: parseShortcut(shortcut),
+      handler,
+      options: hotkeyOptions,
+    };
+
+    setEntries((current) => [...current, entry]);
+    return () => setEntries((current) => current.filter((item) => item !== entry));
+  };
+
+  const dispose = () => {
+    target?.removeEventListener("keydown", handleKeyDown);
+    setEntries([]);
+  };
+
+  if (getOwner()) {
+    onCleanup(dispose);
+  }
+
+  return {
+    register,
+    hotkeys: () => entries().map(({ id, shortcut, description, scope }) => ({ id, shortcut, description, scope })),
+    scopes,
+    activateScope: (scope) => setScopes((current) => [...current.filter((item) => item !== scope), scope]),
+    deactivateScope: (scope) => setScopes((current) => current.filter((item) => item !== scope)),
+    platform,
+    dispose,
+  };
+}
@@ -0,0 +1,23 @@
+// Kbd components
+import Kbd from "./kbd";
+
+export { default as HotkeysProvider } from "./hotkeys-provider";
+export { default as HotkeysHelp } from "./hotkeys-help";
+
+// Export the hotkey registry and hooks
+export { createHotkeys } from "./hotkeys";
+export { useHotkeys, useHotkey } from "./hotkeys-context";
+export { parseShortcut, formatShortcut, matchesShortcut, detectPlatform } from "./shortcut";
+
+// Export types
+export type { KbdProps } from "./kbd";
+export type { HotkeysProviderProps } from "./hotkeys-provider";
+export type { HotkeysHelpProps } from "./hotkeys-help";
+export type { HotkeyOptions, HotkeyInfo, HotkeysOptions, HotkeysRegistry } from "./hotkeys";
+export type { ShortcutPlatform, ParsedShortcut } from "./shortcut";
+
+// Export the component as default
+export default Kbd;
+
+// Export the component for those who prefer named imports
+export { Kbd };
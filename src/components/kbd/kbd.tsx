@@ -0,0 +1,90 @@
+import { JSX, For, Show } from "solid-js";
+import { ShortcutPlatform, detectPlatform, formatShortcut } from "./shortcut";
+
+/**
+ * Props for the Kbd component.
+ *
+ * @property {JSX.Element} [children] - The key to display, e.g. "Esc". Ignored when `shortcut` is set.
+ * @property {string} [shortcut] - A shortcut such as "mod+shift+k", printed with the key symbols of the platform.
+ * @property {ShortcutPlatform} [platform] - Platform used to print `shortcut`. Defaults to the detected platform.
+ * @property {"xs" | "sm" | "md" | "lg" | "xl"} [size] - DaisyUI size variant of the keys.
+ * @property {string} [class] - Additional CSS classes to apply to the component.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface KbdProps {
+  children?: JSX.Element;
+  shortcut?: string;
+  platform?: ShortcutPlatform;
+  size?: "xs" | "sm" | "md" | "lg" | "xl";
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * Kbd component for displaying keyboard keys with DaisyUI styling.
+ *
+ * Renders a DaisyUI `kbd` element. With `shortcut`, each key of the shortcut is
+ * rendered as its own `kbd` inside an outer `kbd`, the HTML pattern for key
+ * combinations: "mod+shift+k" prints "⌘ ⇧ K" on macOS and "Ctrl + Shift + K"
+ * elsewhere. The symbols are hidden from screen readers, which read the spoken key
+ * names instead.
+ *
+ * @param {KbdProps} props - The properties to configure the Kbd component.
+ * @returns {JSX.Element} The rendered Kbd component.
+ */
+export default function Kbd(props: KbdProps): JSX.Element {
+  const platform = () => props.platform ?? detectPlatform();
+  const keys = () => (props.shortcut ? formatShortcut(props.shortcut, platform()) : []);
+
+  // Build classes following DaisyUI patterns
+  const keyClasses = () => {
+    const baseClasses: Record<string, boolean> = {
+      kbd: true,
+    };
+
+    // Add DaisyUI size classes
+    if (props.size) {
+      baseClasses[`kbd-${props.size}`] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = props.shortcut
+      ? { "inline-flex": true, "items-center": true, "gap-1": true }
+      : keyClasses();
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <kbd
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <Show when={props.shortcut} fallback={props.children}>
+        <For each={keys()}>
+          {(key, index) => (
+            <>
+              <Show when={index() > 0 && platform() !== "mac"}>
+                <span aria-hidden="true">+</span>
+              </Show>
+              <kbd classList={keyClasses()} aria-hidden="true">
+                {key.label}
+              </kbd>
+            </>
+          )}
+        </For>
+        <span class="sr-only">{keys().map((key) => key.name).join("+")}</span>
+      </Show>
+    </kbd>
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * Platform used to pick key symbols and the key behind `mod`.
+ */
+export type ShortcutPlatform = "mac" | "other";
+
+/**
+ * A keyboard shortcut such as "mod+shift+k", split into its modifiers and key.
+ *
+ * @property {string} key - The lowercase key name, e.g. "k", "enter" or "?".
+ * @property {boolean} mod - Command on macOS, Control elsewhere.
+ * @property {boolean} ctrl - Control on every platform.
+ * @property {boolean} meta - Command on macOS, the Windows key elsewhere.
+ * @property {boolean} alt - Option on macOS, Alt elsewhere.
+ * @property {boolean} shift - Shift on every platform.
+ */
+export interface ParsedShortcut {
+  key: string;
+  mod: boolean;
+  ctrl: boolean;
+  meta: boolean;
+  alt: boolean;
+  shift: boolean;
+}
+
+const modifierAliases: Record<string, "mod" | "ctrl" | "meta" | "alt" | "shift"> = {
+  mod: "mod",
+  ctrl: "ctrl",
+  control: "ctrl",
+  meta: "meta",
+  cmd: "meta",
+  command: "meta",
+  alt: "alt",
+  option: "alt",
+  opt: "alt",
+  shift: "shift",
+};
+
+const keyAliases: Record<string, string> = {
+  esc: "escape",
+  return: "enter",
+  del: "delete",
+  up: "arrowup",
+  down: "arrowdown",
+  left: "arrowleft",
+  right: "arrowright",
+  spacebar: "space",
+  " ": "space",
+  plus: "+",
+};
+
+// Symbols and spoken names, in the order modifiers are printed
+const modifierLabels = {
+  mac: {
+    ctrl: ["⌃", "Control"],
+    alt: ["⌥", "Option"],
+    shift: ["⇧", "Shift"],
+    meta: ["⌘", "Command"],
+  },
+  other: {
+    ctrl: ["Ctrl", "Control"],
+    alt: ["Alt", "Alt"],
+    shift: ["Shift", "Shift"],
+    meta: ["Win", "Windows"],
+  },
+} as const;
+
+const keyLabels: Record<string, { mac?: string; other?: string; name: string }> = {
+  enter: { mac: "↩", other: "Enter", name: "Enter" },
+  escape: { mac: "⎋", other: "Esc", name: "Escape" },
+  backspace: { mac: "⌫", other: "Backspace", name: "Backspace" },
+  delete: { mac: "⌦", other: "Del", name: "Delete" },
+  tab: { mac: "⇥", other: "Tab", name: "Tab" },
+  space: { mac: "Space", other: "Space", name: "Space" },
+  arrowup: { mac: "↑", other: "↑", name: "Up" },
+  arrowdown: { mac: "↓", other: "↓", name: "Down" },
+  arrowleft: { mac: "←", other: "←", name: "Left" },
+  arrowright: { mac: "→", other: "→", name: "Right" },
+};
+
+/**
+ * Detects whether the current platform is macOS or iOS, where `mod` means Command.
+ */
+export function detectPlatform(): ShortcutPlatform {
+  if (typeof navigator === "undefined") return "other";
+  return /Mac|iPhone|iPad|iPod/i.test(navigator.platform || navigator.userAgent) ? "mac" : "other";
+}
+
+/**
+ * Parses a shortcut such as "mod+shift+k" or "ctrl+alt+delete". Names are case-insensitive.
+ *
+ * @param {string} shortcut - Modifiers and one key, joined with "+".
+ * @returns {ParsedShortcut} The parsed shortcut.
+ */
+export function parseShortcut(shortcut: string): ParsedShortcut {
+  const parsed: ParsedShortcut = { key: "", mod: false, ctrl: false, meta: false, alt: false, shift: false };
+  const parts = shortcut.toLowerCase().split("+");
+
+  // A trailing "+" is the plus key itself, e.g. "mod++"
+  if (parts.length > 1 && parts[parts.length - 1] === "") {
+    parts.splice(-2, 2, "+");
+  }
+
+  parts.forEach((part, index) => {
+    const name = part.trim() || part;
+    const modifier = modifierAliases[name];
+    if (modifier && index < parts.length - 1) {
+      parsed[modifier] = true;
+    } else {
+      parsed.key = keyAliases[name] ?? name;
+    }
+  });
+
+  return parsed;
+}
+
+/**
+ * Splits a shortcut into the labels of its keys for the given platform, e.g.
+ * `["⌘", "⇧", "K"]` on macOS and `["Ctrl", "Shift", "K"]` elsewhere.
+ *
+ * @param {string} shortcut - The shortcut to format.
+ * @param {ShortcutPlatform} [platform] - Defaults to the detected platform.
+ * @returns {{ label: string; name: string }[]} Printed label and spoken name of each key.
+ */
+export function formatShortcut(
+  shortcut: string,
+  platform: ShortcutPlatform = detectPlatform()
+): { label: string; name: string }[] {
+  const parsed = parseShortcut(shortcut);
+  const labels = modifierLabels[platform];
+  const keys: { label: string; name: string }[] = [];
+
+  const ctrl = parsed.ctrl || (parsed.mod && platform !== "mac");
+  const meta = parsed.meta || (parsed.mod && platform === "mac");
+
+  if (ctrl) keys.push({ label: labels.ctrl[0], name: labels.ctrl[1] });
+  if (parsed.alt) keys.push({ label: labels.alt[0], name: labels.alt[1] });
+  if (parsed.shift) keys.push({ label: labels.shift[0], name: labels.shift[1] });
+  if (meta) keys.push({ label: labels.meta[0], name: labels.meta[1] });
+
+  if (parsed.key) {
+    const known = keyLabels[parsed.key];
+    if (known) {
+      keys.push({ label: known[platform] ?? known.name, name: known.name });
+    } else {
+      const label = parsed.key.length === 1 ? parsed.key.toUpperCase() : parsed.key[0].toUpperCase() + parsed.key.slice(1);
+      keys.push({ label, name: label });
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Checks whether a keyboard event matches a shortcut. Modifiers must match exactly,
+ * except that Shift is ignored for symbol keys such as "?" that need it to be typed.
+ *
+ * @param {KeyboardEvent} event - The keyboard event.
+ * @param {ParsedShortcut} shortcut - The parsed shortcut.
+ * @param {ShortcutPlatform} [platform] - Defaults to the detected platform.
+ * @returns {boolean} True if the event matches.
+ */
+export function matchesShortcut(
+  event: KeyboardEvent,
+  shortcut: ParsedShortcut,
+  platform: ShortcutPlatform = detectPlatform()
+): boolean {
+  const ctrl = shortcut.ctrl || (shortcut.mod && platform !== "mac");
+  const meta = shortcut.meta || (shortcut.mod && platform === "mac");
+
+  if (event.ctrlKey !== ctrl || event.metaKey !== meta || event.altKey !== shortcut.alt) {
+    return false;
+  }
+
+  const isSymbol = shortcut.key.length === 1 && !/[a-z0-9]/.test(shortcut.key);
+  if (!isSymbol && event.shiftKey !== shortcut.shift) {
+    return false;
+  }
+
+  const key = event.key.toLowerCase();
+  if ((keyAliases[key] ?? key) === shortcut.key) {
+    return true;
+  }
+
+  // Alt and Shift change the typed character, so fall back to the physical key
+  if (/^[a-z]$/.test(shortcut.key)) return event.code === `Key${shortcut.key.toUpperCase()}`;
+  if (/^[0-9]$/.test(shortcut.key)) return event.code === `Digit${shortcut.key}`;
+  return false;
+}
@@ -1,4 +1,5 @@
 import { JSX } from "solid-js";
+import { DrawerContent } from "../drawer";
 import { useLayoutContext } from "./layout";
 
 /**
@@ -37,9 +38,7 @@ export default function LayoutContent(props: LayoutContentProps): JSX.Element {
     };
 
     // Apply variant-specific classes
-    if (context.variant === "left" || context.variant === "right") {
-      baseClasses["drawer-content"] = true;
-    } else if (context.variant === "top") {
+    if (context.variant === "top") {
       baseClasses["pt-16"] = true; // Account for fixed navbar
     } else if (context.variant === "bottom") {
       baseClasses["pb-16"] = true; // Account for fixed navbar
@@ -53,7 +52,7 @@ export default function LayoutContent(props: LayoutContentProps): JSX.Element {
     return baseClasses;
   };
 
-  return (
+  const main = () => (
     <main
       classList={{
         ...classes(),
@@ -64,4 +63,11 @@ export default function LayoutContent(props: LayoutContentProps): JSX.Element {
       {props.children}
     </main>
   );
-}
\ No newline at end of file
+
+  // Drawer variants place the main area in the drawer content
+  if (context.variant === "left" || context.variant === "right") {
+    return <DrawerContent class="flex flex-col">{main()}</DrawerContent>;
+  }
+
+  return main();
+}
@@ -1,4 +1,5 @@
 import { JSX } from "solid-js";
+import { DrawerOverlay, DrawerSide } from "../drawer";
 import { useLayoutContext } from "./layout";
 
 /**
@@ -34,9 +35,7 @@ export default function LayoutNav(props: LayoutNavProps): JSX.Element {
     const baseClasses: Record<string, boolean> = {};
 
     // Apply variant-specific classes
-    if (context.variant === "left" || context.variant === "right") {
-      baseClasses["drawer-side"] = true;
-    } else if (context.variant === "top" || context.variant === "bottom") {
+    if (context.variant === "top" || context.variant === "bottom") {
       baseClasses["navbar"] = true;
       baseClasses["bg-base-100"] = true;
       baseClasses["shadow-lg"] = true;
@@ -60,23 +59,17 @@ export default function LayoutNav(props: LayoutNavProps): JSX.Element {
   // Render different structures based on variant
   if (context.variant === "left" || context.variant === "right") {
     return (
-      <>
-        <aside
-          classList={{
-            ...classes(),
-            ...props.classList,
-          }}
-        >
-          <label 
-            for="layout-drawer-toggle" 
-            aria-label="close sidebar"
-            class="drawer-overlay"
-          ></label>
-          <ul class="menu p-4 w-80 min-h-full bg-base-200 text-base-content">
-            {props.children}
-          </ul>
-        </aside>
-      </>
+      <DrawerSide
+        classList={{
+          ...classes(),
+          ...props.classList,
+        }}
+      >
+        <DrawerOverlay aria-label="close sidebar" />
+        <ul class="menu p-4 w-80 min-h-full bg-base-200 text-base-content">
+          {props.children}
+        </ul>
+      </DrawerSide>
     );
   }
 
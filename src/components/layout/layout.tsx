@@ -1,4 +1,5 @@
 import { JSX, createSignal, createContext, useContext } from "solid-js";
+import Drawer from "../drawer";
 
 /**
  * Layout variant determines the navigation position and overall layout structure.
@@ -35,7 +36,7 @@ export function useLayoutContext() {
  * @property {string} [class] - Additional CSS classes to apply to the layout.
  * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
  * @property {LayoutVariant} [variant] - The navigation position: "top", "left", "right", or "bottom". Defaults to "left".
- * @property {boolean} [responsive] - If true, automatically collapses navigation on mobile devices.
+ * @property {boolean} [responsive] - If true, drawer navigation stays open from the lg breakpoint and becomes an overlay below it. Always the case for the left variant.
  */
 export interface LayoutProps {
   children?: JSX.Element;
@@ -53,35 +54,35 @@ export interface LayoutProps {
  * Supports compound component pattern with Layout.Nav, Layout.NavItem, Layout.Content,
  * etc. for flexible composition while maintaining consistent state management.
  *
+ * Left and right variants are built on the Drawer component, so the navigation gets
+ * its focus trap, Escape handling and scroll lock while shown as an overlay.
+ *
  * @param {LayoutProps} props - The properties to configure the Layout component.
  * @returns {JSX.Element} The rendered Layout component.
  */
 export default function Layout(props: LayoutProps): JSX.Element {
-  const [isNavCollapsed, setNavCollapsed] = createSignal(false);
-  
   const variant = () => props.variant ?? "left";
   
+  const isDrawerVariant = () => variant() === "left" || variant() === "right";
+
+  const persistent = () => (variant() === "left" || props.responsive ? "lg" : undefined);
+
+  // Drawer navigation starts closed, unless it sits beside the content at the current viewport
+  const isPersistentOnMount = () =>
+    persistent() !== undefined &&
+    typeof window !== "undefined" &&
+    typeof window.matchMedia === "function" &&
+    window.matchMedia("(min-width: 1024px)").matches;
+
+  const [isNavCollapsed, setNavCollapsed] = createSignal(isDrawerVariant() && !isPersistentOnMount());
+
   // Build classes following DaisyUI patterns
   const classes = () => {
     const baseClasses: Record<string, boolean> = {
-      // Use appropriate DaisyUI classes based on variant
-      drawer: variant() === "left" || variant() === "right",
-      "navbar-container": variant() === "top" || variant() === "bottom",
+      "navbar-container": !isDrawerVariant(),
       "min-h-screen": true,
     };
 
-    // Add variant-specific classes
-    if (variant() === "left") {
-      baseClasses["drawer-mobile"] = true;
-    } else if (variant() === "right") {
-      baseClasses["drawer-end"] = true;
-    }
-
-    // Add responsive classes
-    if (props.responsive) {
-      baseClasses["drawer-mobile"] = true;
-    }
-
     // Add custom class if provided
     if (props.class) {
       baseClasses[props.class] = true;
@@ -98,24 +99,31 @@ export default function Layout(props: LayoutProps): JSX.Element {
 
   return (
     <LayoutContext.Provider value={contextValue}>
-      <div
-        classList={{
-          ...classes(),
-          ...props.classList,
-        }}
-      >
-        {/* Drawer input for proper DaisyUI drawer functionality */}
-        {(variant() === "left" || variant() === "right") && (
-          <input 
-            id="layout-drawer-toggle" 
-            type="checkbox" 
-            class="drawer-toggle" 
-            checked={!isNavCollapsed()}
-            onChange={(e) => setNavCollapsed(!e.target.checked)}
-          />
-        )}
-        {props.children}
-      </div>
+      {isDrawerVariant() ? (
+        // Left and right navigation is a drawer that stays open from the lg breakpoint
+        <Drawer
+          id="layout-drawer-toggle"
+          open={!isNavCollapsed()}
+          onOpenChange={(open) => setNavCollapsed(!open)}
+          end={variant() === "right"}
+          persistent={persistent()}
+          classList={{
+            ...classes(),
+            ...props.classList,
+          }}
+        >
+          {props.children}
+        </Drawer>
+      ) : (
+        <div
+          classList={{
+            ...classes(),
+            ...props.classList,
+          }}
+        >
+          {props.children}
+        </div>
+      )}
     </LayoutContext.Provider>
   );
-}
\ No newline at end of file
+}
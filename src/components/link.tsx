@@ -1,4 +1,5 @@
-import { JSX, createMemo } from "solid-js";
+import { JSX, createMemo, splitProps } from "solid-js";
+import { A, useLocation, useSearchParams } from "@solidjs/router";
 
 /**
  * Utility function to determine if a link is internal (should use router) or external (use regular anchor).
@@ -37,40 +38,56 @@ function isInternalLink(href?: string): boolean {
 }
 
 /**
- * Cached router A component to avoid repeated import attempts
+ * Hook returning the SolidJS Router location when the component is rendered inside a
+ * Router, or undefined otherwise. The Link component uses it to detect the router.
+ *
+ * @returns {{ pathname: string; search: string } | undefined} The reactive router location.
  */
-let cachedRouterA: any = undefined;
-let routerChecked = false;
+export function useRouterLocation(): { readonly pathname: string; readonly search: string } | undefined {
+  try {
+    return useLocation();
+  } catch {
+    // Rendered outside a Router
+    return undefined;
+  }
+}
+
+// Strip query and hash, and trailing slashes except for the root
+const normalizePath = (path: string) => path.split(/[?#]/)[0].replace(/(.)\/+$/, "$1");
 
 /**
- * Try to get the SolidJS Router A component if available.
- * Since @solidjs/router is a peer dependency, we check if it's available at runtime.
+ * Hook returning a function that tells whether an href matches the active route.
+ * The route is `activePath` when set, or the SolidJS Router location otherwise. Query,
+ * hash and trailing slashes are ignored. The function returns undefined when there is
+ * no href or no known route, so callers can fall back to their own active state.
+ *
+ * @param {() => string | undefined} activePath - Accessor of a path that overrides the router location.
+ * @returns {(href?: string) => boolean | undefined} Function matching an href against the active route.
  */
-function getRouterA(): any {
-  if (routerChecked) {
-    return cachedRouterA;
-  }
-  
+export function useActiveRoute(activePath: () => string | undefined): (href?: string) => boolean | undefined {
+  const location = useRouterLocation();
+
+  return (href) => {
+    const path = activePath() ?? location?.pathname;
+    if (!href || path === undefined) return undefined;
+    return normalizePath(href) === normalizePath(path);
+  };
+}
+
+/**
+ * Hook returning the SolidJS Router search params and their setter when the component
+ * is rendered inside a Router, or undefined otherwise.
+ *
+ * @returns {[Record<string, string | string[] | undefined>, (params: Record<string, string | undefined>) => void] | undefined} The reactive search params and setter.
+ */
+export function useRouterSearchParams():
+  | [Record<string, string | string[] | undefined>, (params: Record<string, string | undefined>) => void]
+  | undefined {
   try {
-    // Try to import the A component from @solidjs/router
-    // Using dynamic require to avoid build-time dependency resolution
-    const routerModule = eval('(() => { try { return require("@solidjs/router"); } catch { return null; } })()');
-    
-    if (routerModule && routerModule.A) {
-      cachedRouterA = routerModule.A;
-      routerChecked = true;
-      return cachedRouterA;
-    }
-    
-    // Router not available or doesn't have A component
-    cachedRouterA = null;
-    routerChecked = true;
-    return null;
+    return useSearchParams();
   } catch {
-    // Router not available, graceful fallback
-    cachedRouterA = null;
-    routerChecked = true;
-    return null;
+    // Rendered outside a Router
+    return undefined;
   }
 }
 
@@ -131,25 +148,24 @@ export interface LinkProps {
  * @returns {JSX.Element} The rendered Link component.
  */
 export default function Link(props: LinkProps): JSX.Element {
-  // Extract known props and separate additional props
-  const {
-    children,
-    class: className,
-    classList,
-    variant,
-    hover,
-    underline,
-    href,
-    target,
-    rel,
-    disabled,
-    tabIndex,
-    "aria-label": ariaLabel,
-    "aria-describedby": ariaDescribedBy,
-    role: roleProp,
-    onClick,
-    ...additionalProps
-  } = props;
+  // Separate known props from additional props, keeping both reactive
+  const [local, additionalProps] = splitProps(props, [
+    "children",
+    "class",
+    "classList",
+    "variant",
+    "hover",
+    "underline",
+    "href",
+    "target",
+    "rel",
+    "disabled",
+    "tabIndex",
+    "aria-label",
+    "aria-describedby",
+    "role",
+    "onClick",
+  ]);
 
   // Build classes following DaisyUI patterns
   const classes = () => {
@@ -158,23 +174,23 @@ export default function Link(props: LinkProps): JSX.Element {
     };
 
     // Add official DaisyUI color variant classes
-    if (variant) {
-      baseClasses[`link-${variant}`] = true;
+    if (local.variant) {
+      baseClasses[`link-${local.variant}`] = true;
     }
 
     // Add official DaisyUI hover class
-    if (hover) {
+    if (local.hover) {
       baseClasses["link-hover"] = true;
     }
 
     // Add no-underline class when underline is explicitly false
-    if (underline === false) {
+    if (local.underline === false) {
       baseClasses["no-underline"] = true;
     }
 
     // Add custom class if provided
-    if (className) {
-      baseClasses[className] = true;
+    if (local.class) {
+      baseClasses[local.class] = true;
     }
 
     return baseClasses;
@@ -182,97 +198,91 @@ export default function Link(props: LinkProps): JSX.Element {
 
   // Handle security for external links
   const computedRel = createMemo(() => {
-    if (target === "_blank") {
+    if (local.target === "_blank") {
       const securityRel = "noopener noreferrer";
-      if (rel) {
-        return `${rel} ${securityRel}`;
+      if (local.rel) {
+        return `${local.rel} ${securityRel}`;
       }
       return securityRel;
     }
-    return rel;
+    return local.rel;
   });
 
   // Handle click events with proper event handling and keyboard support
   const handleClick = (event: MouseEvent) => {
-    if (disabled) {
+    if (local.disabled) {
       event.preventDefault();
       event.stopPropagation();
       return;
     }
     
-    onClick?.(event);
+    local.onClick?.(event);
   };
 
   // Handle keyboard events for accessibility
   const handleKeyDown = (event: KeyboardEvent) => {
-    if (disabled) {
+    if (local.disabled) {
       return;
     }
 
-    if (event.key === 'Enter' || event.key === ' ') {
+    // Enter follows a link with href natively and fires a click, so only Space is handled there
+    if (event.key === ' ' || (event.key === 'Enter' && !local.href)) {
       event.preventDefault();
       // Call onClick handler directly with the keyboard event
-      onClick?.(event);
+      local.onClick?.(event);
     }
   };
 
   // Determine accessibility attributes
-  const role = roleProp ?? (href ? "link" : "button");
-  const computedTabIndex = disabled ? -1 : (tabIndex ?? 0);
-
-  // Common props for router component
-  const routerProps = {
-    href: href,
-    role: role,
-    tabindex: computedTabIndex,
-    "aria-disabled": disabled ? "true" as const : undefined,
-    "aria-label": ariaLabel,
-    "aria-describedby": ariaDescribedBy,
-    onClick: handleClick,
-    onKeyDown: handleKeyDown,
-    classList: {
-      ...classes(),
-      ...classList,
-    },
-    ...additionalProps, // Spread additional props
-  };
-
-  // Common props for regular anchor
-  const anchorProps = {
-    href: href,
-    target: target,
-    rel: computedRel(),
-    role: role as any, // Allow any role value for accessibility purposes
-    tabindex: computedTabIndex,
-    "aria-disabled": disabled ? "true" as const : undefined,
-    "aria-label": ariaLabel,
-    "aria-describedby": ariaDescribedBy,
-    onClick: handleClick,
-    onKeyDown: handleKeyDown,
-    classList: {
-      ...classes(),
-      ...classList,
-    },
-    ...additionalProps, // Spread additional props
-  };
+  const role = () => local.role ?? (local.href ? "link" : "button");
+  const computedTabIndex = () => (local.disabled ? -1 : (local.tabIndex ?? 0));
 
-  // Determine if we should use router A component or regular anchor
-  const RouterA = getRouterA();
-  const shouldUseRouter = RouterA && href && isInternalLink(href);
+  // Use the router A component for internal links rendered inside a Router
+  const shouldUseRouter = useRouterLocation() !== undefined && local.href && isInternalLink(local.href);
 
   if (shouldUseRouter) {
     // Use SolidJS Router A component for internal navigation
     return (
-      <RouterA {...routerProps}>
-        {children}
-      </RouterA>
+      <A
+        href={local.href!}
+        role={role() as any}
+        tabindex={computedTabIndex()}
+        aria-disabled={local.disabled ? "true" : undefined}
+        aria-label={local["aria-label"]}
+        aria-describedby={local["aria-describedby"]}
+        onClick={handleClick}
+        onKeyDown={handleKeyDown}
+        classList={{
+          ...classes(),
+          ...local.classList,
+        }}
+        {...additionalProps}
+      >
+        {local.children}
+      </A>
     );
   }
 
   // Use regular anchor tag for external links, no href, or when router is not available
   return (
-    <a {...anchorProps}>
-      {children}
+    <a
+      href={local.href}
+      target={local.target}
+      rel={computedRel()}
+      role={role() as any} // Allow any role value for accessibility purposes
+      tabindex={computedTabIndex()}
+      aria-disabled={local.disabled ? "true" : undefined}
+      aria-label={local["aria-label"]}
+      aria-describedby={local["aria-describedby"]}
+      onClick={handleClick}
+      onKeyDown={handleKeyDown}
+      classList={{
+        ...classes(),
+        ...local.classList,
+      }}
+      {...additionalProps}
+    >
+      {local.children}
     </a>
   );
 }
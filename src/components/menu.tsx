@@ -1,4 +0,0 @@
-// Menu component
-export default function Menu() {
-  return <div>Menu Component</div>;
-}
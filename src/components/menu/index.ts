@@ -0,0 +1,30 @@
+// Menu components
+import MenuComponent from "./menu";
+import MenuItem from "./menu-item";
+import MenuTitle from "./menu-title";
+import MenuSubmenu from "./menu-submenu";
+
+// Export types
+export type { MenuProps, MenuItemData } from "./menu";
+export type { MenuItemProps } from "./menu-item";
+export type { MenuTitleProps } from "./menu-title";
+export type { MenuSubmenuProps } from "./menu-submenu";
+export type { MenuContextValue } from "./menu-context";
+
+// Create compound component with attached sub-components
+const Menu = MenuComponent as typeof MenuComponent & {
+  Item: typeof MenuItem;
+  Title: typeof MenuTitle;
+  Submenu: typeof MenuSubmenu;
+};
+
+// Attach sub-components to main Menu component
+Menu.Item = MenuItem;
+Menu.Title = MenuTitle;
+Menu.Submenu = MenuSubmenu;
+
+// Export the compound component as default
+export default Menu;
+
+// Export individual components for those who prefer direct imports
+export { Menu, MenuItem, MenuTitle, MenuSubmenu };
@@ -0,0 +1,21 @@
+import { createContext, useContext } from "solid-js";
+
+/**
+ * Menu context for sharing active-route state between Menu sub-components.
+ */
+export interface MenuContextValue {
+  isActive: (href?: string) => boolean;
+}
+
+export const MenuContext = createContext<MenuContextValue>();
+
+/**
+ * Hook to access menu context
+ */
+export function useMenuContext(): MenuContextValue {
+  const context = useContext(MenuContext);
+  if (!context) {
+    throw new Error("Menu sub-components must be used within a Menu component");
+  }
+  return context;
+}
@@ -0,0 +1,81 @@
+import { JSX, Show } from "solid-js";
+import Link from "../link";
+import { useMenuContext } from "./menu-context";
+
+/**
+ * Props for the MenuItem component.
+ *
+ * @property {JSX.Element} [children] - The item label.
+ * @property {JSX.Element} [icon] - Optional icon shown before the label.
+ * @property {string} [href] - URL of the item. Rendered with the Link component, so router links work.
+ * @property {string} [target] - Where to open the linked URL.
+ * @property {boolean} [active] - Forces the active state. Defaults to matching `href` against the current route.
+ * @property {boolean} [disabled] - If true, the item cannot be selected.
+ * @property {(event: MouseEvent | KeyboardEvent) => void} [onClick] - Click handler, also called on Enter and Space.
+ * @property {string} [class] - Additional CSS classes to apply to the list item.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface MenuItemProps {
+  children?: JSX.Element;
+  icon?: JSX.Element;
+  href?: string;
+  target?: string;
+  active?: boolean;
+  disabled?: boolean;
+  onClick?: (event: MouseEvent | KeyboardEvent) => void;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * MenuItem component for a single entry of a Menu.
+ *
+ * Renders a `li` with a Link using `role="menuitem"`. The item is marked active when
+ * `active` is set or when its `href` matches the current route, and disabled items
+ * get `menu-disabled` and `aria-disabled`.
+ *
+ * @param {MenuItemProps} props - The properties to configure the MenuItem component.
+ * @returns {JSX.Element} The rendered MenuItem component.
+ */
+export default function MenuItem(props: MenuItemProps): JSX.Element {
+  const context = useMenuContext();
+
+  const isActive = () => props.active ?? context.isActive(props.href);
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {};
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <li
+      role="none"
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <Link
+        href={props.disabled ? undefined : props.href}
+        target={props.target}
+        role="menuitem"
+        tabIndex={-1}
+        underline={false}
+        disabled={props.disabled}
+        onClick={props.onClick}
+        classList={{ "menu-disabled": !!props.disabled, "menu-active": isActive(), link: false }}
+        aria-current={isActive() && props.href ? "page" : undefined}
+      >
+        <Show when={props.icon}>{props.icon}</Show>
+        {props.children}
+      </Link>
+    </li>
+  );
+}
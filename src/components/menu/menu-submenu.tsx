@@ -0,0 +1,102 @@
+import { JSX, Show, createSignal } from "solid-js";
+
+/**
+ * Props for the MenuSubmenu component.
+ *
+ * @property {JSX.Element} label - The label of the submenu toggle.
+ * @property {JSX.Element} [icon] - Optional icon shown before the label.
+ * @property {JSX.Element} [children] - The nested MenuItem, MenuTitle and MenuSubmenu elements.
+ * @property {boolean} [open] - Whether the submenu is expanded (controlled mode).
+ * @property {boolean} [defaultOpen] - Whether the submenu is initially expanded (uncontrolled mode).
+ * @property {(open: boolean) => void} [onOpenChange] - Callback fired when the submenu is expanded or collapsed.
+ * @property {boolean} [disabled] - If true, the submenu cannot be toggled.
+ * @property {string} [class] - Additional CSS classes to apply to the list item.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface MenuSubmenuProps {
+  label: JSX.Element;
+  icon?: JSX.Element;
+  children?: JSX.Element;
+  open?: boolean;
+  defaultOpen?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  disabled?: boolean;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * MenuSubmenu component for collapsible groups inside a Menu.
+ *
+ * Uses a native `<details>` element, so the group collapses without JavaScript and
+ * shows as a dropdown in horizontal menus. The `summary` is a `menuitem` that
+ * reports its state with `aria-expanded`.
+ *
+ * @param {MenuSubmenuProps} props - The properties to configure the MenuSubmenu component.
+ * @returns {JSX.Element} The rendered MenuSubmenu component.
+ */
+export default function MenuSubmenu(props: MenuSubmenuProps): JSX.Element {
+  const [internalOpen, setInternalOpen] = createSignal(props.defaultOpen ?? false);
+
+  const isOpen = () => props.open ?? internalOpen();
+
+  const handleToggle = (event: Event & { currentTarget: HTMLDetailsElement }) => {
+    const open = event.currentTarget.open;
+    if (open === isOpen()) return;
+
+    if (props.disabled) {
+      event.currentTarget.open = isOpen();
+      return;
+    }
+
+    if (props.open === undefined) {
+      setInternalOpen(open);
+    }
+    props.onOpenChange?.(open);
+
+    // Keep the element in sync when a controlled change is not applied
+    if (event.currentTarget.open !== isOpen()) {
+      event.currentTarget.open = isOpen();
+    }
+  };
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {};
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <li
+      role="none"
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <details open={isOpen()} onToggle={handleToggle}>
+        <summary
+          role="menuitem"
+          tabIndex={-1}
+          aria-haspopup="menu"
+          aria-expanded={isOpen()}
+          aria-disabled={props.disabled ? "true" : undefined}
+          classList={{ "menu-disabled": !!props.disabled }}
+          onClick={(event) => {
+            if (props.disabled) event.preventDefault();
+          }}
+        >
+          <Show when={props.icon}>{props.icon}</Show>
+          {props.label}
+        </summary>
+        <ul role="menu">{props.children}</ul>
+      </details>
+    </li>
+  );
+}
@@ -0,0 +1,49 @@
+import { JSX } from "solid-js";
+
+/**
+ * Props for the MenuTitle component.
+ *
+ * @property {JSX.Element} [children] - The title content.
+ * @property {string} [class] - Additional CSS classes to apply to the title.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface MenuTitleProps {
+  children?: JSX.Element;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * MenuTitle component for section headings inside a Menu.
+ * Titles are presentational and skipped by keyboard navigation.
+ *
+ * @param {MenuTitleProps} props - The properties to configure the MenuTitle component.
+ * @returns {JSX.Element} The rendered MenuTitle component.
+ */
+export default function MenuTitle(props: MenuTitleProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "menu-title": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <li
+      role="presentation"
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      {props.children}
+    </li>
+  );
+}
@@ -0,0 +1,259 @@
+import { JSX, For, Show, createEffect, onMount } from "solid-js";
+import { useActiveRoute } from "../link";
+import { MenuContext, MenuContextValue } from "./menu-context";
+import MenuItem from "./menu-item";
+import MenuSubmenu from "./menu-submenu";
+import MenuTitle from "./menu-title";
+
+/**
+ * An entry of a data-driven Menu.
+ *
+ * @property {JSX.Element} label - The label of the entry.
+ * @property {"item" | "title"} [type] - "title" renders a MenuTitle. Defaults to "item".
+ * @property {JSX.Element} [icon] - Optional icon shown before the label.
+ * @property {string} [href] - URL of the item.
+ * @property {string} [target] - Where to open the linked URL.
+ * @property {boolean} [active] - Forces the active state.
+ * @property {boolean} [disabled] - If true, the entry cannot be selected.
+ * @property {boolean} [open] - Whether a submenu is initially expanded. Defaults to true when it contains the active item.
+ * @property {(event: MouseEvent | KeyboardEvent) => void} [onClick] - Click handler of the item.
+ * @property {MenuItemData[]} [items] - Nested entries, rendered as a collapsible submenu.
+ */
+export interface MenuItemData {
+  label: JSX.Element;
+  type?: "item" | "title";
+  icon?: JSX.Element;
+  href?: string;
+  target?: string;
+  active?: boolean;
+  disabled?: boolean;
+  open?: boolean;
+  onClick?: (event: MouseEvent | KeyboardEvent) => void;
+  items?: MenuItemData[];
+}
+
+/**
+ * Props for the Menu component.
+ *
+ * @property {MenuItemData[]} [items] - Entries to render. Can be combined with children.
+ * @property {JSX.Element} [children] - MenuItem, MenuTitle and MenuSubmenu elements.
+ * @property {"horizontal" | "vertical"} [orientation] - Layout direction of the menu. Defaults to "vertical".
+ * @property {"xs" | "sm" | "md" | "lg" | "xl"} [size] - The size of the menu.
+ * @property {string} [activePath] - Path used to pick the active item. Defaults to the router location when @solidjs/router is available.
+ * @property {string} [class] - Additional CSS classes to apply to the menu.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the menu.
+ * @property {string} [aria-labelledby] - ID of the element that labels the menu.
+ */
+export interface MenuProps {
+  items?: MenuItemData[];
+  children?: JSX.Element;
+  orientation?: "horizontal" | "vertical";
+  size?: "xs" | "sm" | "md" | "lg" | "xl";
+  activePath?: string;
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+  "aria-labelledby"?: string;
+}
+
+// Menu items that are currently visible, i.e. not inside a collapsed submenu
+const getVisibleItems = (menu: HTMLElement): HTMLElement[] =>
+  Array.from(menu.querySelectorAll<HTMLElement>('[role="menuitem"]')).filter((item) => {
+    for (let details = item.closest("details"); details; details = details.parentElement?.closest("details") ?? null) {
+      if (!details.open && item.parentElement !== details) return false;
+    }
+    return true;
+  });
+
+/**
+ * Menu component for vertical or horizontal navigation lists with DaisyUI styling.
+ *
+ * Accepts an `items` tree or MenuItem, MenuTitle and MenuSubmenu children. Items render
+ * with the Link component, so internal links use the router when it is installed, and
+ * the active item is picked from the router location (or `activePath`). Submenus
+ * containing the active item start expanded.
+ *
+ * The menu uses `menu`/`menuitem` roles with a roving tabindex: only one item is in
+ * the tab order, arrow keys move between visible items, Home and End jump to the ends,
+ * and the cross-axis arrow keys expand and collapse submenus.
+ *
+ * @param {MenuProps} props - The properties to configure the Menu component.
+ * @returns {JSX.Element} The rendered Menu component.
+ */
+export default function Menu(props: MenuProps): JSX.Element {
+  let menuRef: HTMLUListElement | undefined;
+
+  const isActiveRoute = useActiveRoute(() => props.activePath);
+
+  const orientation = () => props.orientation ?? "vertical";
+  const isActive = (href?: string) => isActiveRoute(href) ?? false;
+
+  const containsActive = (item: MenuItemData): boolean =>
+    !!item.items?.some((child) => child.active ?? (isActive(child.href) || containsActive(child)));
+
+  const contextValue: MenuContextValue = {
+    isActive,
+  };
+
+  // Make a single item tabbable
+  const setTabStop = (target: HTMLElement) => {
+    if (!menuRef) return;
+    menuRef.querySelectorAll<HTMLElement>('[role="menuitem"]').forEach((item) => {
+      item.tabIndex = item === target ? 0 : -1;
+    });
+  };
+
+  const resetTabStop = () => {
+    if (!menuRef) return;
+    const items = getVisibleItems(menuRef).filter((item) => item.getAttribute("aria-disabled") !== "true");
+    if (items.length === 0 || items.some((item) => item.tabIndex === 0)) return;
+    setTabStop(items.find((item) => item.classList.contains("menu-active")) ?? items[0]);
+  };
+
+  onMount(resetTabStop);
+
+  // New items render outside the tab order
+  createEffect(() => {
+    void props.items;
+    queueMicrotask(resetTabStop);
+  });
+
+  const focusItem = (item: HTMLElement | undefined) => {
+    if (!item) return;
+    setTabStop(item);
+    item.focus();
+  };
+
+  const handleFocusIn = (event: FocusEvent) => {
+    const target = event.target as HTMLElement;
+    if (target.getAttribute("role") === "menuitem") {
+      setTabStop(target);
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (!menuRef) return;
+    const current = (event.target as HTMLElement).closest<HTMLElement>('[role="menuitem"]');
+    if (!current) return;
+
+    const items = getVisibleItems(menuRef).filter((item) => item.getAttribute("aria-disabled") !== "true");
+    const index = items.indexOf(current);
+    const horizontal = orientation() === "horizontal";
+    const nextKey = horizontal ? "ArrowRight" : "ArrowDown";
+    const prevKey = horizontal ? "ArrowLeft" : "ArrowUp";
+    const openKey = horizontal ? "ArrowDown" : "ArrowRight";
+    const closeKey = horizontal ? "ArrowUp" : "ArrowLeft";
+
+    const details = current.parentElement instanceof HTMLDetailsElement ? current.parentElement : undefined;
+    const parentDetails = current.closest("ul")?.closest("details");
+
+    switch (event.key) {
+      case nextKey:
+        event.preventDefault();
+        focusItem(items[(index + 1) % items.length]);
+        break;
+      case prevKey:
+        event.preventDefault();
+        focusItem(items[(index - 1 + items.length) % items.length]);
+        break;
+      case "Home":
+        event.preventDefault();
+        focusItem(items[0]);
+        break;
+      case "End":
+        event.preventDefault();
+        focusItem(items[items.length - 1]);
+        break;
+      case openKey:
+        if (details && current.getAttribute("aria-disabled") !== "true") {
+          event.preventDefault();
+          details.open = true;
+          focusItem(getVisibleItems(details).find((item) => item !== current));
+        }
+        break;
+      case closeKey:
+        if (details?.open) {
+          event.preventDefault();
+          details.open = false;
+        } else if (parentDetails) {
+          event.preventDefault();
+          parentDetails.open = false;
+          focusItem(parentDetails.querySelector<HTMLElement>(":scope > summary") ?? undefined);
+        }
+        break;
+    }
+  };
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      menu: true,
+    };
+
+    // Add DaisyUI orientation classes
+    baseClasses[`menu-${orientation()}`] = true;
+
+    // Add DaisyUI size classes
+    if (props.size) {
+      baseClasses[`menu-${props.size}`] = true;
+    }
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const renderItem = (item: MenuItemData): JSX.Element => {
+    if (item.type === "title") {
+      return <MenuTitle>{item.label}</MenuTitle>;
+    }
+
+    if (item.items) {
+      return (
+        <MenuSubmenu label={item.label} icon={item.icon} disabled={item.disabled} defaultOpen={item.open ?? containsActive(item)}>
+          <For each={item.items}>{renderItem}</For>
+        </MenuSubmenu>
+      );
+    }
+
+    return (
+      <MenuItem
+        href={item.href}
+        target={item.target}
+        icon={item.icon}
+        active={item.active}
+        disabled={item.disabled}
+        onClick={item.onClick}
+      >
+        {item.label}
+      </MenuItem>
+    );
+  };
+
+  return (
+    <MenuContext.Provider value={contextValue}>
+      <ul
+        ref={menuRef}
+        role="menu"
+        aria-orientation={orientation()}
+        aria-label={props["aria-label"]}
+        aria-labelledby={props["aria-labelledby"]}
+        classList={{
+          ...classes(),
+          ...props.classList,
+        }}
+        onKeyDown={handleKeyDown}
+        onFocusIn={handleFocusIn}
+      >
+        <Show when={props.items}>
+          <For each={props.items}>{renderItem}</For>
+        </Show>
+        {props.children}
+      </ul>
+    </MenuContext.Provider>
+  );
+}
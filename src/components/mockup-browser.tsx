@@ -1,7 +1,77 @@
+import { JSX, Show } from "solid-js";
+
+/**
+ * Props for the MockupBrowser component.
+ *
+ * @property {JSX.Element} [children] - The page content to display inside the browser.
+ * @property {string} [url] - The address shown in the toolbar.
+ * @property {JSX.Element} [toolbar] - Custom toolbar content that replaces the address bar.
+ * @property {boolean} [bordered] - If false, removes the browser and content borders. Defaults to true.
+ * @property {string} [contentClass] - Additional CSS classes to apply to the content area.
+ * @property {string} [class] - Additional CSS classes to apply to the browser.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
 export interface MockupBrowserProps {
-  children: string;
+  children?: JSX.Element;
+  url?: string;
+  toolbar?: JSX.Element;
+  bordered?: boolean;
+  contentClass?: string;
+  class?: string;
+  classList?: Record<string, boolean>;
 }
 
-export default function MockupBrowser(props: MockupBrowserProps) {
-  return <div>{props.children}</div>;
+/**
+ * MockupBrowser component for showing content inside a browser window frame.
+ *
+ * Renders a DaisyUI `mockup-browser` with a `mockup-browser-toolbar` holding the window
+ * buttons and an address bar with the `url`, followed by the children in a content area.
+ *
+ * @param {MockupBrowserProps} props - The properties to configure the MockupBrowser component.
+ * @returns {JSX.Element} The rendered MockupBrowser component.
+ */
+export default function MockupBrowser(props: MockupBrowserProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "mockup-browser": true,
+      "border border-base-300": props.bordered !== false,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const contentClasses = () => {
+    const baseClasses: Record<string, boolean> = {
+      "border-t border-base-300": props.bordered !== false,
+    };
+
+    // Add custom content class if provided
+    if (props.contentClass) {
+      baseClasses[props.contentClass] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <div class="mockup-browser-toolbar">
+        <Show when={props.toolbar} fallback={<div class="input" title={props.url}>{props.url}</div>}>
+          {props.toolbar}
+        </Show>
+      </div>
+      <div classList={contentClasses()}>{props.children}</div>
+    </div>
+  );
 }
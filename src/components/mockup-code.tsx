@@ -1,7 +1,214 @@
+import { JSX, For, Show, children as resolveChildren, createSignal, onCleanup } from "solid-js";
+
+/**
+ * DaisyUI colors used to highlight code lines.
+ */
+export type MockupCodeColor =
+  | "primary"
+  | "secondary"
+  | "accent"
+  | "neutral"
+  | "info"
+  | "success"
+  | "warning"
+  | "error";
+
+/**
+ * A line of code in a MockupCode.
+ *
+ * @property {string} content - The text of the line.
+ * @property {string} [prefix] - Prefix shown before the line, e.g. "$" or ">". Overrides the component prefix.
+ * @property {boolean | MockupCodeColor} [highlight] - Highlights the line, with the given color or the component highlight color.
+ * @property {string} [class] - Additional CSS classes to apply to the line.
+ */
+export interface MockupCodeLine {
+  content: string;
+  prefix?: string;
+  highlight?: boolean | MockupCodeColor;
+  class?: string;
+}
+
+/**
+ * Returns highlighted HTML for a line of code. Receives the raw line text and the
+ * language, and must escape any text it does not wrap in markup.
+ */
+export type MockupCodeHighlighter = (line: string, language?: string) => string;
+
+/**
+ * Props for the MockupCode component.
+ *
+ * @property {string} [code] - The code to display, split into lines at line breaks.
+ * @property {(string | MockupCodeLine)[]} [lines] - The lines to display, as strings or line objects. Takes precedence over `code`.
+ * @property {JSX.Element} [children] - Custom `pre` lines, or the code as a string.
+ * @property {string} [prefix] - Prefix shown before every line, e.g. "$" or ">".
+ * @property {boolean} [lineNumbers] - If true, shows line numbers as the line prefixes.
+ * @property {number} [startLine] - Number of the first line for `lineNumbers` and `highlightLines`. Defaults to 1.
+ * @property {number[]} [highlightLines] - Line numbers to highlight.
+ * @property {MockupCodeColor} [highlightColor] - Color of highlighted lines. Defaults to "warning".
+ * @property {string} [language] - Language of the code, passed to the highlighter.
+ * @property {MockupCodeHighlighter} [highlighter] - Returns highlighted HTML for each line. The library does not ship a highlighter.
+ * @property {boolean} [copyable] - If true, shows a button that copies the code to the clipboard.
+ * @property {(code: string) => void} [onCopy] - Callback fired after the code is copied.
+ * @property {string} [class] - Additional CSS classes to apply to the mockup.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the code block.
+ */
 export interface MockupCodeProps {
-  children: string;
+  code?: string;
+  lines?: (string | MockupCodeLine)[];
+  children?: JSX.Element;
+  prefix?: string;
+  lineNumbers?: boolean;
+  startLine?: number;
+  highlightLines?: number[];
+  highlightColor?: MockupCodeColor;
+  language?: string;
+  highlighter?: MockupCodeHighlighter;
+  copyable?: boolean;
+  onCopy?: (code: string) => void;
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
 }
 
-export default function MockupCode(props: MockupCodeProps) {
-  return <div>{props.children}</div>;
+const highlightClasses: Record<MockupCodeColor, string> = {
+  primary: "bg-primary text-primary-content",
+  secondary: "bg-secondary text-secondary-content",
+  accent: "bg-accent text-accent-content",
+  neutral: "bg-neutral text-neutral-content",
+  info: "bg-info text-info-content",
+  success: "bg-success text-success-content",
+  warning: "bg-warning text-warning-content",
+  error: "bg-error text-error-content",
+};
+
+/**
+ * MockupCode component for showing code or terminal output.
+ *
+ * Renders a DaisyUI `mockup-code` with one `pre` per line. Lines can have a `data-prefix`
+ * such as "$", ">" or a line number, and can be highlighted with a DaisyUI color. An
+ * optional button copies the code to the clipboard. Syntax highlighting is pluggable:
+ * pass a `highlighter` that returns HTML for each line, for example from Shiki or Prism.
+ *
+ * @param {MockupCodeProps} props - The properties to configure the MockupCode component.
+ * @returns {JSX.Element} The rendered MockupCode component.
+ */
+export default function MockupCode(props: MockupCodeProps): JSX.Element {
+  const resolved = resolveChildren(() => props.children);
+  const [copied, setCopied] = createSignal(false);
+  let copiedTimer: ReturnType<typeof setTimeout> | undefined;
+
+  onCleanup(() => clearTimeout(copiedTimer));
+
+  // Lines from `lines`, `code` or string children, normalized to line objects
+  const lines = (): MockupCodeLine[] => {
+    if (props.lines) {
+      return props.lines.map((line) => (typeof line === "string" ? { content: line } : line));
+    }
+
+    const code = props.code ?? (typeof resolved() === "string" ? (resolved() as string) : undefined);
+    if (code === undefined) return [];
+
+    return code
+      .replace(/\n$/, "")
+      .split(/\r?\n/)
+      .map((content) => ({ content }));
+  };
+
+  const startLine = () => props.startLine ?? 1;
+
+  const linePrefix = (line: MockupCodeLine, index: number) => {
+    if (line.prefix !== undefined) return line.prefix;
+    if (props.lineNumbers) return String(startLine() + index);
+    return props.prefix;
+  };
+
+  const lineHighlight = (line: MockupCodeLine, index: number): MockupCodeColor | undefined => {
+    const color = props.highlightColor ?? "warning";
+    if (typeof line.highlight === "string") return line.highlight;
+    if (line.highlight) return color;
+    return props.highlightLines?.includes(startLine() + index) ? color : undefined;
+  };
+
+  const lineClasses = (line: MockupCodeLine, index: number) => {
+    const baseClasses: Record<string, boolean> = {};
+
+    // Add DaisyUI color classes for highlighted lines
+    const highlight = lineHighlight(line, index);
+    if (highlight) {
+      baseClasses[highlightClasses[highlight]] = true;
+    }
+
+    // Add custom line class if provided
+    if (line.class) {
+      baseClasses[line.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const handleCopy = async () => {
+    const code = lines()
+      .map((line) => line.content)
+      .join("\n");
+
+    try {
+      await navigator.clipboard.writeText(code);
+    } catch {
+      // Clipboard unavailable or permission denied
+      return;
+    }
+
+    setCopied(true);
+    clearTimeout(copiedTimer);
+    copiedTimer = setTimeout(() => setCopied(false), 2000);
+    props.onCopy?.(code);
+  };
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "mockup-code": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      role={props["aria-label"] ? "figure" : undefined}
+      aria-label={props["aria-label"]}
+      data-language={props.language}
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <Show when={props.copyable}>
+        <button
+          type="button"
+          class="btn btn-ghost btn-xs absolute top-3 right-3"
+          aria-label={copied() ? "Copied" : "Copy code"}
+          onClick={handleCopy}
+        >
+          {copied() ? "Copied" : "Copy"}
+        </button>
+      </Show>
+      <For each={lines()}>
+        {(line, index) => (
+          <pre data-prefix={linePrefix(line, index())} classList={lineClasses(line, index())}>
+            <Show when={props.highlighter} fallback={<code>{line.content}</code>}>
+              {(highlighter) => <code innerHTML={highlighter()(line.content, props.language)} />}
+            </Show>
+          </pre>
+        )}
+      </For>
+      <Show when={typeof resolved() !== "string"}>{resolved()}</Show>
+    </div>
+  );
 }
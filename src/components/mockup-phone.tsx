@@ -1,7 +1,70 @@
+import { JSX, Show } from "solid-js";
+
+/**
+ * Props for the MockupPhone component.
+ *
+ * @property {JSX.Element} [children] - The screen content to display inside the phone.
+ * @property {boolean} [camera] - If false, hides the camera notch. Defaults to true.
+ * @property {string} [displayClass] - Additional CSS classes to apply to the display, e.g. a background color.
+ * @property {string} [class] - Additional CSS classes to apply to the phone, e.g. a border color.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
 export interface MockupPhoneProps {
-  children: string;
+  children?: JSX.Element;
+  camera?: boolean;
+  displayClass?: string;
+  class?: string;
+  classList?: Record<string, boolean>;
 }
 
-export default function MockupPhone(props: MockupPhoneProps) {
-  return <div>{props.children}</div>;
+/**
+ * MockupPhone component for showing content on a phone screen.
+ *
+ * Renders a DaisyUI `mockup-phone` with the `mockup-phone-camera` notch over a
+ * `mockup-phone-display` that holds the children.
+ *
+ * @param {MockupPhoneProps} props - The properties to configure the MockupPhone component.
+ * @returns {JSX.Element} The rendered MockupPhone component.
+ */
+export default function MockupPhone(props: MockupPhoneProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "mockup-phone": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const displayClasses = () => {
+    const baseClasses: Record<string, boolean> = {
+      "mockup-phone-display": true,
+    };
+
+    // Add custom display class if provided
+    if (props.displayClass) {
+      baseClasses[props.displayClass] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <Show when={props.camera !== false}>
+        <div class="mockup-phone-camera" />
+      </Show>
+      <div classList={displayClasses()}>{props.children}</div>
+    </div>
+  );
 }
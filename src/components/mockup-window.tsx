@@ -1,8 +1,68 @@
+import { JSX } from "solid-js";
+
+/**
+ * Props for the MockupWindow component.
+ *
+ * @property {JSX.Element} [children] - The content to display inside the window.
+ * @property {boolean} [bordered] - If false, removes the window and content borders. Defaults to true.
+ * @property {string} [contentClass] - Additional CSS classes to apply to the content area.
+ * @property {string} [class] - Additional CSS classes to apply to the window.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
 export interface MockupWindowProps {
-  children: string;
+  children?: JSX.Element;
+  bordered?: boolean;
+  contentClass?: string;
+  class?: string;
+  classList?: Record<string, boolean>;
 }
 
-// Mockup Window component
-export default function MockupWindow(props: MockupWindowProps) {
-  return <div>{props.children}</div>;
+/**
+ * MockupWindow component for showing content inside an operating system window frame.
+ *
+ * Renders a DaisyUI `mockup-window`, which draws the title bar buttons, with the
+ * children in a content area below them.
+ *
+ * @param {MockupWindowProps} props - The properties to configure the MockupWindow component.
+ * @returns {JSX.Element} The rendered MockupWindow component.
+ */
+export default function MockupWindow(props: MockupWindowProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "mockup-window": true,
+      "border border-base-300": props.bordered !== false,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const contentClasses = () => {
+    const baseClasses: Record<string, boolean> = {
+      "border-t border-base-300": props.bordered !== false,
+    };
+
+    // Add custom content class if provided
+    if (props.contentClass) {
+      baseClasses[props.contentClass] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <div classList={contentClasses()}>{props.children}</div>
+    </div>
+  );
 }
@@ -1,8 +1,348 @@
-export interface PaginationProps {
-  children: string;
+import { Accessor, JSX, For, Show, createMemo, createSignal } from "solid-js";
+import Select from "./select";
+import { useRouterSearchParams } from "./link";
+
+/**
+ * An entry of the page list: a page button or an ellipsis for skipped pages.
+ */
+export type PaginationItem =
+  | { type: "page"; page: number; selected: boolean }
+  | { type: "ellipsis"; key: "start-ellipsis" | "end-ellipsis" };
+
+/**
+ * Options for createPagination.
+ *
+ * @property {number} [page] - The current page, starting at 1 (controlled mode).
+ * @property {number} [defaultPage] - The initial page (uncontrolled mode). Defaults to 1.
+ * @property {number} [pageCount] - Number of pages. Takes precedence over `total`.
+ * @property {number} [total] - Number of items, used with `pageSize` to compute the page count.
+ * @property {number} [pageSize] - Items per page (controlled mode).
+ * @property {number} [defaultPageSize] - Initial items per page (uncontrolled mode). Defaults to 10.
+ * @property {number} [siblingCount] - Pages shown on each side of the current page. Defaults to 1.
+ * @property {number} [boundaryCount] - Pages always shown at the start and end. Defaults to 1.
+ * @property {boolean | string} [queryParam] - Reads and writes the page in the URL query through `@solidjs/router` when rendered inside a Router. `true` uses `?page=`, a string names the parameter.
+ * @property {(page: number) => void} [onPageChange] - Called when the page changes.
+ * @property {(pageSize: number) => void} [onPageSizeChange] - Called when the page size changes.
+ */
+export interface PaginationOptions {
+  page?: number;
+  defaultPage?: number;
+  pageCount?: number;
+  total?: number;
+  pageSize?: number;
+  defaultPageSize?: number;
+  siblingCount?: number;
+  boundaryCount?: number;
+  queryParam?: boolean | string;
+  onPageChange?: (page: number) => void;
+  onPageSizeChange?: (pageSize: number) => void;
+}
+
+/**
+ * Reactive pagination state and actions returned by createPagination.
+ *
+ * @property {Accessor<number>} page - The current page, starting at 1.
+ * @property {Accessor<number>} pageCount - Number of pages, at least 1.
+ * @property {Accessor<number>} pageSize - Items per page.
+ * @property {Accessor<PaginationItem[]>} items - Page buttons and ellipses to render.
+ * @property {Accessor<boolean>} hasPrev - Whether a previous page exists.
+ * @property {Accessor<boolean>} hasNext - Whether a next page exists.
+ * @property {(page: number) => void} setPage - Moves to a page, clamped to the valid range.
+ * @property {(pageSize: number) => void} setPageSize - Changes the page size and keeps the first visible item on the page.
+ * @property {() => void} first - Moves to the first page.
+ * @property {() => void} prev - Moves to the previous page.
+ * @property {() => void} next - Moves to the next page.
+ * @property {() => void} last - Moves to the last page.
+ */
+export interface PaginationApi {
+  page: Accessor<number>;
+  pageCount: Accessor<number>;
+  pageSize: Accessor<number>;
+  items: Accessor<PaginationItem[]>;
+  hasPrev: Accessor<boolean>;
+  hasNext: Accessor<boolean>;
+  setPage: (page: number) => void;
+  setPageSize: (pageSize: number) => void;
+  first: () => void;
+  prev: () => void;
+  next: () => void;
+  last: () => void;
+}
+
+/**
+ * Props for the Pagination component.
+ *
+ * @property {number[]} [pageSizeOptions] - Shows a page size selector with these sizes.
+ * @property {boolean} [showFirstLast] - If true, shows first and last page buttons.
+ * @property {boolean} [showPrevNext] - If false, hides the previous and next page buttons. Defaults to true.
+ * @property {boolean} [compact] - If true, shows "Page X of Y" instead of the page buttons.
+ * @property {"xs" | "sm" | "md" | "lg" | "xl"} [size] - DaisyUI size of the buttons.
+ * @property {boolean} [disabled] - Disables all controls.
+ * @property {string} [class] - Additional CSS classes to apply to the pagination.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the navigation. Defaults to "Pagination".
+ */
+export interface PaginationProps extends PaginationOptions {
+  pageSizeOptions?: number[];
+  showFirstLast?: boolean;
+  showPrevNext?: boolean;
+  compact?: boolean;
+  size?: "xs" | "sm" | "md" | "lg" | "xl";
+  disabled?: boolean;
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+}
+
+const range = (start: number, end: number) =>
+  Array.from({ length: Math.max(0, end - start + 1) }, (_, index) => start + index);
+
+/**
+ * Creates headless pagination state for custom pagination UIs.
+ *
+ * Computes the page count from `pageCount` or `total` and `pageSize`, and a page list
+ * that always shows `boundaryCount` pages at both ends and `siblingCount` pages around
+ * the current one, with ellipses for the skipped ranges. The page is controlled through
+ * `page`, stored internally, or bound to a URL query parameter with `queryParam` when
+ * rendered inside a `@solidjs/router` Router. Options are read reactively, so getters
+ * can be passed.
+ *
+ * @param {PaginationOptions} options - The page count, current page and callbacks.
+ * @returns {PaginationApi} The reactive pagination state and actions.
+ */
+export function createPagination(options: PaginationOptions): PaginationApi {
+  const [internalPage, setInternalPage] = createSignal(options.defaultPage ?? 1);
+  const [internalPageSize, setInternalPageSize] = createSignal(options.defaultPageSize ?? 10);
+
+  // Router search params, when inside a Router and a query parameter is requested
+  const searchParams = options.queryParam ? useRouterSearchParams() : undefined;
+  const paramName = () => (typeof options.queryParam === "string" ? options.queryParam : "page");
+
+  const pageSize = () => Math.max(1, options.pageSize ?? internalPageSize());
+
+  const pageCount = () => {
+    const count = options.pageCount ?? Math.ceil((options.total ?? 0) / pageSize());
+    return Math.max(1, count);
+  };
+
+  const clamp = (page: number) => Math.min(Math.max(1, Math.trunc(page)), pageCount());
+
+  const sourcePage = () => {
+    if (options.page !== undefined) return options.page;
+    if (!searchParams) return internalPage();
+
+    const raw = searchParams[0][paramName()];
+    const value = Number(Array.isArray(raw) ? raw[0] : raw);
+    return Number.isInteger(value) && value > 0 ? value : 1;
+  };
+
+  const page = createMemo(() => clamp(sourcePage()));
+
+  const setPage = (value: number) => {
+    const target = clamp(value);
+    if (target === page()) return;
+
+    if (options.page === undefined) {
+      if (searchParams) {
+        searchParams[1]({ [paramName()]: target === 1 ? undefined : String(target) });
+      } else {
+        setInternalPage(target);
+      }
+    }
+
+    options.onPageChange?.(target);
+  };
+
+  const setPageSize = (value: number) => {
+    if (value === pageSize()) return;
+
+    // Keep the first item of the current page visible
+    const firstItem = (page() - 1) * pageSize();
+
+    if (options.pageSize === undefined) {
+      setInternalPageSize(value);
+    }
+    options.onPageSizeChange?.(value);
+    setPage(Math.floor(firstItem / value) + 1);
+  };
+
+  const items = createMemo<PaginationItem[]>(() => {
+    const count = pageCount();
+    const current = page();
+    const siblings = Math.max(0, options.siblingCount ?? 1);
+    const boundary = Math.max(0, options.boundaryCount ?? 1);
+
+    const startPages = range(1, Math.min(boundary, count));
+    const endPages = range(Math.max(count - boundary + 1, boundary + 1), count);
+
+    const siblingsStart = Math.max(
+      Math.min(current - siblings, count - boundary - siblings * 2 - 1),
+      boundary + 2
+    );
+    const siblingsEnd = Math.min(
+      Math.max(current + siblings, boundary + siblings * 2 + 2),
+      endPages.length > 0 ? endPages[0] - 2 : count - 1
+    );
+
+    const list: (number | "start-ellipsis" | "end-ellipsis")[] = [...startPages];
+
+    // Show an ellipsis, or the single page it would hide
+    if (siblingsStart > boundary + 2) {
+      list.push("start-ellipsis");
+    } else if (boundary + 1 < count - boundary) {
+      list.push(boundary + 1);
+    }
+
+    list.push(...range(siblingsStart, siblingsEnd));
+
+    if (siblingsEnd < count - boundary - 1) {
+      list.push("end-ellipsis");
+    } else if (count - boundary > boundary) {
+      list.push(count - boundary);
+    }
+
+    list.push(...endPages);
+
+    return list.map((entry) =>
+      typeof entry === "number"
+        ? { type: "page", page: entry, selected: entry === current }
+        : { type: "ellipsis", key: entry }
+    );
+  });
+
+  return {
+    page,
+    pageCount,
+    pageSize,
+    items,
+    hasPrev: () => page() > 1,
+    hasNext: () => page() < pageCount(),
+    setPage,
+    setPageSize,
+    first: () => setPage(1),
+    prev: () => setPage(page() - 1),
+    next: () => setPage(page() + 1),
+    last: () => setPage(pageCount()),
+  };
 }
 
-// Pagination component
-export default function Pagination(props: PaginationProps) {
-  return <div>{props.children}</div>;
+/**
+ * Pagination component for navigating between pages of content.
+ *
+ * Renders DaisyUI `btn` page buttons in a `join`, with optional first/previous/next/last
+ * buttons, ellipses for skipped pages, a page size selector built on Select, and a
+ * compact "Page X of Y" mode. The state comes from `createPagination()`, so the page
+ * can be controlled, uncontrolled, or bound to `?page=` through `@solidjs/router` with
+ * `queryParam`.
+ *
+ * @param {PaginationProps} props - The properties to configure the Pagination component.
+ * @returns {JSX.Element} The rendered Pagination component.
+ */
+export default function Pagination(props: PaginationProps): JSX.Element {
+  const pagination = createPagination(props);
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "flex flex-wrap items-center gap-4": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const buttonClasses = (active = false) => {
+    const baseClasses: Record<string, boolean> = {
+      "join-item": true,
+      btn: true,
+      "btn-active": active,
+    };
+
+    // Add DaisyUI size classes
+    if (props.size) {
+      baseClasses[`btn-${props.size}`] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const navButton = (label: string, text: string, enabled: () => boolean, action: () => void) => (
+    <button
+      type="button"
+      classList={buttonClasses()}
+      aria-label={label}
+      disabled={props.disabled || !enabled()}
+      onClick={action}
+    >
+      {text}
+    </button>
+  );
+
+  return (
+    <nav
+      aria-label={props["aria-label"] ?? "Pagination"}
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <div class="join">
+        <Show when={props.showFirstLast}>
+          {navButton("First page", "«", pagination.hasPrev, pagination.first)}
+        </Show>
+        <Show when={props.showPrevNext !== false}>
+          {navButton("Previous page", "‹", pagination.hasPrev, pagination.prev)}
+        </Show>
+        <Show
+          when={!props.compact}
+          fallback={
+            <span classList={{ ...buttonClasses(), "pointer-events-none": true }} aria-live="polite">
+              Page {pagination.page()} of {pagination.pageCount()}
+            </span>
+          }
+        >
+          <For each={pagination.items()}>
+            {(item) =>
+              item.type === "page" ? (
+                <button
+                  type="button"
+                  classList={buttonClasses(item.selected)}
+                  aria-label={`Page ${item.page}`}
+                  aria-current={item.selected ? "page" : undefined}
+                  disabled={props.disabled}
+                  onClick={() => pagination.setPage(item.page)}
+                >
+                  {item.page}
+                </button>
+              ) : (
+                <span classList={{ ...buttonClasses(), "btn-disabled": true }} aria-hidden="true">
+                  …
+                </span>
+              )
+            }
+          </For>
+        </Show>
+        <Show when={props.showPrevNext !== false}>
+          {navButton("Next page", "›", pagination.hasNext, pagination.next)}
+        </Show>
+        <Show when={props.showFirstLast}>
+          {navButton("Last page", "»", pagination.hasNext, pagination.last)}
+        </Show>
+      </div>
+      <Show when={props.pageSizeOptions?.length}>
+        <Select
+          aria-label="Items per page"
+          size={props.size === "xl" ? "lg" : props.size}
+          disabled={props.disabled}
+          value={String(pagination.pageSize())}
+          options={(props.pageSizeOptions ?? []).map((size) => ({ value: String(size), label: `${size} / page` }))}
+          onChange={(value) => pagination.setPageSize(Number(value))}
+        />
+      </Show>
+    </nav>
+  );
 }
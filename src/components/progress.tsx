@@ -1,4 +1,217 @@
-// Progress component
-export default function Progress() {
-  return <div>Progress Component</div>;
+import { JSX, Show, createEffect, createSignal, createUniqueId, on, onCleanup } from "solid-js";
+
+/**
+ * Props for the Progress component.
+ *
+ * @property {number} [value] - The progress value from 0 to `max`. Leave undefined for an indeterminate progress.
+ * @property {number} [max] - The value of a complete progress. Defaults to 100.
+ * @property {number} [buffer] - Buffered secondary value from 0 to `max`, e.g. loaded media or received upload data.
+ * @property {"primary" | "secondary" | "accent" | "neutral" | "info" | "success" | "warning" | "error"} [color] - DaisyUI color variant of the progress bar.
+ * @property {JSX.Element} [label] - Label shown above the progress bar. Also labels the progress bar for screen readers.
+ * @property {boolean} [showValue] - If true, shows the value text above the progress bar.
+ * @property {(value: number, max: number) => string} [formatValue] - Formats the value for `aria-valuetext` and `showValue`. Defaults to a percentage.
+ * @property {boolean} [animated] - If true, eases between values instead of jumping.
+ * @property {number} [duration] - Duration of the eased transition in milliseconds. Defaults to 300.
+ * @property {string} [class] - Additional CSS classes to apply to the progress, e.g. a width.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the progress bar.
+ * @property {string} [id] - ID attribute.
+ */
+export interface ProgressProps {
+  value?: number;
+  max?: number;
+  buffer?: number;
+  color?: "primary" | "secondary" | "accent" | "neutral" | "info" | "success" | "warning" | "error";
+  label?: JSX.Element;
+  showValue?: boolean;
+  formatValue?: (value: number, max: number) => string;
+  animated?: boolean;
+  duration?: number;
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+  id?: string;
+}
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+const prefersReducedMotion = () =>
+  typeof window !== "undefined" &&
+  typeof window.matchMedia === "function" &&
+  window.matchMedia("(prefers-reduced-motion: reduce)").matches;
+
+/**
+ * Progress component for showing the completion of a task with DaisyUI styling.
+ *
+ * Renders a native `progress` element with the DaisyUI `progress` class and colors.
+ * Without a `value` it is indeterminate and shows the DaisyUI loading animation. A
+ * `buffer` value is drawn behind the bar for media and uploads, and an optional label
+ * and value text are shown above it. With `animated`, value changes are eased, unless
+ * the user prefers reduced motion; `aria-valuenow` always reports the target value.
+ * Takes the same `value`, `color` and `aria-label` props as RadialProgress.
+ *
+ * @param {ProgressProps} props - The properties to configure the Progress component.
+ * @returns {JSX.Element} The rendered Progress component.
+ */
+export default function Progress(props: ProgressProps): JSX.Element {
+  const labelId = createUniqueId();
+
+  const max = () => (props.max !== undefined && props.max > 0 ? props.max : 100);
+  const clamp = (value: number) => Math.max(0, Math.min(max(), value));
+
+  const target = () => (props.value !== undefined ? clamp(props.value) : undefined);
+  const isIndeterminate = () => target() === undefined;
+  const percent = (value: number) => (value / max()) * 100;
+
+  // Value drawn by the bar, which trails the target while easing
+  const [displayed, setDisplayed] = createSignal(target());
+  let frame: number | undefined;
+
+  const stopTransition = () => {
+    if (frame !== undefined) {
+      cancelAnimationFrame(frame);
+      frame = undefined;
+    }
+  };
+
+  onCleanup(stopTransition);
+
+  createEffect(
+    on(
+      target,
+      (to) => {
+        stopTransition();
+        const from = displayed();
+
+        if (
+          to === undefined ||
+          from === undefined ||
+          !props.animated ||
+          prefersReducedMotion() ||
+          typeof requestAnimationFrame !== "function"
+        ) {
+          setDisplayed(to);
+          return;
+        }
+
+        const duration = props.duration ?? 300;
+        let start: number | undefined;
+
+        const step = (now: number) => {
+          start ??= now;
+          const t = duration > 0 ? Math.min(1, (now - start) / duration) : 1;
+          setDisplayed(from + (to - from) * easeOutCubic(t));
+          frame = t < 1 ? requestAnimationFrame(step) : undefined;
+        };
+
+        frame = requestAnimationFrame(step);
+      },
+      { defer: true }
+    )
+  );
+
+  const valueText = () => {
+    const value = target();
+    if (value === undefined) return undefined;
+    return props.formatValue ? props.formatValue(value, max()) : `${Math.round(percent(value))}%`;
+  };
+
+  const needsWrapper = () => props.label !== undefined || props.showValue || props.buffer !== undefined;
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {};
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const barClasses = () => {
+    const baseClasses: Record<string, boolean> = {
+      progress: true,
+    };
+
+    // Add DaisyUI color classes
+    if (props.color) {
+      baseClasses[`progress-${props.color}`] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const renderBar = (root: boolean) => {
+    let barRef: HTMLProgressElement | undefined;
+
+    // An indeterminate progress must have no value attribute at all
+    createEffect(() => {
+      const value = displayed();
+      if (!barRef) return;
+      if (value === undefined) {
+        barRef.removeAttribute("value");
+      } else {
+        barRef.value = value;
+      }
+    });
+
+    return (
+      <progress
+        ref={barRef}
+        id={root ? props.id : undefined}
+        max={max()}
+        aria-valuemin={0}
+        aria-valuemax={max()}
+        aria-valuenow={target()}
+        aria-valuetext={valueText()}
+        aria-busy={isIndeterminate() ? "true" : undefined}
+        aria-label={props["aria-label"]}
+        aria-labelledby={props.label !== undefined && !props["aria-label"] ? labelId : undefined}
+        classList={{
+          ...barClasses(),
+          ...(root ? { ...classes(), ...props.classList } : { relative: true }),
+        }}
+      />
+    );
+  };
+
+  return (
+    <Show when={needsWrapper()} fallback={renderBar(true)}>
+      <div
+        id={props.id}
+        classList={{
+          "flex flex-col gap-1": true,
+          ...classes(),
+          ...props.classList,
+        }}
+      >
+        <Show when={props.label !== undefined || props.showValue}>
+          <div class="flex justify-between gap-2 text-sm">
+            <span id={labelId}>{props.label}</span>
+            <Show when={props.showValue && !isIndeterminate()}>
+              <span class="tabular-nums" aria-hidden="true">
+                {valueText()}
+              </span>
+            </Show>
+          </div>
+        </Show>
+        <div class="relative flex">
+          <Show when={props.buffer !== undefined}>
+            <div
+              aria-hidden="true"
+              classList={{
+                "absolute inset-y-0 left-0 rounded-box bg-current opacity-20": true,
+                [`progress-${props.color}`]: !!props.color,
+              }}
+              style={{ width: `${percent(clamp(props.buffer!))}%` }}
+              data-slot="buffer"
+            />
+          </Show>
+          {renderBar(false)}
+        </div>
+      </div>
+    </Show>
+  );
 }
@@ -1,4 +1,5 @@
 import { JSX, mergeProps, splitProps, createMemo } from "solid-js";
+import { useField, mergeDescribedBy } from "./fieldset/field-context";
 
 /**
  * Props for the Radio component.
@@ -16,6 +17,7 @@ import { JSX, mergeProps, splitProps, createMemo } from "solid-js";
  * @property {(event: FocusEvent & { currentTarget: HTMLInputElement; target: HTMLInputElement }) => void} [onBlur] - Event handler called when the radio loses focus.
  * @property {string} [aria-label] - ARIA label for accessibility when no visible label is present.
  * @property {string} [aria-describedby] - References to elements that describe the radio for accessibility.
+ * @property {boolean} [aria-invalid] - Indicates if the radio has validation errors. Defaults to the state of the enclosing Field.
  * @property {string} [id] - Unique identifier for the radio input element.
  * @property {number} [tabIndex] - Tab order for keyboard navigation (defaults to 0).
  * @property {boolean} [required] - Whether the radio selection is required for form validation.
@@ -57,6 +59,7 @@ export interface RadioProps {
   ) => void;
   "aria-label"?: string;
   "aria-describedby"?: string;
+  "aria-invalid"?: boolean;
   id?: string;
   tabIndex?: number;
   required?: boolean;
@@ -122,6 +125,11 @@ export default function Radio(props: RadioProps): JSX.Element {
     "classList",
   ]);
 
+  // Label, hint and error wiring from an enclosing Field
+  const field = useField();
+  field?.registerId(() => inputProps.id);
+  const color = () => (field?.invalid() ? "error" : undefined) || local.color;
+
   // Build DaisyUI classes with memoization for performance
   const classes = createMemo(() => {
     const baseClasses: Record<string, boolean> = {
@@ -134,8 +142,8 @@ export default function Radio(props: RadioProps): JSX.Element {
     }
 
     // Add official DaisyUI color classes
-    if (local.color) {
-      baseClasses[`radio-${local.color}`] = true;
+    if (color()) {
+      baseClasses[`radio-${color()}`] = true;
     }
 
     // Add custom class if provided
@@ -156,6 +164,10 @@ export default function Radio(props: RadioProps): JSX.Element {
         ...local.classList,
       }}
       {...inputProps}
+      id={inputProps.id ?? field?.id()}
+      required={inputProps.required ?? field?.required()}
+      aria-describedby={mergeDescribedBy(inputProps["aria-describedby"], field?.describedBy())}
+      aria-invalid={inputProps["aria-invalid"] ?? (field?.invalid() || undefined)}
     />
   );
 }
@@ -1,4 +1,321 @@
-// Range component
-export default function Range() {
-  return <div>Range Component</div>;
+import { JSX, For, Show, createMemo, createSignal, onCleanup, onMount } from "solid-js";
+
+/**
+ * A labeled tick mark under the Range track.
+ *
+ * @property {number} value - Position of the tick on the scale.
+ * @property {JSX.Element} [label] - Optional label shown under the tick.
+ */
+export interface RangeTick {
+  value: number;
+  label?: JSX.Element;
+}
+
+/**
+ * Props shared by single and two-thumb Range components.
+ *
+ * @property {number} [min] - The minimum value. Defaults to 0.
+ * @property {number} [max] - The maximum value. Defaults to 100.
+ * @property {number} [step] - The step between values. Defaults to 1.
+ * @property {"xs" | "sm" | "md" | "lg" | "xl"} [size] - DaisyUI size variant for the range.
+ * @property {"primary" | "secondary" | "accent" | "neutral" | "info" | "success" | "warning" | "error"} [color] - DaisyUI color variant for the range.
+ * @property {boolean | number[] | RangeTick[]} [ticks] - Tick marks under the track: true for every step, or a list of values or labeled ticks.
+ * @property {(value: number) => string} [formatValue] - Formats a value for `aria-valuetext`.
+ * @property {string} [name] - Name attribute for form submission. Both thumbs submit under this name in two-thumb mode.
+ * @property {string} [form] - Associates the range with a form element.
+ * @property {string} [id] - Custom ID for the (lower) input element.
+ * @property {boolean} [disabled] - Whether the range is disabled.
+ * @property {string} [class] - Additional CSS classes to apply to the range inputs.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label. In two-thumb mode, "minimum" and "maximum" are appended per thumb.
+ * @property {string} [aria-labelledby] - ID of element that labels the range.
+ * @property {string} [aria-describedby] - ID of element that describes the range.
+ */
+interface RangeBaseProps {
+  min?: number;
+  max?: number;
+  step?: number;
+  size?: "xs" | "sm" | "md" | "lg" | "xl";
+  color?: "primary" | "secondary" | "accent" | "neutral" | "info" | "success" | "warning" | "error";
+  ticks?: boolean | number[] | RangeTick[];
+  formatValue?: (value: number) => string;
+  name?: string;
+  form?: string;
+  id?: string;
+  disabled?: boolean;
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+  "aria-labelledby"?: string;
+  "aria-describedby"?: string;
+}
+
+/**
+ * Props for a single-thumb Range.
+ *
+ * @property {false} [dual] - Single-thumb mode.
+ * @property {number} [value] - The current value (controlled mode).
+ * @property {number} [defaultValue] - The initial value (uncontrolled mode). Defaults to `min`.
+ * @property {(value: number, event: Event) => void} [onChange] - Callback fired when the value changes.
+ */
+export interface RangeSingleProps extends RangeBaseProps {
+  dual?: false;
+  value?: number;
+  defaultValue?: number;
+  onChange?: (value: number, event: Event) => void;
+}
+
+/**
+ * Props for a two-thumb Range.
+ *
+ * @property {true} dual - Two-thumb mode selecting a `[low, high]` interval.
+ * @property {[number, number]} [value] - The current interval (controlled mode).
+ * @property {[number, number]} [defaultValue] - The initial interval (uncontrolled mode). Defaults to `[min, max]`.
+ * @property {(value: [number, number], event: Event) => void} [onChange] - Callback fired when either thumb moves.
+ */
+export interface RangeDualProps extends RangeBaseProps {
+  dual: true;
+  value?: [number, number];
+  defaultValue?: [number, number];
+  onChange?: (value: [number, number], event: Event) => void;
+}
+
+/**
+ * Props for the Range component.
+ */
+export type RangeProps = RangeSingleProps | RangeDualProps;
+
+/**
+ * Range component for selecting a value, or an interval with two thumbs, on a slider.
+ *
+ * Renders native `input type="range"` elements with DaisyUI `range` styling, so
+ * keyboard support and form submission work out of the box. Follows the
+ * `value`/`defaultValue`/`onChange` pattern of Input: pass `value` to control it, or
+ * `defaultValue` to let it manage its own state. Uncontrolled ranges return to their
+ * default value when their form is reset.
+ *
+ * In two-thumb mode (`dual`), two overlaid inputs select a `[low, high]` tuple and the
+ * thumbs cannot cross. Optional tick marks with labels are rendered under the track.
+ *
+ * @param {RangeProps} props - The properties to configure the Range component.
+ * @returns {JSX.Element} The rendered Range component.
+ */
+export default function Range(props: RangeProps): JSX.Element {
+  let lowerRef: HTMLInputElement | undefined;
+  let upperRef: HTMLInputElement | undefined;
+
+  const min = () => props.min ?? 0;
+  const max = () => props.max ?? 100;
+  const step = () => props.step ?? 1;
+
+  const initialValue = (): [number, number] => {
+    if (props.dual) {
+      return props.defaultValue ?? [min(), max()];
+    }
+    const value = props.defaultValue ?? min();
+    return [value, value];
+  };
+
+  // Single-thumb ranges only use the first entry
+  const [internalValue, setInternalValue] = createSignal<[number, number]>(initialValue());
+  const isControlled = () => props.value !== undefined;
+
+  const currentValue = createMemo<[number, number]>(() => {
+    if (!isControlled()) return internalValue();
+    if (props.dual) return props.value as [number, number];
+    const value = props.value as number;
+    return [value, value];
+  });
+
+  const commit = (value: [number, number], event: Event) => {
+    if (!isControlled()) {
+      setInternalValue(value);
+    }
+
+    if (props.dual) {
+      props.onChange?.(value, event);
+    } else {
+      props.onChange?.(value[0], event);
+    }
+  };
+
+  const handleInput = (thumb: 0 | 1) => (event: Event) => {
+    const target = event.currentTarget as HTMLInputElement;
+    const [low, high] = currentValue();
+    let next = Number(target.value);
+
+    if (props.dual) {
+      // Keep the thumbs from crossing
+      next = thumb === 0 ? Math.min(next, high) : Math.max(next, low);
+      if (String(next) !== target.value) {
+        target.value = String(next);
+      }
+      commit(thumb === 0 ? [next, high] : [low, next], event);
+    } else {
+      commit([next, next], event);
+    }
+
+    // Keep the element in sync when a controlled change is not applied
+    const applied = currentValue()[thumb];
+    if (String(applied) !== target.value) {
+      target.value = String(applied);
+    }
+  };
+
+  // Return to the default value when the surrounding form is reset
+  onMount(() => {
+    const form = lowerRef?.form;
+    if (!form) return;
+
+    const handleReset = () => {
+      // The form resets its controls after dispatching the event, so restore them afterwards
+      setTimeout(() => {
+        if (!isControlled()) {
+          setInternalValue(initialValue());
+        }
+        const [low, high] = currentValue();
+        if (lowerRef) lowerRef.value = String(low);
+        if (upperRef) upperRef.value = String(high);
+      });
+    };
+
+    form.addEventListener("reset", handleReset);
+    onCleanup(() => form.removeEventListener("reset", handleReset));
+  });
+
+  const tickList = createMemo<RangeTick[]>(() => {
+    const ticks = props.ticks;
+    if (!ticks) return [];
+
+    if (ticks === true) {
+      // A step of 0, a negative step or NaN would never reach max
+      const interval = step() > 0 ? step() : 1;
+      const list: RangeTick[] = [];
+      for (let value = min(); value <= max(); value += interval) {
+        list.push({ value });
+      }
+      return list;
+    }
+
+    return ticks.map((tick) => (typeof tick === "number" ? { value: tick } : tick));
+  });
+
+  const tickPosition = (value: number) => {
+    const span = max() - min();
+    return span === 0 ? 0 : ((value - min()) / span) * 100;
+  };
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      range: true,
+    };
+
+    // Add DaisyUI size classes
+    if (props.size) {
+      baseClasses[`range-${props.size}`] = true;
+    }
+
+    // Add DaisyUI color classes
+    if (props.color) {
+      baseClasses[`range-${props.color}`] = true;
+    }
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const thumbLabel = (thumb: 0 | 1) => {
+    if (!props.dual || !props["aria-label"]) return props["aria-label"];
+    return `${props["aria-label"]} ${thumb === 0 ? "minimum" : "maximum"}`;
+  };
+
+  const renderInput = (thumb: 0 | 1, extraClasses: Record<string, boolean> = {}) => (
+    <input
+      ref={(el) => {
+        if (thumb === 0) lowerRef = el;
+        else upperRef = el;
+      }}
+      type="range"
+      id={thumb === 0 ? props.id : undefined}
+      name={props.name}
+      form={props.form}
+      min={min()}
+      max={max()}
+      step={step()}
+      value={currentValue()[thumb]}
+      disabled={props.disabled}
+      aria-label={thumbLabel(thumb)}
+      aria-labelledby={props["aria-labelledby"]}
+      aria-describedby={props["aria-describedby"]}
+      aria-valuetext={props.formatValue?.(currentValue()[thumb])}
+      onInput={handleInput(thumb)}
+      classList={{
+        ...classes(),
+        ...extraClasses,
+        ...props.classList,
+      }}
+    />
+  );
+
+  const tickMarks = () => (
+    <Show when={tickList().length > 0}>
+      <div class="px-2.5" aria-hidden="true">
+        <div class="relative mt-2 h-8 text-xs">
+          <For each={tickList()}>
+            {(tick) => (
+              <span
+                class="absolute flex -translate-x-1/2 flex-col items-center"
+                style={{ left: `${tickPosition(tick.value)}%` }}
+                data-value={tick.value}
+              >
+                <span>|</span>
+                <Show when={tick.label !== undefined}>
+                  <span>{tick.label}</span>
+                </Show>
+              </span>
+            )}
+          </For>
+        </div>
+      </div>
+    </Show>
+  );
+
+  // Plain single-thumb range without tick marks
+  if (!props.dual && !props.ticks) {
+    return renderInput(0);
+  }
+
+  return (
+    <div class="w-full">
+      <Show when={props.dual} fallback={renderInput(0)}>
+        {/* Two overlaid inputs; only their thumbs receive pointer events */}
+        <div class="relative">
+          {renderInput(0, {
+            "pointer-events-none": true,
+            "[--range-fill:0]": true,
+            "[&::-webkit-slider-thumb]:pointer-events-auto": true,
+            "[&::-moz-range-thumb]:pointer-events-auto": true,
+            // The upper thumb cannot move when both sit at the maximum, so the lower one is raised to be grabbed
+            get "relative z-10"() {
+              return currentValue()[0] >= max();
+            },
+          })}
+          {renderInput(1, {
+            "absolute inset-0": true,
+            "pointer-events-none": true,
+            "[--range-fill:0]": true,
+            "[--range-bg:transparent]": true,
+            "[&::-webkit-slider-thumb]:pointer-events-auto": true,
+            "[&::-moz-range-thumb]:pointer-events-auto": true,
+          })}
+        </div>
+      </Show>
+      {tickMarks()}
+    </div>
+  );
 }
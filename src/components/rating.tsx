@@ -1,4 +1,271 @@
-// Rating component
-export default function Rating() {
-  return <div>Rating Component</div>;
+import { JSX, For, Show, createSignal, createUniqueId, splitProps } from "solid-js";
+
+/**
+ * DaisyUI mask shapes available for rating items.
+ */
+export type RatingMask =
+  | "star"
+  | "star-2"
+  | "heart"
+  | "circle"
+  | "squircle"
+  | "decagon"
+  | "diamond"
+  | "hexagon"
+  | "hexagon-2"
+  | "pentagon"
+  | "triangle"
+  | "triangle-2"
+  | "triangle-3"
+  | "triangle-4";
+
+/**
+ * Props for the Rating component.
+ *
+ * @property {number} [value] - The current rating (controlled mode). 0 means no rating.
+ * @property {number} [defaultValue] - The initial rating (uncontrolled mode). Defaults to 0.
+ * @property {(value: number, event: Event) => void} [onChange] - Callback fired when the rating changes.
+ * @property {(value: number | undefined) => void} [onHoverChange] - Callback fired when the previewed rating changes while hovering.
+ * @property {number} [count] - Number of items. Defaults to 5.
+ * @property {boolean} [half] - If true, allows half-item precision using `rating-half`.
+ * @property {RatingMask} [mask] - Mask shape of the items. Defaults to "star-2".
+ * @property {string | string[]} [color] - Background class for the items (e.g. "bg-orange-400"), or one class per item.
+ * @property {"xs" | "sm" | "md" | "lg" | "xl"} [size] - DaisyUI size variant for the rating.
+ * @property {boolean} [allowClear] - If true, adds a hidden zero option and clicking the selected item clears the rating.
+ * @property {boolean} [readOnly] - If true, renders a read-only display without radio inputs. Fractional values are rounded to the item precision.
+ * @property {boolean} [disabled] - Whether the rating is disabled.
+ * @property {boolean} [required] - Whether a rating is required for form submission.
+ * @property {string} [name] - Name of the radio group for form submission. Generated when omitted.
+ * @property {string} [form] - Associates the rating with a form element.
+ * @property {(value: number) => string} [getItemLabel] - Accessible label of an item. Defaults to "N stars".
+ * @property {string} [class] - Additional CSS classes to apply to the rating.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the rating.
+ * @property {string} [aria-labelledby] - ID of element that labels the rating.
+ * @property {(event: FocusEvent) => void} [onFocus] - Callback fired when an item receives focus.
+ * @property {(event: FocusEvent) => void} [onBlur] - Callback fired when an item loses focus.
+ */
+export interface RatingProps {
+  value?: number;
+  defaultValue?: number;
+  onChange?: (value: number, event: Event) => void;
+  onHoverChange?: (value: number | undefined) => void;
+  count?: number;
+  half?: boolean;
+  mask?: RatingMask;
+  color?: string | string[];
+  size?: "xs" | "sm" | "md" | "lg" | "xl";
+  allowClear?: boolean;
+  readOnly?: boolean;
+  disabled?: boolean;
+  required?: boolean;
+  name?: string;
+  form?: string;
+  getItemLabel?: (value: number) => string;
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+  "aria-labelledby"?: string;
+  onFocus?: (event: FocusEvent) => void;
+  onBlur?: (event: FocusEvent) => void;
+}
+
+/**
+ * Rating component for collecting or displaying ratings with DaisyUI styling.
+ *
+ * Renders DaisyUI `rating` radio inputs shaped with mask classes, with optional
+ * `rating-half` precision, per-item colors and a hidden zero option for clearing.
+ * Hovering previews the rating before it is selected.
+ *
+ * Supports both controlled and uncontrolled usage patterns like Checkbox:
+ * - Controlled: Pass `value` prop to control the rating externally
+ * - Uncontrolled: Pass `defaultValue` for the initial rating, component manages state internally
+ *
+ * With `readOnly`, the rating is rendered as a display (e.g. for an average of 3.7)
+ * without radio inputs and labeled as an image.
+ *
+ * @param {RatingProps} props - The properties to configure the Rating component.
+ * @returns {JSX.Element} The rendered Rating component.
+ */
+export default function Rating(props: RatingProps): JSX.Element {
+  const [local] = splitProps(props, ["value", "defaultValue", "onChange", "onHoverChange"]);
+  let groupRef: HTMLDivElement | undefined;
+
+  const generatedName = createUniqueId();
+
+  // Internal state for uncontrolled mode
+  const [internalValue, setInternalValue] = createSignal(local.defaultValue ?? 0);
+  const [hoverValue, setHoverValue] = createSignal<number>();
+
+  // Determine if this is controlled or uncontrolled
+  const isControlled = () => local.value !== undefined;
+  const currentValue = () => (isControlled() ? (local.value ?? 0) : internalValue());
+
+  const count = () => props.count ?? 5;
+  const precision = () => (props.half ? 0.5 : 1);
+  const name = () => props.name ?? `rating-${generatedName}`;
+
+  // Values of the items: 1..count, or 0.5..count in half mode
+  const itemValues = () => {
+    const values: number[] = [];
+    for (let value = precision(); value <= count(); value += precision()) {
+      values.push(value);
+    }
+    return values;
+  };
+
+  // Rounded to the item precision for display
+  const displayValue = () => Math.round(currentValue() / precision()) * precision();
+
+  const itemLabel = (value: number) =>
+    props.getItemLabel?.(value) ?? `${value} star${value === 1 ? "" : "s"}`;
+
+  const setValue = (value: number, event: Event) => {
+    if (props.disabled || props.readOnly) return;
+
+    // Update internal state for uncontrolled mode
+    if (!isControlled()) {
+      setInternalValue(value);
+    }
+
+    local.onChange?.(value, event);
+
+    // Keep the radios in sync when a controlled change is not applied
+    groupRef?.querySelectorAll<HTMLInputElement>('input[type="radio"]').forEach((input) => {
+      input.checked = Number(input.value) === currentValue();
+    });
+  };
+
+  const setHover = (value: number | undefined) => {
+    if (props.disabled || props.readOnly || hoverValue() === value) return;
+    setHoverValue(value);
+    local.onHoverChange?.(value);
+  };
+
+  // Build item classes from mask, half-item side and color
+  const itemClasses = (value: number) => {
+    const itemClasses: Record<string, boolean> = {
+      mask: true,
+      [`mask-${props.mask ?? "star-2"}`]: true,
+    };
+
+    if (props.half) {
+      itemClasses[value % 1 === 0 ? "mask-half-2" : "mask-half-1"] = true;
+    }
+
+    const color = Array.isArray(props.color) ? props.color[Math.ceil(value) - 1] : props.color;
+    if (color) {
+      itemClasses[color] = true;
+    }
+
+    return itemClasses;
+  };
+
+  // Hover preview overrides the opacity DaisyUI derives from the checked item
+  const itemStyle = (value: number) => {
+    const hover = hoverValue();
+    if (hover === undefined) return undefined;
+    return { opacity: value <= hover ? 1 : 0.2 };
+  };
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      rating: true,
+      "rating-half": !!props.half,
+    };
+
+    // Add DaisyUI size classes
+    if (props.size) {
+      baseClasses[`rating-${props.size}`] = true;
+    }
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  if (props.readOnly) {
+    return (
+      <div
+        role="img"
+        aria-label={props["aria-label"] ?? `Rated ${currentValue()} out of ${count()}`}
+        classList={{
+          ...classes(),
+          ...props.classList,
+        }}
+      >
+        <For each={itemValues()}>
+          {(value) => (
+            <div
+              aria-hidden="true"
+              aria-current={value === displayValue() ? "true" : undefined}
+              classList={itemClasses(value)}
+            />
+          )}
+        </For>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={groupRef}
+      role="radiogroup"
+      aria-label={props["aria-label"]}
+      aria-labelledby={props["aria-labelledby"]}
+      aria-required={props.required ? "true" : undefined}
+      aria-disabled={props.disabled ? "true" : undefined}
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+      onMouseLeave={() => setHover(undefined)}
+    >
+      <Show when={props.allowClear}>
+        <input
+          type="radio"
+          name={name()}
+          form={props.form}
+          value="0"
+          class="rating-hidden"
+          aria-label="Clear rating"
+          checked={currentValue() === 0}
+          disabled={props.disabled}
+          onChange={(event) => setValue(0, event)}
+          onFocus={props.onFocus}
+          onBlur={props.onBlur}
+        />
+      </Show>
+      <For each={itemValues()}>
+        {(value) => (
+          <input
+            type="radio"
+            name={name()}
+            form={props.form}
+            value={String(value)}
+            aria-label={itemLabel(value)}
+            checked={currentValue() === value}
+            disabled={props.disabled}
+            required={props.required}
+            classList={itemClasses(value)}
+            style={itemStyle(value)}
+            onChange={(event) => setValue(value, event)}
+            onClick={(event) => {
+              // Clicking the selected item clears the rating
+              if (props.allowClear && currentValue() === value && event.currentTarget.checked) {
+                setValue(0, event);
+              }
+            }}
+            onMouseEnter={() => setHover(value)}
+            onFocus={props.onFocus}
+            onBlur={props.onBlur}
+          />
+        )}
+      </For>
+    </div>
+  );
 }
@@ -1,4 +1,5 @@
 import { JSX, createSignal, createEffect, createMemo, For, Show } from "solid-js";
+import { useField, mergeDescribedBy } from "./fieldset/field-context";
 
 /**
  * Option type for individual select options.
@@ -40,6 +41,7 @@ export interface SelectOptionGroup {
  * @property {boolean} [disabled] - Whether the select is disabled.
  * @property {boolean} [required] - Whether the select is required for form validation.
  * @property {string} [name] - The name attribute for form submission.
+ * @property {string} [id] - The id attribute for the select.
  * @property {string} [aria-label] - ARIA label for accessibility.
  * @property {string} [aria-describedby] - ARIA describedby attribute for accessibility.
  * @property {(value: string) => void} [onChange] - Callback fired when the selection changes.
@@ -58,6 +60,7 @@ export interface SelectProps {
   disabled?: boolean;
   required?: boolean;
   name?: string;
+  id?: string;
   "aria-label"?: string;
   "aria-describedby"?: string;
   onChange?: (value: string) => void;
@@ -89,6 +92,11 @@ export default function Select(props: SelectProps): JSX.Element {
     }
   });
 
+  // Label, hint and error wiring from an enclosing Field
+  const field = useField();
+  field?.registerId(() => props.id);
+  const variant = () => (field?.invalid() ? "error" : undefined) || props.variant;
+
   // Build classes following DaisyUI patterns (memoized for performance)
   const classes = createMemo(() => {
     const baseClasses: Record<string, boolean> = {
@@ -101,8 +109,8 @@ export default function Select(props: SelectProps): JSX.Element {
     }
 
     // Add DaisyUI color variant classes
-    if (props.variant) {
-      baseClasses[`select-${props.variant}`] = true;
+    if (variant()) {
+      baseClasses[`select-${variant()}`] = true;
     }
 
     // Add DaisyUI style modifier classes
@@ -169,10 +177,12 @@ export default function Select(props: SelectProps): JSX.Element {
       value={currentValue()}
       onChange={handleChange}
       disabled={props.disabled}
-      required={props.required}
+      required={props.required ?? field?.required()}
       name={props.name}
+      id={props.id ?? field?.id()}
       aria-label={props["aria-label"]}
-      aria-describedby={props["aria-describedby"]}
+      aria-describedby={mergeDescribedBy(props["aria-describedby"], field?.describedBy())}
+      aria-invalid={field?.invalid() || undefined}
       tabIndex={0}
       classList={{
         ...classes(),
@@ -1,4 +0,0 @@
-// Skeleton component
-export default function Skeleton() {
-  return <div>Skeleton Component</div>;
-}
@@ -0,0 +1,37 @@
+// Skeleton components
+import SkeletonComponent from "./skeleton";
+import SkeletonSuspense from "./skeleton-suspense";
+import SkeletonAvatar from "./skeleton-avatar";
+import SkeletonCard from "./skeleton-card";
+import SkeletonStat from "./skeleton-stat";
+import SkeletonTableRows from "./skeleton-table-rows";
+
+// Export types
+export type { SkeletonProps } from "./skeleton";
+export type { SkeletonSuspenseProps, SkeletonPreset } from "./skeleton-suspense";
+export type { SkeletonAvatarProps } from "./skeleton-avatar";
+export type { SkeletonCardProps } from "./skeleton-card";
+export type { SkeletonStatProps } from "./skeleton-stat";
+export type { SkeletonTableRowsProps } from "./skeleton-table-rows";
+
+// Create compound component with attached sub-components
+const Skeleton = SkeletonComponent as typeof SkeletonComponent & {
+  Suspense: typeof SkeletonSuspense;
+  Avatar: typeof SkeletonAvatar;
+  Card: typeof SkeletonCard;
+  Stat: typeof SkeletonStat;
+  TableRows: typeof SkeletonTableRows;
+};
+
+// Attach sub-components to main Skeleton component
+Skeleton.Suspense = SkeletonSuspense;
+Skeleton.Avatar = SkeletonAvatar;
+Skeleton.Card = SkeletonCard;
+Skeleton.Stat = SkeletonStat;
+Skeleton.TableRows = SkeletonTableRows;
+
+// Export the compound component as default
+export default Skeleton;
+
+// Export individual components for those who prefer direct imports
+export { Skeleton, SkeletonSuspense, SkeletonAvatar, SkeletonCard, SkeletonStat, SkeletonTableRows };
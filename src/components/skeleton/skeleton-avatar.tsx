@@ -0,0 +1,71 @@
+import { JSX, Show } from "solid-js";
+import Skeleton from "./skeleton";
+
+/**
+ * Props for the Skeleton.Avatar component.
+ *
+ * @property {number} [size] - Avatar size in pixels. Defaults to 48.
+ * @property {"circle" | "rounded"} [shape] - Avatar shape. Defaults to "circle".
+ * @property {number} [lines] - Number of text lines beside the avatar, e.g. for a name and subtitle. Defaults to 0.
+ * @property {string} [class] - Additional CSS classes to apply to the placeholder.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface SkeletonAvatarProps {
+  size?: number;
+  shape?: "circle" | "rounded";
+  lines?: number;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * Skeleton.Avatar component for an Avatar placeholder.
+ *
+ * Renders a round or rounded skeleton of the avatar size, optionally followed by
+ * text lines for the name and details shown next to an avatar in lists.
+ *
+ * @param {SkeletonAvatarProps} props - The properties to configure the Skeleton.Avatar component.
+ * @returns {JSX.Element} The rendered Skeleton.Avatar component.
+ */
+export default function SkeletonAvatar(props: SkeletonAvatarProps): JSX.Element {
+  const size = () => props.size ?? 48;
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "flex items-center gap-4": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      aria-hidden="true"
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <Skeleton
+        variant={props.shape === "rounded" ? "block" : "circle"}
+        width={size()}
+        height={size()}
+        classList={{ "shrink-0": props.shape === "rounded" }}
+      />
+      <Show when={(props.lines ?? 0) > 0}>
+        <div class="flex flex-1 flex-col gap-2">
+          <Skeleton variant="text" width="5rem" />
+          <Show when={(props.lines ?? 0) > 1}>
+            <Skeleton variant="text" lines={(props.lines ?? 0) - 1} width="7rem" />
+          </Show>
+        </div>
+      </Show>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { JSX, Show } from "solid-js";
+import Skeleton from "./skeleton";
+
+/**
+ * Props for the Skeleton.Card component.
+ *
+ * @property {boolean} [image] - If false, omits the image placeholder. Defaults to true.
+ * @property {number} [lines] - Number of body text lines. Defaults to 3.
+ * @property {boolean} [actions] - If true, adds a button placeholder in the card actions.
+ * @property {string} [class] - Additional CSS classes to apply to the card.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface SkeletonCardProps {
+  image?: boolean;
+  lines?: number;
+  actions?: boolean;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * Skeleton.Card component for a Card placeholder.
+ *
+ * Renders a DaisyUI `card` with an image, title and body text skeletons, matching
+ * the layout of a typical Card so the page does not shift when content arrives.
+ *
+ * @param {SkeletonCardProps} props - The properties to configure the Skeleton.Card component.
+ * @returns {JSX.Element} The rendered Skeleton.Card component.
+ */
+export default function SkeletonCard(props: SkeletonCardProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      card: true,
+      "bg-base-100": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      aria-hidden="true"
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <Show when={props.image !== false}>
+        <figure>
+          <Skeleton class="h-32 w-full rounded-none" />
+        </figure>
+      </Show>
+      <div class="card-body">
+        <Skeleton variant="text" height="1.5rem" width="60%" />
+        <Skeleton lines={props.lines ?? 3} />
+        <Show when={props.actions}>
+          <div class="card-actions justify-end">
+            <Skeleton width="6rem" height="2.5rem" />
+          </div>
+        </Show>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { JSX, Show } from "solid-js";
+import Skeleton from "./skeleton";
+
+/**
+ * Props for the Skeleton.Stat component.
+ *
+ * @property {boolean} [figure] - If true, adds a round figure placeholder.
+ * @property {string} [class] - Additional CSS classes to apply to the stat.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface SkeletonStatProps {
+  figure?: boolean;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * Skeleton.Stat component for a Stat placeholder.
+ *
+ * Renders a DaisyUI `stat` with title, value and description skeletons, and
+ * optionally a figure, so it can stand in for a Stat inside Stats. The stat is
+ * marked with `aria-busy`.
+ *
+ * @param {SkeletonStatProps} props - The properties to configure the Skeleton.Stat component.
+ * @returns {JSX.Element} The rendered Skeleton.Stat component.
+ */
+export default function SkeletonStat(props: SkeletonStatProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      stat: true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      aria-busy="true"
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <Show when={props.figure}>
+        <div class="stat-figure">
+          <Skeleton variant="circle" />
+        </div>
+      </Show>
+      <div class="stat-title">
+        <Skeleton variant="text" width="5rem" />
+      </div>
+      <div class="stat-value py-1">
+        <Skeleton width="8rem" height="2rem" />
+      </div>
+      <div class="stat-desc">
+        <Skeleton variant="text" width="6rem" height="0.75rem" />
+      </div>
+    </div>
+  );
+}
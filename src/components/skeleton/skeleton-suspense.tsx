@@ -0,0 +1,110 @@
+import { JSX, Index, Match, Show, Suspense, Switch } from "solid-js";
+import Skeleton from "./skeleton";
+import SkeletonAvatar from "./skeleton-avatar";
+import SkeletonCard from "./skeleton-card";
+import SkeletonStat from "./skeleton-stat";
+import SkeletonTableRows from "./skeleton-table-rows";
+
+/**
+ * Layout preset of the Skeleton.Suspense placeholder.
+ */
+export type SkeletonPreset = "text" | "avatar" | "card" | "table" | "stat";
+
+/**
+ * Props for the Skeleton.Suspense component.
+ *
+ * @property {JSX.Element} [children] - The content shown once loaded.
+ * @property {SkeletonPreset} [preset] - Placeholder layout matching the content. Defaults to "text".
+ * @property {JSX.Element} [fallback] - Custom placeholder. Takes precedence over `preset`.
+ * @property {number} [count] - Number of preset placeholders, e.g. for lists. Defaults to 1.
+ * @property {boolean} [loading] - Shows the placeholder, e.g. while `resource.loading` is true outside a Suspense read.
+ * @property {string} [label] - Loading text announced to screen readers. Defaults to "Loading".
+ * @property {string} [class] - Additional CSS classes to apply to the placeholder container.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface SkeletonSuspenseProps {
+  children?: JSX.Element;
+  preset?: SkeletonPreset;
+  fallback?: JSX.Element;
+  count?: number;
+  loading?: boolean;
+  label?: string;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * Skeleton.Suspense component for showing skeletons while content loads.
+ *
+ * Wraps its children in a Solid `Suspense` boundary, so a resource read inside shows
+ * a placeholder until it resolves. The placeholder matches the content layout through
+ * a `preset` (text, avatar, card, table or stat) or a custom `fallback`. Pass
+ * `loading` to show the placeholder for resources that are not read under Suspense.
+ *
+ * The placeholder is a status region marked with `aria-busy` and a loading label.
+ *
+ * @param {SkeletonSuspenseProps} props - The properties to configure the Skeleton.Suspense component.
+ * @returns {JSX.Element} The rendered Skeleton.Suspense component.
+ */
+export default function SkeletonSuspense(props: SkeletonSuspenseProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "flex flex-col gap-4": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const presetPlaceholder = () => (
+    <Switch fallback={<Skeleton lines={3} />}>
+      <Match when={props.preset === "avatar"}>
+        <SkeletonAvatar lines={2} />
+      </Match>
+      <Match when={props.preset === "card"}>
+        <SkeletonCard />
+      </Match>
+      <Match when={props.preset === "stat"}>
+        <SkeletonStat />
+      </Match>
+    </Switch>
+  );
+
+  const placeholder = () => (
+    <div
+      role="status"
+      aria-busy="true"
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <span class="sr-only">{props.label ?? "Loading"}</span>
+      <Show when={props.fallback === undefined} fallback={props.fallback}>
+        <Show
+          when={props.preset === "table"}
+          fallback={<Index each={Array.from({ length: props.count ?? 1 })}>{() => presetPlaceholder()}</Index>}
+        >
+          <table class="table" aria-hidden="true">
+            <tbody>
+              <SkeletonTableRows rows={props.count ?? 5} />
+            </tbody>
+          </table>
+        </Show>
+      </Show>
+    </div>
+  );
+
+  return (
+    <Suspense fallback={placeholder()}>
+      <Show when={!props.loading} fallback={placeholder()}>
+        {props.children}
+      </Show>
+    </Suspense>
+  );
+}
@@ -0,0 +1,62 @@
+import { JSX, Index } from "solid-js";
+import Skeleton from "./skeleton";
+
+/**
+ * Props for the Skeleton.TableRows component.
+ *
+ * @property {number} [rows] - Number of placeholder rows. Defaults to 5.
+ * @property {number} [columns] - Number of cells per row. Defaults to 4.
+ * @property {string} [class] - Additional CSS classes to apply to each row.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface SkeletonTableRowsProps {
+  rows?: number;
+  columns?: number;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * Skeleton.TableRows component for Table row placeholders.
+ *
+ * Renders `tr` elements with a text skeleton in every cell. Place it inside a
+ * `tbody` so the placeholders take the column widths of the table header.
+ *
+ * @param {SkeletonTableRowsProps} props - The properties to configure the Skeleton.TableRows component.
+ * @returns {JSX.Element} The rendered Skeleton.TableRows component.
+ */
+export default function SkeletonTableRows(props: SkeletonTableRowsProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {};
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <Index each={Array.from({ length: props.rows ?? 5 })}>
+      {() => (
+        <tr
+          aria-hidden="true"
+          classList={{
+            ...classes(),
+            ...props.classList,
+          }}
+        >
+          <Index each={Array.from({ length: props.columns ?? 4 })}>
+            {() => (
+              <td>
+                <Skeleton variant="text" />
+              </td>
+            )}
+          </Index>
+        </tr>
+      )}
+    </Index>
+  );
+}
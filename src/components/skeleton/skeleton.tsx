@@ -0,0 +1,107 @@
+import { JSX, Index, Show } from "solid-js";
+
+/**
+ * Props for the Skeleton component.
+ *
+ * @property {"block" | "circle" | "text"} [variant] - Shape preset. Defaults to "text" with `lines`, otherwise "block".
+ * @property {number | string} [width] - Width as a CSS length; numbers are pixels.
+ * @property {number | string} [height] - Height as a CSS length; numbers are pixels. Circles default to their width.
+ * @property {number} [lines] - Number of text lines for paragraph placeholders. The last line is shorter.
+ * @property {string} [class] - Additional CSS classes to apply to the skeleton.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface SkeletonProps {
+  variant?: "block" | "circle" | "text";
+  width?: number | string;
+  height?: number | string;
+  lines?: number;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+const toLength = (value?: number | string) => (typeof value === "number" ? `${value}px` : value);
+
+/**
+ * Skeleton component for placeholders shown while content loads.
+ *
+ * Renders the DaisyUI `skeleton` shimmer. The `block` preset takes its size from
+ * `width`/`height` or classes, `circle` renders a round placeholder for avatars and
+ * icons, and `text` renders a line of text height. With `lines`, a paragraph of text
+ * lines is rendered with a shorter last line.
+ *
+ * Skeletons are hidden from assistive technology; mark the loading region with
+ * `aria-busy` or use `Skeleton.Suspense`, which does so automatically.
+ *
+ * @param {SkeletonProps} props - The properties to configure the Skeleton component.
+ * @returns {JSX.Element} The rendered Skeleton component.
+ */
+export default function Skeleton(props: SkeletonProps): JSX.Element {
+  const variant = () => props.variant ?? (props.lines ? "text" : "block");
+
+  const style = () => ({
+    width: toLength(props.width),
+    height: toLength(props.height ?? (variant() === "circle" ? props.width : undefined)),
+  });
+
+  // Build classes following DaisyUI patterns
+  const lineClasses = (shortLine = false) => {
+    const baseClasses: Record<string, boolean> = {
+      skeleton: true,
+    };
+
+    // Add shape preset classes
+    if (variant() === "circle") {
+      baseClasses["rounded-full shrink-0"] = true;
+      baseClasses["size-12"] = props.width === undefined && props.height === undefined;
+    } else if (variant() === "text") {
+      baseClasses["h-4"] = props.height === undefined;
+      baseClasses["w-full"] = props.width === undefined && !shortLine;
+      baseClasses["w-3/5"] = props.width === undefined && shortLine;
+    }
+
+    return baseClasses;
+  };
+
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {};
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <Show
+      when={(props.lines ?? 1) > 1}
+      fallback={
+        <div
+          aria-hidden="true"
+          style={style()}
+          classList={{
+            ...lineClasses(),
+            ...classes(),
+            ...props.classList,
+          }}
+        />
+      }
+    >
+      <div
+        aria-hidden="true"
+        classList={{
+          "flex flex-col gap-2": true,
+          ...classes(),
+          ...props.classList,
+        }}
+      >
+        <Index each={Array.from({ length: props.lines ?? 1 })}>
+          {(_, index) => (
+            <div style={style()} classList={lineClasses(index === (props.lines ?? 1) - 1)} data-line={index} />
+          )}
+        </Index>
+      </div>
+    </Show>
+  );
+}
@@ -1,4 +0,0 @@
-// Stat component
-export default function Stat() {
-  return <div>Stat Component</div>;
-}
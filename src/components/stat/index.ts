@@ -0,0 +1,14 @@
+export { default as Stats } from "./stats";
+export { default as Stat } from "./stat";
+export { default as StatTitle } from "./stat-title";
+export { default as StatValue } from "./stat-value";
+export { default as StatDesc } from "./stat-desc";
+export { default as StatFigure } from "./stat-figure";
+export { default as StatActions } from "./stat-actions";
+export type { StatsProps } from "./stats";
+export type { StatProps } from "./stat";
+export type { StatTitleProps } from "./stat-title";
+export type { StatValueProps, StatNumberFormat } from "./stat-value";
+export type { StatDescProps, StatTrend } from "./stat-desc";
+export type { StatFigureProps } from "./stat-figure";
+export type { StatActionsProps } from "./stat-actions";
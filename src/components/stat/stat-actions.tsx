@@ -0,0 +1,49 @@
+import { JSX } from "solid-js";
+
+/**
+ * Props for the StatActions component.
+ *
+ * @property {JSX.Element} [children] - The buttons or other controls to display.
+ * @property {string} [class] - Additional CSS classes to apply to the actions area.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface StatActionsProps {
+  children?: JSX.Element;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * StatActions component for the buttons or controls of a Stat.
+ *
+ * Renders the DaisyUI `stat-actions` element.
+ *
+ * @param {StatActionsProps} props - The properties to configure the StatActions component.
+ * @returns {JSX.Element} The rendered StatActions component.
+ */
+export default function StatActions(props: StatActionsProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "stat-actions": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      {props.children}
+    </div>
+  );
+}
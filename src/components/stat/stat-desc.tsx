@@ -0,0 +1,109 @@
+import { JSX, Show } from "solid-js";
+import { StatNumberFormat, formatStatNumber } from "./stat-value";
+
+/**
+ * Direction of a stat change.
+ */
+export type StatTrend = "up" | "down" | "neutral";
+
+const trendArrows: Record<StatTrend, string> = {
+  up: "↗︎",
+  down: "↘︎",
+  neutral: "→",
+};
+
+const trendLabels: Record<StatTrend, string> = {
+  up: "Increased by",
+  down: "Decreased by",
+  neutral: "Unchanged",
+};
+
+/**
+ * Props for the StatDesc component.
+ *
+ * @property {number} [delta] - Change to display with a trend indicator. Its sign sets the trend unless `trend` is given.
+ * @property {StatTrend} [trend] - Direction of the change. Can be used without `delta`.
+ * @property {StatNumberFormat} [format] - `Intl.NumberFormat` options or formatter for `delta`.
+ * @property {string | string[]} [locale] - Locale used with format options.
+ * @property {boolean} [invertTrend] - If true, downward changes are shown as good (green) and upward as bad (red).
+ * @property {JSX.Element} [children] - The description text.
+ * @property {string} [class] - Additional CSS classes to apply to the description.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface StatDescProps {
+  delta?: number;
+  trend?: StatTrend;
+  format?: StatNumberFormat;
+  locale?: string | string[];
+  invertTrend?: boolean;
+  children?: JSX.Element;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * StatDesc component for the description of a Stat.
+ *
+ * Renders the DaisyUI `stat-desc` element. With a `delta` or `trend`, an up or down
+ * arrow and the formatted change are shown before the description, colored with
+ * `text-success` or `text-error` depending on the direction. The direction is also
+ * spelled out for screen readers.
+ *
+ * @param {StatDescProps} props - The properties to configure the StatDesc component.
+ * @returns {JSX.Element} The rendered StatDesc component.
+ */
+export default function StatDesc(props: StatDescProps): JSX.Element {
+  const trend = (): StatTrend | undefined => {
+    if (props.trend) return props.trend;
+    if (props.delta === undefined) return undefined;
+    if (props.delta > 0) return "up";
+    return props.delta < 0 ? "down" : "neutral";
+  };
+
+  const isGood = () => (props.invertTrend ? trend() === "down" : trend() === "up");
+  const isBad = () => (props.invertTrend ? trend() === "up" : trend() === "down");
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "stat-desc": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <Show when={trend()}>
+        {(direction) => (
+          <span
+            data-trend={direction()}
+            classList={{
+              "text-success": isGood(),
+              "text-error": isBad(),
+            }}
+          >
+            <span aria-hidden="true">{trendArrows[direction()]}</span>
+            <span class="sr-only">{trendLabels[direction()]}</span>
+            <Show when={props.delta !== undefined && props.delta !== 0}>
+              {" "}
+              {formatStatNumber(Math.abs(props.delta as number), props.format, props.locale)}
+            </Show>
+          </span>
+        )}
+      </Show>
+      <Show when={trend() && props.children}> </Show>
+      {props.children}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { JSX } from "solid-js";
+
+/**
+ * Props for the StatFigure component.
+ *
+ * @property {JSX.Element} [children] - The icon, image or avatar to display.
+ * @property {string} [class] - Additional CSS classes to apply to the figure.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface StatFigureProps {
+  children?: JSX.Element;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * StatFigure component for the icon or image beside the values of a Stat.
+ *
+ * Renders the DaisyUI `stat-figure` element.
+ *
+ * @param {StatFigureProps} props - The properties to configure the StatFigure component.
+ * @returns {JSX.Element} The rendered StatFigure component.
+ */
+export default function StatFigure(props: StatFigureProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "stat-figure": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      {props.children}
+    </div>
+  );
+}
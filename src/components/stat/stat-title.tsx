@@ -0,0 +1,49 @@
+import { JSX } from "solid-js";
+
+/**
+ * Props for the StatTitle component.
+ *
+ * @property {JSX.Element} [children] - The title text.
+ * @property {string} [class] - Additional CSS classes to apply to the title.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface StatTitleProps {
+  children?: JSX.Element;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * StatTitle component for the title of a Stat.
+ *
+ * Renders the DaisyUI `stat-title` element.
+ *
+ * @param {StatTitleProps} props - The properties to configure the StatTitle component.
+ * @returns {JSX.Element} The rendered StatTitle component.
+ */
+export default function StatTitle(props: StatTitleProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "stat-title": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      {props.children}
+    </div>
+  );
+}
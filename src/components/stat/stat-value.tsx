@@ -0,0 +1,76 @@
+import { JSX, Show } from "solid-js";
+
+/**
+ * Number format of a stat: `Intl.NumberFormat` options or a ready formatter.
+ */
+export type StatNumberFormat = Intl.NumberFormatOptions | Intl.NumberFormat;
+
+/**
+ * Formats a number with the given Intl.NumberFormat options or formatter.
+ *
+ * @param {number} value - The number to format.
+ * @param {StatNumberFormat} [format] - Format options or a formatter.
+ * @param {string | string[]} [locale] - Locale used with format options.
+ * @returns {string} The formatted number.
+ */
+export function formatStatNumber(value: number, format?: StatNumberFormat, locale?: string | string[]): string {
+  const formatter = format instanceof Intl.NumberFormat ? format : new Intl.NumberFormat(locale, format);
+  return formatter.format(value);
+}
+
+/**
+ * Props for the StatValue component.
+ *
+ * @property {number} [value] - Numeric value, formatted with `format`. Children are shown when omitted.
+ * @property {StatNumberFormat} [format] - `Intl.NumberFormat` options or formatter for `value`.
+ * @property {string | string[]} [locale] - Locale used with format options. Defaults to the user's locale.
+ * @property {JSX.Element} [children] - Custom value content.
+ * @property {string} [class] - Additional CSS classes to apply to the value.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface StatValueProps {
+  value?: number;
+  format?: StatNumberFormat;
+  locale?: string | string[];
+  children?: JSX.Element;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * StatValue component for the main value of a Stat.
+ *
+ * Renders the DaisyUI `stat-value` element. A numeric `value` is formatted with
+ * `Intl.NumberFormat`, e.g. as currency or a compact number.
+ *
+ * @param {StatValueProps} props - The properties to configure the StatValue component.
+ * @returns {JSX.Element} The rendered StatValue component.
+ */
+export default function StatValue(props: StatValueProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "stat-value": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <Show when={props.value !== undefined} fallback={props.children}>
+        {formatStatNumber(props.value as number, props.format, props.locale)}
+      </Show>
+    </div>
+  );
+}
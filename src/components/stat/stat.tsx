@@ -0,0 +1,122 @@
+import { JSX, Show } from "solid-js";
+import StatTitle from "./stat-title";
+import StatValue, { StatNumberFormat } from "./stat-value";
+import StatDesc, { StatTrend } from "./stat-desc";
+import StatFigure from "./stat-figure";
+import StatActions from "./stat-actions";
+import { SkeletonStat } from "../skeleton";
+
+/**
+ * Props for the Stat component.
+ *
+ * @property {JSX.Element} [title] - The stat title.
+ * @property {number | JSX.Element} [value] - The stat value. Numbers are formatted with `format`.
+ * @property {StatNumberFormat} [format] - `Intl.NumberFormat` options or formatter for a numeric value.
+ * @property {string | string[]} [locale] - Locale used with format options. Defaults to the user's locale.
+ * @property {JSX.Element} [desc] - The description under the value.
+ * @property {number} [delta] - Change shown in the description with an up or down indicator.
+ * @property {StatTrend} [trend] - Direction of the change. Derived from the sign of `delta` when omitted.
+ * @property {StatNumberFormat} [deltaFormat] - Format of the delta. Defaults to `format`.
+ * @property {boolean} [invertTrend] - If true, downward changes are shown as good and upward as bad.
+ * @property {JSX.Element} [figure] - Icon, image or avatar shown beside the values.
+ * @property {JSX.Element} [actions] - Buttons or controls shown under the values.
+ * @property {JSX.Element} [sparkline] - Chart shown across the bottom of the stat.
+ * @property {boolean} [loading] - If true, renders a `Skeleton.Stat` placeholder instead of the content.
+ * @property {JSX.Element} [children] - Custom content, e.g. StatTitle and StatValue elements.
+ * @property {string} [class] - Additional CSS classes to apply to the stat.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface StatProps {
+  title?: JSX.Element;
+  value?: number | JSX.Element;
+  format?: StatNumberFormat;
+  locale?: string | string[];
+  desc?: JSX.Element;
+  delta?: number;
+  trend?: StatTrend;
+  deltaFormat?: StatNumberFormat;
+  invertTrend?: boolean;
+  figure?: JSX.Element;
+  actions?: JSX.Element;
+  sparkline?: JSX.Element;
+  loading?: boolean;
+  children?: JSX.Element;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * Stat component for a single metric within Stats.
+ *
+ * Renders a DaisyUI `stat` from its props or from StatTitle, StatValue, StatDesc,
+ * StatFigure and StatActions children. A numeric `value` is formatted with
+ * `Intl.NumberFormat`, and a `delta` or `trend` adds a colored up or down indicator
+ * to the description. While `loading`, a `Skeleton.Stat` placeholder takes its place
+ * so the layout does not shift when data arrives.
+ *
+ * @param {StatProps} props - The properties to configure the Stat component.
+ * @returns {JSX.Element} The rendered Stat component.
+ */
+export default function Stat(props: StatProps): JSX.Element {
+  const hasDesc = () => props.desc !== undefined || props.delta !== undefined || props.trend !== undefined;
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      stat: true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <Show
+      when={!props.loading}
+      fallback={<SkeletonStat figure={!!props.figure} class={props.class} classList={props.classList} />}
+    >
+      <div
+        classList={{
+          ...classes(),
+          ...props.classList,
+        }}
+      >
+        <Show when={props.figure}>
+          <StatFigure>{props.figure}</StatFigure>
+        </Show>
+        <Show when={props.title !== undefined}>
+          <StatTitle>{props.title}</StatTitle>
+        </Show>
+        <Show when={props.value !== undefined}>
+          <Show when={typeof props.value === "number"} fallback={<StatValue>{props.value}</StatValue>}>
+            <StatValue value={props.value as number} format={props.format} locale={props.locale} />
+          </Show>
+        </Show>
+        <Show when={hasDesc()}>
+          <StatDesc
+            delta={props.delta}
+            trend={props.trend}
+            format={props.deltaFormat ?? props.format}
+            locale={props.locale}
+            invertTrend={props.invertTrend}
+          >
+            {props.desc}
+          </StatDesc>
+        </Show>
+        <Show when={props.actions}>
+          <StatActions>{props.actions}</StatActions>
+        </Show>
+        {props.children}
+        <Show when={props.sparkline}>
+          <div class="col-span-full mt-2" data-slot="sparkline">
+            {props.sparkline}
+          </div>
+        </Show>
+      </div>
+    </Show>
+  );
+}
@@ -0,0 +1,78 @@
+import { JSX } from "solid-js";
+
+type StatsBreakpoint = "sm" | "md" | "lg" | "xl" | "2xl";
+
+const horizontalClasses: Record<StatsBreakpoint, string> = {
+  sm: "sm:stats-horizontal",
+  md: "md:stats-horizontal",
+  lg: "lg:stats-horizontal",
+  xl: "xl:stats-horizontal",
+  "2xl": "2xl:stats-horizontal",
+};
+
+/**
+ * Props for the Stats component.
+ *
+ * @property {JSX.Element} [children] - The Stat elements to group.
+ * @property {"horizontal" | "vertical"} [orientation] - Layout direction of the stats. Defaults to "horizontal".
+ * @property {StatsBreakpoint} [horizontalFrom] - Breakpoint from which vertical stats switch to a horizontal layout.
+ * @property {string} [class] - Additional CSS classes to apply to the stats.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the group of stats.
+ */
+export interface StatsProps {
+  children?: JSX.Element;
+  orientation?: "horizontal" | "vertical";
+  horizontalFrom?: StatsBreakpoint;
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+}
+
+/**
+ * Stats component for grouping Stat elements.
+ *
+ * Renders a DaisyUI `stats` container that lays out its stats horizontally or
+ * vertically, or switches from vertical to horizontal at a breakpoint.
+ *
+ * @param {StatsProps} props - The properties to configure the Stats component.
+ * @returns {JSX.Element} The rendered Stats component.
+ */
+export default function Stats(props: StatsProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      stats: true,
+    };
+
+    // Add orientation classes
+    if (props.orientation === "vertical" || props.horizontalFrom) {
+      baseClasses["stats-vertical"] = true;
+    } else {
+      baseClasses["stats-horizontal"] = true;
+    }
+    if (props.horizontalFrom) {
+      baseClasses[horizontalClasses[props.horizontalFrom]] = true;
+    }
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      role={props["aria-label"] ? "group" : undefined}
+      aria-label={props["aria-label"]}
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      {props.children}
+    </div>
+  );
+}
@@ -1,4 +1,226 @@
-// Steps component
-export default function Steps() {
-  return <div>Steps Component</div>;
+import { JSX, For, Show } from "solid-js";
+
+/**
+ * Status of a step.
+ */
+export type StepStatus = "completed" | "current" | "pending" | "error";
+
+type StepColor = "primary" | "secondary" | "accent" | "neutral" | "info" | "success" | "warning" | "error";
+
+type StepsBreakpoint = "sm" | "md" | "lg" | "xl" | "2xl";
+
+const horizontalClasses: Record<StepsBreakpoint, string> = {
+  sm: "sm:steps-horizontal",
+  md: "md:steps-horizontal",
+  lg: "lg:steps-horizontal",
+  xl: "xl:steps-horizontal",
+  "2xl": "2xl:steps-horizontal",
+};
+
+const statusLabels: Partial<Record<StepStatus, string>> = {
+  completed: "completed",
+  error: "error",
+};
+
+/**
+ * A step rendered from the Steps `items` array.
+ *
+ * @property {JSX.Element} label - The step label.
+ * @property {StepStatus} [status] - Explicit status. Derived from `current` when omitted.
+ * @property {string} [content] - Custom marker shown in the step circle through `data-content` (e.g. "✓", "?", "★").
+ * @property {JSX.Element} [icon] - Custom icon shown in the step circle.
+ * @property {boolean} [disabled] - If true, the step cannot be clicked.
+ */
+export interface StepItem {
+  label: JSX.Element;
+  status?: StepStatus;
+  content?: string;
+  icon?: JSX.Element;
+  disabled?: boolean;
+}
+
+/**
+ * Props for the Steps component.
+ *
+ * @property {StepItem[]} [items] - Steps to render. Takes precedence over children.
+ * @property {JSX.Element} [children] - `Step` elements, used when no items are given.
+ * @property {number} [current] - Index of the current step. Earlier items are completed, later items pending.
+ * @property {StepColor} [color] - DaisyUI color of completed and current items. Defaults to "primary".
+ * @property {"horizontal" | "vertical"} [orientation] - Layout direction of the steps. Defaults to "horizontal".
+ * @property {StepsBreakpoint} [horizontalFrom] - Breakpoint from which vertical steps switch to a horizontal layout.
+ * @property {(index: number, item: StepItem) => void} [onStepClick] - Makes items clickable, e.g. for navigation.
+ * @property {string} [class] - Additional CSS classes to apply to the steps.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the steps.
+ * @property {string} [aria-labelledby] - ID of element that labels the steps.
+ */
+export interface StepsProps {
+  items?: StepItem[];
+  children?: JSX.Element;
+  current?: number;
+  color?: StepColor;
+  orientation?: "horizontal" | "vertical";
+  horizontalFrom?: StepsBreakpoint;
+  onStepClick?: (index: number, item: StepItem) => void;
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+  "aria-labelledby"?: string;
+}
+
+/**
+ * Props for the Step component.
+ *
+ * @property {JSX.Element} [children] - The step label.
+ * @property {StepStatus} [status] - The step status. Completed and current steps are colored, error steps use `step-error`.
+ * @property {StepColor} [color] - DaisyUI color of the step when completed or current.
+ * @property {string} [content] - Custom marker shown in the step circle through `data-content`.
+ * @property {JSX.Element} [icon] - Custom icon shown in the step circle.
+ * @property {(event: MouseEvent) => void} [onClick] - Makes the step label a button.
+ * @property {boolean} [disabled] - Disables the step button.
+ * @property {string} [class] - Additional CSS classes to apply to the step.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface StepProps {
+  children?: JSX.Element;
+  status?: StepStatus;
+  color?: StepColor;
+  content?: string;
+  icon?: JSX.Element;
+  onClick?: (event: MouseEvent) => void;
+  disabled?: boolean;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * Steps component for showing progress through a sequence of steps.
+ *
+ * Renders DaisyUI `steps` as an ordered list, either from an `items` array or from
+ * `Step` children. With `items`, statuses are derived from `current`: earlier steps are
+ * completed, later ones pending, and the current step is marked with `aria-current="step"`.
+ * Completed and current steps use the `step-{color}` classes, error steps `step-error`.
+ *
+ * Steps can be laid out horizontally or vertically, or switch from vertical to horizontal
+ * at a breakpoint. With `onStepClick`, step labels become buttons so the steps can be used
+ * as navigation.
+ *
+ * @param {StepsProps} props - The properties to configure the Steps component.
+ * @returns {JSX.Element} The rendered Steps component.
+ */
+export default function Steps(props: StepsProps): JSX.Element {
+  const statusOf = (item: StepItem, index: number): StepStatus => {
+    if (item.status) return item.status;
+    if (props.current === undefined) return "pending";
+    if (index < props.current) return "completed";
+    return index === props.current ? "current" : "pending";
+  };
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      steps: true,
+    };
+
+    // Add orientation classes
+    if (props.orientation === "vertical" || props.horizontalFrom) {
+      baseClasses["steps-vertical"] = true;
+    }
+    if (props.horizontalFrom) {
+      baseClasses[horizontalClasses[props.horizontalFrom]] = true;
+    }
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <ol
+      aria-label={props["aria-label"]}
+      aria-labelledby={props["aria-labelledby"]}
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <Show when={props.items} fallback={props.children}>
+        {(items) => (
+          <For each={items()}>
+            {(item, index) => (
+              <Step
+                status={statusOf(item, index())}
+                color={props.color}
+                content={item.content}
+                icon={item.icon}
+                disabled={item.disabled}
+                onClick={props.onStepClick ? () => props.onStepClick?.(index(), item) : undefined}
+              >
+                {item.label}
+              </Step>
+            )}
+          </For>
+        )}
+      </Show>
+    </ol>
+  );
+}
+
+/**
+ * Step component for an individual step within Steps.
+ *
+ * Renders a DaisyUI `step` list item. The current step is marked with
+ * `aria-current="step"`, and completed and error statuses are announced to screen
+ * readers. A custom marker can be set with `content` or an icon with `icon`.
+ *
+ * @param {StepProps} props - The properties to configure the Step component.
+ * @returns {JSX.Element} The rendered Step component.
+ */
+export function Step(props: StepProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      step: true,
+    };
+
+    // Add DaisyUI color classes
+    if (props.status === "error") {
+      baseClasses["step-error"] = true;
+    } else if (props.status === "completed" || props.status === "current") {
+      baseClasses[`step-${props.color ?? "primary"}`] = true;
+    }
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <li
+      data-content={props.content}
+      aria-current={props.status === "current" ? "step" : undefined}
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <Show when={props.icon}>
+        <span class="step-icon">{props.icon}</span>
+      </Show>
+      <Show when={props.onClick} fallback={props.children}>
+        <button type="button" class="link link-hover" disabled={props.disabled} onClick={(event) => props.onClick?.(event)}>
+          {props.children}
+        </button>
+      </Show>
+      <Show when={props.status && statusLabels[props.status]}>
+        {(label) => <span class="sr-only"> ({label()})</span>}
+      </Show>
+    </li>
+  );
 }
@@ -11,6 +11,8 @@ import { JSX, createSignal, createMemo } from "solid-js";
  * @property {string} [class] - Additional CSS classes to apply to the swap container.
  * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling using SolidJS classList.
  * @property {string} [aria-label] - Accessible label for the swap component. Defaults to "Toggle switch" if not provided.
+ * @property {string} [value] - Value of the hidden checkbox, e.g. the theme name of a DaisyUI theme-controller.
+ * @property {string} [inputClass] - Additional CSS classes for the hidden checkbox, e.g. "theme-controller".
  * 
  * @example
  * ```tsx
@@ -49,6 +51,8 @@ export interface SwapProps {
   class?: string;
   classList?: Record<string, boolean>;
   "aria-label"?: string;
+  value?: string;
+  inputClass?: string;
 }
 
 /**
@@ -174,6 +178,8 @@ export default function Swap(props: SwapProps): JSX.Element {
       {/* Hidden checkbox for state management - following DaisyUI patterns */}
       <input
         type="checkbox"
+        class={props.inputClass}
+        value={props.value ?? "on"}
         checked={isActive()}
         aria-hidden="true"
         style={{ display: "none" }}
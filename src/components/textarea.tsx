@@ -1,4 +1,5 @@
 import { JSX, createSignal, createMemo, createUniqueId, mergeProps, splitProps } from "solid-js";
+import { useField, mergeDescribedBy } from "./fieldset/field-context";
 
 /**
  * Props for the Textarea component.
@@ -130,6 +131,9 @@ export default function Textarea(props: TextareaProps): JSX.Element {
   
   // Generate unique ID for hint message association
   const hintId = createUniqueId();
+
+  // Label, hint and error wiring from an enclosing Field
+  const field = useField();
   
   // Split props into textarea-specific and our custom props
   const [local, textareaProps] = splitProps(merged, [
@@ -148,6 +152,7 @@ export default function Textarea(props: TextareaProps): JSX.Element {
     "label",
     "altLabel"
   ]);
+  field?.registerId(() => textareaProps.id);
 
   // Handle controlled vs uncontrolled mode
   const [internalValue, setInternalValue] = createSignal(local.defaultValue || "");
@@ -158,8 +163,10 @@ export default function Textarea(props: TextareaProps): JSX.Element {
     isControlled() ? (local.value || "") : internalValue()
   );
 
-  // Determine the effective variant based on state or variant prop
-  const effectiveVariant = createMemo(() => local.state || local.variant);
+  // Determine the effective variant based on state, field error or variant prop
+  const effectiveVariant = createMemo(
+    () => local.state || (field?.invalid() ? "error" : undefined) || local.variant
+  );
 
   // Determine if we should show hint message
   const shouldShowHint = createMemo(() => 
@@ -232,13 +239,13 @@ export default function Textarea(props: TextareaProps): JSX.Element {
   };
 
   // Determine aria-describedby for accessibility - optimized to avoid unnecessary concatenation
-  const ariaDescribedBy = createMemo(() => {
-    const existingDescribedBy = (textareaProps as any)["aria-describedby"];
-    if (!shouldShowHint()) {
-      return existingDescribedBy;
-    }
-    return existingDescribedBy ? `${existingDescribedBy} ${hintId}` : hintId;
-  });
+  const ariaDescribedBy = createMemo(() =>
+    mergeDescribedBy(
+      (textareaProps as any)["aria-describedby"],
+      field?.describedBy(),
+      shouldShowHint() ? hintId : undefined
+    )
+  );
 
   // Create the textarea element
   const textareaElement = (
@@ -251,6 +258,8 @@ export default function Textarea(props: TextareaProps): JSX.Element {
         ...classes(),
         ...local.classList,
       }}
+      id={textareaProps.id ?? field?.id()}
+      required={textareaProps.required ?? field?.required()}
       aria-invalid={effectiveVariant() === "error" ? "true" : undefined}
       aria-describedby={ariaDescribedBy()}
     />
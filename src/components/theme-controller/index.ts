@@ -0,0 +1,8 @@
+export { default as ThemeController } from "./theme-controller";
+export { default as ThemeProvider } from "./theme-provider";
+export { useTheme } from "./theme-context";
+export { createThemeScript, themeScript } from "./theme-script";
+export type { ThemeControllerProps } from "./theme-controller";
+export type { ThemeProviderProps } from "./theme-provider";
+export type { ThemeContextValue } from "./theme-context";
+export type { ThemeScriptOptions } from "./theme-script";
@@ -0,0 +1,37 @@
+import { Accessor, createContext, useContext } from "solid-js";
+
+/**
+ * Theme state and actions provided by `ThemeProvider`.
+ *
+ * @property {Accessor<string>} theme - The selected theme, which can be "system".
+ * @property {Accessor<string>} resolvedTheme - The applied theme, with "system" resolved to the light or dark theme.
+ * @property {Accessor<"light" | "dark">} systemTheme - The color scheme preferred by the operating system.
+ * @property {Accessor<string[]>} themes - Themes offered by theme controllers.
+ * @property {Accessor<string>} lightTheme - Theme applied for a light system preference.
+ * @property {Accessor<string>} darkTheme - Theme applied for a dark system preference.
+ * @property {boolean} scoped - Whether the theme applies to a scoped element instead of `<html>`.
+ * @property {(theme: string) => void} setTheme - Selects a theme, or "system" to follow the system preference.
+ */
+export interface ThemeContextValue {
+  theme: Accessor<string>;
+  resolvedTheme: Accessor<string>;
+  systemTheme: Accessor<"light" | "dark">;
+  themes: Accessor<string[]>;
+  lightTheme: Accessor<string>;
+  darkTheme: Accessor<string>;
+  scoped: boolean;
+  setTheme: (theme: string) => void;
+}
+
+export const ThemeContext = createContext<ThemeContextValue>();
+
+/**
+ * Hook to access the theme state of the nearest `ThemeProvider`.
+ */
+export function useTheme(): ThemeContextValue {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw new Error("useTheme must be used within a ThemeProvider component");
+  }
+  return context;
+}
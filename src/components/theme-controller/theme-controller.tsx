@@ -0,0 +1,207 @@
+import { JSX, For, Match, Switch, createSignal, createUniqueId, useContext } from "solid-js";
+import Swap from "../swap";
+import Dropdown from "../dropdown/dropdown";
+import { ThemeContext } from "./theme-context";
+
+/**
+ * Props for the ThemeController component.
+ *
+ * @property {"toggle" | "radio" | "dropdown"} [variant] - The controller UI: a light/dark toggle, a radio list or a dropdown. Defaults to "toggle".
+ * @property {string} [value] - The selected theme (controlled mode). Inside a `ThemeProvider`, defaults to the provider theme.
+ * @property {string} [defaultValue] - The initially selected theme (uncontrolled mode, outside a `ThemeProvider`).
+ * @property {(theme: string) => void} [onChange] - Callback fired when a theme is selected.
+ * @property {string[]} [themes] - Themes listed by the radio and dropdown variants. Defaults to the provider themes, or light and dark.
+ * @property {boolean} [includeSystem] - If true, the radio and dropdown variants offer a "system" option.
+ * @property {string} [lightTheme] - Theme selected when the toggle is off. Defaults to the provider light theme, or "light".
+ * @property {string} [darkTheme] - Theme selected when the toggle is on. Defaults to the provider dark theme, or "dark".
+ * @property {JSX.Element} [lightIcon] - Toggle content shown for the light theme. Defaults to a sun icon.
+ * @property {JSX.Element} [darkIcon] - Toggle content shown for the dark theme. Defaults to a moon icon.
+ * @property {JSX.Element} [label] - Content of the dropdown button. Defaults to "Theme".
+ * @property {(theme: string) => string} [getThemeLabel] - Returns the label of a theme option. Defaults to the capitalized theme name.
+ * @property {string} [name] - Name of the radio inputs. Generated when not provided.
+ * @property {string} [class] - Additional CSS classes to apply to the controller.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the controller. Defaults to "Toggle dark mode" for the toggle and "Theme" otherwise.
+ */
+export interface ThemeControllerProps {
+  variant?: "toggle" | "radio" | "dropdown";
+  value?: string;
+  defaultValue?: string;
+  onChange?: (theme: string) => void;
+  themes?: string[];
+  includeSystem?: boolean;
+  lightTheme?: string;
+  darkTheme?: string;
+  lightIcon?: JSX.Element;
+  darkIcon?: JSX.Element;
+  label?: JSX.Element;
+  getThemeLabel?: (theme: string) => string;
+  name?: string;
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+}
+
+const defaultThemeLabel = (theme: string) => theme.charAt(0).toUpperCase() + theme.slice(1);
+
+const SunIcon = () => (
+  <svg class="h-6 w-6 fill-current" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" aria-hidden="true">
+    <path d="M5.64,17l-.71.71a1,1,0,0,0,0,1.41,1,1,0,0,0,1.41,0l.71-.71A1,1,0,0,0,5.64,17ZM5,12a1,1,0,0,0-1-1H3a1,1,0,0,0,0,2H4A1,1,0,0,0,5,12Zm7-7a1,1,0,0,0,1-1V3a1,1,0,0,0-2,0V4A1,1,0,0,0,12,5ZM5.64,7.05a1,1,0,0,0,.7.29,1,1,0,0,0,.71-.29,1,1,0,0,0,0-1.41l-.71-.71A1,1,0,0,0,4.93,6.34Zm12,.29a1,1,0,0,0,.7-.29l.71-.71a1,1,0,1,0-1.41-1.41L17,5.64a1,1,0,0,0,0,1.41A1,1,0,0,0,17.66,7.34ZM21,11H20a1,1,0,0,0,0,2h1a1,1,0,0,0,0-2Zm-9,8a1,1,0,0,0-1,1v1a1,1,0,0,0,2,0V20A1,1,0,0,0,12,19ZM18.36,17A1,1,0,0,0,17,18.36l.71.71a1,1,0,0,0,1.41,0,1,1,0,0,0,0-1.41ZM12,6.5A5.5,5.5,0,1,0,17.5,12,5.51,5.51,0,0,0,12,6.5Zm0,9A3.5,3.5,0,1,1,15.5,12,3.5,3.5,0,0,1,12,15.5Z" />
+  </svg>
+);
+
+const MoonIcon = () => (
+  <svg class="h-6 w-6 fill-current" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" aria-hidden="true">
+    <path d="M21.64,13a1,1,0,0,0-1.05-.14,8.05,8.05,0,0,1-3.37.73A8.15,8.15,0,0,1,9.08,5.49a8.59,8.59,0,0,1,.25-2A1,1,0,0,0,8,2.36,10.14,10.14,0,1,0,22,14.05,1,1,0,0,0,21.64,13Zm-9.5,6.69A8.14,8.14,0,0,1,7.08,5.22v.27A10.15,10.15,0,0,0,17.22,15.63a9.79,9.79,0,0,0,2.1-.22A8.11,8.11,0,0,1,12.14,19.73Z" />
+  </svg>
+);
+
+/**
+ * ThemeController component for switching DaisyUI themes.
+ *
+ * Renders DaisyUI `theme-controller` inputs as a light/dark toggle built on Swap, a
+ * radio list, or a dropdown built on Dropdown. Inside a `ThemeProvider` it reads and
+ * selects the provider theme, so the choice is persisted and "system" can be offered.
+ * On its own, the checked `theme-controller` input applies the theme through DaisyUI CSS.
+ *
+ * @param {ThemeControllerProps} props - The properties to configure the ThemeController component.
+ * @returns {JSX.Element} The rendered ThemeController component.
+ */
+export default function ThemeController(props: ThemeControllerProps): JSX.Element {
+  const context = useContext(ThemeContext);
+  const [internalValue, setInternalValue] = createSignal(props.defaultValue);
+  const generatedName = `theme-${createUniqueId()}`;
+
+  let listRef: HTMLElement | undefined;
+
+  const value = () => props.value ?? context?.theme() ?? internalValue();
+  const lightTheme = () => props.lightTheme ?? context?.lightTheme() ?? "light";
+  const darkTheme = () => props.darkTheme ?? context?.darkTheme() ?? "dark";
+  const themes = () => {
+    const list = props.themes ?? context?.themes() ?? [lightTheme(), darkTheme()];
+    return props.includeSystem ? ["system", ...list] : list;
+  };
+  const name = () => props.name ?? generatedName;
+  const getThemeLabel = (theme: string) => (props.getThemeLabel ?? defaultThemeLabel)(theme);
+
+  // A scoped provider must not switch the page theme through DaisyUI CSS
+  const isThemeController = () => !context?.scoped;
+
+  // Whether the toggle shows the dark theme, following the system preference for "system"
+  const isDark = () => {
+    if (value() === "system" && context) return context.resolvedTheme() === darkTheme();
+    return value() === darkTheme();
+  };
+
+  const select = (theme: string) => {
+    if (props.value === undefined) {
+      if (context) {
+        context.setTheme(theme);
+      } else {
+        setInternalValue(theme);
+      }
+    }
+    props.onChange?.(theme);
+
+    // Keep the checked input in sync when a controlled value was not updated
+    listRef?.querySelectorAll<HTMLInputElement>("input[type=radio]").forEach((input) => {
+      input.checked = input.value === value();
+    });
+  };
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {};
+
+    // Add variant layout classes
+    if (props.variant === "radio") {
+      baseClasses["flex flex-col gap-2"] = true;
+    }
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <Switch
+      fallback={
+        <Swap
+          variant="rotate"
+          active={isDark()}
+          onToggle={(active) => select(active ? darkTheme() : lightTheme())}
+          value={darkTheme()}
+          inputClass={isThemeController() ? "theme-controller" : undefined}
+          on={props.darkIcon ?? <MoonIcon />}
+          off={props.lightIcon ?? <SunIcon />}
+          class={props.class}
+          classList={props.classList}
+          aria-label={props["aria-label"] ?? "Toggle dark mode"}
+        />
+      }
+    >
+      <Match when={props.variant === "radio"}>
+        <div
+          ref={(el) => (listRef = el)}
+          role="radiogroup"
+          aria-label={props["aria-label"] ?? "Theme"}
+          classList={{
+            ...classes(),
+            ...props.classList,
+          }}
+        >
+          <For each={themes()}>
+            {(theme) => (
+              <label class="flex cursor-pointer items-center gap-2">
+                <input
+                  type="radio"
+                  name={name()}
+                  value={theme}
+                  checked={value() === theme}
+                  onChange={() => select(theme)}
+                  classList={{ "radio radio-sm": true, "theme-controller": isThemeController() }}
+                />
+                <span>{getThemeLabel(theme)}</span>
+              </label>
+            )}
+          </For>
+        </div>
+      </Match>
+      <Match when={props.variant === "dropdown"}>
+        <Dropdown class={props.class} classList={props.classList}>
+          <div tabindex="0" role="button" class="btn m-1">
+            {props.label ?? "Theme"}
+          </div>
+          <ul
+            ref={(el) => (listRef = el)}
+            role="radiogroup"
+            aria-label={props["aria-label"] ?? "Theme"}
+            class="bg-base-300 rounded-box z-1 w-52 p-2 shadow-2xl"
+          >
+            <For each={themes()}>
+              {(theme) => (
+                <li>
+                  <input
+                    type="radio"
+                    name={name()}
+                    value={theme}
+                    aria-label={getThemeLabel(theme)}
+                    checked={value() === theme}
+                    onChange={() => select(theme)}
+                    classList={{
+                      "w-full btn btn-sm btn-block btn-ghost justify-start": true,
+                      "theme-controller": isThemeController(),
+                    }}
+                  />
+                </li>
+              )}
+            </For>
+          </ul>
+        </Dropdown>
+      </Match>
+    </Switch>
+  );
+}
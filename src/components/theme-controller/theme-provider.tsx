@@ -0,0 +1,165 @@
+import { JSX, createSignal, createMemo, createRenderEffect, onCleanup, Show } from "solid-js";
+import { ThemeContext, ThemeContextValue } from "./theme-context";
+
+/**
+ * Props for the ThemeProvider component.
+ *
+ * @property {JSX.Element} [children] - The content that can call `useTheme()`.
+ * @property {string} [theme] - The selected theme (controlled mode). Use "system" to follow the system preference.
+ * @property {string} [defaultTheme] - The theme used when nothing is saved (uncontrolled mode). Defaults to "system".
+ * @property {(theme: string) => void} [onThemeChange] - Callback fired when a theme is selected.
+ * @property {string[]} [themes] - Themes offered by theme controllers. Defaults to the light and dark themes.
+ * @property {string} [lightTheme] - Theme applied for a light system preference. Defaults to "light".
+ * @property {string} [darkTheme] - Theme applied for a dark system preference. Defaults to "dark".
+ * @property {string} [storageKey] - localStorage key used to save the selected theme. Defaults to "theme".
+ * @property {boolean} [persist] - If false, the selected theme is not saved or restored. Defaults to true.
+ * @property {boolean} [scoped] - If true, applies the theme to a wrapping element instead of `<html>`.
+ * @property {string} [class] - Additional CSS classes for the scoped element.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for the scoped element.
+ */
+export interface ThemeProviderProps {
+  children?: JSX.Element;
+  theme?: string;
+  defaultTheme?: string;
+  onThemeChange?: (theme: string) => void;
+  themes?: string[];
+  lightTheme?: string;
+  darkTheme?: string;
+  storageKey?: string;
+  persist?: boolean;
+  scoped?: boolean;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+const darkQuery = "(prefers-color-scheme: dark)";
+
+// Storage access throws when it is disabled, e.g. in some private browsing modes
+const readStorage = (key: string): string | null => {
+  try {
+    return typeof localStorage === "undefined" ? null : localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const writeStorage = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // Storage unavailable, keep the theme in memory only
+  }
+};
+
+/**
+ * ThemeProvider component for managing the DaisyUI theme of an app or a section.
+ *
+ * Sets `data-theme` on `<html>`, or on a wrapping element with `scoped`, and provides
+ * the `useTheme()` API to its children. The selected theme is saved to localStorage
+ * and restored on load, and changes made in other tabs are picked up. The "system"
+ * theme follows `prefers-color-scheme` and switches between `lightTheme` and
+ * `darkTheme` when the preference changes.
+ *
+ * Render `createThemeScript()` in the document head to apply the saved theme before
+ * the app mounts.
+ *
+ * @param {ThemeProviderProps} props - The properties to configure the ThemeProvider component.
+ * @returns {JSX.Element} The rendered ThemeProvider component.
+ */
+export default function ThemeProvider(props: ThemeProviderProps): JSX.Element {
+  const storageKey = () => props.storageKey ?? "theme";
+  const persist = () => props.persist !== false;
+
+  const [internalTheme, setInternalTheme] = createSignal(
+    (persist() && readStorage(storageKey())) || props.defaultTheme || "system"
+  );
+  const [systemTheme, setSystemTheme] = createSignal<"light" | "dark">("light");
+
+  const isControlled = () => props.theme !== undefined;
+  const theme = () => (isControlled() ? props.theme! : internalTheme());
+
+  const lightTheme = () => props.lightTheme ?? "light";
+  const darkTheme = () => props.darkTheme ?? "dark";
+  const themes = () => props.themes ?? [lightTheme(), darkTheme()];
+
+  const resolvedTheme = createMemo(() => {
+    if (theme() !== "system") return theme();
+    return systemTheme() === "dark" ? darkTheme() : lightTheme();
+  });
+
+  const setTheme = (value: string) => {
+    if (!isControlled()) {
+      setInternalTheme(value);
+    }
+    if (persist()) {
+      writeStorage(storageKey(), value);
+    }
+    props.onThemeChange?.(value);
+  };
+
+  // Track the system color scheme
+  if (typeof window !== "undefined" && typeof window.matchMedia === "function") {
+    const query = window.matchMedia(darkQuery);
+    setSystemTheme(query.matches ? "dark" : "light");
+
+    const handleChange = (event: MediaQueryListEvent) => setSystemTheme(event.matches ? "dark" : "light");
+    query.addEventListener("change", handleChange);
+    onCleanup(() => query.removeEventListener("change", handleChange));
+  }
+
+  // Follow theme changes made in other tabs
+  if (typeof window !== "undefined") {
+    const handleStorage = (event: StorageEvent) => {
+      if (!persist() || isControlled() || event.key !== storageKey()) return;
+      setInternalTheme(event.newValue || props.defaultTheme || "system");
+    };
+    window.addEventListener("storage", handleStorage);
+    onCleanup(() => window.removeEventListener("storage", handleStorage));
+  }
+
+  // Apply the theme to <html>, restoring the previous value on cleanup
+  createRenderEffect(() => {
+    if (props.scoped || typeof document === "undefined") return;
+
+    const root = document.documentElement;
+    const previous = root.getAttribute("data-theme");
+    root.setAttribute("data-theme", resolvedTheme());
+
+    onCleanup(() => {
+      if (previous === null) {
+        root.removeAttribute("data-theme");
+      } else {
+        root.setAttribute("data-theme", previous);
+      }
+    });
+  });
+
+  const context: ThemeContextValue = {
+    theme,
+    resolvedTheme,
+    systemTheme,
+    themes,
+    lightTheme,
+    darkTheme,
+    get scoped() {
+      return props.scoped === true;
+    },
+    setTheme,
+  };
+
+  return (
+    <ThemeContext.Provider value={context}>
+      <Show when={props.scoped} fallback={props.children}>
+        <div
+          data-theme={resolvedTheme()}
+          classList={{
+            ...(props.class ? { [props.class]: true } : {}),
+            ...props.classList,
+          }}
+        >
+          {props.children}
+        </div>
+      </Show>
+    </ThemeContext.Provider>
+  );
+}
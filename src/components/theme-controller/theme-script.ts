@@ -0,0 +1,43 @@
+/**
+ * Options for the theme init script. They should match the `ThemeProvider` props.
+ *
+ * @property {string} [storageKey] - localStorage key of the saved theme. Defaults to "theme".
+ * @property {string} [defaultTheme] - Theme used when nothing is saved. Defaults to "system".
+ * @property {string} [lightTheme] - Theme applied for a light system preference. Defaults to "light".
+ * @property {string} [darkTheme] - Theme applied for a dark system preference. Defaults to "dark".
+ */
+export interface ThemeScriptOptions {
+  storageKey?: string;
+  defaultTheme?: string;
+  lightTheme?: string;
+  darkTheme?: string;
+}
+
+// Serializes a value as a script literal that cannot close the surrounding script tag
+const literal = (value: string) => JSON.stringify(value).replace(/</g, "\\u003c");
+
+/**
+ * Creates an inline script that sets `data-theme` on `<html>` before the app renders,
+ * so the page does not flash the wrong theme. Place it in a `<script>` tag in the
+ * document `<head>`.
+ *
+ * @param {ThemeScriptOptions} [options] - The storage key and themes used by the `ThemeProvider`.
+ * @returns {string} The script source.
+ */
+export function createThemeScript(options: ThemeScriptOptions = {}): string {
+  const storageKey = literal(options.storageKey ?? "theme");
+  const defaultTheme = literal(options.defaultTheme ?? "system");
+  const lightTheme = literal(options.lightTheme ?? "light");
+  const darkTheme = literal(options.darkTheme ?? "dark");
+
+  return (
+    `(function(){try{var t=localStorage.getItem(${storageKey})||${defaultTheme};` +
+    `if(t==="system"){t=window.matchMedia("(prefers-color-scheme: dark)").matches?${darkTheme}:${lightTheme};}` +
+    `document.documentElement.setAttribute("data-theme",t);}catch(e){}})();`
+  );
+}
+
+/**
+ * Theme init script for the default `ThemeProvider` options.
+ */
+export const themeScript = createThemeScript();
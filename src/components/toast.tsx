@@ -1,4 +0,0 @@
-// Toast component
-export default function Toast() {
-  return <div>Toast Component</div>;
-}
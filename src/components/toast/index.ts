@@ -0,0 +1,12 @@
+export { default as Toast } from "./toast";
+export { default as ToastProvider } from "./toast-provider";
+export { useToast } from "./toast-context";
+export type { ToastProps } from "./toast";
+export type { ToastProviderProps } from "./toast-provider";
+export type {
+  ToastType,
+  ToastOptions,
+  ToastRecord,
+  ToastPromiseMessages,
+  ToastApi,
+} from "./toast-context";
@@ -0,0 +1,96 @@
+import { JSX, createContext, useContext } from "solid-js";
+
+/**
+ * The DaisyUI alert type used to style a toast.
+ */
+export type ToastType = "info" | "success" | "warning" | "error";
+
+/**
+ * Options accepted when showing or updating a toast.
+ *
+ * @property {string} [id] - Custom ID for the toast. Showing a toast with an existing ID updates it instead.
+ * @property {ToastType} [type] - The alert type that determines the toast styling. Defaults to "info".
+ * @property {"soft" | "outline" | "dash"} [style] - Alert style variant for the toast body.
+ * @property {number} [duration] - Time in milliseconds before the toast is dismissed. Use 0 to keep it until dismissed.
+ * @property {boolean} [dismissible] - If false, hides the close button. Defaults to true.
+ * @property {JSX.Element} [icon] - Custom icon for the toast body.
+ * @property {boolean} [hideIcon] - If true, hides the toast icon.
+ * @property {JSX.Element[]} [buttons] - Action buttons to display in the toast body.
+ * @property {(id: string) => void} [onDismiss] - Callback fired when the toast is dismissed for any reason.
+ */
+export interface ToastOptions {
+  id?: string;
+  type?: ToastType;
+  style?: "soft" | "outline" | "dash";
+  duration?: number;
+  dismissible?: boolean;
+  icon?: JSX.Element;
+  hideIcon?: boolean;
+  buttons?: JSX.Element[];
+  onDismiss?: (id: string) => void;
+}
+
+/**
+ * A toast tracked by the `ToastProvider`.
+ *
+ * @property {string} id - Unique ID of the toast.
+ * @property {JSX.Element} message - The content displayed in the toast body.
+ * @property {number} version - Incremented on every update so the dismiss timer restarts.
+ */
+export interface ToastRecord extends ToastOptions {
+  id: string;
+  message: JSX.Element;
+  version: number;
+}
+
+/**
+ * Messages used by `promise()` for each state of the tracked promise.
+ *
+ * @property {JSX.Element} loading - Message shown while the promise is pending.
+ * @property {JSX.Element | ((value: T) => JSX.Element)} success - Message shown when the promise resolves.
+ * @property {JSX.Element | ((error: unknown) => JSX.Element)} error - Message shown when the promise rejects.
+ */
+export interface ToastPromiseMessages<T> {
+  loading: JSX.Element;
+  success: JSX.Element | ((value: T) => JSX.Element);
+  error: JSX.Element | ((error: unknown) => JSX.Element);
+}
+
+/**
+ * Imperative API returned by `useToast()`.
+ */
+export interface ToastApi {
+  /** Shows a toast and returns its ID. */
+  show: (message: JSX.Element, options?: ToastOptions) => string;
+  /** Shows a success toast and returns its ID. */
+  success: (message: JSX.Element, options?: Omit<ToastOptions, "type">) => string;
+  /** Shows an error toast and returns its ID. */
+  error: (message: JSX.Element, options?: Omit<ToastOptions, "type">) => string;
+  /** Shows a warning toast and returns its ID. */
+  warning: (message: JSX.Element, options?: Omit<ToastOptions, "type">) => string;
+  /** Shows an info toast and returns its ID. */
+  info: (message: JSX.Element, options?: Omit<ToastOptions, "type">) => string;
+  /** Dismisses a toast by ID, or every toast when no ID is given. */
+  dismiss: (id?: string) => void;
+  /** Updates the message or options of an existing toast and restarts its timer. */
+  update: (id: string, options: ToastOptions & { message?: JSX.Element }) => void;
+  /** Shows a loading toast that follows the state of a promise. Returns the original promise. */
+  promise: <T>(
+    promise: Promise<T>,
+    messages: ToastPromiseMessages<T>,
+    options?: Omit<ToastOptions, "type">
+  ) => Promise<T>;
+}
+
+export const ToastContext = createContext<ToastApi>();
+
+/**
+ * Hook to access the toast API of the nearest `ToastProvider`.
+ */
+export function useToast(): ToastApi {
+  const context = useContext(ToastContext);
+  if (!context) {
+    throw new Error("useToast must be used within a ToastProvider component");
+  }
+  return context;
+}
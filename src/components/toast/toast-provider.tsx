@@ -0,0 +1,274 @@
+import { JSX, createSignal, createMemo, createEffect, on, onCleanup, For, Show } from "solid-js";
+import { Portal } from "solid-js/web";
+import Alert from "../alert";
+import Loading from "../loading";
+import Toast from "./toast";
+import { ToastContext, ToastApi, ToastOptions, ToastRecord, ToastPromiseMessages } from "./toast-context";
+
+/**
+ * Internal toast state. `loading` is only set by `promise()` while the promise is pending.
+ */
+interface ToastState extends ToastRecord {
+  loading?: boolean;
+}
+
+/**
+ * Props for the ToastProvider component.
+ *
+ * @property {JSX.Element} [children] - The application content that can call `useToast()`.
+ * @property {string} [class] - Additional CSS classes to apply to the toast container.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {"top" | "middle" | "bottom"} [vertical] - Vertical placement of the toast stack. Defaults to "bottom".
+ * @property {"start" | "center" | "end"} [horizontal] - Horizontal placement of the toast stack. Defaults to "end".
+ * @property {number} [duration] - Default time in milliseconds before a toast is dismissed. Use 0 to keep toasts until dismissed. Defaults to 5000.
+ * @property {number} [maxVisible] - Maximum number of toasts shown at once. Extra toasts wait in a queue. Defaults to 3.
+ * @property {boolean} [pauseOnHover] - If false, toasts keep counting down while hovered or focused. Defaults to true.
+ * @property {string} [aria-label] - Accessible label for the toast region. Defaults to "Notifications".
+ * @property {boolean} [disablePortal=false] - Disable Portal rendering (mainly for testing).
+ */
+export interface ToastProviderProps {
+  children?: JSX.Element;
+  class?: string;
+  classList?: Record<string, boolean>;
+  vertical?: "top" | "middle" | "bottom";
+  horizontal?: "start" | "center" | "end";
+  duration?: number;
+  maxVisible?: number;
+  pauseOnHover?: boolean;
+  "aria-label"?: string;
+  disablePortal?: boolean;
+}
+
+/**
+ * Props for a single rendered toast.
+ */
+interface ToastItemProps {
+  toast: () => ToastState | undefined;
+  duration: number;
+  pauseOnHover: boolean;
+  onDismiss: (id: string) => void;
+}
+
+/**
+ * Renders one toast body with an auto-dismiss timer that pauses while hovered or focused.
+ */
+function ToastItem(props: ToastItemProps): JSX.Element {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let remaining = 0;
+  let startedAt = 0;
+  let paused = false;
+
+  const clearTimer = () => {
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+  };
+
+  const startTimer = () => {
+    clearTimer();
+    const toast = props.toast();
+    if (!toast || paused || remaining <= 0 || !Number.isFinite(remaining)) {
+      return;
+    }
+    startedAt = Date.now();
+    timer = setTimeout(() => props.onDismiss(toast.id), remaining);
+  };
+
+  // Memoized so changes to other toasts do not restart this timer
+  const version = createMemo(() => props.toast()?.version);
+
+  // Restart the timer whenever the toast is shown or updated
+  createEffect(
+    on(
+      version,
+      () => {
+        const toast = props.toast();
+        remaining = toast?.loading ? 0 : toast?.duration ?? props.duration;
+        startTimer();
+      }
+    )
+  );
+
+  onCleanup(clearTimer);
+
+  const pause = () => {
+    if (!props.pauseOnHover || paused) return;
+    paused = true;
+    if (timer !== undefined) {
+      clearTimer();
+      remaining -= Date.now() - startedAt;
+    }
+  };
+
+  const resume = () => {
+    if (!paused) return;
+    paused = false;
+    startTimer();
+  };
+
+  // Only resume on focus out when focus leaves the toast entirely
+  const handleFocusOut = (event: FocusEvent) => {
+    const current = event.currentTarget as HTMLElement;
+    if (!current.contains(event.relatedTarget as Node | null)) {
+      resume();
+    }
+  };
+
+  return (
+    <div
+      data-toast-id={props.toast()?.id}
+      onMouseEnter={pause}
+      onMouseLeave={resume}
+      onFocusIn={pause}
+      onFocusOut={handleFocusOut}
+    >
+      {/* Keyed so the alert re-renders with the latest options after each update */}
+      <Show when={props.toast()} keyed>
+        {(toast) => (
+          <Alert
+            type={toast.type}
+            style={toast.style}
+            icon={toast.loading ? <Loading size="sm" /> : toast.icon}
+            hideIcon={toast.hideIcon}
+            buttons={toast.buttons}
+            dismissible={toast.dismissible !== false && !toast.loading}
+            onClose={() => props.onDismiss(toast.id)}
+          >
+            {toast.message}
+          </Alert>
+        )}
+      </Show>
+    </div>
+  );
+}
+
+/**
+ * ToastProvider component for showing imperative toast notifications.
+ *
+ * Renders a DaisyUI toast stack and provides the `useToast()` API to its children.
+ * Each toast body reuses the Alert component, is dismissed automatically after its
+ * duration (pausing while hovered or focused), and is announced through the toast
+ * region's ARIA live region.
+ *
+ * Only `maxVisible` toasts are shown at once; additional toasts are queued and
+ * shown as earlier toasts are dismissed. A queued toast's timer starts when it
+ * becomes visible.
+ *
+ * @param {ToastProviderProps} props - The properties to configure the ToastProvider component.
+ * @returns {JSX.Element} The rendered ToastProvider component.
+ */
+export default function ToastProvider(props: ToastProviderProps): JSX.Element {
+  const [toasts, setToasts] = createSignal<ToastState[]>([]);
+  let counter = 0;
+
+  const maxVisible = () => Math.max(1, props.maxVisible ?? 3);
+
+  // IDs are primitives so For keeps each toast mounted across updates
+  const visibleIds = createMemo(() =>
+    toasts()
+      .slice(0, maxVisible())
+      .map((toast) => toast.id)
+  );
+
+  const findToast = (id: string) => toasts().find((toast) => toast.id === id);
+
+  // Merge changes into an existing toast and bump its version
+  const patch = (id: string, changes: Partial<ToastState>) => {
+    setToasts((list) =>
+      list.map((toast) =>
+        toast.id === id
+          ? { ...toast, ...changes, id, message: changes.message ?? toast.message, version: toast.version + 1 }
+          : toast
+      )
+    );
+  };
+
+  const update: ToastApi["update"] = (id, options) => {
+    patch(id, options);
+  };
+
+  // Add a toast, or update it when a toast with the same ID already exists
+  const add = (message: JSX.Element, options: ToastOptions, extra: Partial<ToastState> = {}) => {
+    if (options.id && findToast(options.id)) {
+      patch(options.id, { ...options, ...extra, message });
+      return options.id;
+    }
+
+    const id = options.id ?? `toast-${++counter}`;
+    setToasts((list) => [...list, { type: "info", ...options, ...extra, id, message, version: 0 }]);
+    return id;
+  };
+
+  const show: ToastApi["show"] = (message, options = {}) => add(message, options);
+
+  const dismiss: ToastApi["dismiss"] = (id) => {
+    const dismissed = id === undefined ? toasts() : toasts().filter((toast) => toast.id === id);
+    if (dismissed.length === 0) return;
+
+    setToasts((list) => (id === undefined ? [] : list.filter((toast) => toast.id !== id)));
+    dismissed.forEach((toast) => toast.onDismiss?.(toast.id));
+  };
+
+  const promise: ToastApi["promise"] = <T,>(
+    tracked: Promise<T>,
+    messages: ToastPromiseMessages<T>,
+    options: Omit<ToastOptions, "type"> = {}
+  ) => {
+    const id = add(messages.loading, { ...options, type: "info" }, { loading: true });
+
+    tracked.then(
+      (value) => {
+        const message = typeof messages.success === "function" ? messages.success(value) : messages.success;
+        patch(id, { type: "success", message, loading: false });
+      },
+      (error: unknown) => {
+        const message = typeof messages.error === "function" ? messages.error(error) : messages.error;
+        patch(id, { type: "error", message, loading: false });
+      }
+    );
+
+    return tracked;
+  };
+
+  const api: ToastApi = {
+    show,
+    success: (message, options) => show(message, { ...options, type: "success" }),
+    error: (message, options) => show(message, { ...options, type: "error" }),
+    warning: (message, options) => show(message, { ...options, type: "warning" }),
+    info: (message, options) => show(message, { ...options, type: "info" }),
+    dismiss,
+    update,
+    promise,
+  };
+
+  const region = () => (
+    <Toast
+      vertical={props.vertical}
+      horizontal={props.horizontal}
+      aria-label={props["aria-label"]}
+      class={props.class}
+      classList={props.classList}
+    >
+      <For each={visibleIds()}>
+        {(id) => (
+          <ToastItem
+            toast={() => findToast(id)}
+            duration={props.duration ?? 5000}
+            pauseOnHover={props.pauseOnHover !== false}
+            onDismiss={dismiss}
+          />
+        )}
+      </For>
+    </Toast>
+  );
+
+  return (
+    <ToastContext.Provider value={api}>
+      {props.children}
+      <Show when={!props.disablePortal} fallback={region()}>
+        <Portal>{region()}</Portal>
+      </Show>
+    </ToastContext.Provider>
+  );
+}
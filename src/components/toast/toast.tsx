@@ -0,0 +1,64 @@
+import { JSX } from "solid-js";
+
+/**
+ * Props for the Toast component.
+ *
+ * @property {JSX.Element} [children] - The stacked elements (usually alerts) to display inside the toast.
+ * @property {string} [class] - Additional CSS classes to apply to the toast container.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {"top" | "middle" | "bottom"} [vertical] - Vertical placement using official DaisyUI classes (toast-top, toast-middle, toast-bottom). Defaults to "bottom".
+ * @property {"start" | "center" | "end"} [horizontal] - Horizontal placement using official DaisyUI classes (toast-start, toast-center, toast-end). Defaults to "end".
+ * @property {string} [aria-label] - Accessible label for the toast region. Defaults to "Notifications".
+ */
+export interface ToastProps {
+  children?: JSX.Element;
+  class?: string;
+  classList?: Record<string, boolean>;
+  vertical?: "top" | "middle" | "bottom";
+  horizontal?: "start" | "center" | "end";
+  "aria-label"?: string;
+}
+
+/**
+ * Toast component for stacking elements in a fixed corner of the page.
+ * Follows official DaisyUI Toast component patterns for consistent placement.
+ *
+ * The container is always rendered as a polite ARIA live region so that content
+ * added later is announced by screen readers. Use it directly for static toasts,
+ * or through `ToastProvider` and `useToast()` for imperative notifications.
+ *
+ * @param {ToastProps} props - The properties to configure the Toast component.
+ * @returns {JSX.Element} The rendered Toast component.
+ */
+export default function Toast(props: ToastProps): JSX.Element {
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      toast: true,
+      [`toast-${props.vertical ?? "bottom"}`]: true,
+      [`toast-${props.horizontal ?? "end"}`]: true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  return (
+    <div
+      role="region"
+      aria-label={props["aria-label"] ?? "Notifications"}
+      aria-live="polite"
+      aria-relevant="additions text"
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      {props.children}
+    </div>
+  );
+}
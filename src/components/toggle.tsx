@@ -1,4 +1,241 @@
-// Toggle component
-export default function Toggle() {
-  return <div>Toggle Component</div>;
+import { JSX, Show, createSignal, createEffect, splitProps } from "solid-js";
+import { useField, mergeDescribedBy } from "./fieldset/field-context";
+import Loading from "./loading";
+
+/**
+ * Props for the Toggle component.
+ *
+ * @property {boolean} [checked] - Controls the checked state of the toggle (controlled component).
+ * @property {boolean} [defaultChecked] - Sets the initial checked state for uncontrolled component.
+ * @property {boolean} [indeterminate] - Sets the toggle to indeterminate state, with the knob in the middle.
+ * @property {boolean} [disabled] - Whether the toggle is disabled.
+ * @property {boolean} [readOnly] - Whether the toggle is read-only.
+ * @property {boolean} [required] - Whether the toggle is required for form validation.
+ * @property {"xs" | "sm" | "md" | "lg" | "xl"} [size] - DaisyUI size variant for the toggle.
+ * @property {"primary" | "secondary" | "accent" | "neutral" | "info" | "success" | "warning" | "error"} [color] - DaisyUI color variant of the checked toggle.
+ * @property {JSX.Element} [onIcon] - Content shown in the knob while the toggle is on, e.g. an icon.
+ * @property {JSX.Element} [offIcon] - Content shown in the knob while the toggle is off, e.g. an icon.
+ * @property {string} [name] - Name attribute for form submission.
+ * @property {string} [value] - Value attribute for form submission.
+ * @property {string} [form] - Associates the toggle with a form element.
+ * @property {string} [class] - Additional CSS classes to apply to the toggle.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [id] - Custom ID for the toggle element.
+ * @property {string} ["aria-label"] - Accessible label for screen readers.
+ * @property {string} ["aria-labelledby"] - ID of element that labels this toggle.
+ * @property {string} ["aria-describedby"] - ID of element that describes this toggle.
+ * @property {boolean} ["aria-invalid"] - Indicates if the toggle has validation errors.
+ * @property {(checked: boolean) => boolean | void | Promise<boolean | void>} [onBeforeChange] - Called with the requested state before it changes. Return or resolve `false`, throw or reject to keep the current state.
+ * @property {(event: Event) => void} [onChange] - Callback fired when the checked state changes.
+ * @property {(event: FocusEvent) => void} [onFocus] - Callback fired when the toggle receives focus.
+ * @property {(event: FocusEvent) => void} [onBlur] - Callback fired when the toggle loses focus.
+ */
+export interface ToggleProps {
+  checked?: boolean;
+  defaultChecked?: boolean;
+  indeterminate?: boolean;
+  disabled?: boolean;
+  readOnly?: boolean;
+  required?: boolean;
+  size?: "xs" | "sm" | "md" | "lg" | "xl";
+  color?: "primary" | "secondary" | "accent" | "neutral" | "info" | "success" | "warning" | "error";
+  onIcon?: JSX.Element;
+  offIcon?: JSX.Element;
+  name?: string;
+  value?: string;
+  form?: string;
+  class?: string;
+  classList?: Record<string, boolean>;
+  id?: string;
+  "aria-label"?: string;
+  "aria-labelledby"?: string;
+  "aria-describedby"?: string;
+  "aria-invalid"?: boolean;
+  onBeforeChange?: (checked: boolean) => boolean | void | Promise<boolean | void>;
+  onChange?: (event: Event) => void;
+  onFocus?: (event: FocusEvent) => void;
+  onBlur?: (event: FocusEvent) => void;
+}
+
+/**
+ * Toggle component for creating on/off switches with DaisyUI design system.
+ *
+ * Renders a checkbox input with the DaisyUI `toggle` class and `role="switch"`, with
+ * the same `checked`/`defaultChecked`/`onChange` contract as Checkbox. With `onIcon` or
+ * `offIcon`, the input is wrapped in a `label.toggle` that shows the icons in the knob.
+ *
+ * `onBeforeChange` can confirm or cancel a change. When it returns a promise, the
+ * toggle switches right away, shows a Loading indicator and ignores clicks until the
+ * promise settles; it switches back if the promise rejects or resolves to `false`.
+ * `onChange` is only called once the change is confirmed.
+ *
+ * @param {ToggleProps} props - The properties to configure the Toggle component.
+ * @returns {JSX.Element} The rendered Toggle component.
+ */
+export default function Toggle(props: ToggleProps): JSX.Element {
+  // Split props to separate DOM props from custom props
+  const [local, others] = splitProps(props, [
+    "checked", "defaultChecked", "indeterminate", "disabled", "readOnly", "required",
+    "size", "color", "onIcon", "offIcon", "class", "classList",
+    "onBeforeChange", "onChange", "onFocus", "onBlur"
+  ]);
+
+  // Internal state for uncontrolled mode
+  const [internalChecked, setInternalChecked] = createSignal(local.defaultChecked ?? false);
+
+  // State shown while an asynchronous onBeforeChange is pending
+  const [pending, setPending] = createSignal(false);
+  const [optimisticChecked, setOptimisticChecked] = createSignal(false);
+
+  // Determine if this is controlled or uncontrolled
+  const isControlled = () => local.checked !== undefined;
+  const committedValue = () => (isControlled() ? local.checked! : internalChecked());
+  const checkedValue = () => (pending() ? optimisticChecked() : committedValue());
+
+  // Icons are decided statically, as the markup differs
+  const hasIcons = local.onIcon !== undefined || local.offIcon !== undefined;
+
+  let toggleRef: HTMLInputElement | undefined;
+
+  // Label, hint and error wiring from an enclosing Field
+  const field = useField();
+  field?.registerId(() => others.id);
+  const color = () => (field?.invalid() ? "error" : undefined) || local.color;
+
+  // Handle indeterminate state changes
+  createEffect(() => {
+    if (toggleRef) {
+      toggleRef.indeterminate = local.indeterminate ?? false;
+    }
+  });
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      toggle: true,
+    };
+
+    // Add DaisyUI size classes
+    if (local.size) {
+      baseClasses[`toggle-${local.size}`] = true;
+    }
+
+    // Add DaisyUI color classes
+    if (color()) {
+      baseClasses[`toggle-${color()}`] = true;
+    }
+
+    // Add custom class if provided
+    if (local.class) {
+      baseClasses[local.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  // Keeps the input in sync when a change is cancelled or not applied by the parent
+  const syncChecked = () => {
+    if (toggleRef) {
+      toggleRef.checked = checkedValue();
+    }
+  };
+
+  const commit = (event: Event, checked: boolean) => {
+    // Update internal state for uncontrolled mode
+    if (!isControlled()) {
+      setInternalChecked(checked);
+    }
+
+    // Call user-provided onChange handler
+    local.onChange?.(event);
+  };
+
+  // Block clicks while disabled, read-only or waiting for a confirmation
+  const handleClick = (event: MouseEvent) => {
+    if (local.disabled || local.readOnly || pending()) {
+      event.preventDefault();
+    }
+  };
+
+  // Handle change events
+  const handleChange = (event: Event) => {
+    const checked = (event.target as HTMLInputElement).checked;
+
+    let result: boolean | void | Promise<boolean | void>;
+    try {
+      result = local.onBeforeChange?.(checked);
+    } catch {
+      syncChecked();
+      return;
+    }
+
+    if (!(result instanceof Promise)) {
+      if (result !== false) {
+        commit(event, checked);
+      }
+      syncChecked();
+      return;
+    }
+
+    setOptimisticChecked(checked);
+    setPending(true);
+
+    result
+      .then(
+        (confirmed) => {
+          if (confirmed !== false) {
+            commit(event, checked);
+          }
+        },
+        () => {}
+      )
+      .finally(() => {
+        setPending(false);
+        syncChecked();
+      });
+  };
+
+  const input = (
+    <input
+      ref={toggleRef}
+      type="checkbox"
+      role="switch"
+      checked={checkedValue()}
+      disabled={local.disabled}
+      readOnly={local.readOnly}
+      aria-busy={pending() || undefined}
+      classList={hasIcons ? undefined : { ...classes(), ...local.classList }}
+      onClick={handleClick}
+      onChange={handleChange}
+      onFocus={(event) => local.onFocus?.(event)}
+      onBlur={(event) => local.onBlur?.(event)}
+      {...others}
+      id={others.id ?? field?.id()}
+      required={local.required ?? field?.required()}
+      aria-describedby={mergeDescribedBy(others["aria-describedby"], field?.describedBy())}
+      aria-invalid={others["aria-invalid"] ?? (field?.invalid() || undefined)}
+    />
+  );
+
+  return (
+    <>
+      {hasIcons ? (
+        <label
+          classList={{
+            ...classes(),
+            ...local.classList,
+          }}
+        >
+          {input}
+          <span aria-hidden="true">{local.offIcon}</span>
+          <span aria-hidden="true">{local.onIcon}</span>
+        </label>
+      ) : (
+        input
+      )}
+      <Show when={pending()}>
+        <Loading size="xs" class="ml-2 align-middle" />
+      </Show>
+    </>
+  );
 }
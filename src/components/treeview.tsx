@@ -1,4 +1,510 @@
-// Treeview component
-export default function Treeview() {
-  return <div>Treeview Component</div>;
+import { JSX, createSignal, createMemo, For, Show, onCleanup } from "solid-js";
+import Checkbox from "./checkbox";
+import Loading from "./loading";
+
+/**
+ * A single node in the tree data.
+ *
+ * @property {string} id - Unique ID of the node across the whole tree.
+ * @property {string} label - Text of the node. Also used for type-ahead navigation.
+ * @property {JSX.Element} [icon] - Optional icon displayed before the label.
+ * @property {TreeNode<T>[]} [children] - Child nodes that are known up front.
+ * @property {boolean} [hasChildren] - Marks a node whose children are fetched with `loadChildren` when first expanded.
+ * @property {boolean} [disabled] - If true, the node cannot be selected or expanded.
+ * @property {T} [data] - Arbitrary data attached to the node.
+ */
+export interface TreeNode<T = unknown> {
+  id: string;
+  label: string;
+  icon?: JSX.Element;
+  children?: TreeNode<T>[];
+  hasChildren?: boolean;
+  disabled?: boolean;
+  data?: T;
+}
+
+/**
+ * Checked state of a node in checkbox selection mode.
+ */
+export type TreeCheckState = "checked" | "unchecked" | "indeterminate";
+
+/**
+ * Props for the Treeview component.
+ *
+ * @property {TreeNode<T>[]} data - The root nodes of the tree.
+ * @property {(node: TreeNode<T>) => Promise<TreeNode<T>[]>} [loadChildren] - Loads the children of a node marked with `hasChildren` the first time it is expanded.
+ * @property {(node: TreeNode<T>, error: unknown) => void} [onLoadError] - Callback fired when `loadChildren` rejects. The node is collapsed again.
+ * @property {"none" | "single" | "multiple" | "checkbox"} [selectionMode] - How nodes are selected. "checkbox" renders tri-state checkboxes. Defaults to "single".
+ * @property {Set<string>} [expanded] - IDs of expanded nodes (controlled mode).
+ * @property {string[]} [defaultExpanded] - IDs of initially expanded nodes (uncontrolled mode).
+ * @property {(expanded: Set<string>) => void} [onExpandedChange] - Callback fired when nodes are expanded or collapsed.
+ * @property {Set<string>} [selected] - IDs of selected nodes (controlled mode).
+ * @property {string[]} [defaultSelected] - IDs of initially selected nodes (uncontrolled mode).
+ * @property {(selected: Set<string>) => void} [onSelectedChange] - Callback fired when the selection changes.
+ * @property {(node: TreeNode<T>) => JSX.Element} [renderLabel] - Custom renderer for node labels.
+ * @property {"xs" | "sm" | "md" | "lg" | "xl"} [size] - The size of the tree using official DaisyUI menu classes.
+ * @property {string} [class] - Additional CSS classes to apply to the tree.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the tree.
+ * @property {string} [aria-labelledby] - ID of the element that labels the tree.
+ */
+export interface TreeviewProps<T = unknown> {
+  data: TreeNode<T>[];
+  loadChildren?: (node: TreeNode<T>) => Promise<TreeNode<T>[]>;
+  onLoadError?: (node: TreeNode<T>, error: unknown) => void;
+  selectionMode?: "none" | "single" | "multiple" | "checkbox";
+  expanded?: Set<string>;
+  defaultExpanded?: string[];
+  onExpandedChange?: (expanded: Set<string>) => void;
+  selected?: Set<string>;
+  defaultSelected?: string[];
+  onSelectedChange?: (selected: Set<string>) => void;
+  renderLabel?: (node: TreeNode<T>) => JSX.Element;
+  size?: "xs" | "sm" | "md" | "lg" | "xl";
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+  "aria-labelledby"?: string;
+}
+
+/**
+ * Position of a known node in the tree.
+ */
+interface TreeIndexEntry<T> {
+  node: TreeNode<T>;
+  parentId?: string;
+  level: number;
+}
+
+// Time in milliseconds before the type-ahead buffer is cleared
+const TYPE_AHEAD_TIMEOUT = 500;
+
+/**
+ * Treeview component for displaying hierarchical data with DaisyUI menu styling.
+ *
+ * Builds a WAI-ARIA `tree` from a `TreeNode[]` data prop. Supports lazy loading of
+ * children through `loadChildren`, single, multiple and checkbox selection (with
+ * tri-state parents), and controlled or uncontrolled `expanded` and `selected` sets.
+ *
+ * Keyboard support follows the WAI-ARIA tree pattern:
+ * - Up/Down move between visible nodes
+ * - Right expands a node or moves to its first child
+ * - Left collapses a node or moves to its parent
+ * - Home/End move to the first or last visible node
+ * - Enter or Space selects the focused node
+ * - Typing characters moves to the next node whose label starts with them
+ *
+ * @param {TreeviewProps<T>} props - The properties to configure the Treeview component.
+ * @returns {JSX.Element} The rendered Treeview component.
+ */
+export default function Treeview<T = unknown>(props: TreeviewProps<T>): JSX.Element {
+  const [internalExpanded, setInternalExpanded] = createSignal(new Set(props.defaultExpanded ?? []));
+  const [internalSelected, setInternalSelected] = createSignal(new Set(props.defaultSelected ?? []));
+  const [loadedChildren, setLoadedChildren] = createSignal(new Map<string, TreeNode<T>[]>());
+  const [loading, setLoading] = createSignal(new Set<string>());
+  const [focusedId, setFocusedId] = createSignal<string>();
+
+  let treeRef: HTMLUListElement | undefined;
+  let typeAhead = "";
+  let typeAheadTimer: ReturnType<typeof setTimeout> | undefined;
+
+  onCleanup(() => clearTimeout(typeAheadTimer));
+
+  const selectionMode = () => props.selectionMode ?? "single";
+
+  // Controlled vs uncontrolled state
+  const expanded = () => props.expanded ?? internalExpanded();
+  const selected = () => props.selected ?? internalSelected();
+
+  // Known children of a node: static children take precedence over loaded ones
+  const childrenOf = (node: TreeNode<T>) => node.children ?? loadedChildren().get(node.id);
+
+  const isExpandable = (node: TreeNode<T>) => (node.children?.length ?? 0) > 0 || !!node.hasChildren;
+
+  const isExpanded = (node: TreeNode<T>) => isExpandable(node) && expanded().has(node.id);
+
+  // Index every known node by ID for parent and level lookups
+  const index = createMemo(() => {
+    const map = new Map<string, TreeIndexEntry<T>>();
+    const walk = (nodes: TreeNode<T>[], level: number, parentId?: string) => {
+      nodes.forEach((node) => {
+        map.set(node.id, { node, parentId, level });
+        const children = childrenOf(node);
+        if (children) walk(children, level + 1, node.id);
+      });
+    };
+    walk(props.data, 1);
+    return map;
+  });
+
+  // Flat list of visible nodes in display order, used for keyboard navigation
+  const visibleNodes = createMemo(() => {
+    const list: TreeNode<T>[] = [];
+    const walk = (nodes: TreeNode<T>[]) => {
+      nodes.forEach((node) => {
+        list.push(node);
+        const children = childrenOf(node);
+        if (children && isExpanded(node)) walk(children);
+      });
+    };
+    walk(props.data);
+    return list;
+  });
+
+  // The focusable node: the focused one, else the first selected visible node, else the first node
+  const tabStopId = createMemo(() => {
+    const nodes = visibleNodes();
+    const focused = focusedId();
+    if (focused && nodes.some((node) => node.id === focused)) return focused;
+    return (nodes.find((node) => selected().has(node.id)) ?? nodes[0])?.id;
+  });
+
+  // Checkbox state derived from descendants for nodes with known children
+  const checkState = (node: TreeNode<T>): TreeCheckState => {
+    const children = childrenOf(node);
+    if (!children || children.length === 0) {
+      return selected().has(node.id) ? "checked" : "unchecked";
+    }
+    const states = children.map(checkState);
+    if (states.every((state) => state === "checked")) return "checked";
+    if (states.every((state) => state === "unchecked")) return "unchecked";
+    return "indeterminate";
+  };
+
+  const updateExpanded = (next: Set<string>) => {
+    if (props.expanded === undefined) {
+      setInternalExpanded(next);
+    }
+    props.onExpandedChange?.(next);
+  };
+
+  const updateSelected = (next: Set<string>) => {
+    if (props.selected === undefined) {
+      setInternalSelected(next);
+    }
+    props.onSelectedChange?.(next);
+  };
+
+  // Fetch children for lazy nodes the first time they are expanded
+  const ensureChildren = async (node: TreeNode<T>) => {
+    if (!node.hasChildren || childrenOf(node) || !props.loadChildren || loading().has(node.id)) {
+      return;
+    }
+
+    setLoading((current) => new Set(current).add(node.id));
+    try {
+      const children = await props.loadChildren(node);
+      setLoadedChildren((current) => new Map(current).set(node.id, children));
+
+      // Children of a checked parent start checked
+      if (selectionMode() === "checkbox" && selected().has(node.id)) {
+        const next = new Set(selected());
+        children.forEach((child) => next.add(child.id));
+        updateSelected(next);
+      }
+    } catch (error) {
+      const next = new Set(expanded());
+      next.delete(node.id);
+      updateExpanded(next);
+      props.onLoadError?.(node, error);
+    } finally {
+      setLoading((current) => {
+        const next = new Set(current);
+        next.delete(node.id);
+        return next;
+      });
+    }
+  };
+
+  const setNodeExpanded = (node: TreeNode<T>, open: boolean) => {
+    if (node.disabled || !isExpandable(node) || isExpanded(node) === open) return;
+
+    const next = new Set(expanded());
+    if (open) {
+      next.add(node.id);
+    } else {
+      next.delete(node.id);
+    }
+    updateExpanded(next);
+
+    if (open) {
+      void ensureChildren(node);
+    }
+  };
+
+  // Check or uncheck a node, its known descendants, and recompute its ancestors
+  const toggleChecked = (node: TreeNode<T>) => {
+    const next = new Set(selected());
+
+    // Toggle based on the enabled leaves only, so a disabled unchecked child never blocks unchecking
+    const enabledLeaves: string[] = [];
+    const collect = (current: TreeNode<T>) => {
+      const children = childrenOf(current);
+      if (children && children.length > 0) {
+        children.forEach(collect);
+      } else if (!current.disabled) {
+        enabledLeaves.push(current.id);
+      }
+    };
+    collect(node);
+    const check =
+      enabledLeaves.length > 0 ? !enabledLeaves.every((id) => next.has(id)) : checkState(node) !== "checked";
+
+    const apply = (current: TreeNode<T>) => {
+      if (!current.disabled) {
+        if (check) {
+          next.add(current.id);
+        } else {
+          next.delete(current.id);
+        }
+      }
+      childrenOf(current)?.forEach(apply);
+    };
+    apply(node);
+
+    let parentId = index().get(node.id)?.parentId;
+    while (parentId) {
+      const parent = index().get(parentId)!;
+      const allChecked = childrenOf(parent.node)!.every((child) => next.has(child.id));
+      if (allChecked) {
+        next.add(parentId);
+      } else {
+        next.delete(parentId);
+      }
+      parentId = parent.parentId;
+    }
+
+    updateSelected(next);
+  };
+
+  const selectNode = (node: TreeNode<T>) => {
+    if (node.disabled) return;
+
+    switch (selectionMode()) {
+      case "single":
+        updateSelected(new Set([node.id]));
+        break;
+      case "multiple": {
+        const next = new Set(selected());
+        if (next.has(node.id)) {
+          next.delete(node.id);
+        } else {
+          next.add(node.id);
+        }
+        updateSelected(next);
+        break;
+      }
+      case "checkbox":
+        toggleChecked(node);
+        break;
+    }
+  };
+
+  const focusNode = (id: string) => {
+    setFocusedId(id);
+    const items = treeRef?.querySelectorAll<HTMLElement>("[data-node-id]") ?? [];
+    Array.from(items)
+      .find((item) => item.dataset.nodeId === id)
+      ?.focus();
+  };
+
+  const handleItemClick = (event: MouseEvent, node: TreeNode<T>) => {
+    event.stopPropagation();
+    if (node.disabled) return;
+
+    focusNode(node.id);
+    if (selectionMode() !== "checkbox") {
+      selectNode(node);
+    }
+    if (isExpandable(node)) {
+      setNodeExpanded(node, !isExpanded(node));
+    }
+  };
+
+  // Move focus to the next node whose label starts with the typed characters
+  const handleTypeAhead = (key: string, currentIndex: number) => {
+    clearTimeout(typeAheadTimer);
+    typeAhead += key.toLowerCase();
+    typeAheadTimer = setTimeout(() => (typeAhead = ""), TYPE_AHEAD_TIMEOUT);
+
+    const nodes = visibleNodes();
+    const start = typeAhead.length === 1 ? currentIndex + 1 : currentIndex;
+    for (let offset = 0; offset < nodes.length; offset++) {
+      const candidate = nodes[(start + offset) % nodes.length];
+      if (candidate.label.toLowerCase().startsWith(typeAhead)) {
+        focusNode(candidate.id);
+        return;
+      }
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    const nodes = visibleNodes();
+    const currentId = tabStopId();
+    const currentIndex = nodes.findIndex((node) => node.id === currentId);
+    const current = nodes[currentIndex];
+    if (!current) return;
+
+    switch (event.key) {
+      case "ArrowDown":
+        event.preventDefault();
+        if (currentIndex < nodes.length - 1) focusNode(nodes[currentIndex + 1].id);
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        if (currentIndex > 0) focusNode(nodes[currentIndex - 1].id);
+        break;
+      case "ArrowRight":
+        event.preventDefault();
+        if (isExpandable(current) && !isExpanded(current)) {
+          setNodeExpanded(current, true);
+        } else if (isExpanded(current)) {
+          const firstChild = childrenOf(current)?.[0];
+          if (firstChild) focusNode(firstChild.id);
+        }
+        break;
+      case "ArrowLeft": {
+        event.preventDefault();
+        const parentId = index().get(current.id)?.parentId;
+        if (isExpanded(current)) {
+          setNodeExpanded(current, false);
+        } else if (parentId) {
+          focusNode(parentId);
+        }
+        break;
+      }
+      case "Home":
+        event.preventDefault();
+        focusNode(nodes[0].id);
+        break;
+      case "End":
+        event.preventDefault();
+        focusNode(nodes[nodes.length - 1].id);
+        break;
+      case "Enter":
+      case " ":
+        event.preventDefault();
+        selectNode(current);
+        break;
+      default:
+        if (event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey) {
+          handleTypeAhead(event.key, currentIndex);
+        }
+    }
+  };
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      menu: true,
+    };
+
+    // Add DaisyUI size classes
+    if (props.size) {
+      baseClasses[`menu-${props.size}`] = true;
+    }
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const ariaChecked = (node: TreeNode<T>) => {
+    const state = checkState(node);
+    return state === "indeterminate" ? "mixed" : state === "checked" ? "true" : "false";
+  };
+
+  const renderNodes = (nodes: TreeNode<T>[], level: number): JSX.Element => (
+    <For each={nodes}>
+      {(node, position) => (
+        <li
+          role="treeitem"
+          data-node-id={node.id}
+          tabIndex={tabStopId() === node.id ? 0 : -1}
+          aria-level={level}
+          aria-setsize={nodes.length}
+          aria-posinset={position() + 1}
+          aria-expanded={isExpandable(node) ? isExpanded(node) : undefined}
+          aria-selected={
+            selectionMode() === "single" || selectionMode() === "multiple"
+              ? selected().has(node.id)
+              : undefined
+          }
+          aria-checked={selectionMode() === "checkbox" ? ariaChecked(node) : undefined}
+          aria-disabled={node.disabled ? "true" : undefined}
+          aria-busy={loading().has(node.id) ? "true" : undefined}
+          onFocus={(event) => {
+            if (event.target === event.currentTarget) setFocusedId(node.id);
+          }}
+        >
+          <span
+            classList={{
+              "menu-active": selectionMode() !== "checkbox" && selected().has(node.id),
+              "menu-disabled": !!node.disabled,
+              "menu-dropdown-toggle": isExpandable(node),
+              "menu-dropdown-show": isExpanded(node),
+              "menu-focus": focusedId() === node.id,
+            }}
+            onClick={(event) => handleItemClick(event, node)}
+          >
+            <Show when={selectionMode() === "checkbox"}>
+              {/* Stop clicks so checking a node does not also expand it */}
+              <span onClick={(event) => event.stopPropagation()}>
+                <Checkbox
+                  size="sm"
+                  tabIndex={-1}
+                  checked={checkState(node) === "checked"}
+                  indeterminate={checkState(node) === "indeterminate"}
+                  disabled={node.disabled}
+                  aria-label={node.label}
+                  onChange={() => toggleChecked(node)}
+                />
+              </span>
+            </Show>
+            <Show when={node.icon}>{node.icon}</Show>
+            {props.renderLabel ? props.renderLabel(node) : node.label}
+          </span>
+          <Show when={isExpanded(node)}>
+            <ul role="group" class="menu-dropdown menu-dropdown-show">
+              <Show
+                when={!loading().has(node.id)}
+                fallback={
+                  <li role="none">
+                    <span>
+                      <Loading size="xs" />
+                      Loading…
+                    </span>
+                  </li>
+                }
+              >
+                {renderNodes(childrenOf(node) ?? [], level + 1)}
+              </Show>
+            </ul>
+          </Show>
+        </li>
+      )}
+    </For>
+  );
+
+  return (
+    <ul
+      ref={treeRef}
+      role="tree"
+      aria-label={props["aria-label"]}
+      aria-labelledby={props["aria-labelledby"]}
+      aria-multiselectable={
+        selectionMode() === "multiple" || selectionMode() === "checkbox" ? "true" : undefined
+      }
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+      onKeyDown={handleKeyDown}
+    >
+      {renderNodes(props.data, 1)}
+    </ul>
+  );
 }
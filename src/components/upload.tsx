@@ -1,4 +1,530 @@
-// Upload component
-export default function Upload() {
-  return <div>Upload Component</div>;
+import { JSX, createSignal, createMemo, createEffect, on, For, Show, onCleanup } from "solid-js";
+import Button from "./button";
+import Progress, { ProgressProps } from "./progress";
+
+/**
+ * Reason a file was rejected before upload.
+ */
+export type UploadRejectionReason = "file-type" | "file-too-large" | "too-many-files";
+
+/**
+ * A file that failed validation.
+ *
+ * @property {File} file - The rejected file.
+ * @property {UploadRejectionReason} reason - Why the file was rejected.
+ * @property {string} message - Human-readable description of the rejection.
+ */
+export interface UploadRejection {
+  file: File;
+  reason: UploadRejectionReason;
+  message: string;
+}
+
+/**
+ * Lifecycle status of an upload.
+ */
+export type UploadStatus = "pending" | "uploading" | "success" | "error" | "canceled";
+
+/**
+ * A file tracked by the Upload component.
+ *
+ * @property {string} id - Unique ID of the upload.
+ * @property {File} file - The file being uploaded.
+ * @property {UploadStatus} status - Current status of the upload.
+ * @property {number} progress - Upload progress from 0 to 100.
+ * @property {string} [previewUrl] - Object URL for image thumbnails.
+ * @property {R} [result] - Value resolved by the uploader.
+ * @property {unknown} [error] - Error the uploader rejected with.
+ */
+export interface UploadItem<R = unknown> {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  progress: number;
+  previewUrl?: string;
+  result?: R;
+  error?: unknown;
+}
+
+/**
+ * Options passed to an uploader for a single file.
+ *
+ * @property {(percent: number) => void} onProgress - Reports progress from 0 to 100.
+ * @property {AbortSignal} signal - Aborted when the user cancels or removes the upload.
+ */
+export interface UploaderOptions {
+  onProgress: (percent: number) => void;
+  signal: AbortSignal;
+}
+
+/**
+ * Transport function that uploads one file and resolves when it is done.
+ */
+export type Uploader<R = unknown> = (file: File, options: UploaderOptions) => Promise<R>;
+
+/**
+ * Props for the Upload component.
+ *
+ * @property {Uploader<R>} [uploader] - Transport used to upload each file. Without it, files are only collected.
+ * @property {string} [accept] - Accepted file types, using the same syntax as the input `accept` attribute.
+ * @property {number} [maxSize] - Maximum size of a single file in bytes.
+ * @property {number} [maxFiles] - Maximum number of files in the list.
+ * @property {boolean} [multiple] - Whether several files can be added. Defaults to true. When false, the list holds one file.
+ * @property {boolean} [autoUpload] - If false, files wait until the Upload button is pressed. Defaults to true.
+ * @property {boolean} [disabled] - Whether the drop zone is disabled.
+ * @property {boolean} [showPreviews] - If false, hides image thumbnails. Defaults to true.
+ * @property {string} [name] - Name attribute of the underlying file input, which holds the files of the list so they are submitted with a form.
+ * @property {JSX.Element} [children] - Custom content of the drop zone.
+ * @property {string} [class] - Additional CSS classes to apply to the upload container.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {string} [aria-label] - Accessible label for the drop zone. Defaults to "Upload files".
+ * @property {(items: UploadItem<R>[]) => void} [onChange] - Callback fired whenever the list of uploads changes.
+ * @property {(rejections: UploadRejection[]) => void} [onReject] - Callback fired when files fail validation.
+ * @property {(item: UploadItem<R>) => void} [onUploadComplete] - Callback fired when a file finishes uploading.
+ * @property {(item: UploadItem<R>) => void} [onUploadError] - Callback fired when an upload fails.
+ */
+export interface UploadProps<R = unknown> {
+  uploader?: Uploader<R>;
+  accept?: string;
+  maxSize?: number;
+  maxFiles?: number;
+  multiple?: boolean;
+  autoUpload?: boolean;
+  disabled?: boolean;
+  showPreviews?: boolean;
+  name?: string;
+  children?: JSX.Element;
+  class?: string;
+  classList?: Record<string, boolean>;
+  "aria-label"?: string;
+  onChange?: (items: UploadItem<R>[]) => void;
+  onReject?: (rejections: UploadRejection[]) => void;
+  onUploadComplete?: (item: UploadItem<R>) => void;
+  onUploadError?: (item: UploadItem<R>) => void;
+}
+
+/**
+ * Checks a file against an `accept` string such as "image/*,.pdf,application/json".
+ *
+ * @param {File} file - The file to check.
+ * @param {string} [accept] - Comma-separated MIME types, wildcards and extensions.
+ * @returns {boolean} True if the file matches, or if no accept string is given.
+ */
+export function isFileAccepted(file: File, accept?: string): boolean {
+  if (!accept || accept.trim() === "") return true;
+
+  const fileName = file.name.toLowerCase();
+  const mimeType = (file.type || "").toLowerCase();
+  const baseType = mimeType.replace(/\/.*$/, "");
+
+  return accept
+    .split(",")
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean)
+    .some((type) => {
+      if (type.startsWith(".")) return fileName.endsWith(type);
+      if (type.endsWith("/*")) return baseType === type.replace(/\/.*$/, "");
+      return mimeType === type;
+    });
+}
+
+/**
+ * Formats a byte count for display, e.g. 1536 -> "1.5 KB".
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB", "TB"];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${Number(size.toFixed(1))} ${units[unit]}`;
+}
+
+const statusLabels: Record<UploadStatus, string> = {
+  pending: "Waiting",
+  uploading: "Uploading",
+  success: "Uploaded",
+  error: "Failed",
+  canceled: "Canceled",
+};
+
+/**
+ * Upload component for collecting and uploading files through a drop zone.
+ *
+ * Files can be added by drag-and-drop, by pasting into the focused drop zone, or with
+ * the file picker (click, Enter or Space). Each file is validated against `accept`,
+ * `maxSize` and `maxFiles`; rejected files are reported with a typed reason.
+ *
+ * Uploading is delegated to a pluggable `uploader(file, { onProgress, signal })`
+ * function, so any transport (fetch, XHR, presigned URLs) can be used. Each file shows
+ * its progress, and can be canceled, retried after failure, or removed. Image files
+ * get thumbnails through object URLs, which are revoked when no longer needed.
+ *
+ * @param {UploadProps<R>} props - The properties to configure the Upload component.
+ * @returns {JSX.Element} The rendered Upload component.
+ */
+export default function Upload<R = unknown>(props: UploadProps<R>): JSX.Element {
+  const [items, setItems] = createSignal<UploadItem<R>[]>([]);
+  const [rejections, setRejections] = createSignal<UploadRejection[]>([]);
+  const [isDragging, setIsDragging] = createSignal(false);
+
+  const controllers = new Map<string, AbortController>();
+  let inputRef: HTMLInputElement | undefined;
+  let counter = 0;
+  let dragDepth = 0;
+
+  const multiple = () => props.multiple !== false;
+
+  // IDs are primitives so For keeps each row mounted across progress updates
+  const itemIds = createMemo(() => items().map((item) => item.id));
+
+  // Revoke object URLs and abort running uploads when unmounted
+  onCleanup(() => {
+    controllers.forEach((controller) => controller.abort());
+    items().forEach((item) => revokePreview(item));
+  });
+
+  const revokePreview = (item: UploadItem<R>) => {
+    if (item.previewUrl && typeof URL.revokeObjectURL === "function") {
+      URL.revokeObjectURL(item.previewUrl);
+    }
+  };
+
+  const createPreview = (file: File) => {
+    if (props.showPreviews === false || !file.type.startsWith("image/")) return undefined;
+    if (typeof URL.createObjectURL !== "function") return undefined;
+    return URL.createObjectURL(file);
+  };
+
+  // Put the files of the list into the input, so a named input submits them with its form
+  const syncInputFiles = () => {
+    if (!inputRef || typeof DataTransfer === "undefined") return;
+
+    const transfer = new DataTransfer();
+    items().forEach((item) => transfer.items.add(item.file));
+    inputRef.files = transfer.files;
+  };
+
+  createEffect(on(itemIds, syncInputFiles, { defer: true }));
+
+  const commit = (next: UploadItem<R>[]) => {
+    setItems(next);
+    props.onChange?.(next);
+  };
+
+  const patchItem = (id: string, changes: Partial<UploadItem<R>>) => {
+    const next = items().map((item) => (item.id === id ? { ...item, ...changes } : item));
+    commit(next);
+    return next.find((item) => item.id === id);
+  };
+
+  // Validate files and return the accepted ones
+  const validate = (files: File[]) => {
+    const accepted: File[] = [];
+    const rejected: UploadRejection[] = [];
+    // A single-file upload holds one file at a time
+    const limit = multiple() ? props.maxFiles ?? Infinity : 1;
+
+    files.forEach((file) => {
+      if (!isFileAccepted(file, props.accept)) {
+        rejected.push({ file, reason: "file-type", message: `${file.name} is not an accepted file type` });
+      } else if (props.maxSize !== undefined && file.size > props.maxSize) {
+        rejected.push({
+          file,
+          reason: "file-too-large",
+          message: `${file.name} is larger than ${formatFileSize(props.maxSize)}`,
+        });
+      } else if (items().length + accepted.length >= limit) {
+        rejected.push({ file, reason: "too-many-files", message: `Only ${limit} ${limit === 1 ? "file" : "files"} can be uploaded` });
+      } else {
+        accepted.push(file);
+      }
+    });
+
+    return { accepted, rejected };
+  };
+
+  const startUpload = async (id: string) => {
+    const uploader = props.uploader;
+    const current = items().find((item) => item.id === id);
+    if (!uploader || !current) return;
+
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    patchItem(id, { status: "uploading", progress: 0, error: undefined });
+
+    try {
+      const result = await uploader(current.file, {
+        signal: controller.signal,
+        onProgress: (percent) => {
+          if (!controller.signal.aborted) {
+            patchItem(id, { progress: Math.max(0, Math.min(100, percent)) });
+          }
+        },
+      });
+      if (controller.signal.aborted) return;
+      const done = patchItem(id, { status: "success", progress: 100, result });
+      if (done) props.onUploadComplete?.(done);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const failed = patchItem(id, { status: "error", error });
+      if (failed) props.onUploadError?.(failed);
+    } finally {
+      if (controllers.get(id) === controller) {
+        controllers.delete(id);
+      }
+    }
+  };
+
+  const addFiles = (incoming: File[]) => {
+    if (props.disabled || incoming.length === 0) return;
+
+    const files = multiple() ? incoming : incoming.slice(0, 1);
+    const { accepted, rejected } = validate(files);
+
+    setRejections(rejected);
+    if (rejected.length > 0) {
+      props.onReject?.(rejected);
+    }
+    if (accepted.length === 0) return;
+
+    const added = accepted.map<UploadItem<R>>((file) => ({
+      id: `upload-${++counter}`,
+      file,
+      status: "pending",
+      progress: 0,
+      previewUrl: createPreview(file),
+    }));
+    commit([...items(), ...added]);
+
+    if (props.autoUpload !== false) {
+      added.forEach((item) => void startUpload(item.id));
+    }
+  };
+
+  const cancel = (id: string) => {
+    controllers.get(id)?.abort();
+    controllers.delete(id);
+    patchItem(id, { status: "canceled" });
+  };
+
+  const remove = (id: string) => {
+    controllers.get(id)?.abort();
+    controllers.delete(id);
+    const item = items().find((entry) => entry.id === id);
+    if (item) revokePreview(item);
+    commit(items().filter((entry) => entry.id !== id));
+  };
+
+  const uploadPending = () => {
+    items()
+      .filter((item) => item.status === "pending")
+      .forEach((item) => void startUpload(item.id));
+  };
+
+  const openPicker = () => {
+    if (!props.disabled) inputRef?.click();
+  };
+
+  const handleInputChange = (event: Event) => {
+    const target = event.target as HTMLInputElement;
+    const files = Array.from(target.files ?? []);
+    // Reset so selecting the same file again fires another change, then restore the list
+    target.value = "";
+    addFiles(files);
+    syncInputFiles();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === "Enter" || event.key === " ") {
+      event.preventDefault();
+      openPicker();
+    }
+  };
+
+  const handleDragEnter = (event: DragEvent) => {
+    event.preventDefault();
+    if (props.disabled) return;
+    dragDepth++;
+    setIsDragging(true);
+  };
+
+  const handleDragOver = (event: DragEvent) => {
+    event.preventDefault();
+    if (event.dataTransfer) {
+      event.dataTransfer.dropEffect = props.disabled ? "none" : "copy";
+    }
+  };
+
+  const handleDragLeave = (event: DragEvent) => {
+    event.preventDefault();
+    dragDepth = Math.max(0, dragDepth - 1);
+    if (dragDepth === 0) setIsDragging(false);
+  };
+
+  const handleDrop = (event: DragEvent) => {
+    event.preventDefault();
+    dragDepth = 0;
+    setIsDragging(false);
+    addFiles(Array.from(event.dataTransfer?.files ?? []));
+  };
+
+  const handlePaste = (event: ClipboardEvent) => {
+    const files = Array.from(event.clipboardData?.files ?? []);
+    if (files.length > 0) {
+      event.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  // Build classes for the drop zone
+  const dropZoneClasses = () => ({
+    "flex flex-col items-center justify-center gap-2 p-6 text-center": true,
+    "border-2 border-dashed rounded-box cursor-pointer": true,
+    "border-base-300": !isDragging(),
+    "border-primary bg-primary/5": isDragging(),
+    "opacity-50 cursor-not-allowed": !!props.disabled,
+  });
+
+  // Build classes for the container
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "flex flex-col gap-3": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const progressColor = (status: UploadStatus): ProgressProps["color"] => {
+    if (status === "success") return "success";
+    if (status === "error") return "error";
+    return "primary";
+  };
+
+  return (
+    <div
+      classList={{
+        ...classes(),
+        ...props.classList,
+      }}
+    >
+      <div
+        role="button"
+        tabIndex={props.disabled ? -1 : 0}
+        aria-label={props["aria-label"] ?? "Upload files"}
+        aria-disabled={props.disabled ? "true" : undefined}
+        data-dragging={isDragging() ? "true" : undefined}
+        classList={dropZoneClasses()}
+        onClick={openPicker}
+        onKeyDown={handleKeyDown}
+        onDragEnter={handleDragEnter}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        onPaste={handlePaste}
+      >
+        {props.children ?? (
+          <>
+            <span class="font-medium">Drop files here, paste, or click to browse</span>
+            <Show when={props.accept || props.maxSize !== undefined}>
+              <span class="text-sm opacity-70">
+                {[props.accept, props.maxSize !== undefined ? `up to ${formatFileSize(props.maxSize)}` : undefined]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </span>
+            </Show>
+          </>
+        )}
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        class="hidden"
+        tabIndex={-1}
+        aria-hidden="true"
+        name={props.name}
+        accept={props.accept}
+        multiple={multiple()}
+        disabled={props.disabled}
+        onChange={handleInputChange}
+      />
+
+      <Show when={rejections().length > 0}>
+        <ul role="alert" class="text-sm text-error">
+          <For each={rejections()}>
+            {(rejection) => <li data-reason={rejection.reason}>{rejection.message}</li>}
+          </For>
+        </ul>
+      </Show>
+
+      <Show when={items().length > 0}>
+        <ul class="list bg-base-100 rounded-box" aria-label="Uploaded files" aria-live="polite">
+          <For each={itemIds()}>
+            {(id) => {
+              const item = () => items().find((entry) => entry.id === id)!;
+              return (
+                <li class="list-row items-center" data-upload-id={item().id} data-status={item().status}>
+                  <Show
+                    when={item().previewUrl}
+                    fallback={
+                      <div class="size-10 rounded-box bg-base-200 flex items-center justify-center" aria-hidden="true">
+                        <svg class="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M7 21h10a2 2 0 002-2V9l-6-6H7a2 2 0 00-2 2v14a2 2 0 002 2zM13 3v6h6" />
+                        </svg>
+                      </div>
+                    }
+                  >
+                    <img class="size-10 rounded-box object-cover" src={item().previewUrl} alt="" />
+                  </Show>
+                  <div class="flex flex-col gap-1 min-w-0">
+                    <span class="truncate">{item().file.name}</span>
+                    <span class="text-xs opacity-70">
+                      {formatFileSize(item().file.size)} · {statusLabels[item().status]}
+                    </span>
+                    <Show when={props.uploader && item().status !== "canceled"}>
+                      <Progress
+                        color={progressColor(item().status)}
+                        value={item().progress}
+                        aria-label={`${item().file.name} upload progress`}
+                      />
+                    </Show>
+                  </div>
+                  <div class="flex gap-1">
+                    <Show when={item().status === "uploading"}>
+                      <Button size="xs" variant="ghost" aria-label={`Cancel ${item().file.name}`} onClick={() => cancel(item().id)}>
+                        Cancel
+                      </Button>
+                    </Show>
+                    <Show when={props.uploader && (item().status === "error" || item().status === "canceled")}>
+                      <Button size="xs" variant="ghost" aria-label={`Retry ${item().file.name}`} onClick={() => void startUpload(item().id)}>
+                        Retry
+                      </Button>
+                    </Show>
+                    <Button size="xs" variant="ghost" aria-label={`Remove ${item().file.name}`} onClick={() => remove(item().id)}>
+                      Remove
+                    </Button>
+                  </div>
+                </li>
+              );
+            }}
+          </For>
+        </ul>
+      </Show>
+
+      <Show when={props.uploader && props.autoUpload === false && items().some((item) => item.status === "pending")}>
+        <Button variant="primary" size="sm" onClick={uploadPending}>
+          Upload
+        </Button>
+      </Show>
+    </div>
+  );
 }
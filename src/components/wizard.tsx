@@ -1,4 +0,0 @@
-// Wizard component
-export default function Wizard() {
-  return <div>Wizard Component</div>;
-}
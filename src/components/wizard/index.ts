@@ -0,0 +1,23 @@
+// Wizard components
+import WizardComponent from "./wizard";
+import WizardStep from "./wizard-step";
+
+// Export types
+export type { WizardProps } from "./wizard";
+export type { WizardStepProps } from "./wizard-step";
+export type { WizardContextValue, WizardStepInfo, WizardValidationResult } from "./wizard-context";
+export { useWizard } from "./wizard-context";
+
+// Create compound component with attached sub-components
+const Wizard = WizardComponent as typeof WizardComponent & {
+  Step: typeof WizardStep;
+};
+
+// Attach sub-components to main Wizard component
+Wizard.Step = WizardStep;
+
+// Export the compound component as default
+export default Wizard;
+
+// Export individual components for those who prefer direct imports
+export { Wizard, WizardStep };
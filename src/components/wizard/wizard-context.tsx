@@ -0,0 +1,79 @@
+import { createContext, useContext } from "solid-js";
+
+/**
+ * Result of a step validator. `true` allows navigation, `false` blocks it, and a
+ * string blocks it and is shown as the error message.
+ */
+export type WizardValidationResult = boolean | string;
+
+/**
+ * Information about a step registered by `Wizard.Step`.
+ *
+ * @property {string} id - Unique ID of the step.
+ * @property {string} title - Title shown in the steps header.
+ * @property {string} [description] - Optional description shown under the title.
+ * @property {boolean} [optional] - Whether the step can be skipped without validation.
+ * @property {string} [name] - Key used for the step in the wizard data. Defaults to the step index.
+ * @property {(data: unknown) => WizardValidationResult | Promise<WizardValidationResult>} [validate] - Validator run before leaving the step forwards.
+ */
+export interface WizardStepInfo {
+  id: string;
+  title: string;
+  description?: string;
+  optional?: boolean;
+  name?: string;
+  validate?: (data: unknown) => WizardValidationResult | Promise<WizardValidationResult>;
+}
+
+/**
+ * Wizard state and navigation exposed to step bodies through `useWizard()`.
+ */
+export interface WizardContextValue {
+  /** Index of the active step. */
+  currentStep: () => number;
+  /** All registered steps in order. */
+  steps: () => WizardStepInfo[];
+  /** Indexes of steps that passed validation. */
+  completed: () => Set<number>;
+  /** Whether the active step is the first one. */
+  isFirst: () => boolean;
+  /** Whether the active step is the last one. */
+  isLast: () => boolean;
+  /** Whether a validator is running. */
+  isValidating: () => boolean;
+  /** Whether the last step is being finished, i.e. `onFinish` has not settled yet. */
+  isFinishing: () => boolean;
+  /** Whether `onFinish` succeeded. A finished wizard ignores `next()` and `skip()`. */
+  isFinished: () => boolean;
+  /** Error message of the last failed validation or rejected `onFinish`. */
+  error: () => string | undefined;
+  /** Validates the active step and moves to the next one, or finishes on the last step. Resolves to true if it moved or finished. */
+  next: () => Promise<boolean>;
+  /** Moves to the previous step. */
+  prev: () => void;
+  /** Moves to a step by index, validating the active step when moving forwards. Resolves to true if it moved. */
+  goTo: (index: number) => Promise<boolean>;
+  /** Moves to the next step without validation. Only works on optional steps. */
+  skip: () => void;
+  /** Data of every step, keyed by step name or index. */
+  data: () => Record<string, unknown>;
+  /** Data of a step, defaulting to the active step. */
+  stepData: <T = unknown>(index?: number) => T | undefined;
+  /** Sets the data of the active step. */
+  setData: (value: unknown) => void;
+  /** Registers a step and returns a function that unregisters it. Used by `Wizard.Step`. */
+  registerStep: (step: WizardStepInfo) => () => void;
+}
+
+export const WizardContext = createContext<WizardContextValue>();
+
+/**
+ * Hook to access the state and navigation of the nearest Wizard.
+ */
+export function useWizard(): WizardContextValue {
+  const context = useContext(WizardContext);
+  if (!context) {
+    throw new Error("useWizard must be used within a Wizard component");
+  }
+  return context;
+}
@@ -0,0 +1,75 @@
+import { JSX, Show, createUniqueId, onCleanup } from "solid-js";
+import { useWizard, WizardValidationResult } from "./wizard-context";
+
+/**
+ * Props for the Wizard.Step component.
+ *
+ * @property {string} title - Title shown for the step in the steps header.
+ * @property {string} [description] - Optional description shown under the title.
+ * @property {boolean} [optional] - If true, the step shows a Skip action that moves on without validation.
+ * @property {string} [name] - Key for the step in the wizard data. Defaults to the step index.
+ * @property {(data: T | undefined) => WizardValidationResult | Promise<WizardValidationResult>} [validate] - Runs before moving forwards. Return false or an error message to block navigation.
+ * @property {JSX.Element} [children] - The body of the step, rendered only while the step is active.
+ * @property {string} [class] - Additional CSS classes to apply to the step body.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ */
+export interface WizardStepProps<T = unknown> {
+  title: string;
+  description?: string;
+  optional?: boolean;
+  name?: string;
+  validate?: (data: T | undefined) => WizardValidationResult | Promise<WizardValidationResult>;
+  children?: JSX.Element;
+  class?: string;
+  classList?: Record<string, boolean>;
+}
+
+/**
+ * Wizard.Step component for a single step of a Wizard.
+ *
+ * Registers its title, description and validator with the parent Wizard and renders
+ * its body only while it is the active step. Steps are ordered by the order in which
+ * they are rendered.
+ *
+ * @param {WizardStepProps<T>} props - The properties to configure the Wizard.Step component.
+ * @returns {JSX.Element} The rendered step body while active.
+ */
+export default function WizardStep<T = unknown>(props: WizardStepProps<T>): JSX.Element {
+  const wizard = useWizard();
+  const id = createUniqueId();
+
+  const unregister = wizard.registerStep({
+    id,
+    get title() {
+      return props.title;
+    },
+    get description() {
+      return props.description;
+    },
+    get optional() {
+      return props.optional;
+    },
+    get name() {
+      return props.name;
+    },
+    validate: (data) => props.validate?.(data as T | undefined) ?? true,
+  });
+  onCleanup(unregister);
+
+  const isActive = () => wizard.steps()[wizard.currentStep()]?.id === id;
+
+  return (
+    <Show when={isActive()}>
+      <div
+        role="group"
+        aria-label={props.title}
+        classList={{
+          ...(props.class ? { [props.class]: true } : {}),
+          ...props.classList,
+        }}
+      >
+        {props.children}
+      </div>
+    </Show>
+  );
+}
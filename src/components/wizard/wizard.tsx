@@ -0,0 +1,311 @@
+import { JSX, createSignal, For, Show } from "solid-js";
+import Alert from "../alert";
+import Button from "../button";
+import { WizardContext, WizardContextValue, WizardStepInfo } from "./wizard-context";
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * Props for the Wizard component.
+ *
+ * @property {JSX.Element} [children] - The Wizard.Step elements of the wizard.
+ * @property {string} [class] - Additional CSS classes to apply to the wizard container.
+ * @property {Record<string, boolean>} [classList] - Dynamic class list for conditional styling.
+ * @property {number} [step] - Index of the active step (controlled mode).
+ * @property {number} [defaultStep] - Index of the initially active step (uncontrolled mode). Defaults to 0.
+ * @property {(index: number) => void} [onStepChange] - Callback fired when the active step changes.
+ * @property {boolean} [linear] - If false, completed steps can be revisited from the steps header. Defaults to true.
+ * @property {"primary" | "secondary" | "accent" | "neutral" | "info" | "success" | "warning" | "error"} [color] - DaisyUI step color for reached steps. Defaults to "primary".
+ * @property {(data: Record<string, unknown>) => void | Promise<void>} [onFinish] - Callback fired when the last step is validated.
+ * @property {boolean} [hideActions] - If true, hides the built-in Back/Next/Finish actions so step bodies can use `useWizard()`.
+ * @property {string} [backLabel] - Label of the Back action. Defaults to "Back".
+ * @property {string} [nextLabel] - Label of the Next action. Defaults to "Next".
+ * @property {string} [finishLabel] - Label of the Finish action. Defaults to "Finish".
+ * @property {string} [skipLabel] - Label of the Skip action on optional steps. Defaults to "Skip".
+ * @property {string} [aria-label] - Accessible label for the steps header. Defaults to "Progress".
+ */
+export interface WizardProps {
+  children?: JSX.Element;
+  class?: string;
+  classList?: Record<string, boolean>;
+  step?: number;
+  defaultStep?: number;
+  onStepChange?: (index: number) => void;
+  linear?: boolean;
+  color?: "primary" | "secondary" | "accent" | "neutral" | "info" | "success" | "warning" | "error";
+  onFinish?: (data: Record<string, unknown>) => void | Promise<void>;
+  hideActions?: boolean;
+  backLabel?: string;
+  nextLabel?: string;
+  finishLabel?: string;
+  skipLabel?: string;
+  "aria-label"?: string;
+}
+
+/**
+ * Wizard component for multi-step flows with per-step validation.
+ *
+ * Renders a DaisyUI `steps` header from its `Wizard.Step` children, the active step
+ * body, and Back/Next/Finish actions built with the Button component. Moving forwards
+ * runs the active step's `validate()` (which may be async); navigation is blocked while
+ * it fails, and a returned message is shown in an error Alert. The actions are disabled
+ * while `onFinish` is pending, and a rejection is shown in the same Alert. Once it
+ * succeeds, the wizard is finished and cannot be submitted again.
+ *
+ * Each step keeps its own data. Step bodies can call `useWizard()` to read and write
+ * it with `setData()` and to navigate with `next()`, `prev()` and `goTo()`.
+ *
+ * When `linear` is false, completed steps in the header become buttons so users can
+ * revisit them.
+ *
+ * @param {WizardProps} props - The properties to configure the Wizard component.
+ * @returns {JSX.Element} The rendered Wizard component.
+ */
+export default function Wizard(props: WizardProps): JSX.Element {
+  const [steps, setSteps] = createSignal<WizardStepInfo[]>([]);
+  const [internalStep, setInternalStep] = createSignal(props.defaultStep ?? 0);
+  const [completed, setCompleted] = createSignal(new Set<number>());
+  const [data, setDataRecord] = createSignal<Record<string, unknown>>({});
+  const [isValidating, setIsValidating] = createSignal(false);
+  const [isFinishing, setIsFinishing] = createSignal(false);
+  const [isFinished, setIsFinished] = createSignal(false);
+  const [error, setError] = createSignal<string>();
+
+  const currentStep = () => props.step ?? internalStep();
+  const isFirst = () => currentStep() === 0;
+  const isLast = () => currentStep() >= steps().length - 1;
+  const color = () => props.color ?? "primary";
+  const isBusy = () => isValidating() || isFinishing();
+
+  // Data key of a step: its name, or its index
+  const keyOf = (index: number) => steps()[index]?.name ?? String(index);
+
+  const registerStep = (step: WizardStepInfo) => {
+    setSteps((current) => [...current, step]);
+    return () => setSteps((current) => current.filter((entry) => entry.id !== step.id));
+  };
+
+  const changeStep = (index: number) => {
+    setError(undefined);
+    if (props.step === undefined) {
+      setInternalStep(index);
+    }
+    props.onStepChange?.(index);
+  };
+
+  const markCompleted = (index: number) => {
+    setCompleted((current) => new Set(current).add(index));
+  };
+
+  // Run the validator of a step; a string result is shown as the error message
+  const validateStep = async (index: number) => {
+    const step = steps()[index];
+    if (!step?.validate) return true;
+
+    setIsValidating(true);
+    setError(undefined);
+    try {
+      const result = await step.validate(data()[keyOf(index)]);
+      if (typeof result === "string") {
+        setError(result);
+        return false;
+      }
+      return result !== false;
+    } catch (validationError) {
+      setError(errorMessage(validationError));
+      return false;
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  // Call onFinish; a rejection is shown as the error message
+  const finish = async () => {
+    setIsFinishing(true);
+    setError(undefined);
+    try {
+      await props.onFinish?.(data());
+      setIsFinished(true);
+      return true;
+    } catch (finishError) {
+      setError(errorMessage(finishError));
+      return false;
+    } finally {
+      setIsFinishing(false);
+    }
+  };
+
+  const next = async () => {
+    if (isBusy() || isFinished()) return false;
+
+    const index = currentStep();
+    const finishing = isLast();
+
+    // Mark finishing before validating, so clicks while the last step validates are ignored
+    if (finishing) setIsFinishing(true);
+    if (!(await validateStep(index))) {
+      setIsFinishing(false);
+      return false;
+    }
+    markCompleted(index);
+
+    if (finishing) {
+      return finish();
+    }
+    changeStep(index + 1);
+    return true;
+  };
+
+  const prev = () => {
+    if (!isFirst() && !isBusy()) {
+      changeStep(currentStep() - 1);
+    }
+  };
+
+  const skip = () => {
+    if (!steps()[currentStep()]?.optional || isBusy() || isFinished()) return;
+    if (isLast()) {
+      void finish();
+    } else {
+      changeStep(currentStep() + 1);
+    }
+  };
+
+  const goTo = async (index: number) => {
+    const current = currentStep();
+    if (index < 0 || index >= steps().length || isBusy()) return false;
+    if (index === current) return true;
+
+    if (index > current) {
+      // Linear wizards only move one step forwards at a time
+      if (props.linear !== false && index > current + 1) return false;
+
+      // Every step in between must already be completed or optional
+      for (let between = current + 1; between < index; between++) {
+        if (!completed().has(between) && !steps()[between].optional) return false;
+      }
+
+      if (!(await validateStep(current))) return false;
+      markCompleted(current);
+    }
+
+    changeStep(index);
+    return true;
+  };
+
+  const setData = (value: unknown) => {
+    const key = keyOf(currentStep());
+    setDataRecord((current) => ({ ...current, [key]: value }));
+  };
+
+  const stepData = <T,>(index = currentStep()) => data()[keyOf(index)] as T | undefined;
+
+  const context: WizardContextValue = {
+    currentStep,
+    steps,
+    completed,
+    isFirst,
+    isLast,
+    isValidating,
+    isFinishing,
+    isFinished,
+    error,
+    next,
+    prev,
+    goTo,
+    skip,
+    data,
+    stepData,
+    setData,
+    registerStep,
+  };
+
+  // Completed steps and the step after the last completed one can be revisited in non-linear mode
+  const isNavigable = (index: number) =>
+    props.linear === false &&
+    index !== currentStep() &&
+    (index < currentStep() || completed().has(index) || completed().has(index - 1));
+
+  // Build classes following DaisyUI patterns
+  const classes = () => {
+    const baseClasses: Record<string, boolean> = {
+      "flex flex-col gap-4": true,
+    };
+
+    // Add custom class if provided
+    if (props.class) {
+      baseClasses[props.class] = true;
+    }
+
+    return baseClasses;
+  };
+
+  const stepClasses = (index: number) => ({
+    step: true,
+    [`step-${color()}`]: index <= currentStep() || completed().has(index),
+  });
+
+  const stepLabel = (step: WizardStepInfo) => (
+    <span class="flex flex-col">
+      <span>{step.title}</span>
+      <Show when={step.description || step.optional}>
+        <span class="text-xs opacity-70">
+          {[step.description, step.optional ? "Optional" : undefined].filter(Boolean).join(" · ")}
+        </span>
+      </Show>
+    </span>
+  );
+
+  return (
+    <WizardContext.Provider value={context}>
+      <div
+        classList={{
+          ...classes(),
+          ...props.classList,
+        }}
+      >
+        <ol class="steps w-full" aria-label={props["aria-label"] ?? "Progress"}>
+          <For each={steps()}>
+            {(step, index) => (
+              <li
+                classList={stepClasses(index())}
+                data-content={completed().has(index()) && index() !== currentStep() ? "✓" : undefined}
+                aria-current={index() === currentStep() ? "step" : undefined}
+              >
+                <Show when={isNavigable(index())} fallback={stepLabel(step)}>
+                  <button type="button" class="link link-hover" onClick={() => void goTo(index())}>
+                    {stepLabel(step)}
+                  </button>
+                </Show>
+              </li>
+            )}
+          </For>
+        </ol>
+
+        <div>{props.children}</div>
+
+        <Show when={error()}>
+          <Alert type="error">{error()}</Alert>
+        </Show>
+
+        <Show when={!props.hideActions && steps().length > 0}>
+          <div class="flex justify-between gap-2">
+            <Button disabled={isFirst() || isBusy()} onClick={prev}>
+              {props.backLabel ?? "Back"}
+            </Button>
+            <div class="flex gap-2">
+              <Show when={steps()[currentStep()]?.optional}>
+                <Button variant="ghost" disabled={isBusy() || isFinished()} onClick={skip}>
+                  {props.skipLabel ?? "Skip"}
+                </Button>
+              </Show>
+              <Button variant="primary" loading={isBusy()} disabled={isFinished()} onClick={() => void next()}>
+                {isLast() ? props.finishLabel ?? "Finish" : props.nextLabel ?? "Next"}
+              </Button>
+            </div>
+          </div>
+        </Show>
+      </div>
+    </WizardContext.Provider>
+  );
+}
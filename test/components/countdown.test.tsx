@@ -1,10 +1,294 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
-import Countdown from "@/components/countdown";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, cleanup } from "@solidjs/testing-library";
+import { createRoot, createSignal } from "solid-js";
+import Countdown, { CountdownApi, createCountdown } from "@/components/countdown";
+
+const getDigits = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLElement>("[style]")).map((el) => el.style.getPropertyValue("--value"));
+
+describe("createCountdown", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts down a duration", () => {
+    createRoot((dispose) => {
+      const countdown = createCountdown({ duration: 3000 });
+      expect(countdown.remaining()).toBe(3000);
+      expect(countdown.isRunning()).toBe(true);
+
+      vi.advanceTimersByTime(1000);
+      expect(countdown.remaining()).toBe(2000);
+
+      vi.advanceTimersByTime(2000);
+      expect(countdown.remaining()).toBe(0);
+      expect(countdown.isComplete()).toBe(true);
+      expect(countdown.isRunning()).toBe(false);
+      dispose();
+    });
+  });
+
+  it("counts down to a target date", () => {
+    createRoot((dispose) => {
+      const countdown = createCountdown({ target: new Date("2025-01-01T00:01:00Z") });
+      expect(countdown.remaining()).toBe(60000);
+
+      vi.advanceTimersByTime(5000);
+      expect(countdown.remaining()).toBe(55000);
+      dispose();
+    });
+  });
+
+  it("calls onTick and onComplete", () => {
+    const onTick = vi.fn();
+    const onComplete = vi.fn();
+    createRoot((dispose) => {
+      createCountdown({ duration: 2000, onTick, onComplete });
+
+      vi.advanceTimersByTime(1000);
+      expect(onTick).toHaveBeenLastCalledWith(1000);
+      expect(onComplete).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1000);
+      expect(onTick).toHaveBeenLastCalledWith(0);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(5000);
+      expect(onTick).toHaveBeenCalledTimes(2);
+      dispose();
+    });
+  });
+
+  it("completes exactly at zero when the duration is not a multiple of the interval", () => {
+    const onComplete = vi.fn();
+    createRoot((dispose) => {
+      createCountdown({ duration: 1500, onComplete });
+      vi.advanceTimersByTime(1499);
+      expect(onComplete).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(1);
+      expect(onComplete).toHaveBeenCalled();
+      dispose();
+    });
+  });
+
+  it("pauses and resumes", () => {
+    createRoot((dispose) => {
+      const countdown = createCountdown({ duration: 10000 });
+      vi.advanceTimersByTime(3000);
+      countdown.pause();
+      expect(countdown.isRunning()).toBe(false);
+
+      vi.advanceTimersByTime(5000);
+      expect(countdown.remaining()).toBe(7000);
+
+      countdown.resume();
+      vi.advanceTimersByTime(2000);
+      expect(countdown.remaining()).toBe(5000);
+      dispose();
+    });
+  });
+
+  it("resets to the initial time", () => {
+    createRoot((dispose) => {
+      const countdown = createCountdown({ duration: 10000 });
+      vi.advanceTimersByTime(4000);
+      countdown.reset();
+      expect(countdown.remaining()).toBe(10000);
+      expect(countdown.isRunning()).toBe(true);
+      dispose();
+    });
+  });
+
+  it("waits for resume when autoStart is false", () => {
+    createRoot((dispose) => {
+      const countdown = createCountdown({ duration: 5000, autoStart: false });
+      vi.advanceTimersByTime(2000);
+      expect(countdown.remaining()).toBe(5000);
+      expect(countdown.isRunning()).toBe(false);
+
+      countdown.resume();
+      vi.advanceTimersByTime(2000);
+      expect(countdown.remaining()).toBe(3000);
+      dispose();
+    });
+  });
+
+  it("ticks at a custom interval", () => {
+    const onTick = vi.fn();
+    createRoot((dispose) => {
+      createCountdown({ duration: 1000, interval: 250, onTick });
+      vi.advanceTimersByTime(1000);
+      expect(onTick).toHaveBeenCalledTimes(4);
+      dispose();
+    });
+  });
+
+  it("is complete immediately for a past target", () => {
+    createRoot((dispose) => {
+      const countdown = createCountdown({ target: new Date("2024-12-31T00:00:00Z") });
+      expect(countdown.isComplete()).toBe(true);
+      expect(countdown.isRunning()).toBe(false);
+      dispose();
+    });
+  });
+
+  it("stops when its scope is disposed", () => {
+    const onTick = vi.fn();
+    createRoot((dispose) => {
+      createCountdown({ duration: 5000, onTick });
+      dispose();
+    });
+    vi.advanceTimersByTime(5000);
+    expect(onTick).not.toHaveBeenCalled();
+  });
+});
 
 describe("Countdown Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Countdown />);
-    expect(getByText("Countdown Component")).toBeInTheDocument();
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2025-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  describe("Basic Rendering", () => {
+    it("renders DaisyUI countdown digits for hours, minutes and seconds", () => {
+      const { getByRole, container } = render(() => <Countdown duration={(2 * 3600 + 5 * 60 + 9) * 1000} />);
+      const timer = getByRole("timer");
+      expect(timer).toHaveClass("countdown", "font-mono");
+      expect(getDigits(container)).toEqual(["2", "5", "9"]);
+      expect(timer).toHaveTextContent("2:5:9");
+    });
+
+    it("labels the timer with the remaining time", () => {
+      const { getByRole } = render(() => <Countdown duration={(3600 + 61) * 1000} />);
+      expect(getByRole("timer")).toHaveAttribute("aria-label", "1 hour, 1 minute, 1 second");
+    });
+
+    it("uses a custom aria-label", () => {
+      const { getByRole } = render(() => <Countdown duration={1000} aria-label="Offer ends soon" />);
+      expect(getByRole("timer")).toHaveAttribute("aria-label", "Offer ends soon");
+    });
+
+    it("applies custom class and classList", () => {
+      const { getByRole } = render(() => <Countdown duration={1000} class="text-2xl" classList={{ "is-active": true }} />);
+      expect(getByRole("timer")).toHaveClass("countdown", "text-2xl", "is-active");
+    });
+  });
+
+  describe("Format", () => {
+    it("shows the selected units", () => {
+      const { container } = render(() => <Countdown duration={90 * 1000} format={["seconds", "minutes"]} />);
+      expect(getDigits(container)).toEqual(["1", "30"]);
+    });
+
+    it("lets the largest unit absorb larger amounts", () => {
+      const { container } = render(() => <Countdown duration={(2 * 86400 + 3600) * 1000} format={["hours", "minutes"]} />);
+      expect(getDigits(container)).toEqual(["49", "0"]);
+    });
+
+    it("shows at most 99 in a segment and speaks the full value", () => {
+      const { container, getByRole } = render(() => <Countdown duration={150 * 3600 * 1000} format={["hours", "minutes"]} />);
+      expect(getDigits(container)).toEqual(["99", "0"]);
+      expect(getByRole("timer")).toHaveAttribute("aria-label", "150 hours, 0 minutes");
+    });
+
+    it("includes days", () => {
+      const { container } = render(() => (
+        <Countdown target={new Date("2025-01-16T10:24:59Z")} format={["days", "hours", "minutes", "seconds"]} />
+      ));
+      expect(getDigits(container)).toEqual(["15", "10", "24", "59"]);
+    });
+
+    it("renders labeled segments", () => {
+      const { container, getByText } = render(() => (
+        <Countdown duration={(86400 + 2 * 3600) * 1000} format={["days", "hours"]} labels />
+      ));
+      const segments = container.querySelectorAll("[data-unit]");
+      expect(segments).toHaveLength(2);
+      expect(segments[0].querySelector(".countdown")).toBeInTheDocument();
+      expect(getByText("days")).toBeInTheDocument();
+      expect(getByText("hours")).toBeInTheDocument();
+    });
+
+    it("uses custom labels", () => {
+      const { getByText } = render(() => <Countdown duration={60000} format={["minutes"]} labels={{ minutes: "Minuten" }} />);
+      expect(getByText("Minuten")).toBeInTheDocument();
+    });
+  });
+
+  describe("Timer", () => {
+    it("updates the digits in place every second", () => {
+      const { container } = render(() => <Countdown duration={62000} format={["minutes", "seconds"]} />);
+      const seconds = container.querySelectorAll<HTMLElement>("[style]")[1];
+
+      vi.advanceTimersByTime(1000);
+      expect(getDigits(container)).toEqual(["1", "1"]);
+
+      vi.advanceTimersByTime(1000);
+      expect(getDigits(container)).toEqual(["1", "0"]);
+      expect(container.querySelectorAll<HTMLElement>("[style]")[1]).toBe(seconds);
+    });
+
+    it("calls onTick and onComplete", () => {
+      const onTick = vi.fn();
+      const onComplete = vi.fn();
+      render(() => <Countdown duration={2000} onTick={onTick} onComplete={onComplete} />);
+
+      vi.advanceTimersByTime(2000);
+      expect(onTick).toHaveBeenCalledTimes(2);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it("calls onComplete on mount when the target has already passed", () => {
+      const onComplete = vi.fn();
+      render(() => <Countdown target={new Date("2024-12-31T23:59:00Z")} onComplete={onComplete} />);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(5000);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it("pauses, resumes and resets through the ref", () => {
+      let api: CountdownApi | undefined;
+      const { container } = render(() => <Countdown duration={10000} format={["seconds"]} ref={(value) => (api = value)} />);
+
+      vi.advanceTimersByTime(2000);
+      api?.pause();
+      vi.advanceTimersByTime(3000);
+      expect(getDigits(container)).toEqual(["8"]);
+
+      api?.resume();
+      vi.advanceTimersByTime(1000);
+      expect(getDigits(container)).toEqual(["7"]);
+
+      api?.reset();
+      expect(getDigits(container)).toEqual(["10"]);
+    });
+
+    it("restarts when the duration changes", () => {
+      const [duration, setDuration] = createSignal(5000);
+      const { container } = render(() => <Countdown duration={duration()} format={["seconds"]} />);
+
+      vi.advanceTimersByTime(2000);
+      setDuration(30000);
+      expect(getDigits(container)).toEqual(["30"]);
+    });
+
+    it("stops when unmounted", () => {
+      const onTick = vi.fn();
+      const { unmount } = render(() => <Countdown duration={5000} onTick={onTick} />);
+      unmount();
+      vi.advanceTimersByTime(5000);
+      expect(onTick).not.toHaveBeenCalled();
+    });
   });
 });
@@ -1,10 +1,274 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
+import { describe, it, expect, vi } from "vitest";
+import { render, fireEvent } from "@solidjs/testing-library";
+import { createSignal } from "solid-js";
 import Diff from "@/components/diff";
 
+const renderDiff = (props: Partial<Parameters<typeof Diff>[0]> = {}) =>
+  render(() => (
+    <Diff {...props}>
+      <img alt="Before" src="/before.webp" />
+      <img alt="After" src="/after.webp" />
+    </Diff>
+  ));
+
+const getDiff = (container: HTMLElement) => container.querySelector(".diff") as HTMLElement;
+
+// Gives the diff a 200 × 100 pixel box at the viewport origin
+const mockRect = (element: HTMLElement) => {
+  element.getBoundingClientRect = () =>
+    ({ left: 0, top: 0, width: 200, height: 100, right: 200, bottom: 100, x: 0, y: 0 }) as DOMRect;
+};
+
+// jsdom has no PointerEvent, so pointer events are dispatched as mouse events with coordinates
+const pointer = (element: HTMLElement, type: string, init: MouseEventInit = {}) =>
+  element.dispatchEvent(new MouseEvent(type, { bubbles: true, cancelable: true, ...init }));
+
 describe("Diff Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Diff />);
-    expect(getByText("Diff Component")).toBeInTheDocument();
+  describe("Basic Rendering", () => {
+    it("renders the DaisyUI diff structure with both items", () => {
+      const { container, getByRole, getByAltText } = renderDiff();
+      const diff = getDiff(container);
+      expect(diff).not.toHaveAttribute("role");
+      expect(getByAltText("Before").parentElement).toHaveClass("diff-item-1");
+      expect(getByAltText("After").parentElement).toHaveClass("diff-item-2");
+      expect(getByRole("slider", { name: "Comparison position" })).toHaveClass("diff-resizer");
+      expect(getByRole("slider")).toHaveAttribute("aria-orientation", "horizontal");
+    });
+
+    it("starts in the middle", () => {
+      const { getByRole } = renderDiff();
+      const slider = getByRole("slider");
+      expect(slider).toHaveAttribute("aria-valuenow", "50");
+      expect(slider).toHaveAttribute("aria-valuemin", "0");
+      expect(slider).toHaveAttribute("aria-valuemax", "100");
+      expect(slider).toHaveAttribute("aria-valuetext", "50%");
+    });
+
+    it("uses the default position", () => {
+      const { getByRole } = renderDiff({ defaultPosition: 30 });
+      expect(getByRole("slider")).toHaveAttribute("aria-valuenow", "30");
+    });
+
+    it("applies custom class, classList and aria-label", () => {
+      const { container, getByRole } = renderDiff({
+        class: "aspect-16/9",
+        classList: { "rounded-box": true },
+        "aria-label": "Before and after",
+      });
+      expect(getDiff(container)).toHaveClass("diff", "aspect-16/9", "rounded-box");
+      expect(getByRole("slider", { name: "Before and after" })).toBeInTheDocument();
+    });
+  });
+
+  describe("Keyboard", () => {
+    it("moves with the arrow keys", () => {
+      const onPositionChange = vi.fn();
+      const { getByRole } = renderDiff({ onPositionChange });
+      const slider = getByRole("slider");
+
+      fireEvent.keyDown(slider, { key: "ArrowRight" });
+      expect(onPositionChange).toHaveBeenLastCalledWith(51);
+      fireEvent.keyDown(slider, { key: "ArrowUp" });
+      expect(slider).toHaveAttribute("aria-valuenow", "52");
+      fireEvent.keyDown(slider, { key: "ArrowLeft" });
+      fireEvent.keyDown(slider, { key: "ArrowDown" });
+      expect(slider).toHaveAttribute("aria-valuenow", "50");
+    });
+
+    it("moves by the step and by ten steps with Page Up and Page Down", () => {
+      const { getByRole } = renderDiff({ step: 5 });
+      const slider = getByRole("slider");
+
+      fireEvent.keyDown(slider, { key: "ArrowRight" });
+      expect(slider).toHaveAttribute("aria-valuenow", "55");
+      fireEvent.keyDown(slider, { key: "PageDown" });
+      expect(slider).toHaveAttribute("aria-valuenow", "5");
+      fireEvent.keyDown(slider, { key: "PageUp" });
+      expect(slider).toHaveAttribute("aria-valuenow", "55");
+    });
+
+    it("jumps to the ends with Home and End", () => {
+      const { getByRole } = renderDiff();
+      const slider = getByRole("slider");
+
+      fireEvent.keyDown(slider, { key: "Home" });
+      expect(slider).toHaveAttribute("aria-valuenow", "0");
+      fireEvent.keyDown(slider, { key: "ArrowLeft" });
+      expect(slider).toHaveAttribute("aria-valuenow", "0");
+      fireEvent.keyDown(slider, { key: "End" });
+      expect(slider).toHaveAttribute("aria-valuenow", "100");
+    });
+  });
+
+  describe("Dragging", () => {
+    it("follows the pointer while dragging", () => {
+      const onPositionChange = vi.fn();
+      const { container, getByRole } = renderDiff({ onPositionChange });
+      const diff = getDiff(container);
+      const slider = getByRole("slider");
+      mockRect(diff);
+
+      pointer(diff, "pointerdown", { clientX: 50 });
+      expect(onPositionChange).toHaveBeenLastCalledWith(25);
+      expect(slider).toHaveFocus();
+
+      pointer(diff, "pointermove", { clientX: 150 });
+      expect(slider).toHaveAttribute("aria-valuenow", "75");
+
+      pointer(diff, "pointerup");
+      pointer(diff, "pointermove", { clientX: 20 });
+      expect(slider).toHaveAttribute("aria-valuenow", "75");
+    });
+
+    it("clamps positions outside the diff", () => {
+      const { container, getByRole } = renderDiff();
+      const diff = getDiff(container);
+      mockRect(diff);
+
+      pointer(diff, "pointerdown", { clientX: 500 });
+      expect(getByRole("slider")).toHaveAttribute("aria-valuenow", "100");
+      pointer(diff, "pointermove", { clientX: -40 });
+      expect(getByRole("slider")).toHaveAttribute("aria-valuenow", "0");
+    });
+
+    it("stops dragging when the pointer is cancelled", () => {
+      const { container, getByRole } = renderDiff();
+      const diff = getDiff(container);
+      mockRect(diff);
+
+      pointer(diff, "pointerdown", { clientX: 100 });
+      pointer(diff, "pointercancel");
+      pointer(diff, "pointermove", { clientX: 10 });
+      expect(getByRole("slider")).toHaveAttribute("aria-valuenow", "50");
+    });
+
+    it("lets vertical scrolling pass through horizontal diffs", () => {
+      const { container } = renderDiff();
+      expect(getDiff(container)).toHaveClass("touch-pan-y", "cursor-ew-resize");
+    });
+  });
+
+  describe("Controlled Mode", () => {
+    it("follows the position prop", () => {
+      const [position, setPosition] = createSignal(20);
+      const { getByRole } = render(() => (
+        <Diff position={position()} onPositionChange={setPosition}>
+          <div>One</div>
+          <div>Two</div>
+        </Diff>
+      ));
+      const slider = getByRole("slider");
+
+      fireEvent.keyDown(slider, { key: "ArrowRight" });
+      expect(position()).toBe(21);
+      expect(slider).toHaveAttribute("aria-valuenow", "21");
+
+      setPosition(80);
+      expect(slider).toHaveAttribute("aria-valuenow", "80");
+    });
+
+    it("only reports changes when the position prop is not updated", () => {
+      const onPositionChange = vi.fn();
+      const { getByRole } = renderDiff({ position: 40, onPositionChange });
+      fireEvent.keyDown(getByRole("slider"), { key: "End" });
+      expect(onPositionChange).toHaveBeenCalledWith(100);
+      expect(getByRole("slider")).toHaveAttribute("aria-valuenow", "40");
+    });
+  });
+
+  describe("Vertical Orientation", () => {
+    it("clips the first item and draws a divider", () => {
+      const { getByRole, getByAltText, container } = renderDiff({ orientation: "vertical", defaultPosition: 30 });
+      expect(getDiff(container)).toHaveClass("touch-pan-x", "cursor-ns-resize");
+
+      expect(getByAltText("Before").parentElement).toHaveClass("diff-item-1");
+      expect(getByAltText("After").parentElement).toHaveClass("after:hidden");
+
+      const slider = getByRole("slider");
+      expect(slider).toHaveAttribute("data-slot", "divider");
+      expect(slider).toHaveAttribute("aria-orientation", "vertical");
+      expect(slider.style.top).toBe("30%");
+    });
+
+    it("follows the pointer vertically", () => {
+      const { container, getByRole } = renderDiff({ orientation: "vertical" });
+      const diff = getDiff(container);
+      mockRect(diff);
+
+      pointer(diff, "pointerdown", { clientX: 10, clientY: 90 });
+      expect(getByRole("slider").style.top).toBe("90%");
+      expect(getByRole("slider")).toHaveAttribute("aria-valuenow", "10");
+      expect(getByRole("slider")).toHaveFocus();
+    });
+
+    it("measures the slider value from the bottom", () => {
+      const { getByRole } = renderDiff({ orientation: "vertical", defaultPosition: 30 });
+      expect(getByRole("slider")).toHaveAttribute("aria-valuenow", "70");
+      expect(getByRole("slider")).toHaveAttribute("aria-valuetext", "70%");
+    });
+
+    it("moves the divider up and raises the value with Arrow Up", () => {
+      const { getByRole } = renderDiff({ orientation: "vertical", defaultPosition: 30 });
+      const slider = getByRole("slider");
+
+      fireEvent.keyDown(slider, { key: "ArrowUp" });
+      expect(slider.style.top).toBe("29%");
+      expect(slider).toHaveAttribute("aria-valuenow", "71");
+    });
+
+    it("moves the divider down and lowers the value with Arrow Down", () => {
+      const { getByRole } = renderDiff({ orientation: "vertical", defaultPosition: 30 });
+      const slider = getByRole("slider");
+
+      fireEvent.keyDown(slider, { key: "ArrowDown" });
+      expect(slider.style.top).toBe("31%");
+      expect(slider).toHaveAttribute("aria-valuenow", "69");
+    });
+
+    it("moves the divider up and raises the value by ten steps with Page Up", () => {
+      const { getByRole } = renderDiff({ orientation: "vertical", defaultPosition: 30 });
+      const slider = getByRole("slider");
+
+      fireEvent.keyDown(slider, { key: "PageUp" });
+      expect(slider.style.top).toBe("20%");
+      expect(slider).toHaveAttribute("aria-valuenow", "80");
+    });
+
+    it("moves the divider down and lowers the value by ten steps with Page Down", () => {
+      const { getByRole } = renderDiff({ orientation: "vertical", defaultPosition: 30 });
+      const slider = getByRole("slider");
+
+      fireEvent.keyDown(slider, { key: "PageDown" });
+      expect(slider.style.top).toBe("40%");
+      expect(slider).toHaveAttribute("aria-valuenow", "60");
+    });
+
+    it("moves the divider to the bottom with Home and the top with End", () => {
+      const { getByRole } = renderDiff({ orientation: "vertical", defaultPosition: 30 });
+      const slider = getByRole("slider");
+
+      fireEvent.keyDown(slider, { key: "Home" });
+      expect(slider.style.top).toBe("100%");
+      expect(slider).toHaveAttribute("aria-valuenow", "0");
+      fireEvent.keyDown(slider, { key: "End" });
+      expect(slider.style.top).toBe("0%");
+      expect(slider).toHaveAttribute("aria-valuenow", "100");
+    });
+  });
+
+  describe("Disabled State", () => {
+    it("ignores keyboard and pointer input", () => {
+      const onPositionChange = vi.fn();
+      const { container, getByRole } = renderDiff({ disabled: true, onPositionChange });
+      const diff = getDiff(container);
+      const slider = getByRole("slider");
+      mockRect(diff);
+
+      expect(slider).toHaveAttribute("aria-disabled", "true");
+      expect(slider).toHaveAttribute("tabindex", "-1");
+      fireEvent.keyDown(slider, { key: "End" });
+      pointer(diff, "pointerdown", { clientX: 10 });
+      expect(onPositionChange).not.toHaveBeenCalled();
+    });
   });
 });
@@ -1,10 +1,181 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
-import Dock from "@/components/dock";
+import { describe, it, expect, vi } from "vitest";
+import { render, fireEvent, waitFor } from "@solidjs/testing-library";
+import { createSignal } from "solid-js";
+import { MemoryRouter, Route, createMemoryHistory } from "@solidjs/router";
+import Dock, { DockItem, DockItemData } from "@/components/dock";
+
+const items: DockItemData[] = [
+  { label: "Home", href: "/", icon: <svg data-testid="home-icon" /> },
+  { label: "Inbox", href: "/inbox", badge: 3 },
+  { label: "Settings", href: "/settings" },
+];
 
 describe("Dock Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Dock />);
-    expect(getByText("Dock Component")).toBeInTheDocument();
+  describe("Basic Rendering", () => {
+    it("renders a dock navigation with labeled items", () => {
+      const { getByRole, getByTestId, getByText } = render(() => <Dock items={items} />);
+      const nav = getByRole("navigation", { name: "Dock" });
+      expect(nav).toHaveClass("dock");
+      expect(nav.children).toHaveLength(3);
+      expect(getByText("Home")).toHaveClass("dock-label");
+      expect(getByTestId("home-icon").parentElement).toHaveClass("indicator");
+    });
+
+    it("renders link items without link styling", () => {
+      const { getByRole } = render(() => <Dock items={items} />);
+      const link = getByRole("link", { name: "Settings" });
+      expect(link).toHaveAttribute("href", "/settings");
+      expect(link).not.toHaveClass("link");
+    });
+
+    it("renders a badge on the icon", () => {
+      const { getByText } = render(() => <Dock items={items} />);
+      const badge = getByText("3");
+      expect(badge).toHaveClass("indicator-item", "badge", "badge-primary", "badge-xs");
+      expect(badge.parentElement).toHaveClass("indicator");
+    });
+
+    it.each(["xs", "sm", "md", "lg", "xl"] as const)("applies the %s size", (size) => {
+      const { getByRole } = render(() => <Dock items={items} size={size} />);
+      expect(getByRole("navigation")).toHaveClass(`dock-${size}`);
+    });
+
+    it("applies custom class, classList and aria-label", () => {
+      const { getByRole } = render(() => (
+        <Dock items={items} class="relative" classList={{ "is-active": true }} aria-label="Main" />
+      ));
+      expect(getByRole("navigation", { name: "Main" })).toHaveClass("dock", "relative", "is-active");
+    });
+
+    it("renders DockItem children", () => {
+      const { getByRole } = render(() => (
+        <Dock>
+          <Dock.Item label="Home" href="/" />
+          <DockItem label="Search" value="search" />
+        </Dock>
+      ));
+      expect(getByRole("link", { name: "Home" })).toBeInTheDocument();
+      expect(getByRole("button", { name: "Search" })).toHaveAttribute("type", "button");
+    });
+
+    it("throws when DockItem is used outside a Dock", () => {
+      expect(() => render(() => <DockItem label="Home" />)).toThrow(
+        "Dock sub-components must be used within a Dock component"
+      );
+    });
+  });
+
+  describe("Active Item", () => {
+    it("marks the item matching the active path", () => {
+      const { getByRole } = render(() => <Dock items={items} activePath="/inbox/?tab=unread" />);
+      const inbox = getByRole("link", { name: /Inbox/ });
+      expect(inbox).toHaveClass("dock-active");
+      expect(inbox).toHaveAttribute("aria-current", "page");
+      expect(getByRole("link", { name: "Home" })).not.toHaveClass("dock-active");
+    });
+
+    it("follows active path changes", () => {
+      const [path, setPath] = createSignal("/");
+      const { getByRole } = render(() => <Dock items={items} activePath={path()} />);
+      expect(getByRole("link", { name: "Home" })).toHaveAttribute("aria-current", "page");
+
+      setPath("/settings");
+      expect(getByRole("link", { name: "Home" })).not.toHaveAttribute("aria-current");
+      expect(getByRole("link", { name: "Settings" })).toHaveClass("dock-active");
+    });
+
+    it("follows the router location inside a Router", async () => {
+      const history = createMemoryHistory();
+      history.set({ value: "/" });
+      const { findByRole, getByRole, unmount } = render(() => (
+        <MemoryRouter history={history}>
+          <Route path="*" component={() => <Dock items={items} />} />
+        </MemoryRouter>
+      ));
+      expect(await findByRole("link", { name: "Home" })).toHaveClass("dock-active");
+
+      history.set({ value: "/inbox?tab=unread", scroll: false });
+      await waitFor(() => expect(getByRole("link", { name: /Inbox/ })).toHaveClass("dock-active"));
+      expect(getByRole("link", { name: /Inbox/ })).toHaveAttribute("aria-current", "page");
+      expect(getByRole("link", { name: "Home" })).not.toHaveClass("dock-active");
+      // Unmount so the router stops intercepting link clicks in later tests
+      unmount();
+    });
+
+    it("uses the controlled value over the path", () => {
+      const { getByRole } = render(() => <Dock items={items} value="/settings" activePath="/" />);
+      expect(getByRole("link", { name: "Settings" })).toHaveClass("dock-active");
+      expect(getByRole("link", { name: "Home" })).not.toHaveClass("dock-active");
+    });
+
+    it("forces the active state with the active prop", () => {
+      const { getByRole } = render(() => (
+        <Dock activePath="/">
+          <DockItem label="Home" href="/" />
+          <DockItem label="Compose" active />
+        </Dock>
+      ));
+      expect(getByRole("button", { name: "Compose" })).toHaveAttribute("aria-current", "true");
+    });
+  });
+
+  describe("Selection", () => {
+    it("selects button items in uncontrolled mode", () => {
+      const onChange = vi.fn();
+      const { getByRole } = render(() => (
+        <Dock defaultValue="home" onChange={onChange}>
+          <DockItem label="Home" value="home" />
+          <DockItem label="Search" value="search" />
+        </Dock>
+      ));
+      expect(getByRole("button", { name: "Home" })).toHaveClass("dock-active");
+
+      fireEvent.click(getByRole("button", { name: "Search" }));
+      expect(onChange).toHaveBeenCalledWith("search");
+      expect(getByRole("button", { name: "Search" })).toHaveClass("dock-active");
+      expect(getByRole("button", { name: "Home" })).not.toHaveClass("dock-active");
+    });
+
+    it("follows the value in controlled mode", () => {
+      const [value, setValue] = createSignal("home");
+      const onClick = vi.fn();
+      const { getByRole } = render(() => (
+        <Dock value={value()} onChange={setValue}>
+          <DockItem label="Home" value="home" />
+          <DockItem label="Search" value="search" onClick={onClick} />
+        </Dock>
+      ));
+
+      fireEvent.click(getByRole("button", { name: "Search" }));
+      expect(onClick).toHaveBeenCalled();
+      expect(value()).toBe("search");
+      expect(getByRole("button", { name: "Search" })).toHaveAttribute("aria-current", "true");
+    });
+
+    it("reports link selections by href", () => {
+      const onChange = vi.fn();
+      const { getByRole } = render(() => <Dock items={items} onChange={onChange} />);
+      fireEvent.click(getByRole("link", { name: "Settings" }));
+      expect(onChange).toHaveBeenCalledWith("/settings");
+    });
+
+    it("ignores disabled items", () => {
+      const onChange = vi.fn();
+      const { getByRole } = render(() => (
+        <Dock onChange={onChange}>
+          <DockItem label="Search" value="search" disabled />
+          <DockItem label="Admin" href="/admin" disabled />
+        </Dock>
+      ));
+      const search = getByRole("button", { name: "Search" });
+      expect(search).toBeDisabled();
+      fireEvent.click(search);
+
+      const admin = getByRole("button", { name: "Admin" });
+      expect(admin).toHaveAttribute("aria-disabled", "true");
+      expect(admin).not.toHaveAttribute("href");
+      fireEvent.click(admin);
+      expect(onChange).not.toHaveBeenCalled();
+    });
   });
 });
@@ -1,10 +1,284 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
-import Drawer from "@/components/drawer";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, fireEvent, cleanup } from "@solidjs/testing-library";
+import { createSignal } from "solid-js";
+import Drawer, { useDrawer } from "@/components/drawer";
+
+const renderDrawer = (props: Record<string, unknown> = {}) =>
+  render(() => (
+    <Drawer id="test-drawer" {...props}>
+      <Drawer.Content>
+        <button type="button">Outside</button>
+        <label for="test-drawer" class="btn">
+          Open
+        </label>
+      </Drawer.Content>
+      <Drawer.Side aria-label="Sidebar">
+        <Drawer.Overlay />
+        <ul class="menu">
+          <li>
+            <a href="/one">First link</a>
+          </li>
+          <li>
+            <a href="/two">Last link</a>
+          </li>
+        </ul>
+      </Drawer.Side>
+    </Drawer>
+  ));
+
+const getToggle = (container: HTMLElement) =>
+  container.querySelector("input.drawer-toggle") as HTMLInputElement;
 
 describe("Drawer Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Drawer />);
-    expect(getByText("Drawer Component")).toBeInTheDocument();
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+    document.body.style.overflow = "";
+  });
+
+  describe("Basic Rendering", () => {
+    it("renders the DaisyUI drawer structure", () => {
+      const { container } = renderDrawer();
+      const drawer = container.firstChild as HTMLElement;
+      expect(drawer).toHaveClass("drawer");
+      expect(drawer.querySelector(":scope > input.drawer-toggle")).toBeInTheDocument();
+      expect(drawer.querySelector(":scope > .drawer-content")).toBeInTheDocument();
+      expect(drawer.querySelector(":scope > aside.drawer-side")).toBeInTheDocument();
+    });
+
+    it("renders the hidden checkbox with the given id", () => {
+      const { container } = renderDrawer();
+      const toggle = getToggle(container);
+      expect(toggle).toHaveAttribute("id", "test-drawer");
+      expect(toggle).toHaveAttribute("type", "checkbox");
+      expect(toggle).toHaveAttribute("aria-hidden", "true");
+    });
+
+    it("generates an id when none is given", () => {
+      const { container } = render(() => (
+        <Drawer>
+          <Drawer.Side>
+            <Drawer.Overlay />
+          </Drawer.Side>
+        </Drawer>
+      ));
+      const id = getToggle(container).id;
+      expect(id).toBeTruthy();
+      expect(container.querySelector(".drawer-overlay")).toHaveAttribute("for", id);
+    });
+
+    it("renders the overlay as a label for the checkbox", () => {
+      const { getByLabelText } = renderDrawer();
+      const overlay = getByLabelText("Close sidebar");
+      expect(overlay.tagName).toBe("LABEL");
+      expect(overlay).toHaveClass("drawer-overlay");
+      expect(overlay).toHaveAttribute("for", "test-drawer");
+    });
+
+    it("applies the end class", () => {
+      const { container } = renderDrawer({ end: true });
+      expect(container.firstChild).toHaveClass("drawer-end");
+    });
+
+    it("applies custom class and classList", () => {
+      const { container } = renderDrawer({ class: "custom-drawer", classList: { "is-active": true } });
+      expect(container.firstChild).toHaveClass("drawer", "custom-drawer", "is-active");
+    });
+
+    it("applies sub-component classes", () => {
+      const { container } = render(() => (
+        <Drawer>
+          <Drawer.Content class="custom-content">Content</Drawer.Content>
+          <Drawer.Side class="custom-side">
+            <Drawer.Overlay class="custom-overlay" />
+          </Drawer.Side>
+        </Drawer>
+      ));
+      expect(container.querySelector(".drawer-content")).toHaveClass("custom-content");
+      expect(container.querySelector(".drawer-side")).toHaveClass("custom-side");
+      expect(container.querySelector(".drawer-overlay")).toHaveClass("custom-overlay");
+    });
+  });
+
+  describe("Persistent Mode", () => {
+    it("applies drawer-open when always persistent", () => {
+      const { container } = renderDrawer({ persistent: true });
+      expect(container.firstChild).toHaveClass("drawer-open");
+    });
+
+    it("applies the breakpoint class when persistent above a breakpoint", () => {
+      const { container } = renderDrawer({ persistent: "lg" });
+      expect(container.firstChild).toHaveClass("lg:drawer-open");
+      expect(container.firstChild).not.toHaveClass("drawer-open");
+    });
+
+    it("does not lock scrolling when open and persistent at the current viewport", () => {
+      vi.stubGlobal(
+        "matchMedia",
+        vi.fn(() => ({ matches: true, addEventListener: vi.fn(), removeEventListener: vi.fn() }))
+      );
+      renderDrawer({ persistent: "lg", defaultOpen: true });
+      expect(window.matchMedia).toHaveBeenCalledWith("(min-width: 1024px)");
+      expect(document.body.style.overflow).toBe("");
+    });
+
+    it("behaves as an overlay below the breakpoint", () => {
+      vi.stubGlobal(
+        "matchMedia",
+        vi.fn(() => ({ matches: false, addEventListener: vi.fn(), removeEventListener: vi.fn() }))
+      );
+      renderDrawer({ persistent: "lg", defaultOpen: true });
+      expect(document.body.style.overflow).toBe("hidden");
+    });
+  });
+
+  describe("Open State", () => {
+    it("is closed by default", () => {
+      const { container } = renderDrawer();
+      expect(getToggle(container).checked).toBe(false);
+    });
+
+    it("opens by default with defaultOpen", () => {
+      const { container } = renderDrawer({ defaultOpen: true });
+      expect(getToggle(container).checked).toBe(true);
+    });
+
+    it("opens and closes through labels in uncontrolled mode", () => {
+      const onOpenChange = vi.fn();
+      const { container, getByText, getByLabelText } = renderDrawer({ onOpenChange });
+
+      fireEvent.click(getByText("Open"));
+      expect(getToggle(container).checked).toBe(true);
+      expect(onOpenChange).toHaveBeenLastCalledWith(true);
+
+      fireEvent.click(getByLabelText("Close sidebar"));
+      expect(getToggle(container).checked).toBe(false);
+      expect(onOpenChange).toHaveBeenLastCalledWith(false);
+    });
+
+    it("follows the open prop in controlled mode", () => {
+      const [open, setOpen] = createSignal(false);
+      const { container } = renderDrawer({
+        get open() {
+          return open();
+        },
+      });
+
+      expect(getToggle(container).checked).toBe(false);
+      setOpen(true);
+      expect(getToggle(container).checked).toBe(true);
+    });
+
+    it("keeps the checkbox in sync when a controlled change is not applied", () => {
+      const onOpenChange = vi.fn();
+      const { container, getByText } = renderDrawer({ open: false, onOpenChange });
+
+      fireEvent.click(getByText("Open"));
+      expect(onOpenChange).toHaveBeenCalledWith(true);
+      expect(getToggle(container).checked).toBe(false);
+    });
+  });
+
+  describe("Overlay Behavior", () => {
+    it("locks body scroll while open and restores it on close", () => {
+      document.body.style.overflow = "auto";
+      const { getByText, getByLabelText } = renderDrawer();
+
+      fireEvent.click(getByText("Open"));
+      expect(document.body.style.overflow).toBe("hidden");
+
+      fireEvent.click(getByLabelText("Close sidebar"));
+      expect(document.body.style.overflow).toBe("auto");
+    });
+
+    it("does not lock scroll when lockScroll is false", () => {
+      renderDrawer({ defaultOpen: true, lockScroll: false });
+      expect(document.body.style.overflow).toBe("");
+    });
+
+    it("closes on Escape", () => {
+      const onOpenChange = vi.fn();
+      const { container } = renderDrawer({ defaultOpen: true, onOpenChange });
+
+      fireEvent.keyDown(document, { key: "Escape" });
+      expect(getToggle(container).checked).toBe(false);
+      expect(onOpenChange).toHaveBeenCalledWith(false);
+    });
+
+    it("does not close on Escape when closeOnEscape is false", () => {
+      const { container } = renderDrawer({ defaultOpen: true, closeOnEscape: false });
+      fireEvent.keyDown(document, { key: "Escape" });
+      expect(getToggle(container).checked).toBe(true);
+    });
+
+    it("moves focus into the side when opened", () => {
+      const { getByText } = renderDrawer();
+      fireEvent.click(getByText("Open"));
+      expect(document.activeElement).toBe(getByText("First link"));
+    });
+
+    it("traps Tab and Shift+Tab inside the side", () => {
+      const { getByText } = renderDrawer({ defaultOpen: true });
+      const first = getByText("First link");
+      const last = getByText("Last link");
+
+      last.focus();
+      fireEvent.keyDown(document, { key: "Tab" });
+      expect(document.activeElement).toBe(first);
+
+      fireEvent.keyDown(document, { key: "Tab", shiftKey: true });
+      expect(document.activeElement).toBe(last);
+    });
+
+    it("pulls focus back into the side when it escaped", () => {
+      const { getByText } = renderDrawer({ defaultOpen: true });
+      getByText("Outside").focus();
+      fireEvent.keyDown(document, { key: "Tab" });
+      expect(document.activeElement).toBe(getByText("First link"));
+    });
+
+    it("restores focus when closed", () => {
+      const { getByText } = renderDrawer();
+      const outside = getByText("Outside");
+      outside.focus();
+
+      fireEvent.click(getByText("Open"));
+      expect(document.activeElement).toBe(getByText("First link"));
+
+      fireEvent.keyDown(document, { key: "Escape" });
+      expect(document.activeElement).toBe(outside);
+    });
+  });
+
+  describe("useDrawer", () => {
+    it("exposes open state and actions", () => {
+      const Controls = () => {
+        const drawer = useDrawer();
+        return (
+          <button type="button" onClick={drawer.toggle}>
+            {drawer.isOpen() ? "Hide menu" : "Show menu"}
+          </button>
+        );
+      };
+
+      const { getByRole, container } = render(() => (
+        <Drawer>
+          <Drawer.Content>
+            <Controls />
+          </Drawer.Content>
+          <Drawer.Side>
+            <Drawer.Overlay />
+          </Drawer.Side>
+        </Drawer>
+      ));
+
+      fireEvent.click(getByRole("button", { name: "Show menu" }));
+      expect(getToggle(container).checked).toBe(true);
+      expect(getByRole("button", { name: "Hide menu" })).toBeInTheDocument();
+    });
+
+    it("throws when used outside a Drawer", () => {
+      expect(() => render(() => <Drawer.Side />)).toThrow("useDrawer must be used within a Drawer component");
+    });
   });
 });
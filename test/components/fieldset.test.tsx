@@ -1,10 +1,298 @@
 import { describe, it, expect } from "vitest";
 import { render } from "@solidjs/testing-library";
-import Fieldset from "@/components/fieldset";
+import { createSignal } from "solid-js";
+import Fieldset, { Field, useField } from "@/components/fieldset";
+import Input from "@/components/input";
+import Textarea from "@/components/textarea";
+import Select from "@/components/select";
+import Checkbox from "@/components/checkbox";
+import Radio from "@/components/radio";
 
 describe("Fieldset Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Fieldset />);
-    expect(getByText("Fieldset Component")).toBeInTheDocument();
+  describe("Fieldset", () => {
+    it("renders a fieldset with a legend", () => {
+      const { getByRole, getByText } = render(() => (
+        <Fieldset legend="Account">
+          <Input aria-label="Email" />
+        </Fieldset>
+      ));
+      const fieldset = getByRole("group", { name: "Account" });
+      expect(fieldset.tagName).toBe("FIELDSET");
+      expect(fieldset).toHaveClass("fieldset");
+      expect(getByText("Account")).toHaveClass("fieldset-legend");
+    });
+
+    it("renders a hint below the fields", () => {
+      const { getByText } = render(() => <Fieldset legend="Page" hint="You can change this later" />);
+      expect(getByText("You can change this later")).toHaveClass("label");
+    });
+
+    it("disables its controls", () => {
+      const { getByRole } = render(() => (
+        <Fieldset legend="Account" disabled>
+          <Input aria-label="Email" />
+        </Fieldset>
+      ));
+      expect(getByRole("group")).toBeDisabled();
+      expect(getByRole("textbox")).toBeDisabled();
+    });
+
+    it("applies custom class and classList", () => {
+      const { getByRole } = render(() => (
+        <Fieldset legend="Account" class="bg-base-200" classList={{ "rounded-box": true }} />
+      ));
+      expect(getByRole("group")).toHaveClass("fieldset", "bg-base-200", "rounded-box");
+    });
+  });
+
+  describe("Field", () => {
+    it("labels the control with a fieldset label", () => {
+      const { getByLabelText, getByText } = render(() => (
+        <Field label="Email">
+          <Input type="email" />
+        </Field>
+      ));
+      const input = getByLabelText("Email");
+      expect(input.tagName).toBe("INPUT");
+      expect(input.id).toBeTruthy();
+      expect(getByText("Email")).toHaveClass("fieldset-label");
+    });
+
+    it("uses the id prop for the control", () => {
+      const { getByLabelText } = render(() => (
+        <Field label="Email" id="email">
+          <Input />
+        </Field>
+      ));
+      expect(getByLabelText("Email")).toHaveAttribute("id", "email");
+    });
+
+    it("keeps the id set on the control and points the label at it", () => {
+      const { getByRole, getByLabelText } = render(() => (
+        <Field label="Email" id="email">
+          <Input id="custom" />
+        </Field>
+      ));
+      expect(getByRole("textbox")).toHaveAttribute("id", "custom");
+      expect(getByLabelText("Email")).toBe(getByRole("textbox"));
+    });
+
+    it("follows the id set on a control with the label after it", () => {
+      const [id, setId] = createSignal("terms");
+      const { getByRole, getByText } = render(() => (
+        <Field label="Accept terms" labelPlacement="end">
+          <Checkbox id={id()} />
+        </Field>
+      ));
+      expect(getByText("Accept terms").closest("label")).toHaveAttribute("for", "terms");
+
+      setId("conditions");
+      expect(getByRole("checkbox")).toHaveAttribute("id", "conditions");
+      expect(getByText("Accept terms").closest("label")).toHaveAttribute("for", "conditions");
+    });
+
+    it("describes the control with the hint", () => {
+      const { getByRole, getByText } = render(() => (
+        <Field label="Username" hint="Letters and numbers only">
+          <Input />
+        </Field>
+      ));
+      const hint = getByText("Letters and numbers only");
+      expect(hint).toHaveClass("label");
+      expect(getByRole("textbox")).toHaveAttribute("aria-describedby", hint.id);
+      expect(getByRole("textbox")).not.toHaveAttribute("aria-invalid");
+    });
+
+    it("shows the error and marks the control invalid", () => {
+      const { getByRole, getByText } = render(() => (
+        <Field label="Username" hint="Letters and numbers only" error="Username is taken">
+          <Input aria-describedby="extra" />
+        </Field>
+      ));
+      const input = getByRole("textbox");
+      const hint = getByText("Letters and numbers only");
+      const error = getByRole("alert");
+      expect(error).toHaveTextContent("Username is taken");
+      expect(error).toHaveClass("label", "text-error");
+      expect(input).toHaveAttribute("aria-describedby", `extra ${hint.id} ${error.id}`);
+      expect(input).toHaveAttribute("aria-invalid", "true");
+      expect(input).toHaveClass("input-error");
+    });
+
+    it("follows error changes", () => {
+      const [error, setError] = createSignal<string>();
+      const { getByRole, queryByRole } = render(() => (
+        <Field label="Email" error={error()}>
+          <Input variant="primary" />
+        </Field>
+      ));
+      const input = getByRole("textbox");
+      expect(input).toHaveClass("input-primary");
+      expect(queryByRole("alert")).toBeNull();
+
+      setError("Email is required");
+      expect(input).toHaveClass("input-error");
+      expect(input).toHaveAttribute("aria-invalid", "true");
+      expect(getByRole("alert")).toHaveTextContent("Email is required");
+
+      setError(undefined);
+      expect(input).not.toHaveAttribute("aria-invalid");
+      expect(input).not.toHaveAttribute("aria-describedby");
+    });
+
+    it("marks the control invalid without an error text", () => {
+      const { getByRole, queryByRole } = render(() => (
+        <Field label="Email" invalid>
+          <Input />
+        </Field>
+      ));
+      expect(getByRole("textbox")).toHaveAttribute("aria-invalid", "true");
+      expect(queryByRole("alert")).toBeNull();
+    });
+
+    it("marks the control required and shows an indicator", () => {
+      const { getByRole, container } = render(() => (
+        <Field label="Email" required>
+          <Input />
+        </Field>
+      ));
+      expect(getByRole("textbox")).toBeRequired();
+      const indicator = container.querySelector(".fieldset-label .text-error");
+      expect(indicator).toHaveTextContent("*");
+      expect(indicator).toHaveAttribute("aria-hidden", "true");
+    });
+
+    it("applies custom class and classList", () => {
+      const { container } = render(() => (
+        <Field label="Email" class="w-xs" classList={{ "mt-2": true }}>
+          <Input />
+        </Field>
+      ));
+      expect(container.firstElementChild).toHaveClass("fieldset", "w-xs", "mt-2");
+    });
+  });
+
+  describe("Controls", () => {
+    it("wires a textarea", () => {
+      const { getByLabelText, getByText } = render(() => (
+        <Field label="Bio" hint="Max 200 characters" error="Too long" required>
+          <Textarea />
+        </Field>
+      ));
+      const textarea = getByLabelText(/Bio/);
+      expect(textarea.tagName).toBe("TEXTAREA");
+      expect(textarea).toBeRequired();
+      expect(textarea).toHaveClass("textarea-error");
+      expect(textarea.getAttribute("aria-describedby")).toContain(getByText("Max 200 characters").id);
+    });
+
+    it("wires a select", () => {
+      const { getByLabelText, getByText } = render(() => (
+        <Field label="Country" hint="Where you live" error="Pick a country" required>
+          <Select options={[{ value: "nl", label: "Netherlands" }]} />
+        </Field>
+      ));
+      const select = getByLabelText(/Country/);
+      expect(select.tagName).toBe("SELECT");
+      expect(select).toBeRequired();
+      expect(select).toHaveAttribute("aria-invalid", "true");
+      expect(select).toHaveClass("select-error");
+      expect(select.getAttribute("aria-describedby")).toContain(getByText("Where you live").id);
+    });
+
+    it("wires a checkbox with the label after it", () => {
+      const { getByRole, getByText } = render(() => (
+        <Field label="Accept the terms" labelPlacement="end" error="You must accept the terms" required>
+          <Checkbox />
+        </Field>
+      ));
+      const checkbox = getByRole("checkbox", { name: "Accept the terms" });
+      expect(checkbox.parentElement).toHaveClass("fieldset-label");
+      expect(checkbox).toBeRequired();
+      expect(checkbox).toHaveAttribute("aria-invalid", "true");
+      expect(checkbox).toHaveClass("checkbox-error");
+      expect(checkbox).toHaveAttribute("aria-describedby", getByText("You must accept the terms").id);
+    });
+
+    it("wires a radio", () => {
+      const { getByRole, getByText } = render(() => (
+        <Fieldset legend="Plan">
+          <Field label="Pro" labelPlacement="end" hint="Billed yearly">
+            <Radio name="plan" value="pro" />
+          </Field>
+        </Fieldset>
+      ));
+      const radio = getByRole("radio", { name: "Pro" });
+      expect(radio).toHaveAttribute("aria-describedby", getByText("Billed yearly").id);
+      expect(radio).not.toHaveAttribute("aria-invalid");
+    });
+
+    it("labels a radio group without sharing the field id", () => {
+      const { getByRole, getAllByRole, getByText } = render(() => (
+        <Field label="Plan" group="radiogroup" id="plan" hint="Billed yearly" error="Pick a plan" required>
+          <label>
+            <Radio name="plan" value="basic" /> Basic
+          </label>
+          <label>
+            <Radio name="plan" value="pro" /> Pro
+          </label>
+        </Field>
+      ));
+      const group = getByRole("radiogroup", { name: /Plan/ });
+      expect(group).toHaveAttribute("id", "plan");
+      expect(group).toHaveAttribute("aria-required", "true");
+      expect(group).toHaveAttribute("aria-describedby", `${getByText("Billed yearly").id} ${getByText("Pick a plan").id}`);
+
+      const radios = getAllByRole("radio");
+      radios.forEach((radio) => {
+        expect(radio).not.toHaveAttribute("id");
+        expect(radio).not.toHaveAttribute("aria-describedby");
+        expect(radio).toHaveAttribute("aria-invalid", "true");
+        expect(radio).toBeRequired();
+      });
+      expect(getByRole("radio", { name: "Pro" })).toBe(radios[1]);
+    });
+
+    it("keeps the aria-invalid of a radio over the field state", () => {
+      const { getByRole } = render(() => (
+        <Field label="Pro" labelPlacement="end">
+          <Radio name="plan" value="pro" aria-invalid />
+        </Field>
+      ));
+      expect(getByRole("radio", { name: "Pro" })).toHaveAttribute("aria-invalid", "true");
+    });
+
+    it("provides the field to custom controls", () => {
+      function CustomControl() {
+        const field = useField();
+        return <input id={field?.id()} aria-describedby={field?.describedBy()} />;
+      }
+
+      const { getByLabelText, getByText } = render(() => (
+        <Field label="Custom" hint="Built with useField">
+          <CustomControl />
+        </Field>
+      ));
+      expect(getByLabelText("Custom")).toHaveAttribute("aria-describedby", getByText("Built with useField").id);
+    });
+
+    it("leaves controls unchanged outside a field", () => {
+      const { getByRole } = render(() => <Input />);
+      const input = getByRole("textbox");
+      expect(input).not.toHaveAttribute("id");
+      expect(input).not.toHaveAttribute("aria-describedby");
+      expect(input).not.toBeRequired();
+    });
+
+    it("is available as Fieldset.Field", () => {
+      const { getByLabelText } = render(() => (
+        <Fieldset legend="Profile">
+          <Fieldset.Field label="Name">
+            <Input />
+          </Fieldset.Field>
+        </Fieldset>
+      ));
+      expect(getByLabelText("Name")).toBeInTheDocument();
+    });
   });
 });
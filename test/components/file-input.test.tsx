@@ -1,10 +1,188 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
+import { describe, it, expect, vi } from "vitest";
+import { render, fireEvent } from "@solidjs/testing-library";
 import FileInput from "@/components/file-input";
+import { Field } from "@/components/fieldset";
 
-describe("File Input Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <FileInput />);
-    expect(getByText("File Input Component")).toBeInTheDocument();
+const makeFile = (name: string, type: string, size = 10) =>
+  new File([new Uint8Array(size)], name, { type });
+
+const selectFiles = (input: HTMLElement, files: File[]) =>
+  fireEvent.change(input, { target: { files } });
+
+const getInput = (container: HTMLElement) => container.querySelector("input[type='file']") as HTMLInputElement;
+
+describe("FileInput Component", () => {
+  describe("Basic Rendering", () => {
+    it("renders a DaisyUI file input", () => {
+      const { container } = render(() => <FileInput name="avatar" aria-label="Avatar" />);
+      const input = getInput(container);
+      expect(input).toHaveClass("file-input");
+      expect(input).toHaveAttribute("name", "avatar");
+      expect(input.parentElement).toBe(container);
+    });
+
+    it.each(["xs", "sm", "md", "lg", "xl"] as const)("applies the %s size", (size) => {
+      const { container } = render(() => <FileInput size={size} />);
+      expect(getInput(container)).toHaveClass(`file-input-${size}`);
+    });
+
+    it("applies variant, ghost, class and classList", () => {
+      const { container } = render(() => (
+        <FileInput variant="primary" ghost class="w-full" classList={{ "is-active": true }} />
+      ));
+      expect(getInput(container)).toHaveClass("file-input-primary", "file-input-ghost", "w-full", "is-active");
+    });
+
+    it("passes multiple, accept and capture to the input", () => {
+      const { container } = render(() => <FileInput multiple accept="image/*" capture="environment" />);
+      const input = getInput(container);
+      expect(input).toHaveAttribute("multiple");
+      expect(input).toHaveAttribute("accept", "image/*");
+      expect(input).toHaveAttribute("capture", "environment");
+    });
+
+    it("renders labels and a hint linked to the input", () => {
+      const { container, getByText } = render(() => (
+        <FileInput label="Resume" altLabel="PDF only" hint="Max 2 MB" />
+      ));
+      expect(container.firstElementChild).toHaveClass("form-control");
+      expect(getByText("Resume")).toHaveClass("label-text");
+      expect(getByText("PDF only")).toHaveClass("label-text-alt");
+      expect(getInput(container)).toHaveAttribute("aria-describedby", getByText("Max 2 MB").id);
+    });
+
+    it("applies the state", () => {
+      const { container } = render(() => <FileInput state="success" hint="Looks good" />);
+      expect(getInput(container)).toHaveClass("file-input-success");
+    });
+  });
+
+  describe("Selection", () => {
+    it("passes the selected files to onChange", () => {
+      const onChange = vi.fn();
+      const { container } = render(() => <FileInput multiple onChange={onChange} />);
+      const files = [makeFile("a.png", "image/png"), makeFile("b.png", "image/png")];
+
+      selectFiles(getInput(container), files);
+      expect(onChange).toHaveBeenCalledWith(files, expect.any(Event));
+    });
+
+    it("lists the selected files with their sizes", () => {
+      const { container, getByRole, getByText } = render(() => <FileInput multiple showFileList />);
+      selectFiles(getInput(container), [makeFile("photo.jpg", "image/jpeg", 2048)]);
+
+      const list = getByRole("list", { name: "Selected files" });
+      expect(list).toHaveClass("list");
+      expect(getByText("photo.jpg")).toBeInTheDocument();
+      expect(getByText("2 KB")).toBeInTheDocument();
+    });
+
+    it("removes files from the list", () => {
+      const onChange = vi.fn();
+      const { container, getByRole, queryByText } = render(() => (
+        <FileInput multiple showFileList onChange={onChange} />
+      ));
+      const keep = makeFile("keep.txt", "text/plain");
+      selectFiles(getInput(container), [keep, makeFile("drop.txt", "text/plain")]);
+
+      fireEvent.click(getByRole("button", { name: "Remove drop.txt" }));
+      expect(queryByText("drop.txt")).toBeNull();
+      expect(onChange).toHaveBeenLastCalledWith([keep], expect.any(Event));
+    });
+  });
+
+  describe("Validation", () => {
+    it("rejects files of the wrong type", () => {
+      const onChange = vi.fn();
+      const onReject = vi.fn();
+      const { container, getByRole } = render(() => (
+        <FileInput multiple accept="image/*,.pdf" onChange={onChange} onReject={onReject} />
+      ));
+      const image = makeFile("a.png", "image/png");
+      const pdf = makeFile("b.PDF", "");
+
+      selectFiles(getInput(container), [image, makeFile("c.txt", "text/plain"), pdf]);
+      expect(onChange).toHaveBeenCalledWith([image, pdf], expect.any(Event));
+      expect(onReject).toHaveBeenCalledWith([expect.objectContaining({ reason: "file-type" })]);
+      expect(getByRole("alert")).toHaveTextContent("c.txt is not an accepted file type");
+    });
+
+    it("rejects files that are too large", () => {
+      const { container, getByRole } = render(() => <FileInput maxSize={1024} />);
+      selectFiles(getInput(container), [makeFile("big.bin", "application/octet-stream", 4096)]);
+      expect(getByRole("alert")).toHaveTextContent("big.bin is larger than 1 KB");
+      expect(container.querySelector("[data-reason='file-too-large']")).toBeInTheDocument();
+    });
+
+    it("rejects files over the maximum count", () => {
+      const onChange = vi.fn();
+      const { container, getByRole } = render(() => <FileInput multiple maxFiles={1} onChange={onChange} />);
+      const first = makeFile("one.txt", "text/plain");
+
+      selectFiles(getInput(container), [first, makeFile("two.txt", "text/plain")]);
+      expect(onChange).toHaveBeenCalledWith([first], expect.any(Event));
+      expect(getByRole("alert")).toHaveTextContent("Only 1 files can be selected");
+    });
+
+    it("shows errors in the error state and links them to the input", () => {
+      const { container, getByRole, getByText } = render(() => (
+        <FileInput accept=".pdf" variant="primary" hint="PDF files only" />
+      ));
+      const input = getInput(container);
+      selectFiles(input, [makeFile("notes.txt", "text/plain")]);
+
+      const alert = getByRole("alert");
+      expect(alert).toHaveClass("label-text-alt", "text-error");
+      expect(input).toHaveClass("file-input-error");
+      expect(input).not.toHaveClass("file-input-primary");
+      expect(input).toHaveAttribute("aria-invalid", "true");
+      expect(input).toHaveAttribute("aria-describedby", `${getByText("PDF files only").id} ${alert.id}`);
+    });
+
+    it("clears errors after a valid selection", () => {
+      const { container, queryByRole } = render(() => <FileInput accept=".pdf" />);
+      const input = getInput(container);
+
+      selectFiles(input, [makeFile("notes.txt", "text/plain")]);
+      expect(input.value).toBe("");
+      selectFiles(input, [makeFile("notes.pdf", "application/pdf")]);
+      expect(queryByRole("alert")).toBeNull();
+      expect(input).not.toHaveAttribute("aria-invalid");
+    });
+  });
+
+  describe("Forms", () => {
+    it("clears the selection when the form is reset", () => {
+      const onChange = vi.fn();
+      const { container, queryByText } = render(() => (
+        <form>
+          <FileInput name="files" multiple showFileList maxFiles={1} onChange={onChange} />
+        </form>
+      ));
+      selectFiles(getInput(container), [makeFile("a.txt", "text/plain"), makeFile("b.txt", "text/plain")]);
+      expect(queryByText("a.txt")).toBeInTheDocument();
+
+      (container.querySelector("form") as HTMLFormElement).reset();
+      expect(queryByText("a.txt")).toBeNull();
+      expect(container.querySelector("[role='alert']")).toBeNull();
+      expect(onChange).toHaveBeenLastCalledWith([], expect.any(Event));
+    });
+
+    it("gets its id, description and required state from a Field", () => {
+      const { getByLabelText, getByText } = render(() => (
+        <Field label="Attachments" hint="Up to 5 files" required>
+          <FileInput multiple />
+        </Field>
+      ));
+      const input = getByLabelText(/Attachments/);
+      expect(input).toHaveAttribute("type", "file");
+      expect(input).toBeRequired();
+      expect(input).toHaveAttribute("aria-describedby", getByText("Up to 5 files").id);
+    });
+
+    it("disables the input", () => {
+      const { container } = render(() => <FileInput disabled />);
+      expect(getInput(container)).toBeDisabled();
+    });
   });
 });
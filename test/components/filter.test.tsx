@@ -1,10 +1,169 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
-import Filter from "@/components/filter";
+import { describe, it, expect, vi } from "vitest";
+import { render, fireEvent } from "@solidjs/testing-library";
+import { createSignal } from "solid-js";
+import Filter, { FilterOption } from "@/components/filter";
+
+const options: FilterOption[] = [
+  { value: "open", label: "Open", count: 12 },
+  { value: "closed", label: "Closed", count: 3 },
+  { value: "draft", label: "Draft", disabled: true },
+];
 
 describe("Filter Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Filter />);
-    expect(getByText("Filter Component")).toBeInTheDocument();
+  describe("Basic Rendering", () => {
+    it("renders a DaisyUI filter of button radio inputs", () => {
+      const { getByRole, getAllByRole } = render(() => <Filter options={options} />);
+      const group = getByRole("radiogroup", { name: "Filter" });
+      expect(group).toHaveClass("filter");
+      expect(getAllByRole("radio")).toHaveLength(4);
+
+      const draft = getByRole("radio", { name: "Draft" });
+      expect(draft).toHaveClass("btn");
+      expect(draft).toHaveAttribute("aria-label", "Draft");
+      expect(draft.parentElement).toBe(group);
+    });
+
+    it("scrolls horizontally when it overflows", () => {
+      const { getByRole } = render(() => <Filter options={options} class="mb-4" classList={{ "w-full": true }} />);
+      const group = getByRole("radiogroup");
+      expect(group).toHaveClass("w-max");
+      expect(group.parentElement).toHaveClass("overflow-x-auto", "mb-4", "w-full");
+    });
+
+    it("shows counts in badge indicators", () => {
+      const { getByText, getByRole } = render(() => <Filter options={options} />);
+      const badge = getByText("12");
+      expect(badge).toHaveClass("badge", "badge-sm", "indicator-item");
+      expect(badge.parentElement).toHaveClass("indicator");
+      expect(badge.parentElement).toContainElement(getByRole("radio", { name: "Open" }));
+    });
+
+    it("uses one name for all inputs", () => {
+      const { getByRole } = render(() => <Filter options={options} name="status" />);
+      options.forEach((option) => expect(getByRole("radio", { name: option.label })).toHaveAttribute("name", "status"));
+    });
+
+    it("applies the size to options and the reset", () => {
+      const { getByRole } = render(() => <Filter options={options} size="sm" />);
+      expect(getByRole("radio", { name: "Closed" })).toHaveClass("btn-sm");
+      expect(getByRole("radio", { name: "Clear filter" })).toHaveClass("btn-sm");
+    });
+
+    it("disables options", () => {
+      const { getByRole } = render(() => <Filter options={options} />);
+      expect(getByRole("radio", { name: "Draft" })).toBeDisabled();
+    });
+  });
+
+  describe("Single Selection", () => {
+    it("selects an option and hides the others", () => {
+      const onChange = vi.fn();
+      const { getByRole } = render(() => <Filter options={options} onChange={onChange} />);
+
+      expect(getByRole("radio", { name: "Clear filter" })).toBeChecked();
+      fireEvent.click(getByRole("radio", { name: "Open" }));
+      expect(onChange).toHaveBeenCalledWith("open");
+      expect(getByRole("radio", { name: "Open" })).toBeChecked();
+      expect(getByRole("radio", { name: "Open" })).toHaveClass("btn-neutral");
+      expect(getByRole("radio", { name: "Closed" })).not.toHaveClass("btn-neutral");
+      // DaisyUI hides the unchecked options once the reset is unchecked
+      expect(getByRole("radio", { name: "Clear filter" })).not.toBeChecked();
+    });
+
+    it("clears the selection with the reset button", () => {
+      const onChange = vi.fn();
+      const { getByRole } = render(() => (
+        <Filter options={options} defaultValue="closed" color="primary" onChange={onChange} />
+      ));
+      expect(getByRole("radio", { name: "Closed" })).toHaveClass("btn-primary");
+
+      const reset = getByRole("radio", { name: "Clear filter" });
+      expect(reset).toHaveClass("btn", "filter-reset");
+      expect(reset).not.toBeChecked();
+      expect(reset).not.toHaveAttribute("tabindex");
+
+      fireEvent.click(reset);
+      expect(onChange).toHaveBeenCalledWith(null);
+      expect(getByRole("radio", { name: "Closed" })).not.toBeChecked();
+      expect(reset).toBeChecked();
+      expect(reset).toHaveAttribute("tabindex", "-1");
+      expect(getByRole("radio", { name: "Open" })).toHaveFocus();
+    });
+
+    it("follows the value in controlled mode", () => {
+      const [value, setValue] = createSignal<string | null>("open");
+      const { getByRole } = render(() => <Filter options={options} value={value()} onChange={setValue} />);
+      expect(getByRole("radio", { name: "Open" })).toBeChecked();
+
+      fireEvent.click(getByRole("radio", { name: "Clear filter" }));
+      expect(value()).toBeNull();
+      fireEvent.click(getByRole("radio", { name: "Closed" }));
+      expect(value()).toBe("closed");
+      expect(getByRole("radio", { name: "Closed" })).toBeChecked();
+    });
+
+    it("keeps the controlled selection when it is not updated", () => {
+      const onChange = vi.fn();
+      const { getByRole } = render(() => <Filter options={options} value={null} onChange={onChange} />);
+      const open = getByRole("radio", { name: "Open" });
+
+      fireEvent.click(open);
+      expect(onChange).toHaveBeenCalledWith("open");
+      expect(open).not.toBeChecked();
+    });
+  });
+
+  describe("Multiple Selection", () => {
+    it("renders button checkboxes outside a DaisyUI filter to keep every option visible", () => {
+      const onChange = vi.fn();
+      const { getByRole } = render(() => <Filter multiple options={options} onChange={onChange} />);
+      expect(getByRole("group", { name: "Filter" })).not.toHaveClass("filter");
+      expect(getByRole("checkbox", { name: "Open" })).toHaveClass("btn");
+
+      fireEvent.click(getByRole("checkbox", { name: "Open" }));
+      fireEvent.click(getByRole("checkbox", { name: "Closed" }));
+      expect(onChange).toHaveBeenLastCalledWith(["open", "closed"]);
+      expect(getByRole("checkbox", { name: "Open" })).toHaveClass("btn-neutral");
+
+      fireEvent.click(getByRole("checkbox", { name: "Open" }));
+      expect(onChange).toHaveBeenLastCalledWith(["closed"]);
+    });
+
+    it("clears every selected option", () => {
+      const [value, setValue] = createSignal(["open", "closed"]);
+      const { getByRole } = render(() => (
+        <Filter multiple options={options} value={value()} onChange={setValue} resetLabel="Show all" />
+      ));
+
+      const reset = getByRole("button", { name: "Show all" });
+      expect(reset).toHaveClass("btn", "btn-square");
+      expect(reset).toHaveTextContent("×");
+
+      fireEvent.click(reset);
+      expect(value()).toEqual([]);
+      expect(getByRole("checkbox", { name: "Open" })).not.toBeChecked();
+    });
+  });
+
+  describe("Reset", () => {
+    it("hides the reset button when showReset is false", () => {
+      const { queryByRole } = render(() => <Filter options={options} defaultValue="open" showReset={false} />);
+      expect(queryByRole("radio", { name: "Clear filter" })).toBeNull();
+    });
+
+    it("returns to the default selection when the form is reset", async () => {
+      const { container, getByRole } = render(() => (
+        <form>
+          <Filter multiple options={options} defaultValue={["closed"]} />
+        </form>
+      ));
+      fireEvent.click(getByRole("checkbox", { name: "Open" }));
+      fireEvent.click(getByRole("checkbox", { name: "Closed" }));
+
+      (container.querySelector("form") as HTMLFormElement).reset();
+      await new Promise((resolve) => setTimeout(resolve));
+      expect(getByRole("checkbox", { name: "Closed" })).toBeChecked();
+      expect(getByRole("checkbox", { name: "Open" })).not.toBeChecked();
+    });
   });
 });
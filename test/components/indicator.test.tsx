@@ -1,10 +1,105 @@
 import { describe, it, expect } from "vitest";
 import { render } from "@solidjs/testing-library";
-import Indicator from "@/components/indicator";
+import { createSignal } from "solid-js";
+import Indicator, { IndicatorItem } from "@/components/indicator";
+import Avatar from "@/components/avatar";
+import Button from "@/components/button";
 
 describe("Indicator Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Indicator />);
-    expect(getByText("Indicator Component")).toBeInTheDocument();
+  describe("Basic Rendering", () => {
+    it("renders a DaisyUI indicator with an item", () => {
+      const { container, getByText } = render(() => (
+        <Indicator class="my-2" classList={{ "ml-1": true }}>
+          <Indicator.Item>
+            <span>new</span>
+          </Indicator.Item>
+          <div>Content</div>
+        </Indicator>
+      ));
+      const indicator = container.firstElementChild as HTMLElement;
+      expect(indicator).toHaveClass("indicator", "my-2", "ml-1");
+      expect(getByText("new").parentElement).toHaveClass("indicator-item", "indicator-top", "indicator-end");
+      expect(getByText("Content")).toBeInTheDocument();
+    });
+
+    it("supports all nine positions", () => {
+      const verticals = ["top", "middle", "bottom"] as const;
+      const horizontals = ["start", "center", "end"] as const;
+
+      verticals.forEach((vertical) =>
+        horizontals.forEach((horizontal) => {
+          const { getByText } = render(() => (
+            <IndicatorItem vertical={vertical} horizontal={horizontal}>
+              {`${vertical}-${horizontal}`}
+            </IndicatorItem>
+          ));
+          expect(getByText(`${vertical}-${horizontal}`)).toHaveClass(
+            "indicator-item",
+            `indicator-${vertical}`,
+            `indicator-${horizontal}`
+          );
+        })
+      );
+    });
+  });
+
+  describe("Counts", () => {
+    it("shows the count in a badge with a hidden label", () => {
+      const { container, getByText } = render(() => (
+        <Indicator>
+          <IndicatorItem count={5} color="secondary" size="sm" />
+          <Button>Inbox</Button>
+        </Indicator>
+      ));
+      const badge = getByText("5");
+      expect(badge).toHaveClass("badge", "badge-secondary", "badge-sm");
+      expect(badge.closest(".indicator-item")).toHaveAttribute("aria-hidden", "true");
+      expect(container.querySelector(".sr-only")).toHaveTextContent("5 notifications");
+    });
+
+    it("caps the count at max", () => {
+      const { getByText, container } = render(() => <IndicatorItem count={120} max={99} />);
+      expect(getByText("99+")).toHaveClass("badge");
+      expect(container.querySelector(".sr-only")).toHaveTextContent("120 notifications");
+    });
+
+    it("hides at zero unless showZero is set", () => {
+      const [count, setCount] = createSignal(0);
+      const { container } = render(() => <IndicatorItem count={count()} />);
+      expect(container.querySelector(".indicator-item")).toBeNull();
+      expect(container.querySelector(".sr-only")).toBeNull();
+
+      setCount(1);
+      expect(container.querySelector(".indicator-item")).toHaveTextContent("1");
+      expect(container.querySelector(".sr-only")).toHaveTextContent("1 notification");
+
+      const { getByText } = render(() => <IndicatorItem count={0} showZero />);
+      expect(getByText("0")).toHaveClass("badge");
+    });
+
+    it("uses a custom label", () => {
+      const { container } = render(() => (
+        <Indicator>
+          <IndicatorItem count={3} label={(count) => `${count} unread messages`} />
+          <Avatar placeholder="AB" />
+        </Indicator>
+      ));
+      expect(container.querySelector(".sr-only")).toHaveTextContent("3 unread messages");
+    });
+  });
+
+  describe("Dot", () => {
+    it("shows a dot without text", () => {
+      const { container } = render(() => <IndicatorItem dot color="success" label="Online" />);
+      const badge = container.querySelector(".badge") as HTMLElement;
+      expect(badge).toHaveClass("badge-success", "size-2.5", "p-0");
+      expect(badge).toHaveTextContent("");
+      expect(container.querySelector(".sr-only")).toHaveTextContent("Online");
+    });
+
+    it("hides the dot when the count is zero", () => {
+      const { container } = render(() => <IndicatorItem dot count={0} />);
+      expect(container.querySelector(".badge")).toBeNull();
+    });
   });
 });
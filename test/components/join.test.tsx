@@ -1,10 +1,177 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
-import Join from "@/components/join";
+import { describe, it, expect, vi } from "vitest";
+import { render, fireEvent } from "@solidjs/testing-library";
+import { createSignal, Show } from "solid-js";
+import Join, { JoinItem, ButtonGroup, ButtonGroupOption } from "@/components/join";
+import Button from "@/components/button";
+import Input from "@/components/input";
+import Select from "@/components/select";
+
+const alignments: ButtonGroupOption[] = [
+  { value: "left", label: "Left" },
+  { value: "center", label: "Center" },
+  { value: "right", label: "Right" },
+];
 
 describe("Join Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Join />);
-    expect(getByText("Join Component")).toBeInTheDocument();
+  describe("Basic Rendering", () => {
+    it("adds join-item to Button, Input and Select children", () => {
+      const { container, getByRole } = render(() => (
+        <Join class="w-full" classList={{ "my-2": true }}>
+          <Input placeholder="Search" />
+          <Select options={[{ value: "all", label: "All" }]} aria-label="Category" />
+          <Button variant="primary">Go</Button>
+        </Join>
+      ));
+      expect(container.firstElementChild).toHaveClass("join", "w-full", "my-2");
+      expect(getByRole("textbox")).toHaveClass("input", "join-item");
+      expect(getByRole("combobox")).toHaveClass("select", "join-item");
+      expect(getByRole("button", { name: "Go" })).toHaveClass("btn", "btn-primary", "join-item");
+    });
+
+    it("keeps join-item when a child updates its classes", () => {
+      const [active, setActive] = createSignal(false);
+      const { getByRole } = render(() => (
+        <Join>
+          <Button active={active()}>One</Button>
+          <Button>Two</Button>
+        </Join>
+      ));
+      setActive(true);
+      expect(getByRole("button", { name: "One" })).toHaveClass("btn-active", "join-item");
+    });
+
+    it("marks children that render later", () => {
+      const [show, setShow] = createSignal(false);
+      const { queryByRole, getByRole } = render(() => (
+        <Join>
+          <Button>One</Button>
+          <Show when={show()}>
+            <Button>Two</Button>
+          </Show>
+        </Join>
+      ));
+      expect(queryByRole("button", { name: "Two" })).toBeNull();
+      setShow(true);
+      expect(getByRole("button", { name: "Two" })).toHaveClass("join-item");
+    });
+
+    it("marks nested controls with JoinItem", () => {
+      const { getByRole, getByTestId } = render(() => (
+        <Join>
+          <div data-testid="wrapper">
+            <Join.Item>
+              <Input placeholder="Email" />
+            </Join.Item>
+          </div>
+          <JoinItem>
+            <Button>Subscribe</Button>
+          </JoinItem>
+        </Join>
+      ));
+      expect(getByRole("textbox")).toHaveClass("join-item");
+      expect(getByTestId("wrapper")).not.toHaveClass("join-item");
+      expect(getByRole("button")).toHaveClass("join-item");
+    });
+  });
+
+  describe("Orientation", () => {
+    it("renders vertically", () => {
+      const { container } = render(() => <Join orientation="vertical" />);
+      expect(container.firstElementChild).toHaveClass("join", "join-vertical");
+    });
+
+    it("switches to horizontal from a breakpoint", () => {
+      const { container } = render(() => <Join horizontalFrom="lg" />);
+      expect(container.firstElementChild).toHaveClass("join-vertical", "lg:join-horizontal");
+    });
+  });
+});
+
+describe("ButtonGroup Component", () => {
+  it("renders a toolbar of toggle buttons", () => {
+    const { getByRole, getAllByRole } = render(() => (
+      <ButtonGroup options={alignments} defaultValue="center" aria-label="Alignment" size="sm" />
+    ));
+    expect(getByRole("toolbar", { name: "Alignment" })).toHaveClass("join");
+
+    const buttons = getAllByRole("button");
+    buttons.forEach((button) => expect(button).toHaveClass("btn", "btn-sm", "join-item"));
+    expect(buttons.map((button) => button.getAttribute("aria-pressed"))).toEqual(["false", "true", "false"]);
+    expect(buttons[1]).toHaveClass("btn-primary");
+  });
+
+  it("selects a single option", () => {
+    const onChange = vi.fn();
+    const { getByRole } = render(() => (
+      <ButtonGroup options={alignments} defaultValue="left" color="secondary" onChange={onChange} />
+    ));
+
+    fireEvent.click(getByRole("button", { name: "Right" }));
+    expect(onChange).toHaveBeenCalledWith("right");
+    expect(getByRole("button", { name: "Right" })).toHaveAttribute("aria-pressed", "true");
+    expect(getByRole("button", { name: "Right" })).toHaveClass("btn-secondary");
+    expect(getByRole("button", { name: "Left" })).toHaveAttribute("aria-pressed", "false");
+
+    fireEvent.click(getByRole("button", { name: "Right" }));
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("toggles options with multiple selection", () => {
+    const [value, setValue] = createSignal<string[]>(["bold"]);
+    const { getByRole } = render(() => (
+      <ButtonGroup
+        multiple
+        options={[
+          { value: "bold", label: "B", "aria-label": "Bold" },
+          { value: "italic", label: "I", "aria-label": "Italic" },
+        ]}
+        value={value()}
+        onChange={setValue}
+      />
+    ));
+
+    fireEvent.click(getByRole("button", { name: "Italic" }));
+    expect(value()).toEqual(["bold", "italic"]);
+    fireEvent.click(getByRole("button", { name: "Bold" }));
+    expect(value()).toEqual(["italic"]);
+    expect(getByRole("button", { name: "Bold" })).toHaveAttribute("aria-pressed", "false");
+  });
+
+  it("keeps the controlled selection when it is not updated", () => {
+    const { getByRole } = render(() => <ButtonGroup options={alignments} value="left" onChange={() => {}} />);
+    fireEvent.click(getByRole("button", { name: "Center" }));
+    expect(getByRole("button", { name: "Center" })).toHaveAttribute("aria-pressed", "false");
+  });
+
+  it("moves focus with a roving tabindex", () => {
+    const options = [...alignments.slice(0, 2), { value: "justify", label: "Justify", disabled: true }, alignments[2]];
+    const { getByRole } = render(() => <ButtonGroup options={options} defaultValue="center" />);
+    const left = getByRole("button", { name: "Left" });
+    const center = getByRole("button", { name: "Center" });
+    const right = getByRole("button", { name: "Right" });
+
+    expect(center).toHaveAttribute("tabindex", "0");
+    expect(left).toHaveAttribute("tabindex", "-1");
+
+    center.focus();
+    fireEvent.keyDown(center, { key: "ArrowRight" });
+    expect(right).toHaveFocus();
+    expect(right).toHaveAttribute("tabindex", "0");
+    expect(center).toHaveAttribute("tabindex", "-1");
+
+    fireEvent.keyDown(right, { key: "ArrowRight" });
+    expect(left).toHaveFocus();
+
+    fireEvent.keyDown(left, { key: "End" });
+    expect(right).toHaveFocus();
+    fireEvent.keyDown(right, { key: "Home" });
+    expect(left).toHaveFocus();
+  });
+
+  it("lays out vertically", () => {
+    const { getByRole } = render(() => <ButtonGroup options={alignments} orientation="vertical" />);
+    const toolbar = getByRole("toolbar");
+    expect(toolbar).toHaveClass("join-vertical");
+    expect(toolbar).toHaveAttribute("aria-orientation", "vertical");
   });
 });
@@ -1,10 +1,224 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
-import Kbd from "@/components/kbd";
+import { describe, it, expect, vi } from "vitest";
+import { render, fireEvent } from "@solidjs/testing-library";
+import { createRoot, createSignal } from "solid-js";
+import Kbd, { HotkeysProvider, HotkeysHelp, createHotkeys, useHotkey, useHotkeys, formatShortcut, parseShortcut } from "@/components/kbd";
+
+const press = (target: Document | Element, key: string, init: KeyboardEventInit = {}) =>
+  fireEvent.keyDown(target, { key, bubbles: true, ...init });
 
 describe("Kbd Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Kbd />);
-    expect(getByText("Kbd Component")).toBeInTheDocument();
+  describe("Basic Rendering", () => {
+    it("renders a DaisyUI kbd", () => {
+      const { getByText } = render(() => <Kbd size="lg" class="ml-1">Esc</Kbd>);
+      const kbd = getByText("Esc");
+      expect(kbd.tagName).toBe("KBD");
+      expect(kbd).toHaveClass("kbd", "kbd-lg", "ml-1");
+    });
+
+    it("prints a shortcut with Mac symbols", () => {
+      const { container } = render(() => <Kbd shortcut="mod+shift+k" platform="mac" size="sm" />);
+      const outer = container.firstElementChild as HTMLElement;
+      const keys = outer.querySelectorAll("kbd");
+      expect([...keys].map((key) => key.textContent)).toEqual(["⇧", "⌘", "K"]);
+      keys.forEach((key) => expect(key).toHaveClass("kbd", "kbd-sm"));
+      expect(outer.querySelectorAll("span[aria-hidden='true']")).toHaveLength(0);
+      expect(outer.querySelector(".sr-only")).toHaveTextContent("Shift+Command+K");
+    });
+
+    it("prints a shortcut with Ctrl elsewhere", () => {
+      const { container } = render(() => <Kbd shortcut="mod+shift+k" platform="other" />);
+      const outer = container.firstElementChild as HTMLElement;
+      expect([...outer.querySelectorAll("kbd")].map((key) => key.textContent)).toEqual(["Ctrl", "Shift", "K"]);
+      expect(outer.querySelectorAll("span[aria-hidden='true']")).toHaveLength(2);
+    });
+  });
+
+  describe("Shortcuts", () => {
+    it("parses modifiers and key aliases", () => {
+      expect(parseShortcut("Ctrl+Alt+Del")).toEqual({
+        key: "delete",
+        mod: false,
+        ctrl: true,
+        meta: false,
+        alt: true,
+        shift: false,
+      });
+      expect(parseShortcut("mod++").key).toBe("+");
+    });
+
+    it("formats named keys per platform", () => {
+      expect(formatShortcut("alt+enter", "mac").map((key) => key.label)).toEqual(["⌥", "↩"]);
+      expect(formatShortcut("alt+enter", "other").map((key) => key.label)).toEqual(["Alt", "Enter"]);
+      expect(formatShortcut("esc", "other")[0].label).toBe("Esc");
+    });
+  });
+
+  describe("Hotkeys", () => {
+    it("calls the handler of a matching shortcut", () => {
+      createRoot((dispose) => {
+        const hotkeys = createHotkeys({ platform: "mac" });
+        const handler = vi.fn();
+        hotkeys.register("mod+k", handler);
+
+        press(document, "k", { ctrlKey: true });
+        expect(handler).not.toHaveBeenCalled();
+
+        const event = new KeyboardEvent("keydown", { key: "k", metaKey: true, cancelable: true });
+        document.dispatchEvent(event);
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(event.defaultPrevented).toBe(true);
+        dispose();
+      });
+    });
+
+    it("uses Ctrl for mod outside macOS and ignores Shift for symbols", () => {
+      createRoot((dispose) => {
+        const hotkeys = createHotkeys({ platform: "other" });
+        const save = vi.fn();
+        const help = vi.fn();
+        hotkeys.register("mod+s", save);
+        hotkeys.register("?", help);
+
+        press(document, "s", { ctrlKey: true });
+        press(document, "?", { shiftKey: true });
+        press(document, "S", { ctrlKey: true, shiftKey: true });
+        expect(save).toHaveBeenCalledTimes(1);
+        expect(help).toHaveBeenCalledTimes(1);
+        dispose();
+      });
+    });
+
+    it("ignores key presses while typing unless allowed", () => {
+      createRoot((dispose) => {
+        const hotkeys = createHotkeys({ platform: "other" });
+        const search = vi.fn();
+        const close = vi.fn();
+        hotkeys.register("/", search);
+        hotkeys.register("escape", close, { allowInInputs: true });
+
+        const input = document.createElement("input");
+        const checkbox = document.createElement("input");
+        checkbox.type = "checkbox";
+        document.body.append(input, checkbox);
+
+        press(input, "/");
+        press(input, "Escape");
+        expect(search).not.toHaveBeenCalled();
+        expect(close).toHaveBeenCalledTimes(1);
+
+        press(checkbox, "/");
+        expect(search).toHaveBeenCalledTimes(1);
+
+        input.remove();
+        checkbox.remove();
+        dispose();
+      });
+    });
+
+    it("only fires scoped hotkeys while their scope is active", () => {
+      createRoot((dispose) => {
+        const hotkeys = createHotkeys({ platform: "other" });
+        const next = vi.fn();
+        const nextImage = vi.fn();
+        hotkeys.register("j", next);
+        hotkeys.register("j", nextImage, { scope: "gallery" });
+
+        press(document, "j");
+        expect(next).toHaveBeenCalledTimes(1);
+
+        hotkeys.activateScope("gallery");
+        press(document, "j");
+        expect(nextImage).toHaveBeenCalledTimes(1);
+        expect(next).toHaveBeenCalledTimes(1);
+
+        hotkeys.deactivateScope("gallery");
+        press(document, "j");
+        expect(next).toHaveBeenCalledTimes(2);
+        dispose();
+      });
+    });
+
+    it("lists and removes registered hotkeys", () => {
+      createRoot((dispose) => {
+        const hotkeys = createHotkeys();
+        const unregister = hotkeys.register("mod+k", () => {}, { description: "Search", scope: "app" });
+        expect(hotkeys.hotkeys()).toEqual([
+          expect.objectContaining({ shortcut: "mod+k", description: "Search", scope: "app" }),
+        ]);
+
+        unregister();
+        expect(hotkeys.hotkeys()).toEqual([]);
+        dispose();
+      });
+    });
+
+    it("removes the listener when the owner is disposed", () => {
+      const handler = vi.fn();
+      createRoot((dispose) => {
+        createHotkeys({ platform: "other" }).register("x", handler);
+        dispose();
+      });
+      press(document, "x");
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("binds hotkeys for the lifetime of a component with useHotkey", () => {
+      const handler = vi.fn();
+      const [show, setShow] = createSignal(true);
+      const Bound = () => {
+        useHotkey("g", handler, { description: "Go" });
+        return null;
+      };
+
+      const { container } = render(() => (
+        <HotkeysProvider platform="other">{show() && <Bound />}</HotkeysProvider>
+      ));
+      press(container, "g");
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      setShow(false);
+      press(container, "g");
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("HotkeysHelp", () => {
+    it("lists described hotkeys grouped by scope", () => {
+      let registry!: ReturnType<typeof useHotkeys>;
+      const Shortcuts = () => {
+        registry = useHotkeys();
+        useHotkey("mod+k", () => {}, { description: "Search" });
+        useHotkey("shift+?", () => {}, { description: "Show shortcuts" });
+        useHotkey("j", () => {}, { description: "Next image", scope: "gallery" });
+        useHotkey("x", () => {});
+        return null;
+      };
+
+      const { getByRole, queryByText, getByText } = render(() => (
+        <HotkeysProvider platform="mac" scopes={["gallery"]}>
+          <Shortcuts />
+          <HotkeysHelp isOpen scopeLabels={{ gallery: "Gallery" }} disablePortal />
+        </HotkeysProvider>
+      ));
+
+      const dialog = getByRole("dialog", { name: "Keyboard shortcuts" });
+      expect(dialog).toHaveTextContent("Search");
+      expect(dialog).toHaveTextContent("⌘K");
+      expect(getByText("General").tagName).toBe("H4");
+      expect(getByText("Gallery").tagName).toBe("H4");
+      expect(dialog.querySelectorAll("tr")).toHaveLength(3);
+
+      registry.deactivateScope("gallery");
+      expect(queryByText("Next image")).toBeNull();
+    });
+
+    it("shows a message when nothing is registered", () => {
+      const { getByText } = render(() => (
+        <HotkeysProvider>
+          <HotkeysHelp isOpen disablePortal />
+        </HotkeysProvider>
+      ));
+      expect(getByText("No keyboard shortcuts.")).toBeInTheDocument();
+    });
   });
 });
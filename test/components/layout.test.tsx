@@ -1,5 +1,5 @@
 import { fireEvent, render } from "@solidjs/testing-library";
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 import Layout from "@/components/layout";
 
 // Mock icons for testing
@@ -33,7 +33,7 @@ describe("Layout Component", () => {
           <div>Content</div>
         </Layout>
       ));
-      expect(container.firstChild).toHaveClass("drawer", "drawer-mobile", "min-h-screen");
+      expect(container.firstChild).toHaveClass("drawer", "lg:drawer-open", "min-h-screen");
     });
 
     it("applies correct classes for left variant", () => {
@@ -42,7 +42,7 @@ describe("Layout Component", () => {
           <div>Left Layout</div>
         </Layout>
       ));
-      expect(container.firstChild).toHaveClass("drawer", "drawer-mobile", "min-h-screen");
+      expect(container.firstChild).toHaveClass("drawer", "lg:drawer-open", "min-h-screen");
     });
 
     it("applies correct classes for right variant", () => {
@@ -78,7 +78,7 @@ describe("Layout Component", () => {
           <div>Responsive Layout</div>
         </Layout>
       ));
-      expect(container.firstChild).toHaveClass("drawer-mobile");
+      expect(container.firstChild).toHaveClass("lg:drawer-open");
     });
 
     it("merges additional class prop", () => {
@@ -253,7 +253,7 @@ describe("Layout Component", () => {
       ));
 
       const toggleButton = getByLabelText("Toggle navigation");
-      expect(toggleButton).toHaveAttribute("aria-expanded", "true");
+      expect(toggleButton).toHaveAttribute("aria-expanded", "false");
     });
 
     it("handles collapsible navigation state", () => {
@@ -269,16 +269,16 @@ describe("Layout Component", () => {
 
       const toggleButton = getByLabelText("Toggle navigation");
       
-      // Initial state - expanded
-      expect(toggleButton).toHaveAttribute("aria-expanded", "true");
-      
-      // Click to collapse
-      fireEvent.click(toggleButton);
+      // Initial state - collapsed below the lg breakpoint
       expect(toggleButton).toHaveAttribute("aria-expanded", "false");
       
       // Click to expand
       fireEvent.click(toggleButton);
       expect(toggleButton).toHaveAttribute("aria-expanded", "true");
+      
+      // Click to collapse
+      fireEvent.click(toggleButton);
+      expect(toggleButton).toHaveAttribute("aria-expanded", "false");
     });
   });
 
@@ -302,13 +302,72 @@ describe("Layout Component", () => {
       expect(document.activeElement).toBe(toggleButton);
       
       // Should respond to Enter key
-      expect(toggleButton).toHaveAttribute("aria-expanded", "true");
-      fireEvent.keyDown(toggleButton, { key: 'Enter' });
       expect(toggleButton).toHaveAttribute("aria-expanded", "false");
+      fireEvent.keyDown(toggleButton, { key: 'Enter' });
+      expect(toggleButton).toHaveAttribute("aria-expanded", "true");
       
       // Should respond to Space key
       fireEvent.keyDown(toggleButton, { key: ' ' });
+      expect(toggleButton).toHaveAttribute("aria-expanded", "false");
+    });
+
+    it("collapses drawer navigation on Escape", () => {
+      const { getByLabelText } = render(() => (
+        <Layout variant="left">
+          <Layout.Nav collapsible>
+            <Layout.NavHeader>
+              <Layout.ToggleButton />
+            </Layout.NavHeader>
+          </Layout.Nav>
+        </Layout>
+      ));
+
+      const toggleButton = getByLabelText("Toggle navigation");
+      fireEvent.click(toggleButton);
       expect(toggleButton).toHaveAttribute("aria-expanded", "true");
+      fireEvent.keyDown(document, { key: "Escape" });
+      expect(toggleButton).toHaveAttribute("aria-expanded", "false");
+    });
+
+    describe("Initial drawer state", () => {
+      afterEach(() => {
+        vi.unstubAllGlobals();
+      });
+
+      const renderLayout = (variant: "left" | "right") =>
+        render(() => (
+          <Layout variant={variant}>
+            <Layout.Nav collapsible>
+              <Layout.ToggleButton />
+              <Layout.NavItem href="/">Home</Layout.NavItem>
+            </Layout.Nav>
+            <Layout.Content>Content</Layout.Content>
+          </Layout>
+        ));
+
+      it.each(["left", "right"] as const)("starts the %s navigation closed below the breakpoint", (variant) => {
+        const previousFocus = document.activeElement;
+        const { getAllByLabelText } = renderLayout(variant);
+
+        const toggleButtons = getAllByLabelText("Toggle navigation");
+        expect(toggleButtons[toggleButtons.length - 1]).toHaveAttribute("aria-expanded", "false");
+        expect(document.body.style.overflow).not.toBe("hidden");
+        expect(document.activeElement).toBe(previousFocus);
+      });
+
+      it("starts persistent navigation open at the breakpoint without locking scroll", () => {
+        vi.stubGlobal(
+          "matchMedia",
+          vi.fn(() => ({ matches: true, addEventListener: vi.fn(), removeEventListener: vi.fn() }))
+        );
+        const previousFocus = document.activeElement;
+        const { getAllByLabelText } = renderLayout("left");
+
+        const toggleButtons = getAllByLabelText("Toggle navigation");
+        expect(toggleButtons[toggleButtons.length - 1]).toHaveAttribute("aria-expanded", "true");
+        expect(document.body.style.overflow).not.toBe("hidden");
+        expect(document.activeElement).toBe(previousFocus);
+      });
     });
 
     it("provides proper ARIA attributes for navigation", () => {
@@ -452,13 +511,13 @@ describe("Layout Component", () => {
       
       // Both should reflect the same state
       toggleButtons.forEach(button => {
-        expect(button).toHaveAttribute("aria-expanded", "true");
+        expect(button).toHaveAttribute("aria-expanded", "false");
       });
       
       // Clicking one should update both
       fireEvent.click(toggleButtons[0]);
       toggleButtons.forEach(button => {
-        expect(button).toHaveAttribute("aria-expanded", "false");
+        expect(button).toHaveAttribute("aria-expanded", "true");
       });
     });
   });
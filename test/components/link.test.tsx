@@ -1,6 +1,8 @@
-import { fireEvent, render } from "@solidjs/testing-library";
+import { fireEvent, render, waitFor } from "@solidjs/testing-library";
 import { describe, it, expect, vi } from "vitest";
-import Link from "@/components/link";
+import { createRoot, createSignal } from "solid-js";
+import { MemoryRouter, Route, createMemoryHistory } from "@solidjs/router";
+import Link, { useActiveRoute } from "@/components/link";
 
 describe("Link Component", () => {
   // Basic Rendering Tests
@@ -64,6 +66,27 @@ describe("Link Component", () => {
       expect(linkElement).toHaveClass("link");
     });
 
+    it("navigates internal links through the router inside a Router", async () => {
+      // jsdom does not implement the scroll the router performs after navigating
+      const scrollTo = vi.spyOn(window, "scrollTo").mockImplementation(() => {});
+      const history = createMemoryHistory();
+      history.set({ value: "/" });
+      const { findByText, unmount } = render(() => (
+        <MemoryRouter history={history}>
+          <Route path="*" component={() => <Link href="/docs">Docs</Link>} />
+        </MemoryRouter>
+      ));
+
+      const link = await findByText("Docs");
+      expect(link).toHaveClass("link", "inactive");
+      fireEvent.click(link);
+      await waitFor(() => expect(history.get()).toBe("/docs"));
+      expect(link).toHaveClass("active");
+      // Unmount so the router stops intercepting link clicks in later tests
+      unmount();
+      scrollTo.mockRestore();
+    });
+
     it("detects relative paths as internal", () => {
       const testCases = ["/dashboard", "./page", "../parent", "#section", "?query=1"];
       testCases.forEach(href => {
@@ -297,6 +320,32 @@ describe("Link Component", () => {
       expect(onClickMock).toHaveBeenCalledTimes(1);
     });
 
+    it("leaves Enter to the browser for links with href", () => {
+      const onClickMock = vi.fn();
+      const { getByText } = render(() => (
+        <Link href="https://example.com" onClick={onClickMock}>Href Link</Link>
+      ));
+      
+      const linkElement = getByText("Href Link");
+      expect(fireEvent.keyDown(linkElement, { key: 'Enter' })).toBe(true);
+      expect(onClickMock).not.toHaveBeenCalled();
+    });
+
+    it("updates classes and attributes when props change", () => {
+      const [active, setActive] = createSignal(false);
+      const { getByText } = render(() => (
+        <Link href="https://example.com" classList={{ "is-active": active() }} aria-current={active() ? "page" : undefined}>
+          Reactive Link
+        </Link>
+      ));
+      
+      const linkElement = getByText("Reactive Link");
+      expect(linkElement).not.toHaveClass("is-active");
+      setActive(true);
+      expect(linkElement).toHaveClass("link", "is-active");
+      expect(linkElement).toHaveAttribute("aria-current", "page");
+    });
+
     it("doesn't trigger keyboard events when disabled", () => {
       const onClickMock = vi.fn();
       const { getByText } = render(() => (
@@ -493,4 +542,19 @@ describe("Link Component", () => {
       expect(onClickMock).toHaveBeenCalledTimes(1);
     });
   });
+
+  describe("useActiveRoute", () => {
+    it("matches hrefs against the active path, ignoring query, hash and trailing slashes", () => {
+      const [path, setPath] = createSignal<string | undefined>("/reports/?tab=1");
+      const isActiveRoute = createRoot(() => useActiveRoute(path));
+
+      expect(isActiveRoute("/reports")).toBe(true);
+      expect(isActiveRoute("/reports#top")).toBe(true);
+      expect(isActiveRoute("/")).toBe(false);
+      expect(isActiveRoute()).toBeUndefined();
+
+      setPath(undefined);
+      expect(isActiveRoute("/reports")).toBeUndefined();
+    });
+  });
 });
@@ -1,10 +1,363 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
-import Menu from "@/components/menu";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, fireEvent, cleanup, waitFor } from "@solidjs/testing-library";
+import { createSignal } from "solid-js";
+import { MemoryRouter, Route, createMemoryHistory } from "@solidjs/router";
+import Menu, { MenuItemData } from "@/components/menu";
+
+const items: MenuItemData[] = [
+  { label: "Home", href: "/" },
+  { label: "Reports", href: "/reports" },
+  { label: "Admin", type: "title" },
+  {
+    label: "Settings",
+    items: [
+      { label: "Profile", href: "/settings/profile" },
+      { label: "Billing", href: "/settings/billing", disabled: true },
+    ],
+  },
+];
 
 describe("Menu Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Menu />);
-    expect(getByText("Menu Component")).toBeInTheDocument();
+  afterEach(() => {
+    cleanup();
+  });
+
+  describe("Basic Rendering", () => {
+    it("renders a DaisyUI menu with the menu role", () => {
+      const { getByRole } = render(() => <Menu items={items} aria-label="Main" />);
+      const menu = getByRole("menu", { name: "Main" });
+      expect(menu.tagName).toBe("UL");
+      expect(menu).toHaveClass("menu", "menu-vertical");
+      expect(menu).toHaveAttribute("aria-orientation", "vertical");
+    });
+
+    it("renders items from the items tree", () => {
+      const { getByRole, getByText } = render(() => <Menu items={items} />);
+      expect(getByRole("menuitem", { name: "Home" })).toHaveAttribute("href", "/");
+      expect(getByRole("menuitem", { name: "Reports" })).toHaveAttribute("href", "/reports");
+      expect(getByText("Admin").closest("li")).toHaveClass("menu-title");
+    });
+
+    it("renders items without link styling", () => {
+      const { getByRole } = render(() => <Menu items={items} />);
+      expect(getByRole("menuitem", { name: "Reports" })).not.toHaveClass("link");
+    });
+
+    it("renders children components", () => {
+      const { getByRole, getByText } = render(() => (
+        <Menu>
+          <Menu.Title>Section</Menu.Title>
+          <Menu.Item href="/one">One</Menu.Item>
+          <Menu.Submenu label="More">
+            <Menu.Item href="/two">Two</Menu.Item>
+          </Menu.Submenu>
+        </Menu>
+      ));
+      expect(getByText("Section")).toHaveClass("menu-title");
+      expect(getByRole("menuitem", { name: "One" })).toBeInTheDocument();
+      expect(getByText("More").tagName).toBe("SUMMARY");
+    });
+
+    it("renders item li elements with role none and titles as presentation", () => {
+      const { getByText } = render(() => <Menu items={items} />);
+      expect(getByText("Home").closest("li")).toHaveAttribute("role", "none");
+      expect(getByText("Admin")).toHaveAttribute("role", "presentation");
+    });
+
+    it("renders icons before labels", () => {
+      const { getByRole, getByTestId } = render(() => (
+        <Menu items={[{ label: "Inbox", href: "/inbox", icon: <svg data-testid="inbox-icon" /> }]} />
+      ));
+      expect(getByRole("menuitem", { name: "Inbox" })).toContainElement(getByTestId("inbox-icon"));
+    });
+
+    it("applies custom class and classList", () => {
+      const { getByRole } = render(() => (
+        <Menu class="custom-menu" classList={{ "is-active": true }}>
+          <Menu.Item>One</Menu.Item>
+        </Menu>
+      ));
+      expect(getByRole("menu")).toHaveClass("custom-menu", "is-active");
+    });
+  });
+
+  describe("Orientation and Sizes", () => {
+    it("applies the horizontal orientation", () => {
+      const { getByRole } = render(() => <Menu items={items} orientation="horizontal" aria-label="Main" />);
+      const menu = getByRole("menu", { name: "Main" });
+      expect(menu).toHaveClass("menu-horizontal");
+      expect(menu).not.toHaveClass("menu-vertical");
+      expect(menu).toHaveAttribute("aria-orientation", "horizontal");
+    });
+
+    it.each(["xs", "sm", "md", "lg", "xl"] as const)("applies the %s size", (size) => {
+      const { getByRole } = render(() => <Menu items={items} size={size} aria-label="Main" />);
+      expect(getByRole("menu", { name: "Main" })).toHaveClass(`menu-${size}`);
+    });
+  });
+
+  describe("States", () => {
+    it("marks items active with the active prop", () => {
+      const { getByRole } = render(() => (
+        <Menu>
+          <Menu.Item href="/one" active>
+            One
+          </Menu.Item>
+        </Menu>
+      ));
+      const item = getByRole("menuitem", { name: "One" });
+      expect(item).toHaveClass("menu-active");
+      expect(item).toHaveAttribute("aria-current", "page");
+    });
+
+    it("picks the active item from the active path", () => {
+      const { getByRole } = render(() => <Menu items={items} activePath="/reports?tab=1" />);
+      expect(getByRole("menuitem", { name: "Reports" })).toHaveClass("menu-active");
+      expect(getByRole("menuitem", { name: "Home" })).not.toHaveClass("menu-active");
+    });
+
+    it("updates the active item when the path changes", () => {
+      const [path, setPath] = createSignal("/");
+      const { getByRole } = render(() => <Menu items={items} activePath={path()} />);
+      expect(getByRole("menuitem", { name: "Home" })).toHaveClass("menu-active");
+
+      setPath("/reports/");
+      expect(getByRole("menuitem", { name: "Home" })).not.toHaveClass("menu-active");
+      expect(getByRole("menuitem", { name: "Reports" })).toHaveClass("menu-active");
+    });
+
+    it("follows the router location inside a Router", async () => {
+      const history = createMemoryHistory();
+      history.set({ value: "/" });
+      const { findByRole, getByRole } = render(() => (
+        <MemoryRouter history={history}>
+          <Route path="*" component={() => <Menu items={items} />} />
+        </MemoryRouter>
+      ));
+      expect(await findByRole("menuitem", { name: "Home" })).toHaveClass("menu-active");
+
+      history.set({ value: "/reports/", scroll: false });
+      await waitFor(() => expect(getByRole("menuitem", { name: "Reports" })).toHaveClass("menu-active"));
+      expect(getByRole("menuitem", { name: "Home" })).not.toHaveClass("menu-active");
+      expect(getByRole("menuitem", { name: "Reports" })).toHaveAttribute("aria-current", "page");
+    });
+
+    it("updates aria-current when the active prop changes", () => {
+      const [active, setActive] = createSignal(false);
+      const { getByRole } = render(() => (
+        <Menu>
+          <Menu.Item href="/one" active={active()}>
+            One
+          </Menu.Item>
+        </Menu>
+      ));
+      const item = getByRole("menuitem", { name: "One" });
+      expect(item).not.toHaveAttribute("aria-current");
+
+      setActive(true);
+      expect(item).toHaveClass("menu-active");
+      expect(item).toHaveAttribute("aria-current", "page");
+
+      setActive(false);
+      expect(item).not.toHaveClass("menu-active");
+      expect(item).not.toHaveAttribute("aria-current");
+    });
+
+    it("lets Enter follow items with an href", () => {
+      const { getByRole } = render(() => (
+        <Menu>
+          <Menu.Item href="/one">One</Menu.Item>
+        </Menu>
+      ));
+      expect(fireEvent.keyDown(getByRole("menuitem", { name: "One" }), { key: "Enter" })).toBe(true);
+    });
+
+    it("does not mark items active without a router or active path", () => {
+      const { container } = render(() => <Menu items={items} />);
+      expect(container.querySelector(".menu-active")).not.toBeInTheDocument();
+    });
+
+    it("renders disabled items", () => {
+      const { getByText } = render(() => <Menu items={items} />);
+      const billing = getByText("Billing").closest("a");
+      expect(billing).toHaveClass("menu-disabled");
+      expect(billing).toHaveAttribute("aria-disabled", "true");
+      expect(billing).not.toHaveAttribute("href");
+    });
+
+    it("calls onClick for items and not for disabled items", () => {
+      const onClick = vi.fn();
+      const onDisabledClick = vi.fn();
+      const { getByText } = render(() => (
+        <Menu>
+          <Menu.Item onClick={onClick}>Log out</Menu.Item>
+          <Menu.Item disabled onClick={onDisabledClick}>
+            Archive
+          </Menu.Item>
+        </Menu>
+      ));
+
+      fireEvent.click(getByText("Log out"));
+      fireEvent.click(getByText("Archive"));
+      expect(onClick).toHaveBeenCalledTimes(1);
+      expect(onDisabledClick).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Submenus", () => {
+    it("renders submenus with details and summary", () => {
+      const { getByText } = render(() => <Menu items={items} />);
+      const summary = getByText("Settings");
+      expect(summary.tagName).toBe("SUMMARY");
+      expect(summary).toHaveAttribute("role", "menuitem");
+      expect(summary).toHaveAttribute("aria-haspopup", "menu");
+      expect(summary.parentElement?.querySelector("ul")).toHaveAttribute("role", "menu");
+    });
+
+    it("starts collapsed unless it contains the active item", () => {
+      const { getByText, unmount } = render(() => <Menu items={items} />);
+      expect(getByText("Settings").closest("details")).not.toHaveAttribute("open");
+      expect(getByText("Settings")).toHaveAttribute("aria-expanded", "false");
+      unmount();
+
+      const { getByText: getByTextActive } = render(() => <Menu items={items} activePath="/settings/profile" />);
+      expect(getByTextActive("Settings").closest("details")).toHaveAttribute("open");
+      expect(getByTextActive("Settings")).toHaveAttribute("aria-expanded", "true");
+    });
+
+    it("supports defaultOpen and controlled open", () => {
+      const [open, setOpen] = createSignal(false);
+      const { getByText } = render(() => (
+        <Menu>
+          <Menu.Submenu label="First" defaultOpen>
+            <Menu.Item>A</Menu.Item>
+          </Menu.Submenu>
+          <Menu.Submenu label="Second" open={open()} onOpenChange={setOpen}>
+            <Menu.Item>B</Menu.Item>
+          </Menu.Submenu>
+        </Menu>
+      ));
+
+      expect(getByText("First").closest("details")).toHaveAttribute("open");
+      expect(getByText("Second").closest("details")).not.toHaveAttribute("open");
+
+      setOpen(true);
+      expect(getByText("Second").closest("details")).toHaveAttribute("open");
+    });
+
+    it("calls onOpenChange when toggled", () => {
+      const onOpenChange = vi.fn();
+      const { getByText } = render(() => (
+        <Menu>
+          <Menu.Submenu label="Group" onOpenChange={onOpenChange}>
+            <Menu.Item>A</Menu.Item>
+          </Menu.Submenu>
+        </Menu>
+      ));
+
+      const details = getByText("Group").closest("details") as HTMLDetailsElement;
+      details.open = true;
+      fireEvent(details, new Event("toggle"));
+      expect(onOpenChange).toHaveBeenCalledWith(true);
+      expect(getByText("Group")).toHaveAttribute("aria-expanded", "true");
+    });
+  });
+
+  describe("Keyboard Navigation", () => {
+    it("uses a roving tabindex starting at the first item", () => {
+      const { getByRole } = render(() => <Menu items={items} />);
+      expect(getByRole("menuitem", { name: "Home" })).toHaveAttribute("tabindex", "0");
+      expect(getByRole("menuitem", { name: "Reports" })).toHaveAttribute("tabindex", "-1");
+    });
+
+    it("starts the tab stop at the active item", () => {
+      const { getByRole } = render(() => <Menu items={items} activePath="/reports" />);
+      expect(getByRole("menuitem", { name: "Reports" })).toHaveAttribute("tabindex", "0");
+      expect(getByRole("menuitem", { name: "Home" })).toHaveAttribute("tabindex", "-1");
+    });
+
+    it("moves focus with the arrow keys, Home and End", () => {
+      const { getByRole, getByText } = render(() => <Menu items={items} />);
+      const home = getByRole("menuitem", { name: "Home" });
+      const reports = getByRole("menuitem", { name: "Reports" });
+      const settings = getByText("Settings");
+
+      home.focus();
+      fireEvent.keyDown(home, { key: "ArrowDown" });
+      expect(document.activeElement).toBe(reports);
+      expect(reports).toHaveAttribute("tabindex", "0");
+      expect(home).toHaveAttribute("tabindex", "-1");
+
+      // Titles and items inside collapsed submenus are skipped
+      fireEvent.keyDown(reports, { key: "ArrowDown" });
+      expect(document.activeElement).toBe(settings);
+
+      fireEvent.keyDown(settings, { key: "ArrowDown" });
+      expect(document.activeElement).toBe(home);
+
+      fireEvent.keyDown(home, { key: "ArrowUp" });
+      expect(document.activeElement).toBe(settings);
+
+      fireEvent.keyDown(settings, { key: "Home" });
+      expect(document.activeElement).toBe(home);
+
+      fireEvent.keyDown(home, { key: "End" });
+      expect(document.activeElement).toBe(settings);
+    });
+
+    it("opens and closes submenus with the cross-axis arrow keys", () => {
+      const { getByText, getByRole } = render(() => <Menu items={items} />);
+      const settings = getByText("Settings");
+      const details = settings.closest("details") as HTMLDetailsElement;
+
+      settings.focus();
+      fireEvent.keyDown(settings, { key: "ArrowRight" });
+      expect(details.open).toBe(true);
+      const profile = getByRole("menuitem", { name: "Profile" });
+      expect(document.activeElement).toBe(profile);
+
+      fireEvent.keyDown(profile, { key: "ArrowLeft" });
+      expect(details.open).toBe(false);
+      expect(document.activeElement).toBe(settings);
+    });
+
+    it("skips disabled items", () => {
+      const { getByText, getByRole } = render(() => <Menu items={items} />);
+      const settings = getByText("Settings");
+      settings.focus();
+      fireEvent.keyDown(settings, { key: "ArrowRight" });
+
+      const profile = getByRole("menuitem", { name: "Profile" });
+      fireEvent.keyDown(profile, { key: "ArrowDown" });
+      expect(document.activeElement).toBe(getByRole("menuitem", { name: "Home" }));
+    });
+
+    it("uses left and right arrows in horizontal menus", () => {
+      const { getByRole } = render(() => <Menu items={items} orientation="horizontal" />);
+      const home = getByRole("menuitem", { name: "Home" });
+      home.focus();
+
+      fireEvent.keyDown(home, { key: "ArrowRight" });
+      expect(document.activeElement).toBe(getByRole("menuitem", { name: "Reports" }));
+
+      fireEvent.keyDown(document.activeElement as HTMLElement, { key: "ArrowLeft" });
+      expect(document.activeElement).toBe(home);
+    });
+
+    it("moves the tab stop to a focused item", () => {
+      const { getByRole } = render(() => <Menu items={items} />);
+      const reports = getByRole("menuitem", { name: "Reports" });
+      reports.focus();
+      expect(reports).toHaveAttribute("tabindex", "0");
+      expect(getByRole("menuitem", { name: "Home" })).toHaveAttribute("tabindex", "-1");
+    });
+  });
+
+  describe("Error Handling", () => {
+    it("throws when sub-components are used outside a Menu", () => {
+      expect(() => render(() => <Menu.Item>Orphan</Menu.Item>)).toThrow(
+        "Menu sub-components must be used within a Menu component"
+      );
+    });
   });
 });
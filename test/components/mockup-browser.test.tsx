@@ -3,10 +3,40 @@ import { render } from "@solidjs/testing-library";
 import MockupBrowser from "@/components/mockup-browser";
 
 describe("Mockup Browser Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => (
-      <MockupBrowser>Test Mockup Browser</MockupBrowser>
+  it("renders the browser with a toolbar and content", () => {
+    const { container, getByText } = render(() => (
+      <MockupBrowser url="https://daisyui.com">Hello!</MockupBrowser>
     ));
-    expect(getByText("Test Mockup Browser")).toBeInTheDocument();
+    const mockup = container.firstChild as HTMLElement;
+    expect(mockup).toHaveClass("mockup-browser", "border", "border-base-300");
+
+    const toolbar = mockup.querySelector(".mockup-browser-toolbar") as HTMLElement;
+    expect(toolbar.querySelector(".input")).toHaveTextContent("https://daisyui.com");
+    expect(getByText("Hello!")).toHaveClass("border-t");
+    expect(toolbar.nextElementSibling).toBe(getByText("Hello!"));
+  });
+
+  it("renders custom toolbar content", () => {
+    const { container, getByRole } = render(() => (
+      <MockupBrowser toolbar={<input class="input" aria-label="Address" value="/docs" />}>Page</MockupBrowser>
+    ));
+    expect(getByRole("textbox", { name: "Address" }).closest(".mockup-browser-toolbar")).toBeInTheDocument();
+    expect(container.querySelectorAll(".mockup-browser-toolbar .input")).toHaveLength(1);
+  });
+
+  it("removes the borders when bordered is false", () => {
+    const { container, getByText } = render(() => <MockupBrowser bordered={false}>Page</MockupBrowser>);
+    expect(container.firstChild).not.toHaveClass("border");
+    expect(getByText("Page")).not.toHaveClass("border-t");
+  });
+
+  it("applies custom classes to the browser and content", () => {
+    const { container, getByText } = render(() => (
+      <MockupBrowser class="bg-base-300" classList={{ "w-full": true }} contentClass="bg-base-200 px-4 py-16">
+        Page
+      </MockupBrowser>
+    ));
+    expect(container.firstChild).toHaveClass("bg-base-300", "w-full");
+    expect(getByText("Page")).toHaveClass("bg-base-200", "px-4", "py-16");
   });
 });
@@ -1,12 +1,169 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, fireEvent, waitFor } from "@solidjs/testing-library";
 import MockupCode from "@/components/mockup-code";
 
+const getLines = (container: HTMLElement) => Array.from(container.querySelectorAll("pre"));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
 describe("Mockup Code Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => (
-      <MockupCode>Test Mockup Code</MockupCode>
-    ));
-    expect(getByText("Test Mockup Code")).toBeInTheDocument();
+  describe("Basic Rendering", () => {
+    it("renders one pre per line of code", () => {
+      const { container } = render(() => <MockupCode code={"npm i daisyui\ninstalling...\n"} />);
+      expect(container.firstChild).toHaveClass("mockup-code");
+
+      const lines = getLines(container);
+      expect(lines.map((line) => line.textContent)).toEqual(["npm i daisyui", "installing..."]);
+      expect(lines[0].querySelector("code")).toBeInTheDocument();
+      expect(lines[0]).not.toHaveAttribute("data-prefix");
+    });
+
+    it("splits string children into lines", () => {
+      const { container } = render(() => <MockupCode>{"first\nsecond"}</MockupCode>);
+      expect(getLines(container)).toHaveLength(2);
+    });
+
+    it("renders custom pre children", () => {
+      const { container } = render(() => (
+        <MockupCode>
+          <pre data-prefix="~">
+            <code>Magnetic drive</code>
+          </pre>
+        </MockupCode>
+      ));
+      expect(getLines(container)[0]).toHaveAttribute("data-prefix", "~");
+    });
+
+    it("applies custom class, classList and language", () => {
+      const { container } = render(() => (
+        <MockupCode code="ls" class="w-full" classList={{ "is-active": true }} language="bash" />
+      ));
+      expect(container.firstChild).toHaveClass("mockup-code", "w-full", "is-active");
+      expect(container.firstChild).toHaveAttribute("data-language", "bash");
+    });
+
+    it("labels the code block", () => {
+      const { getByRole } = render(() => <MockupCode code="ls" aria-label="Install command" />);
+      expect(getByRole("figure", { name: "Install command" })).toHaveClass("mockup-code");
+    });
+  });
+
+  describe("Prefixes", () => {
+    it("applies a prefix to every line", () => {
+      const { container } = render(() => <MockupCode prefix="$" code={"npm i\nnpm test"} />);
+      getLines(container).forEach((line) => expect(line).toHaveAttribute("data-prefix", "$"));
+    });
+
+    it("shows line numbers from the start line", () => {
+      const { container } = render(() => <MockupCode lineNumbers startLine={9} code={"a\nb\nc"} />);
+      expect(getLines(container).map((line) => line.dataset.prefix)).toEqual(["9", "10", "11"]);
+    });
+
+    it("uses line prefixes over the component prefix", () => {
+      const { container } = render(() => (
+        <MockupCode prefix="$" lines={["npm i daisyui", { content: "installing...", prefix: ">" }]} />
+      ));
+      expect(getLines(container).map((line) => line.dataset.prefix)).toEqual(["$", ">"]);
+    });
+  });
+
+  describe("Highlighting", () => {
+    it("highlights line numbers with the warning color by default", () => {
+      const { container } = render(() => <MockupCode code={"a\nb\nc"} highlightLines={[2]} />);
+      const lines = getLines(container);
+      expect(lines[1]).toHaveClass("bg-warning", "text-warning-content");
+      expect(lines[0]).not.toHaveClass("bg-warning");
+    });
+
+    it("uses the highlight color and start line", () => {
+      const { container } = render(() => (
+        <MockupCode code={"a\nb"} startLine={10} highlightLines={[10]} highlightColor="error" />
+      ));
+      expect(getLines(container)[0]).toHaveClass("bg-error", "text-error-content");
+    });
+
+    it("highlights line objects with their own color", () => {
+      const { container } = render(() => (
+        <MockupCode
+          lines={[
+            { content: "Done!", highlight: "success" },
+            { content: "Warning", highlight: true, class: "font-bold" },
+          ]}
+        />
+      ));
+      const lines = getLines(container);
+      expect(lines[0]).toHaveClass("bg-success", "text-success-content");
+      expect(lines[1]).toHaveClass("bg-warning", "font-bold");
+    });
+  });
+
+  describe("Syntax Highlighter", () => {
+    it("renders the HTML returned by the highlighter for each line", () => {
+      const highlighter = vi.fn((line: string) => `<span class="token">${line}</span>`);
+      const { container } = render(() => (
+        <MockupCode code={"const a\nconst b"} language="ts" highlighter={highlighter} />
+      ));
+      expect(highlighter).toHaveBeenCalledWith("const a", "ts");
+      expect(highlighter).toHaveBeenCalledWith("const b", "ts");
+      expect(container.querySelectorAll("pre code .token")).toHaveLength(2);
+    });
+
+    it("renders plain text without a highlighter", () => {
+      const { container } = render(() => <MockupCode code="<b>bold</b>" />);
+      expect(container.querySelector("pre b")).not.toBeInTheDocument();
+      expect(getLines(container)[0]).toHaveTextContent("<b>bold</b>");
+    });
+  });
+
+  describe("Copy to Clipboard", () => {
+    it("copies the code without prefixes", async () => {
+      const writeText = vi.fn(() => Promise.resolve());
+      vi.stubGlobal("navigator", { clipboard: { writeText } });
+      const onCopy = vi.fn();
+
+      const { getByRole } = render(() => (
+        <MockupCode copyable prefix="$" code={"npm i\nnpm test"} onCopy={onCopy} />
+      ));
+      const button = getByRole("button", { name: "Copy code" });
+      expect(button).toHaveClass("btn", "btn-ghost", "btn-xs");
+
+      fireEvent.click(button);
+      expect(writeText).toHaveBeenCalledWith("npm i\nnpm test");
+      await waitFor(() => expect(onCopy).toHaveBeenCalledWith("npm i\nnpm test"));
+      expect(getByRole("button", { name: "Copied" })).toBeInTheDocument();
+    });
+
+    it("resets the copied state", async () => {
+      vi.useFakeTimers();
+      vi.stubGlobal("navigator", { clipboard: { writeText: vi.fn(() => Promise.resolve()) } });
+
+      const { getByRole } = render(() => <MockupCode copyable code="ls" />);
+      fireEvent.click(getByRole("button", { name: "Copy code" }));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(getByRole("button", { name: "Copied" })).toBeInTheDocument();
+
+      await vi.advanceTimersByTimeAsync(2000);
+      expect(getByRole("button", { name: "Copy code" })).toBeInTheDocument();
+      vi.useRealTimers();
+    });
+
+    it("stays unchanged when the clipboard fails", async () => {
+      vi.stubGlobal("navigator", { clipboard: { writeText: vi.fn(() => Promise.reject(new Error("denied"))) } });
+      const onCopy = vi.fn();
+
+      const { getByRole } = render(() => <MockupCode copyable code="ls" onCopy={onCopy} />);
+      fireEvent.click(getByRole("button", { name: "Copy code" }));
+      await Promise.resolve();
+      await Promise.resolve();
+      expect(onCopy).not.toHaveBeenCalled();
+      expect(getByRole("button", { name: "Copy code" })).toBeInTheDocument();
+    });
+
+    it("hides the copy button by default", () => {
+      const { queryByRole } = render(() => <MockupCode code="ls" />);
+      expect(queryByRole("button")).not.toBeInTheDocument();
+    });
   });
 });
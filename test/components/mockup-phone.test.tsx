@@ -3,10 +3,27 @@ import { render } from "@solidjs/testing-library";
 import MockupPhone from "@/components/mockup-phone";
 
 describe("Mockup Phone Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => (
-      <MockupPhone>Test Mockup Phone</MockupPhone>
+  it("renders the camera over the display", () => {
+    const { container, getByText } = render(() => <MockupPhone>It's Glowtime.</MockupPhone>);
+    const phone = container.firstChild as HTMLElement;
+    expect(phone).toHaveClass("mockup-phone");
+    expect(phone.children[0]).toHaveClass("mockup-phone-camera");
+    expect(phone.children[1]).toHaveClass("mockup-phone-display");
+    expect(getByText("It's Glowtime.")).toBe(phone.children[1]);
+  });
+
+  it("hides the camera", () => {
+    const { container } = render(() => <MockupPhone camera={false}>Screen</MockupPhone>);
+    expect(container.querySelector(".mockup-phone-camera")).not.toBeInTheDocument();
+  });
+
+  it("applies custom classes to the phone and display", () => {
+    const { container, getByText } = render(() => (
+      <MockupPhone class="border-primary" classList={{ "scale-75": true }} displayClass="bg-neutral-900 text-white">
+        Screen
+      </MockupPhone>
     ));
-    expect(getByText("Test Mockup Phone")).toBeInTheDocument();
+    expect(container.firstChild).toHaveClass("mockup-phone", "border-primary", "scale-75");
+    expect(getByText("Screen")).toHaveClass("mockup-phone-display", "bg-neutral-900", "text-white");
   });
 });
@@ -3,10 +3,26 @@ import { render } from "@solidjs/testing-library";
 import MockupWindow from "@/components/mockup-window";
 
 describe("Mockup Window Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => (
-      <MockupWindow>Test Mockup Window</MockupWindow>
+  it("renders the window with its content", () => {
+    const { container, getByText } = render(() => <MockupWindow>Hello!</MockupWindow>);
+    const mockup = container.firstChild as HTMLElement;
+    expect(mockup).toHaveClass("mockup-window", "border", "border-base-300");
+    expect(getByText("Hello!")).toHaveClass("border-t", "border-base-300");
+  });
+
+  it("removes the borders when bordered is false", () => {
+    const { container, getByText } = render(() => <MockupWindow bordered={false}>Hello!</MockupWindow>);
+    expect(container.firstChild).not.toHaveClass("border");
+    expect(getByText("Hello!")).not.toHaveClass("border-t");
+  });
+
+  it("applies custom classes to the window and content", () => {
+    const { container, getByText } = render(() => (
+      <MockupWindow class="bg-base-100" classList={{ "w-full": true }} contentClass="grid h-80 place-content-center">
+        Hello!
+      </MockupWindow>
     ));
-    expect(getByText("Test Mockup Window")).toBeInTheDocument();
+    expect(container.firstChild).toHaveClass("mockup-window", "bg-base-100", "w-full");
+    expect(getByText("Hello!")).toHaveClass("grid", "h-80", "place-content-center");
   });
 });
@@ -1,12 +1,285 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
-import Pagination from "@/components/pagination";
+import { describe, it, expect, vi } from "vitest";
+import { render, fireEvent, waitFor } from "@solidjs/testing-library";
+import { createRoot, createSignal } from "solid-js";
+import { MemoryRouter, Route, createMemoryHistory } from "@solidjs/router";
+import Pagination, { PaginationItem, createPagination } from "@/components/pagination";
+
+// Renders the item list as text, e.g. "1 2 3 … 10" with the selected page in brackets
+const describeItems = (items: PaginationItem[]) =>
+  items.map((item) => (item.type === "ellipsis" ? "…" : item.selected ? `[${item.page}]` : String(item.page))).join(" ");
+
+const itemsFor = (page: number, pageCount: number, siblingCount?: number, boundaryCount?: number) =>
+  createRoot((dispose) => {
+    const pagination = createPagination({ page, pageCount, siblingCount, boundaryCount });
+    const result = describeItems(pagination.items());
+    dispose();
+    return result;
+  });
+
+describe("createPagination", () => {
+  it("lists all pages when they fit", () => {
+    expect(itemsFor(1, 5)).toBe("[1] 2 3 4 5");
+    expect(itemsFor(4, 7)).toBe("1 2 3 [4] 5 6 7");
+  });
+
+  it("adds an ellipsis after the start pages", () => {
+    expect(itemsFor(1, 10)).toBe("[1] 2 3 4 5 … 10");
+  });
+
+  it("adds ellipses on both sides of the siblings", () => {
+    expect(itemsFor(5, 10)).toBe("1 … 4 [5] 6 … 10");
+  });
+
+  it("adds an ellipsis before the end pages", () => {
+    expect(itemsFor(10, 10)).toBe("1 … 6 7 8 9 [10]");
+  });
+
+  it("respects siblingCount and boundaryCount", () => {
+    expect(itemsFor(10, 20, 2, 2)).toBe("1 2 … 8 9 [10] 11 12 … 19 20");
+    expect(itemsFor(10, 20, 0, 1)).toBe("1 … [10] … 20");
+    expect(itemsFor(10, 20, 1, 0)).toBe("… 9 [10] 11 …");
+  });
+
+  it("handles a single page", () => {
+    expect(itemsFor(1, 1)).toBe("[1]");
+  });
+
+  it("computes the page count from total and pageSize", () => {
+    createRoot((dispose) => {
+      const pagination = createPagination({ total: 95, pageSize: 10 });
+      expect(pagination.pageCount()).toBe(10);
+      dispose();
+    });
+  });
+
+  it("has at least one page", () => {
+    createRoot((dispose) => {
+      const pagination = createPagination({ total: 0 });
+      expect(pagination.pageCount()).toBe(1);
+      expect(pagination.page()).toBe(1);
+      dispose();
+    });
+  });
+
+  it("navigates and clamps in uncontrolled mode", () => {
+    const onPageChange = vi.fn();
+    createRoot((dispose) => {
+      const pagination = createPagination({ pageCount: 5, defaultPage: 2, onPageChange });
+
+      pagination.next();
+      expect(pagination.page()).toBe(3);
+      expect(onPageChange).toHaveBeenLastCalledWith(3);
+
+      pagination.last();
+      expect(pagination.page()).toBe(5);
+      expect(pagination.hasNext()).toBe(false);
+
+      pagination.next();
+      expect(pagination.page()).toBe(5);
+      expect(onPageChange).toHaveBeenCalledTimes(2);
+
+      pagination.setPage(-3);
+      expect(pagination.page()).toBe(1);
+      expect(pagination.hasPrev()).toBe(false);
+      dispose();
+    });
+  });
+
+  it("follows the page option in controlled mode", () => {
+    const onPageChange = vi.fn();
+    createRoot((dispose) => {
+      const pagination = createPagination({ page: 2, pageCount: 5, onPageChange });
+      pagination.next();
+      expect(onPageChange).toHaveBeenCalledWith(3);
+      expect(pagination.page()).toBe(2);
+      dispose();
+    });
+  });
+
+  it("keeps the first visible item when the page size changes", () => {
+    const onPageSizeChange = vi.fn();
+    createRoot((dispose) => {
+      const pagination = createPagination({ total: 100, defaultPage: 5, onPageSizeChange });
+      pagination.setPageSize(25);
+      expect(onPageSizeChange).toHaveBeenCalledWith(25);
+      expect(pagination.pageSize()).toBe(25);
+      expect(pagination.pageCount()).toBe(4);
+      expect(pagination.page()).toBe(2);
+      dispose();
+    });
+  });
+
+  it("falls back to internal state for queryParam without a router", () => {
+    createRoot((dispose) => {
+      const pagination = createPagination({ pageCount: 5, queryParam: true });
+      pagination.setPage(3);
+      expect(pagination.page()).toBe(3);
+      dispose();
+    });
+  });
+});
 
 describe("Pagination Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => (
-      <Pagination>Test Pagination</Pagination>
-    ));
-    expect(getByText("Test Pagination")).toBeInTheDocument();
+  describe("Router Integration", () => {
+    const renderInRouter = (url: string) => {
+      const history = createMemoryHistory();
+      history.set({ value: url });
+      const result = render(() => (
+        <MemoryRouter history={history}>
+          <Route path="/" component={() => <Pagination pageCount={5} queryParam />} />
+        </MemoryRouter>
+      ));
+      return { ...result, history };
+    };
+
+    it("writes the clicked page to the query", async () => {
+      const { findByRole, history, unmount } = renderInRouter("/");
+      fireEvent.click(await findByRole("button", { name: "Page 3" }));
+      await waitFor(() => expect(history.get()).toBe("/?page=3"));
+      expect(await findByRole("button", { name: "Page 3" })).toHaveAttribute("aria-current", "page");
+      unmount();
+    });
+
+    it("follows the page in the URL", async () => {
+      const { findByRole, getByRole, history, unmount } = renderInRouter("/?page=2");
+      expect(await findByRole("button", { name: "Page 2" })).toHaveAttribute("aria-current", "page");
+
+      history.set({ value: "/?page=4" });
+      await waitFor(() => expect(getByRole("button", { name: "Page 4" })).toHaveAttribute("aria-current", "page"));
+      unmount();
+    });
+  });
+
+  describe("Basic Rendering", () => {
+    it("renders a navigation with joined page buttons", () => {
+      const { getByRole } = render(() => <Pagination pageCount={5} />);
+      const nav = getByRole("navigation", { name: "Pagination" });
+      const join = nav.querySelector(".join") as HTMLElement;
+      expect(join).toBeInTheDocument();
+      join.querySelectorAll("button").forEach((button) => expect(button).toHaveClass("join-item", "btn"));
+    });
+
+    it("marks the current page", () => {
+      const { getByRole } = render(() => <Pagination pageCount={5} defaultPage={3} />);
+      const current = getByRole("button", { name: "Page 3" });
+      expect(current).toHaveAttribute("aria-current", "page");
+      expect(current).toHaveClass("btn-active");
+      expect(getByRole("button", { name: "Page 2" })).not.toHaveAttribute("aria-current");
+    });
+
+    it("renders ellipses for skipped pages", () => {
+      const { container, queryByRole } = render(() => <Pagination pageCount={20} defaultPage={10} />);
+      const ellipses = container.querySelectorAll(".btn-disabled[aria-hidden='true']");
+      expect(ellipses).toHaveLength(2);
+      expect(queryByRole("button", { name: "Page 5" })).not.toBeInTheDocument();
+    });
+
+    it.each(["xs", "sm", "md", "lg", "xl"] as const)("applies the %s size", (size) => {
+      const { getByRole } = render(() => <Pagination pageCount={3} size={size} />);
+      expect(getByRole("button", { name: "Page 1" })).toHaveClass(`btn-${size}`);
+    });
+
+    it("applies custom class, classList and aria-label", () => {
+      const { getByRole } = render(() => (
+        <Pagination pageCount={3} class="justify-center" classList={{ "is-active": true }} aria-label="Results pages" />
+      ));
+      expect(getByRole("navigation", { name: "Results pages" })).toHaveClass("justify-center", "is-active");
+    });
+  });
+
+  describe("Navigation", () => {
+    it("moves between pages", () => {
+      const onPageChange = vi.fn();
+      const { getByRole } = render(() => <Pagination pageCount={5} onPageChange={onPageChange} />);
+
+      fireEvent.click(getByRole("button", { name: "Page 4" }));
+      expect(onPageChange).toHaveBeenLastCalledWith(4);
+      expect(getByRole("button", { name: "Page 4" })).toHaveAttribute("aria-current", "page");
+
+      fireEvent.click(getByRole("button", { name: "Previous page" }));
+      expect(onPageChange).toHaveBeenLastCalledWith(3);
+
+      fireEvent.click(getByRole("button", { name: "Next page" }));
+      expect(onPageChange).toHaveBeenLastCalledWith(4);
+    });
+
+    it("disables previous on the first page and next on the last page", () => {
+      const { getByRole } = render(() => <Pagination pageCount={2} />);
+      expect(getByRole("button", { name: "Previous page" })).toBeDisabled();
+      expect(getByRole("button", { name: "Next page" })).not.toBeDisabled();
+
+      fireEvent.click(getByRole("button", { name: "Page 2" }));
+      expect(getByRole("button", { name: "Next page" })).toBeDisabled();
+    });
+
+    it("shows first and last buttons", () => {
+      const { getByRole } = render(() => <Pagination pageCount={10} defaultPage={5} showFirstLast />);
+
+      fireEvent.click(getByRole("button", { name: "Last page" }));
+      expect(getByRole("button", { name: "Page 10" })).toHaveAttribute("aria-current", "page");
+
+      fireEvent.click(getByRole("button", { name: "First page" }));
+      expect(getByRole("button", { name: "Page 1" })).toHaveAttribute("aria-current", "page");
+    });
+
+    it("hides previous and next buttons", () => {
+      const { queryByRole } = render(() => <Pagination pageCount={5} showPrevNext={false} />);
+      expect(queryByRole("button", { name: "Previous page" })).not.toBeInTheDocument();
+      expect(queryByRole("button", { name: "Next page" })).not.toBeInTheDocument();
+    });
+
+    it("follows the page prop in controlled mode", () => {
+      const [page, setPage] = createSignal(1);
+      const { getByRole } = render(() => <Pagination pageCount={5} page={page()} onPageChange={setPage} />);
+
+      fireEvent.click(getByRole("button", { name: "Page 3" }));
+      expect(page()).toBe(3);
+      expect(getByRole("button", { name: "Page 3" })).toHaveAttribute("aria-current", "page");
+
+      setPage(5);
+      expect(getByRole("button", { name: "Page 5" })).toHaveAttribute("aria-current", "page");
+    });
+
+    it("disables all controls", () => {
+      const { getByRole } = render(() => <Pagination pageCount={5} defaultPage={3} disabled />);
+      expect(getByRole("button", { name: "Page 1" })).toBeDisabled();
+      expect(getByRole("button", { name: "Next page" })).toBeDisabled();
+    });
+  });
+
+  describe("Compact Mode", () => {
+    it("shows the page position instead of page buttons", () => {
+      const { getByText, queryByRole, getByRole } = render(() => <Pagination pageCount={10} defaultPage={2} compact />);
+      expect(getByText("Page 2 of 10")).toBeInTheDocument();
+      expect(queryByRole("button", { name: "Page 1" })).not.toBeInTheDocument();
+
+      fireEvent.click(getByRole("button", { name: "Next page" }));
+      expect(getByText("Page 3 of 10")).toBeInTheDocument();
+    });
+  });
+
+  describe("Page Size", () => {
+    it("renders a page size selector", () => {
+      const { getByRole } = render(() => <Pagination total={100} pageSizeOptions={[10, 25, 50]} />);
+      const select = getByRole("combobox", { name: "Items per page" }) as HTMLSelectElement;
+      expect(select).toHaveClass("select");
+      expect(select.value).toBe("10");
+      expect(Array.from(select.options).map((option) => option.textContent)).toEqual([
+        "10 / page",
+        "25 / page",
+        "50 / page",
+      ]);
+    });
+
+    it("changes the page size and page count", () => {
+      const onPageSizeChange = vi.fn();
+      const { getByRole, queryByRole } = render(() => (
+        <Pagination total={100} pageSizeOptions={[10, 50]} onPageSizeChange={onPageSizeChange} />
+      ));
+      fireEvent.change(getByRole("combobox", { name: "Items per page" }), { target: { value: "50" } });
+      expect(onPageSizeChange).toHaveBeenCalledWith(50);
+      expect(getByRole("button", { name: "Page 2" })).toBeInTheDocument();
+      expect(queryByRole("button", { name: "Page 3" })).not.toBeInTheDocument();
+    });
   });
 });
@@ -1,10 +1,143 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 import { render } from "@solidjs/testing-library";
+import { createSignal } from "solid-js";
 import Progress from "@/components/progress";
 
 describe("Progress Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Progress />);
-    expect(getByText("Progress Component")).toBeInTheDocument();
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe("Basic Rendering", () => {
+    it("renders a native DaisyUI progress", () => {
+      const { getByRole } = render(() => <Progress value={40} aria-label="Loading" />);
+      const progress = getByRole("progressbar", { name: "Loading" }) as HTMLProgressElement;
+      expect(progress.tagName).toBe("PROGRESS");
+      expect(progress).toHaveClass("progress");
+      expect(progress.value).toBe(40);
+      expect(progress.max).toBe(100);
+    });
+
+    it("applies color, class, classList and id", () => {
+      const { getByRole } = render(() => (
+        <Progress value={10} color="success" class="w-56" classList={{ "my-2": true }} id="upload" />
+      ));
+      const progress = getByRole("progressbar");
+      expect(progress).toHaveClass("progress", "progress-success", "w-56", "my-2");
+      expect(progress).toHaveAttribute("id", "upload");
+    });
+
+    it("reports the value to assistive technology", () => {
+      const { getByRole } = render(() => <Progress value={45} />);
+      const progress = getByRole("progressbar");
+      expect(progress).toHaveAttribute("aria-valuenow", "45");
+      expect(progress).toHaveAttribute("aria-valuemin", "0");
+      expect(progress).toHaveAttribute("aria-valuemax", "100");
+      expect(progress).toHaveAttribute("aria-valuetext", "45%");
+    });
+
+    it("uses max and a custom value format", () => {
+      const { getByRole } = render(() => (
+        <Progress value={3} max={4} formatValue={(value, max) => `Step ${value} of ${max}`} />
+      ));
+      const progress = getByRole("progressbar") as HTMLProgressElement;
+      expect(progress.max).toBe(4);
+      expect(progress).toHaveAttribute("aria-valuemax", "4");
+      expect(progress).toHaveAttribute("aria-valuetext", "Step 3 of 4");
+    });
+
+    it("clamps the value", () => {
+      const { getByRole } = render(() => <Progress value={140} />);
+      expect(getByRole("progressbar")).toHaveAttribute("aria-valuenow", "100");
+    });
+  });
+
+  describe("Indeterminate State", () => {
+    it("has no value when value is undefined", () => {
+      const { getByRole } = render(() => <Progress aria-label="Loading" />);
+      const progress = getByRole("progressbar");
+      expect(progress).not.toHaveAttribute("value");
+      expect(progress).not.toHaveAttribute("aria-valuenow");
+      expect(progress).not.toHaveAttribute("aria-valuetext");
+      expect(progress).toHaveAttribute("aria-busy", "true");
+    });
+
+    it("switches between determinate and indeterminate", () => {
+      const [value, setValue] = createSignal<number | undefined>(undefined);
+      const { getByRole } = render(() => <Progress value={value()} />);
+      const progress = getByRole("progressbar") as HTMLProgressElement;
+
+      setValue(30);
+      expect(progress.value).toBe(30);
+      expect(progress).not.toHaveAttribute("aria-busy");
+
+      setValue(undefined);
+      expect(progress).not.toHaveAttribute("value");
+    });
+  });
+
+  describe("Label and Buffer", () => {
+    it("shows a label and the value text", () => {
+      const { getByRole, getByText } = render(() => (
+        <Progress value={25} label="Uploading photos" showValue class="w-64" />
+      ));
+      const progress = getByRole("progressbar", { name: "Uploading photos" });
+      expect(getByText("25%")).toHaveAttribute("aria-hidden", "true");
+      expect(progress.closest(".w-64")).not.toBeNull();
+    });
+
+    it("draws the buffered value behind the bar", () => {
+      const { container, getByRole } = render(() => (
+        <Progress value={20} buffer={60} color="primary" aria-label="Playback" />
+      ));
+      const buffer = container.querySelector("[data-slot='buffer']") as HTMLElement;
+      expect(buffer.style.width).toBe("60%");
+      expect(buffer).toHaveClass("progress-primary");
+      expect(buffer).toHaveAttribute("aria-hidden", "true");
+      expect(getByRole("progressbar", { name: "Playback" })).toHaveAttribute("aria-valuenow", "20");
+    });
+
+    it("follows buffer changes", () => {
+      const [buffer, setBuffer] = createSignal(10);
+      const { container } = render(() => <Progress value={5} buffer={buffer()} max={50} />);
+      setBuffer(25);
+      expect((container.querySelector("[data-slot='buffer']") as HTMLElement).style.width).toBe("50%");
+    });
+  });
+
+  describe("Transitions", () => {
+    it("jumps to new values by default", () => {
+      const [value, setValue] = createSignal(10);
+      const { getByRole } = render(() => <Progress value={value()} />);
+      setValue(80);
+      expect((getByRole("progressbar") as HTMLProgressElement).value).toBe(80);
+    });
+
+    it("eases to new values when animated", () => {
+      vi.useFakeTimers();
+      const [value, setValue] = createSignal(0);
+      const { getByRole } = render(() => <Progress value={value()} animated duration={200} />);
+      const progress = getByRole("progressbar") as HTMLProgressElement;
+
+      setValue(100);
+      expect(progress).toHaveAttribute("aria-valuenow", "100");
+      expect(progress.value).toBe(0);
+
+      vi.advanceTimersByTime(100);
+      expect(progress.value).toBeGreaterThan(50);
+      expect(progress.value).toBeLessThan(100);
+
+      vi.advanceTimersByTime(200);
+      expect(progress.value).toBe(100);
+    });
+
+    it("skips the transition when reduced motion is preferred", () => {
+      vi.stubGlobal("matchMedia", (query: string) => ({ matches: query.includes("reduce") }));
+      const [value, setValue] = createSignal(0);
+      const { getByRole } = render(() => <Progress value={value()} animated />);
+      setValue(60);
+      expect((getByRole("progressbar") as HTMLProgressElement).value).toBe(60);
+    });
   });
 });
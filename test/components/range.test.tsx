@@ -1,10 +1,256 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
+import { describe, it, expect, vi } from "vitest";
+import { render, fireEvent } from "@solidjs/testing-library";
+import { createSignal } from "solid-js";
 import Range from "@/components/range";
 
+const getRanges = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLInputElement>('input[type="range"]'));
+
 describe("Range Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Range />);
-    expect(getByText("Range Component")).toBeInTheDocument();
+  describe("Basic Rendering", () => {
+    it("renders a native range input with DaisyUI classes", () => {
+      const { container } = render(() => <Range aria-label="Volume" />);
+      const input = container.firstChild as HTMLInputElement;
+      expect(input.tagName).toBe("INPUT");
+      expect(input).toHaveAttribute("type", "range");
+      expect(input).toHaveClass("range");
+      expect(input).toHaveAttribute("aria-label", "Volume");
+    });
+
+    it("applies min, max and step with defaults", () => {
+      const { container } = render(() => <Range />);
+      const input = getRanges(container)[0];
+      expect(input).toHaveAttribute("min", "0");
+      expect(input).toHaveAttribute("max", "100");
+      expect(input).toHaveAttribute("step", "1");
+    });
+
+    it("applies custom min, max and step", () => {
+      const { container } = render(() => <Range min={10} max={50} step={5} />);
+      const input = getRanges(container)[0];
+      expect(input).toHaveAttribute("min", "10");
+      expect(input).toHaveAttribute("max", "50");
+      expect(input).toHaveAttribute("step", "5");
+    });
+
+    it.each(["xs", "sm", "md", "lg", "xl"] as const)("applies the %s size", (size) => {
+      const { container } = render(() => <Range size={size} />);
+      expect(getRanges(container)[0]).toHaveClass(`range-${size}`);
+    });
+
+    it.each(["primary", "secondary", "accent", "neutral", "info", "success", "warning", "error"] as const)(
+      "applies the %s color",
+      (color) => {
+        const { container } = render(() => <Range color={color} />);
+        expect(getRanges(container)[0]).toHaveClass(`range-${color}`);
+      }
+    );
+
+    it("applies custom class and classList", () => {
+      const { container } = render(() => <Range class="custom-range" classList={{ "is-active": true }} />);
+      expect(getRanges(container)[0]).toHaveClass("range", "custom-range", "is-active");
+    });
+
+    it("passes disabled, id and aria attributes", () => {
+      const { container } = render(() => (
+        <Range disabled id="volume" aria-labelledby="volume-label" aria-describedby="volume-hint" />
+      ));
+      const input = getRanges(container)[0];
+      expect(input).toBeDisabled();
+      expect(input).toHaveAttribute("id", "volume");
+      expect(input).toHaveAttribute("aria-labelledby", "volume-label");
+      expect(input).toHaveAttribute("aria-describedby", "volume-hint");
+    });
+
+    it("formats aria-valuetext", () => {
+      const { container } = render(() => <Range defaultValue={40} formatValue={(value) => `${value} percent`} />);
+      expect(getRanges(container)[0]).toHaveAttribute("aria-valuetext", "40 percent");
+    });
+  });
+
+  describe("Value Handling", () => {
+    it("uses defaultValue in uncontrolled mode", () => {
+      const { container } = render(() => <Range defaultValue={30} />);
+      expect(getRanges(container)[0].value).toBe("30");
+    });
+
+    it("defaults to min", () => {
+      const { container } = render(() => <Range min={20} />);
+      expect(getRanges(container)[0].value).toBe("20");
+    });
+
+    it("calls onChange with the numeric value", () => {
+      const onChange = vi.fn();
+      const { container } = render(() => <Range onChange={onChange} />);
+      fireEvent.input(getRanges(container)[0], { target: { value: "42" } });
+      expect(onChange).toHaveBeenCalledWith(42, expect.any(Event));
+    });
+
+    it("follows the value prop in controlled mode", () => {
+      const [value, setValue] = createSignal(10);
+      const { container } = render(() => <Range value={value()} onChange={setValue} />);
+      const input = getRanges(container)[0];
+
+      fireEvent.input(input, { target: { value: "60" } });
+      expect(value()).toBe(60);
+      expect(input.value).toBe("60");
+
+      setValue(25);
+      expect(input.value).toBe("25");
+    });
+
+    it("keeps the controlled value when the change is not applied", () => {
+      const onChange = vi.fn();
+      const { container } = render(() => <Range value={10} onChange={onChange} />);
+      const input = getRanges(container)[0];
+
+      fireEvent.input(input, { target: { value: "60" } });
+      expect(onChange).toHaveBeenCalledWith(60, expect.any(Event));
+      expect(input.value).toBe("10");
+    });
+  });
+
+  describe("Two-thumb Mode", () => {
+    it("renders two inputs with minimum and maximum labels", () => {
+      const { getByLabelText } = render(() => <Range dual aria-label="Price" />);
+      expect(getByLabelText("Price minimum")).toHaveAttribute("type", "range");
+      expect(getByLabelText("Price maximum")).toHaveAttribute("type", "range");
+    });
+
+    it("defaults to the full interval", () => {
+      const { container } = render(() => <Range dual min={0} max={500} />);
+      const [low, high] = getRanges(container);
+      expect(low.value).toBe("0");
+      expect(high.value).toBe("500");
+    });
+
+    it("returns a [low, high] tuple on change", () => {
+      const onChange = vi.fn();
+      const { container } = render(() => <Range dual defaultValue={[100, 400]} max={500} onChange={onChange} />);
+      const [low, high] = getRanges(container);
+
+      fireEvent.input(low, { target: { value: "150" } });
+      expect(onChange).toHaveBeenLastCalledWith([150, 400], expect.any(Event));
+
+      fireEvent.input(high, { target: { value: "300" } });
+      expect(onChange).toHaveBeenLastCalledWith([150, 300], expect.any(Event));
+    });
+
+    it("prevents the thumbs from crossing", () => {
+      const onChange = vi.fn();
+      const { container } = render(() => <Range dual defaultValue={[100, 200]} max={500} onChange={onChange} />);
+      const [low, high] = getRanges(container);
+
+      fireEvent.input(low, { target: { value: "300" } });
+      expect(onChange).toHaveBeenLastCalledWith([200, 200], expect.any(Event));
+      expect(low.value).toBe("200");
+
+      fireEvent.input(high, { target: { value: "50" } });
+      expect(onChange).toHaveBeenLastCalledWith([200, 200], expect.any(Event));
+      expect(high.value).toBe("200");
+    });
+
+    it("raises the lower thumb when both meet at the maximum", () => {
+      const [value, setValue] = createSignal<[number, number]>([40, 100]);
+      const { container } = render(() => <Range dual value={value()} onChange={setValue} />);
+      const [low] = getRanges(container);
+      expect(low).not.toHaveClass("z-10");
+
+      setValue([100, 100]);
+      expect(low).toHaveClass("relative", "z-10");
+
+      fireEvent.input(low, { target: { value: "60" } });
+      expect(value()).toEqual([60, 100]);
+      expect(low).not.toHaveClass("z-10");
+    });
+
+    it("supports controlled intervals", () => {
+      const [value, setValue] = createSignal<[number, number]>([10, 90]);
+      const { container } = render(() => <Range dual value={value()} onChange={setValue} />);
+      const [low, high] = getRanges(container);
+
+      setValue([20, 80]);
+      expect(low.value).toBe("20");
+      expect(high.value).toBe("80");
+    });
+  });
+
+  describe("Tick Marks", () => {
+    it("renders a tick for every step", () => {
+      const { container } = render(() => <Range max={100} step={25} ticks />);
+      const ticks = container.querySelectorAll("[data-value]");
+      expect(ticks).toHaveLength(5);
+      expect(ticks[0]).toHaveStyle({ left: "0%" });
+      expect(ticks[2]).toHaveStyle({ left: "50%" });
+      expect(ticks[4]).toHaveStyle({ left: "100%" });
+    });
+
+    it("falls back to a step of 1 for ticks when the step is not positive", () => {
+      [0, -5, NaN].forEach((step) => {
+        const { container } = render(() => <Range max={4} step={step} ticks />);
+        expect(container.querySelectorAll("[data-value]")).toHaveLength(5);
+      });
+    });
+
+    it("renders labeled ticks at their positions", () => {
+      const { getByText, container } = render(() => (
+        <Range
+          min={0}
+          max={200}
+          ticks={[
+            { value: 0, label: "$0" },
+            { value: 50, label: "$50" },
+            { value: 200, label: "$200" },
+          ]}
+        />
+      ));
+      expect(getByText("$50").parentElement).toHaveStyle({ left: "25%" });
+      expect(container.querySelector("[aria-hidden='true']")).toContainElement(getByText("$200"));
+    });
+
+    it("accepts a list of values", () => {
+      const { container } = render(() => <Range ticks={[0, 10, 100]} />);
+      expect(container.querySelectorAll("[data-value]")).toHaveLength(3);
+    });
+  });
+
+  describe("Form Integration", () => {
+    it("submits the value under its name", () => {
+      const { container } = render(() => (
+        <form>
+          <Range name="volume" defaultValue={70} />
+        </form>
+      ));
+      const data = new FormData(container.querySelector("form") as HTMLFormElement);
+      expect(data.get("volume")).toBe("70");
+    });
+
+    it("submits both thumbs under the same name in two-thumb mode", () => {
+      const { container } = render(() => (
+        <form>
+          <Range dual name="price" defaultValue={[20, 80]} />
+        </form>
+      ));
+      const data = new FormData(container.querySelector("form") as HTMLFormElement);
+      expect(data.getAll("price")).toEqual(["20", "80"]);
+    });
+
+    it("returns to the default value when the form is reset", async () => {
+      const { container } = render(() => (
+        <form>
+          <Range dual name="price" defaultValue={[20, 80]} />
+        </form>
+      ));
+      const form = container.querySelector("form") as HTMLFormElement;
+      const [low, high] = getRanges(container);
+
+      fireEvent.input(low, { target: { value: "40" } });
+      fireEvent.input(high, { target: { value: "60" } });
+      form.reset();
+      await new Promise((resolve) => setTimeout(resolve));
+
+      expect(low.value).toBe("20");
+      expect(high.value).toBe("80");
+    });
   });
 });
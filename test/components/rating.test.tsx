@@ -1,10 +1,260 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
+import { describe, it, expect, vi } from "vitest";
+import { render, fireEvent } from "@solidjs/testing-library";
+import { createSignal } from "solid-js";
 import Rating from "@/components/rating";
 
+const getRadios = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLInputElement>('input[type="radio"]'));
+
 describe("Rating Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Rating />);
-    expect(getByText("Rating Component")).toBeInTheDocument();
+  describe("Basic Rendering", () => {
+    it("renders a radio group with five star items", () => {
+      const { container, getByRole } = render(() => <Rating aria-label="Product rating" />);
+      const group = getByRole("radiogroup", { name: "Product rating" });
+      expect(group).toHaveClass("rating");
+
+      const radios = getRadios(container);
+      expect(radios).toHaveLength(5);
+      radios.forEach((radio) => expect(radio).toHaveClass("mask", "mask-star-2"));
+    });
+
+    it("renders a configurable number of items", () => {
+      const { container } = render(() => <Rating count={10} />);
+      expect(getRadios(container)).toHaveLength(10);
+    });
+
+    it("labels items and values them from 1", () => {
+      const { getByLabelText } = render(() => <Rating />);
+      expect(getByLabelText("1 star")).toHaveAttribute("value", "1");
+      expect(getByLabelText("5 stars")).toHaveAttribute("value", "5");
+    });
+
+    it("uses custom item labels", () => {
+      const { getByLabelText } = render(() => <Rating mask="heart" getItemLabel={(value) => `${value} hearts`} />);
+      expect(getByLabelText("3 hearts")).toHaveClass("mask-heart");
+    });
+
+    it("groups the radios under a shared name", () => {
+      const { container } = render(() => <Rating name="quality" />);
+      getRadios(container).forEach((radio) => expect(radio).toHaveAttribute("name", "quality"));
+    });
+
+    it("generates a shared name when none is given", () => {
+      const { container } = render(() => <Rating />);
+      const names = new Set(getRadios(container).map((radio) => radio.name));
+      expect(names.size).toBe(1);
+      expect([...names][0]).toBeTruthy();
+    });
+
+    it.each(["xs", "sm", "md", "lg", "xl"] as const)("applies the %s size", (size) => {
+      const { container } = render(() => <Rating size={size} />);
+      expect(container.firstChild).toHaveClass(`rating-${size}`);
+    });
+
+    it("applies custom class and classList", () => {
+      const { container } = render(() => <Rating class="custom-rating" classList={{ "is-active": true }} />);
+      expect(container.firstChild).toHaveClass("rating", "custom-rating", "is-active");
+    });
+  });
+
+  describe("Masks and Colors", () => {
+    it("applies the mask shape", () => {
+      const { container } = render(() => <Rating mask="heart" />);
+      expect(getRadios(container)[0]).toHaveClass("mask", "mask-heart");
+    });
+
+    it("applies one color to every item", () => {
+      const { container } = render(() => <Rating color="bg-orange-400" />);
+      getRadios(container).forEach((radio) => expect(radio).toHaveClass("bg-orange-400"));
+    });
+
+    it("applies a color per item", () => {
+      const colors = ["bg-red-400", "bg-orange-400", "bg-yellow-400", "bg-lime-400", "bg-green-400"];
+      const { container } = render(() => <Rating mask="heart" color={colors} />);
+      getRadios(container).forEach((radio, index) => expect(radio).toHaveClass(colors[index]));
+    });
+  });
+
+  describe("Half Items", () => {
+    it("renders two halves per item", () => {
+      const { container } = render(() => <Rating half count={3} />);
+      const radios = getRadios(container);
+      expect(container.firstChild).toHaveClass("rating-half");
+      expect(radios).toHaveLength(6);
+      expect(radios.map((radio) => radio.value)).toEqual(["0.5", "1", "1.5", "2", "2.5", "3"]);
+      expect(radios[0]).toHaveClass("mask-half-1");
+      expect(radios[1]).toHaveClass("mask-half-2");
+    });
+
+    it("colors both halves of an item alike", () => {
+      const { container } = render(() => <Rating half count={2} color={["bg-red-400", "bg-green-400"]} />);
+      const radios = getRadios(container);
+      expect(radios[0]).toHaveClass("bg-red-400");
+      expect(radios[1]).toHaveClass("bg-red-400");
+      expect(radios[2]).toHaveClass("bg-green-400");
+    });
+
+    it("selects half values", () => {
+      const onChange = vi.fn();
+      const { getByLabelText } = render(() => <Rating half onChange={onChange} />);
+      fireEvent.click(getByLabelText("2.5 stars"));
+      expect(onChange).toHaveBeenCalledWith(2.5, expect.any(Event));
+    });
+  });
+
+  describe("Value Handling", () => {
+    it("has no rating by default", () => {
+      const { container } = render(() => <Rating />);
+      expect(getRadios(container).some((radio) => radio.checked)).toBe(false);
+    });
+
+    it("uses defaultValue in uncontrolled mode", () => {
+      const { getByLabelText } = render(() => <Rating defaultValue={3} />);
+      expect(getByLabelText("3 stars")).toBeChecked();
+    });
+
+    it("updates and calls onChange when an item is selected", () => {
+      const onChange = vi.fn();
+      const { getByLabelText } = render(() => <Rating onChange={onChange} />);
+      fireEvent.click(getByLabelText("4 stars"));
+      expect(getByLabelText("4 stars")).toBeChecked();
+      expect(onChange).toHaveBeenCalledWith(4, expect.any(Event));
+    });
+
+    it("follows the value prop in controlled mode", () => {
+      const [value, setValue] = createSignal(2);
+      const { getByLabelText } = render(() => <Rating value={value()} onChange={setValue} />);
+      expect(getByLabelText("2 stars")).toBeChecked();
+
+      fireEvent.click(getByLabelText("5 stars"));
+      expect(value()).toBe(5);
+      expect(getByLabelText("5 stars")).toBeChecked();
+
+      setValue(1);
+      expect(getByLabelText("1 star")).toBeChecked();
+    });
+
+    it("keeps the controlled value when the change is not applied", () => {
+      const onChange = vi.fn();
+      const { getByLabelText } = render(() => <Rating value={2} onChange={onChange} />);
+      fireEvent.click(getByLabelText("4 stars"));
+      expect(onChange).toHaveBeenCalledWith(4, expect.any(Event));
+      expect(getByLabelText("2 stars")).toBeChecked();
+      expect(getByLabelText("4 stars")).not.toBeChecked();
+    });
+
+    it("does not change when disabled", () => {
+      const onChange = vi.fn();
+      const { container, getByLabelText } = render(() => <Rating disabled onChange={onChange} />);
+      getRadios(container).forEach((radio) => expect(radio).toBeDisabled());
+      fireEvent.click(getByLabelText("3 stars"));
+      expect(onChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Clearing", () => {
+    it("renders a hidden zero option", () => {
+      const { getByLabelText } = render(() => <Rating allowClear />);
+      const clear = getByLabelText("Clear rating");
+      expect(clear).toHaveClass("rating-hidden");
+      expect(clear).toHaveAttribute("value", "0");
+      expect(clear).toBeChecked();
+    });
+
+    it("clears through the zero option", () => {
+      const onChange = vi.fn();
+      const { getByLabelText } = render(() => <Rating allowClear defaultValue={3} onChange={onChange} />);
+      fireEvent.click(getByLabelText("Clear rating"));
+      expect(onChange).toHaveBeenCalledWith(0, expect.any(Event));
+      expect(getByLabelText("3 stars")).not.toBeChecked();
+    });
+
+    it("clears when the selected item is clicked again", () => {
+      const onChange = vi.fn();
+      const { getByLabelText } = render(() => <Rating allowClear defaultValue={3} onChange={onChange} />);
+      fireEvent.click(getByLabelText("3 stars"));
+      expect(onChange).toHaveBeenCalledWith(0, expect.any(Event));
+      expect(getByLabelText("3 stars")).not.toBeChecked();
+      expect(getByLabelText("Clear rating")).toBeChecked();
+    });
+
+    it("keeps the selection on a second click without allowClear", () => {
+      const onChange = vi.fn();
+      const { getByLabelText } = render(() => <Rating defaultValue={3} onChange={onChange} />);
+      fireEvent.click(getByLabelText("3 stars"));
+      expect(onChange).not.toHaveBeenCalled();
+      expect(getByLabelText("3 stars")).toBeChecked();
+    });
+  });
+
+  describe("Hover Preview", () => {
+    it("previews the hovered rating and restores on leave", () => {
+      const onHoverChange = vi.fn();
+      const { container, getByLabelText } = render(() => <Rating defaultValue={4} onHoverChange={onHoverChange} />);
+      const radios = getRadios(container);
+
+      fireEvent.mouseEnter(getByLabelText("2 stars"));
+      expect(onHoverChange).toHaveBeenLastCalledWith(2);
+      expect(radios[1]).toHaveStyle({ opacity: "1" });
+      expect(radios[2]).toHaveStyle({ opacity: "0.2" });
+
+      fireEvent.mouseLeave(container.firstChild as HTMLElement);
+      expect(onHoverChange).toHaveBeenLastCalledWith(undefined);
+      expect(radios[2].style.opacity).toBe("");
+    });
+
+    it("does not preview when disabled", () => {
+      const onHoverChange = vi.fn();
+      const { getByLabelText } = render(() => <Rating disabled onHoverChange={onHoverChange} />);
+      fireEvent.mouseEnter(getByLabelText("2 stars"));
+      expect(onHoverChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Read-only Display", () => {
+    it("renders items without radio inputs", () => {
+      const { container, getByRole } = render(() => <Rating readOnly value={3.7} />);
+      expect(getRadios(container)).toHaveLength(0);
+      const display = getByRole("img", { name: "Rated 3.7 out of 5" });
+      expect(display).toHaveClass("rating");
+      expect(display.children).toHaveLength(5);
+    });
+
+    it("marks the rounded value as current", () => {
+      const { container } = render(() => <Rating readOnly value={3.7} />);
+      const items = Array.from(container.querySelectorAll(".mask"));
+      expect(items[3]).toHaveAttribute("aria-current", "true");
+      expect(container.querySelectorAll("[aria-current]")).toHaveLength(1);
+    });
+
+    it("rounds to half items in half mode", () => {
+      const { container } = render(() => <Rating readOnly half value={3.7} />);
+      const items = Array.from(container.querySelectorAll(".mask"));
+      expect(items).toHaveLength(10);
+      expect(items[6]).toHaveAttribute("aria-current", "true");
+    });
+
+    it("uses a custom label", () => {
+      const { getByRole } = render(() => <Rating readOnly value={4.2} aria-label="Average rating: 4.2" />);
+      expect(getByRole("img", { name: "Average rating: 4.2" })).toBeInTheDocument();
+    });
+  });
+
+  describe("Form Integration", () => {
+    it("submits the selected value under its name", () => {
+      const { container } = render(() => (
+        <form>
+          <Rating name="quality" defaultValue={4} />
+        </form>
+      ));
+      const data = new FormData(container.querySelector("form") as HTMLFormElement);
+      expect(data.get("quality")).toBe("4");
+    });
+
+    it("marks the items required", () => {
+      const { container, getByRole } = render(() => <Rating required aria-label="Quality" />);
+      expect(getByRole("radiogroup")).toHaveAttribute("aria-required", "true");
+      getRadios(container).forEach((radio) => expect(radio).toBeRequired());
+    });
   });
 });
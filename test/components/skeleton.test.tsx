@@ -1,10 +1,172 @@
 import { describe, it, expect } from "vitest";
 import { render } from "@solidjs/testing-library";
+import { createResource, createSignal } from "solid-js";
 import Skeleton from "@/components/skeleton";
 
 describe("Skeleton Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Skeleton />);
-    expect(getByText("Skeleton Component")).toBeInTheDocument();
+  describe("Basic Rendering", () => {
+    it("renders a DaisyUI skeleton hidden from assistive technology", () => {
+      const { container } = render(() => <Skeleton class="h-32 w-32" />);
+      const skeleton = container.firstChild as HTMLElement;
+      expect(skeleton).toHaveClass("skeleton", "h-32", "w-32");
+      expect(skeleton).toHaveAttribute("aria-hidden", "true");
+    });
+
+    it("applies width and height", () => {
+      const { container } = render(() => <Skeleton width={120} height="2rem" />);
+      expect(container.firstChild).toHaveStyle({ width: "120px", height: "2rem" });
+    });
+
+    it("renders a circle of its width", () => {
+      const { container } = render(() => <Skeleton variant="circle" width={64} />);
+      const skeleton = container.firstChild as HTMLElement;
+      expect(skeleton).toHaveClass("skeleton", "rounded-full");
+      expect(skeleton).toHaveStyle({ width: "64px", height: "64px" });
+    });
+
+    it("gives circles a default size", () => {
+      const { container } = render(() => <Skeleton variant="circle" />);
+      expect(container.firstChild).toHaveClass("size-12");
+    });
+
+    it("renders a text line", () => {
+      const { container } = render(() => <Skeleton variant="text" />);
+      expect(container.firstChild).toHaveClass("skeleton", "h-4", "w-full");
+    });
+
+    it("renders paragraph lines with a shorter last line", () => {
+      const { container } = render(() => <Skeleton lines={3} class="max-w-md" />);
+      const wrapper = container.firstChild as HTMLElement;
+      expect(wrapper).toHaveClass("max-w-md");
+      expect(wrapper).toHaveAttribute("aria-hidden", "true");
+
+      const lines = wrapper.querySelectorAll(".skeleton");
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toHaveClass("h-4", "w-full");
+      expect(lines[2]).toHaveClass("w-3/5");
+    });
+
+    it("applies custom classList", () => {
+      const { container } = render(() => <Skeleton classList={{ "is-active": true }} />);
+      expect(container.firstChild).toHaveClass("skeleton", "is-active");
+    });
+  });
+
+  describe("Presets", () => {
+    it("renders an avatar placeholder with text lines", () => {
+      const { container } = render(() => <Skeleton.Avatar size={40} lines={2} />);
+      const skeletons = container.querySelectorAll(".skeleton");
+      expect(skeletons[0]).toHaveClass("rounded-full");
+      expect(skeletons[0]).toHaveStyle({ width: "40px", height: "40px" });
+      expect(skeletons).toHaveLength(3);
+    });
+
+    it("renders a rounded avatar placeholder", () => {
+      const { container } = render(() => <Skeleton.Avatar shape="rounded" />);
+      const avatar = container.querySelector(".skeleton") as HTMLElement;
+      expect(avatar).not.toHaveClass("rounded-full");
+      expect(avatar).toHaveStyle({ width: "48px" });
+    });
+
+    it("renders a card placeholder", () => {
+      const { container } = render(() => <Skeleton.Card actions class="w-96" />);
+      const card = container.firstChild as HTMLElement;
+      expect(card).toHaveClass("card", "w-96");
+      expect(card.querySelector("figure .skeleton")).toBeInTheDocument();
+      expect(card.querySelectorAll(".card-body [data-line]")).toHaveLength(3);
+      expect(card.querySelector(".card-actions .skeleton")).toBeInTheDocument();
+    });
+
+    it("renders a card placeholder without image", () => {
+      const { container } = render(() => <Skeleton.Card image={false} lines={2} />);
+      expect(container.querySelector("figure")).not.toBeInTheDocument();
+      expect(container.querySelectorAll("[data-line]")).toHaveLength(2);
+    });
+
+    it("renders table row placeholders", () => {
+      const { container } = render(() => (
+        <table>
+          <tbody>
+            <Skeleton.TableRows rows={3} columns={2} />
+          </tbody>
+        </table>
+      ));
+      const rows = container.querySelectorAll("tbody tr");
+      expect(rows).toHaveLength(3);
+      rows.forEach((row) => expect(row.querySelectorAll("td .skeleton")).toHaveLength(2));
+    });
+
+    it("renders a stat placeholder", () => {
+      const { container } = render(() => <Skeleton.Stat figure />);
+      const stat = container.firstChild as HTMLElement;
+      expect(stat).toHaveClass("stat");
+      expect(stat).toHaveAttribute("aria-busy", "true");
+      expect(stat.querySelector(".stat-figure .skeleton")).toBeInTheDocument();
+      expect(stat.querySelector(".stat-title .skeleton")).toBeInTheDocument();
+      expect(stat.querySelector(".stat-value .skeleton")).toBeInTheDocument();
+      expect(stat.querySelector(".stat-desc .skeleton")).toBeInTheDocument();
+    });
+  });
+
+  describe("Suspense", () => {
+    it("shows the placeholder while a resource is pending", async () => {
+      let resolve: (value: string) => void = () => {};
+      const [data] = createResource(() => new Promise<string>((done) => (resolve = done)));
+
+      const { getByRole, findByText, queryByRole } = render(() => (
+        <Skeleton.Suspense preset="card">
+          <p>{data()}</p>
+        </Skeleton.Suspense>
+      ));
+
+      const status = getByRole("status");
+      expect(status).toHaveAttribute("aria-busy", "true");
+      expect(status).toHaveTextContent("Loading");
+      expect(status.querySelector(".card")).toBeInTheDocument();
+
+      resolve("Loaded content");
+      expect(await findByText("Loaded content")).toBeInTheDocument();
+      expect(queryByRole("status")).not.toBeInTheDocument();
+    });
+
+    it("shows the placeholder while loading is true", () => {
+      const [loading, setLoading] = createSignal(true);
+      const { getByRole, queryByText, getByText } = render(() => (
+        <Skeleton.Suspense loading={loading()} preset="stat" count={3}>
+          <p>Ready</p>
+        </Skeleton.Suspense>
+      ));
+
+      expect(getByRole("status").querySelectorAll(".stat")).toHaveLength(3);
+      expect(queryByText("Ready")).not.toBeInTheDocument();
+
+      setLoading(false);
+      expect(getByText("Ready")).toBeInTheDocument();
+    });
+
+    it("renders a table placeholder", () => {
+      const { getByRole } = render(() => (
+        <Skeleton.Suspense loading preset="table" count={4}>
+          <p>Ready</p>
+        </Skeleton.Suspense>
+      ));
+      expect(getByRole("status").querySelectorAll("table tbody tr")).toHaveLength(4);
+    });
+
+    it("defaults to a text placeholder", () => {
+      const { getByRole } = render(() => <Skeleton.Suspense loading />);
+      expect(getByRole("status").querySelectorAll("[data-line]")).toHaveLength(3);
+    });
+
+    it("uses a custom fallback and label", () => {
+      const { getByRole } = render(() => (
+        <Skeleton.Suspense loading label="Loading profile" fallback={<Skeleton.Avatar lines={2} />}>
+          <p>Ready</p>
+        </Skeleton.Suspense>
+      ));
+      const status = getByRole("status");
+      expect(status).toHaveTextContent("Loading profile");
+      expect(status.querySelector(".rounded-full")).toBeInTheDocument();
+    });
   });
 });
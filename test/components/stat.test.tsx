@@ -1,10 +1,191 @@
 import { describe, it, expect } from "vitest";
 import { render } from "@solidjs/testing-library";
-import Stat from "@/components/stat";
+import { Stats, Stat, StatTitle, StatValue, StatDesc, StatFigure, StatActions } from "@/components/stat";
 
 describe("Stat Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Stat />);
-    expect(getByText("Stat Component")).toBeInTheDocument();
+  describe("Stats", () => {
+    it("renders a horizontal DaisyUI stats container by default", () => {
+      const { container } = render(() => (
+        <Stats>
+          <Stat title="Downloads" value={31000} />
+        </Stats>
+      ));
+      expect(container.firstChild).toHaveClass("stats", "stats-horizontal");
+    });
+
+    it("applies the vertical layout", () => {
+      const { container } = render(() => <Stats orientation="vertical" />);
+      expect(container.firstChild).toHaveClass("stats-vertical");
+      expect(container.firstChild).not.toHaveClass("stats-horizontal");
+    });
+
+    it("switches to horizontal from a breakpoint", () => {
+      const { container } = render(() => <Stats horizontalFrom="lg" />);
+      expect(container.firstChild).toHaveClass("stats-vertical", "lg:stats-horizontal");
+    });
+
+    it("renders a labeled group", () => {
+      const { getByRole } = render(() => <Stats aria-label="Traffic" />);
+      expect(getByRole("group", { name: "Traffic" })).toHaveClass("stats");
+    });
+
+    it("applies custom class and classList", () => {
+      const { container } = render(() => <Stats class="shadow" classList={{ "is-active": true }} />);
+      expect(container.firstChild).toHaveClass("stats", "shadow", "is-active");
+    });
+  });
+
+  describe("Stat", () => {
+    it("renders title, value and description from props", () => {
+      const { container } = render(() => <Stat title="Total Page Views" value="89,400" desc="21% more than last month" />);
+      const stat = container.firstChild as HTMLElement;
+      expect(stat).toHaveClass("stat");
+      expect(stat.querySelector(".stat-title")).toHaveTextContent("Total Page Views");
+      expect(stat.querySelector(".stat-value")).toHaveTextContent("89,400");
+      expect(stat.querySelector(".stat-desc")).toHaveTextContent("21% more than last month");
+    });
+
+    it("renders figure, actions and sparkline slots", () => {
+      const { container } = render(() => (
+        <Stat
+          title="Balance"
+          figure={<svg data-testid="figure" />}
+          actions={<button type="button">Withdraw</button>}
+          sparkline={<svg data-testid="sparkline" />}
+        />
+      ));
+      expect(container.querySelector(".stat-figure [data-testid='figure']")).toBeInTheDocument();
+      expect(container.querySelector(".stat-actions")).toHaveTextContent("Withdraw");
+      expect(container.querySelector("[data-slot='sparkline'] [data-testid='sparkline']")).toBeInTheDocument();
+    });
+
+    it("omits parts that are not given", () => {
+      const { container } = render(() => <Stat title="Users" />);
+      expect(container.querySelector(".stat-value")).not.toBeInTheDocument();
+      expect(container.querySelector(".stat-desc")).not.toBeInTheDocument();
+      expect(container.querySelector(".stat-figure")).not.toBeInTheDocument();
+    });
+
+    it("renders composed sub-components", () => {
+      const { container } = render(() => (
+        <Stat>
+          <StatFigure class="text-primary">★</StatFigure>
+          <StatTitle>New Users</StatTitle>
+          <StatValue class="text-secondary">4,200</StatValue>
+          <StatDesc>↗︎ 400 (22%)</StatDesc>
+          <StatActions>
+            <button type="button">Details</button>
+          </StatActions>
+        </Stat>
+      ));
+      expect(container.querySelector(".stat-figure")).toHaveClass("text-primary");
+      expect(container.querySelector(".stat-title")).toHaveTextContent("New Users");
+      expect(container.querySelector(".stat-value")).toHaveClass("text-secondary");
+      expect(container.querySelector(".stat-desc")).toHaveTextContent("↗︎ 400 (22%)");
+      expect(container.querySelector(".stat-actions")).toHaveTextContent("Details");
+    });
+
+    it("applies custom class and classList", () => {
+      const { container } = render(() => <Stat class="place-items-center" classList={{ "is-active": true }} />);
+      expect(container.firstChild).toHaveClass("stat", "place-items-center", "is-active");
+    });
+  });
+
+  describe("Number Formatting", () => {
+    it("formats numeric values with Intl.NumberFormat options", () => {
+      const { container } = render(() => (
+        <Stat title="Revenue" value={1234.5} locale="en-US" format={{ style: "currency", currency: "USD" }} />
+      ));
+      expect(container.querySelector(".stat-value")).toHaveTextContent("$1,234.50");
+    });
+
+    it("accepts a formatter instance", () => {
+      const formatter = new Intl.NumberFormat("en-US", { notation: "compact" });
+      const { container } = render(() => <Stat value={31000} format={formatter} />);
+      expect(container.querySelector(".stat-value")).toHaveTextContent("31K");
+    });
+
+    it("formats StatValue on its own", () => {
+      const { container } = render(() => <StatValue value={0.42} locale="en-US" format={{ style: "percent" }} />);
+      expect(container.firstChild).toHaveTextContent("42%");
+    });
+
+    it("shows StatValue children without a value", () => {
+      const { container } = render(() => <StatValue>86%</StatValue>);
+      expect(container.firstChild).toHaveTextContent("86%");
+    });
+  });
+
+  describe("Trend", () => {
+    it("shows an upward delta in success color", () => {
+      const { container } = render(() => <Stat value={4200} delta={400} locale="en-US" desc="since last month" />);
+      const trend = container.querySelector("[data-trend]") as HTMLElement;
+      expect(trend).toHaveAttribute("data-trend", "up");
+      expect(trend).toHaveClass("text-success");
+      expect(trend).toHaveTextContent("↗︎Increased by 400");
+      expect(container.querySelector(".stat-desc")).toHaveTextContent("since last month");
+    });
+
+    it("shows a downward delta in error color with its absolute value", () => {
+      const { container } = render(() => <Stat value={1200} delta={-90} locale="en-US" />);
+      const trend = container.querySelector("[data-trend]") as HTMLElement;
+      expect(trend).toHaveAttribute("data-trend", "down");
+      expect(trend).toHaveClass("text-error");
+      expect(trend).toHaveTextContent("↘︎Decreased by 90");
+    });
+
+    it("formats the delta with deltaFormat", () => {
+      const { container } = render(() => (
+        <Stat value={4200} delta={0.22} deltaFormat={{ style: "percent" }} locale="en-US" />
+      ));
+      expect(container.querySelector("[data-trend]")).toHaveTextContent("22%");
+    });
+
+    it("treats a zero delta as neutral", () => {
+      const { container } = render(() => <Stat value={10} delta={0} />);
+      const trend = container.querySelector("[data-trend]") as HTMLElement;
+      expect(trend).toHaveAttribute("data-trend", "neutral");
+      expect(trend).not.toHaveClass("text-success");
+      expect(trend).not.toHaveClass("text-error");
+    });
+
+    it("inverts the trend colors", () => {
+      const { container } = render(() => <Stat title="Bounce rate" delta={-3} invertTrend />);
+      expect(container.querySelector("[data-trend]")).toHaveClass("text-success");
+    });
+
+    it("shows an explicit trend without a delta", () => {
+      const { container } = render(() => <Stat trend="up" desc="Trending" />);
+      expect(container.querySelector("[data-trend]")).toHaveAttribute("data-trend", "up");
+      expect(container.querySelector(".stat-desc")).toHaveTextContent("Trending");
+    });
+  });
+
+  describe("Loading", () => {
+    it("shows skeleton placeholders instead of the content", () => {
+      const { container } = render(() => <Stat loading title="Downloads" value={31000} desc="Jan 1st - Feb 1st" />);
+      const stat = container.firstChild as HTMLElement;
+      expect(stat).toHaveAttribute("aria-busy", "true");
+      expect(stat).not.toHaveTextContent("Downloads");
+      expect(stat.querySelector(".stat-title .skeleton")).toBeInTheDocument();
+      expect(stat.querySelector(".stat-value .skeleton")).toBeInTheDocument();
+      expect(stat.querySelector(".stat-desc .skeleton")).toBeInTheDocument();
+      expect(stat.querySelector(".stat-figure")).not.toBeInTheDocument();
+    });
+
+    it("includes a figure placeholder when a figure is given", () => {
+      const { container } = render(() => <Stat loading figure={<svg />} />);
+      expect(container.querySelector(".stat-figure .skeleton")).toBeInTheDocument();
+    });
+
+    it("hides composed children while loading", () => {
+      const { container, queryByText } = render(() => (
+        <Stat loading>
+          <StatTitle>New Users</StatTitle>
+        </Stat>
+      ));
+      expect(queryByText("New Users")).not.toBeInTheDocument();
+      expect(container.firstChild).toHaveAttribute("aria-busy", "true");
+    });
   });
 });
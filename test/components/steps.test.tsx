@@ -1,10 +1,176 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
-import Steps from "@/components/steps";
+import { describe, it, expect, vi } from "vitest";
+import { render, fireEvent } from "@solidjs/testing-library";
+import Steps, { Step, StepItem } from "@/components/steps";
+
+const items: StepItem[] = [{ label: "Register" }, { label: "Choose plan" }, { label: "Purchase" }, { label: "Receive" }];
 
 describe("Steps Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Steps />);
-    expect(getByText("Steps Component")).toBeInTheDocument();
+  describe("Basic Rendering", () => {
+    it("renders an ordered list of steps", () => {
+      const { container, getAllByRole } = render(() => <Steps items={items} aria-label="Checkout" />);
+      const list = container.firstChild as HTMLElement;
+      expect(list.tagName).toBe("OL");
+      expect(list).toHaveClass("steps");
+      expect(list).toHaveAttribute("aria-label", "Checkout");
+
+      const steps = getAllByRole("listitem");
+      expect(steps).toHaveLength(4);
+      steps.forEach((step) => expect(step).toHaveClass("step"));
+      expect(steps[1]).toHaveTextContent("Choose plan");
+    });
+
+    it("renders Step children", () => {
+      const { getAllByRole } = render(() => (
+        <Steps>
+          <Step status="completed">Register</Step>
+          <Step status="current" color="accent">
+            Choose plan
+          </Step>
+          <Step>Purchase</Step>
+        </Steps>
+      ));
+      const steps = getAllByRole("listitem");
+      expect(steps).toHaveLength(3);
+      expect(steps[0]).toHaveClass("step-primary");
+      expect(steps[1]).toHaveClass("step-accent");
+      expect(steps[1]).toHaveAttribute("aria-current", "step");
+      expect(steps[2]).not.toHaveClass("step-primary");
+    });
+
+    it("applies custom class and classList", () => {
+      const { container } = render(() => <Steps items={items} class="w-full" classList={{ "is-active": true }} />);
+      expect(container.firstChild).toHaveClass("steps", "w-full", "is-active");
+    });
+
+    it("applies custom step classes", () => {
+      const { getByRole } = render(() => (
+        <Steps>
+          <Step class="custom-step">Register</Step>
+        </Steps>
+      ));
+      expect(getByRole("listitem")).toHaveClass("step", "custom-step");
+    });
+  });
+
+  describe("Orientation", () => {
+    it("is horizontal by default", () => {
+      const { container } = render(() => <Steps items={items} />);
+      expect(container.firstChild).not.toHaveClass("steps-vertical");
+    });
+
+    it("applies the vertical layout", () => {
+      const { container } = render(() => <Steps items={items} orientation="vertical" />);
+      expect(container.firstChild).toHaveClass("steps-vertical");
+    });
+
+    it("switches to horizontal from a breakpoint", () => {
+      const { container } = render(() => <Steps items={items} horizontalFrom="lg" />);
+      expect(container.firstChild).toHaveClass("steps-vertical", "lg:steps-horizontal");
+    });
+  });
+
+  describe("Status", () => {
+    it("derives statuses from current", () => {
+      const { getAllByRole } = render(() => <Steps items={items} current={2} />);
+      const steps = getAllByRole("listitem");
+      expect(steps[0]).toHaveClass("step-primary");
+      expect(steps[1]).toHaveClass("step-primary");
+      expect(steps[2]).toHaveClass("step-primary");
+      expect(steps[3]).not.toHaveClass("step-primary");
+      expect(steps[2]).toHaveAttribute("aria-current", "step");
+      expect(steps.filter((step) => step.hasAttribute("aria-current"))).toHaveLength(1);
+    });
+
+    it("applies the color to completed and current steps", () => {
+      const { getAllByRole } = render(() => <Steps items={items} current={1} color="success" />);
+      const steps = getAllByRole("listitem");
+      expect(steps[0]).toHaveClass("step-success");
+      expect(steps[1]).toHaveClass("step-success");
+      expect(steps[2]).not.toHaveClass("step-success");
+    });
+
+    it("leaves all steps pending without current", () => {
+      const { getAllByRole } = render(() => <Steps items={items} />);
+      getAllByRole("listitem").forEach((step) => {
+        expect(step).not.toHaveClass("step-primary");
+        expect(step).not.toHaveAttribute("aria-current");
+      });
+    });
+
+    it("renders an error state", () => {
+      const { getAllByRole } = render(() => (
+        <Steps items={[{ label: "Register" }, { label: "Payment", status: "error", content: "✕" }]} current={1} />
+      ));
+      const step = getAllByRole("listitem")[1];
+      expect(step).toHaveClass("step-error");
+      expect(step).not.toHaveClass("step-primary");
+      expect(step).toHaveAttribute("data-content", "✕");
+      expect(step).toHaveTextContent("Payment (error)");
+    });
+
+    it("announces completed steps", () => {
+      const { getAllByRole } = render(() => <Steps items={items} current={1} />);
+      const steps = getAllByRole("listitem");
+      expect(steps[0]).toHaveTextContent("Register (completed)");
+      expect(steps[1]).toHaveTextContent(/^Choose plan$/);
+    });
+  });
+
+  describe("Markers", () => {
+    it("sets custom markers through data-content", () => {
+      const { getAllByRole } = render(() => (
+        <Steps items={[{ label: "Step 1", content: "?" }, { label: "Step 2", content: "★" }, { label: "Step 3" }]} />
+      ));
+      const steps = getAllByRole("listitem");
+      expect(steps[0]).toHaveAttribute("data-content", "?");
+      expect(steps[1]).toHaveAttribute("data-content", "★");
+      expect(steps[2]).not.toHaveAttribute("data-content");
+    });
+
+    it("renders custom icons", () => {
+      const { getAllByRole } = render(() => (
+        <Steps items={[{ label: "Step 1", icon: <svg data-testid="icon" /> }, { label: "Step 2" }]} />
+      ));
+      const icon = getAllByRole("listitem")[0].querySelector(".step-icon");
+      expect(icon).toBeInTheDocument();
+      expect(icon?.querySelector("[data-testid='icon']")).toBeInTheDocument();
+      expect(getAllByRole("listitem")[1].querySelector(".step-icon")).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Navigation", () => {
+    it("renders plain labels without onStepClick", () => {
+      const { queryAllByRole } = render(() => <Steps items={items} />);
+      expect(queryAllByRole("button")).toHaveLength(0);
+    });
+
+    it("makes steps clickable with onStepClick", () => {
+      const onStepClick = vi.fn();
+      const { getByRole } = render(() => <Steps items={items} current={2} onStepClick={onStepClick} />);
+      fireEvent.click(getByRole("button", { name: /Choose plan/ }));
+      expect(onStepClick).toHaveBeenCalledWith(1, items[1]);
+    });
+
+    it("disables steps marked as disabled", () => {
+      const onStepClick = vi.fn();
+      const { getByRole } = render(() => (
+        <Steps items={[{ label: "Register" }, { label: "Purchase", disabled: true }]} onStepClick={onStepClick} />
+      ));
+      const button = getByRole("button", { name: "Purchase" });
+      expect(button).toBeDisabled();
+      fireEvent.click(button);
+      expect(onStepClick).not.toHaveBeenCalled();
+    });
+
+    it("supports clickable Step children", () => {
+      const onClick = vi.fn();
+      const { getByRole } = render(() => (
+        <Steps>
+          <Step onClick={onClick}>Register</Step>
+        </Steps>
+      ));
+      fireEvent.click(getByRole("button", { name: "Register" }));
+      expect(onClick).toHaveBeenCalled();
+    });
   });
 });
@@ -1,12 +1,313 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
-import ThemeController from "@/components/theme-controller";
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+import { render, fireEvent, cleanup } from "@solidjs/testing-library";
+import { createSignal } from "solid-js";
+import {
+  ThemeController,
+  ThemeProvider,
+  useTheme,
+  createThemeScript,
+  themeScript,
+} from "@/components/theme-controller";
 
-describe("Theme Controller Component", () => {
-  it("renders correctly", () => {
+// Stubs matchMedia with a controllable dark preference
+const mockColorScheme = (dark: boolean) => {
+  const listeners: ((event: { matches: boolean }) => void)[] = [];
+  vi.stubGlobal(
+    "matchMedia",
+    vi.fn(() => ({
+      matches: dark,
+      addEventListener: (_: string, listener: (event: { matches: boolean }) => void) => listeners.push(listener),
+      removeEventListener: vi.fn(),
+    }))
+  );
+  return (matches: boolean) => listeners.forEach((listener) => listener({ matches }));
+};
+
+function ThemeProbe() {
+  const theme = useTheme();
+  return (
+    <div>
+      <span data-testid="theme">{theme.theme()}</span>
+      <span data-testid="resolved">{theme.resolvedTheme()}</span>
+      <button onClick={() => theme.setTheme("dark")}>Dark</button>
+      <button onClick={() => theme.setTheme("system")}>System</button>
+    </div>
+  );
+}
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  document.documentElement.removeAttribute("data-theme");
+});
+
+describe("ThemeProvider", () => {
+  it("applies the resolved system theme to the document", () => {
+    mockColorScheme(true);
+    const { getByTestId } = render(() => (
+      <ThemeProvider>
+        <ThemeProbe />
+      </ThemeProvider>
+    ));
+    expect(getByTestId("theme")).toHaveTextContent("system");
+    expect(getByTestId("resolved")).toHaveTextContent("dark");
+    expect(document.documentElement).toHaveAttribute("data-theme", "dark");
+  });
+
+  it("follows system preference changes", () => {
+    const setDark = mockColorScheme(false);
+    render(() => <ThemeProvider lightTheme="cupcake" darkTheme="dracula" />);
+    expect(document.documentElement).toHaveAttribute("data-theme", "cupcake");
+
+    setDark(true);
+    expect(document.documentElement).toHaveAttribute("data-theme", "dracula");
+  });
+
+  it("uses the default theme", () => {
+    render(() => <ThemeProvider defaultTheme="retro" />);
+    expect(document.documentElement).toHaveAttribute("data-theme", "retro");
+  });
+
+  it("persists the selected theme", () => {
+    const onThemeChange = vi.fn();
+    const { getByText } = render(() => (
+      <ThemeProvider storageKey="app-theme" onThemeChange={onThemeChange}>
+        <ThemeProbe />
+      </ThemeProvider>
+    ));
+    fireEvent.click(getByText("Dark"));
+    expect(localStorage.getItem("app-theme")).toBe("dark");
+    expect(onThemeChange).toHaveBeenCalledWith("dark");
+    expect(document.documentElement).toHaveAttribute("data-theme", "dark");
+  });
+
+  it("restores the saved theme", () => {
+    localStorage.setItem("theme", "synthwave");
+    render(() => <ThemeProvider defaultTheme="light" />);
+    expect(document.documentElement).toHaveAttribute("data-theme", "synthwave");
+  });
+
+  it("neither saves nor restores when persist is false", () => {
+    localStorage.setItem("theme", "synthwave");
     const { getByText } = render(() => (
-      <ThemeController>Test Theme Controller</ThemeController>
+      <ThemeProvider defaultTheme="light" persist={false}>
+        <ThemeProbe />
+      </ThemeProvider>
     ));
-    expect(getByText("Test Theme Controller")).toBeInTheDocument();
+    expect(document.documentElement).toHaveAttribute("data-theme", "light");
+
+    fireEvent.click(getByText("Dark"));
+    expect(localStorage.getItem("theme")).toBe("synthwave");
+  });
+
+  it("follows theme changes from other tabs", () => {
+    render(() => <ThemeProvider defaultTheme="light" />);
+    window.dispatchEvent(new StorageEvent("storage", { key: "theme", newValue: "dark" }));
+    expect(document.documentElement).toHaveAttribute("data-theme", "dark");
+  });
+
+  it("follows the theme prop in controlled mode", () => {
+    const [theme, setTheme] = createSignal("light");
+    const { getByText } = render(() => (
+      <ThemeProvider theme={theme()} onThemeChange={setTheme}>
+        <ThemeProbe />
+      </ThemeProvider>
+    ));
+    expect(document.documentElement).toHaveAttribute("data-theme", "light");
+
+    fireEvent.click(getByText("Dark"));
+    expect(theme()).toBe("dark");
+    expect(document.documentElement).toHaveAttribute("data-theme", "dark");
+  });
+
+  it("applies the theme to a scoped element", () => {
+    const { getByTestId } = render(() => (
+      <ThemeProvider scoped defaultTheme="dark" class="rounded-box">
+        <ThemeProbe />
+      </ThemeProvider>
+    ));
+    const scope = getByTestId("theme").closest("[data-theme]");
+    expect(scope).toHaveAttribute("data-theme", "dark");
+    expect(scope).toHaveClass("rounded-box");
+    expect(document.documentElement).not.toHaveAttribute("data-theme");
+  });
+
+  it("restores the previous document theme on cleanup", () => {
+    document.documentElement.setAttribute("data-theme", "corporate");
+    const { unmount } = render(() => <ThemeProvider defaultTheme="dark" />);
+    expect(document.documentElement).toHaveAttribute("data-theme", "dark");
+
+    unmount();
+    expect(document.documentElement).toHaveAttribute("data-theme", "corporate");
+  });
+
+  it("throws when useTheme is used outside a provider", () => {
+    expect(() => render(() => <ThemeProbe />)).toThrow("useTheme must be used within a ThemeProvider component");
+  });
+});
+
+describe("createThemeScript", () => {
+  const runScript = (script: string) => new Function(script)();
+
+  it("applies the saved theme", () => {
+    localStorage.setItem("app-theme", "retro");
+    runScript(createThemeScript({ storageKey: "app-theme" }));
+    expect(document.documentElement).toHaveAttribute("data-theme", "retro");
+  });
+
+  it("resolves the system theme", () => {
+    mockColorScheme(true);
+    runScript(themeScript);
+    expect(document.documentElement).toHaveAttribute("data-theme", "dark");
+
+    runScript(createThemeScript({ darkTheme: "dracula" }));
+    expect(document.documentElement).toHaveAttribute("data-theme", "dracula");
+  });
+
+  it("uses the default theme when nothing is saved", () => {
+    runScript(createThemeScript({ defaultTheme: "cupcake" }));
+    expect(document.documentElement).toHaveAttribute("data-theme", "cupcake");
+  });
+
+  it("escapes values that could close the script tag", () => {
+    expect(createThemeScript({ storageKey: "</script>" })).not.toContain("</script>");
+  });
+});
+
+describe("ThemeController", () => {
+  describe("Toggle", () => {
+    it("renders a swap with a theme-controller checkbox", () => {
+      const { getByRole, container } = render(() => <ThemeController />);
+      const toggle = getByRole("switch", { name: "Toggle dark mode" });
+      expect(toggle).toHaveClass("swap", "swap-rotate");
+
+      const input = container.querySelector("input[type=checkbox]") as HTMLInputElement;
+      expect(input).toHaveClass("theme-controller");
+      expect(input.value).toBe("dark");
+      expect(input).not.toBeChecked();
+    });
+
+    it("toggles between the light and dark themes without a provider", () => {
+      const onChange = vi.fn();
+      const { getByRole } = render(() => (
+        <ThemeController lightTheme="cupcake" darkTheme="dracula" onChange={onChange} />
+      ));
+      const toggle = getByRole("switch");
+
+      fireEvent.click(toggle);
+      expect(onChange).toHaveBeenLastCalledWith("dracula");
+      expect(toggle).toHaveAttribute("aria-checked", "true");
+
+      fireEvent.click(toggle);
+      expect(onChange).toHaveBeenLastCalledWith("cupcake");
+      expect(toggle).toHaveAttribute("aria-checked", "false");
+    });
+
+    it("selects the provider theme", () => {
+      const { getByRole } = render(() => (
+        <ThemeProvider defaultTheme="light">
+          <ThemeController />
+        </ThemeProvider>
+      ));
+      fireEvent.click(getByRole("switch"));
+      expect(document.documentElement).toHaveAttribute("data-theme", "dark");
+      expect(localStorage.getItem("theme")).toBe("dark");
+    });
+
+    it("shows the resolved system theme", () => {
+      mockColorScheme(true);
+      const { getByRole } = render(() => (
+        <ThemeProvider>
+          <ThemeController />
+        </ThemeProvider>
+      ));
+      expect(getByRole("switch")).toHaveAttribute("aria-checked", "true");
+    });
+
+    it("renders custom icons", () => {
+      const { getByText } = render(() => <ThemeController lightIcon="Light" darkIcon="Dark" />);
+      expect(getByText("Light").closest(".swap-off")).toBeInTheDocument();
+      expect(getByText("Dark").closest(".swap-on")).toBeInTheDocument();
+    });
+  });
+
+  describe("Radio", () => {
+    it("renders a radio group of theme-controller inputs", () => {
+      const { getByRole } = render(() => (
+        <ThemeController variant="radio" themes={["light", "dark", "cupcake"]} defaultValue="dark" />
+      ));
+      const group = getByRole("radiogroup", { name: "Theme" });
+      const radios = group.querySelectorAll("input[type=radio]");
+      expect(radios).toHaveLength(3);
+      radios.forEach((radio) => expect(radio).toHaveClass("radio", "theme-controller"));
+      expect(getByRole("radio", { name: "Dark" })).toBeChecked();
+      expect(getByRole("radio", { name: "Cupcake" })).toHaveAttribute("value", "cupcake");
+    });
+
+    it("selects a theme", () => {
+      const onChange = vi.fn();
+      const { getByRole } = render(() => (
+        <ThemeProvider themes={["light", "dark", "retro"]}>
+          <ThemeController variant="radio" includeSystem onChange={onChange} />
+        </ThemeProvider>
+      ));
+      expect(getByRole("radio", { name: "System" })).toBeChecked();
+
+      fireEvent.click(getByRole("radio", { name: "Retro" }));
+      expect(onChange).toHaveBeenCalledWith("retro");
+      expect(document.documentElement).toHaveAttribute("data-theme", "retro");
+    });
+
+    it("keeps the checked radio when a controlled value is not updated", () => {
+      const { getByRole } = render(() => <ThemeController variant="radio" value="light" />);
+      fireEvent.click(getByRole("radio", { name: "Dark" }));
+      expect(getByRole("radio", { name: "Light" })).toBeChecked();
+      expect(getByRole("radio", { name: "Dark" })).not.toBeChecked();
+    });
+
+    it("uses custom labels", () => {
+      const { getByRole } = render(() => (
+        <ThemeController variant="radio" getThemeLabel={(theme) => `${theme} mode`} />
+      ));
+      expect(getByRole("radio", { name: "dark mode" })).toBeInTheDocument();
+    });
+
+    it("omits the theme-controller class inside a scoped provider", () => {
+      const { getByRole } = render(() => (
+        <ThemeProvider scoped>
+          <ThemeController variant="radio" />
+        </ThemeProvider>
+      ));
+      expect(getByRole("radio", { name: "Dark" })).not.toHaveClass("theme-controller");
+    });
+  });
+
+  describe("Dropdown", () => {
+    it("renders a dropdown of theme buttons", () => {
+      const { container, getByRole } = render(() => (
+        <ThemeController variant="dropdown" label="Pick theme" class="dropdown-end" />
+      ));
+      expect(container.firstChild).toHaveClass("dropdown", "dropdown-end");
+      expect(getByRole("button", { name: "Pick theme" })).toHaveClass("btn");
+
+      const option = getByRole("radio", { name: "Dark" });
+      expect(option).toHaveClass("btn", "btn-ghost", "theme-controller");
+      expect(option.closest(".dropdown-content")).toBeInTheDocument();
+    });
+
+    it("selects a theme", () => {
+      const { getByRole } = render(() => (
+        <ThemeProvider defaultTheme="light">
+          <ThemeController variant="dropdown" />
+        </ThemeProvider>
+      ));
+      fireEvent.click(getByRole("radio", { name: "Dark" }));
+      expect(getByRole("radio", { name: "Dark" })).toBeChecked();
+      expect(document.documentElement).toHaveAttribute("data-theme", "dark");
+    });
   });
 });
@@ -1,10 +1,283 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
-import Toast from "@/components/toast";
+import { fireEvent, render } from "@solidjs/testing-library";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Toast, ToastProvider, useToast, ToastApi } from "@/components/toast";
+import type { ToastProviderProps } from "@/components/toast";
+
+// Renders a provider and captures the toast API from inside it
+const renderWithToast = (props: Omit<ToastProviderProps, "children"> = {}) => {
+  let api!: ToastApi;
+  const Capture = () => {
+    api = useToast();
+    return null;
+  };
+  const result = render(() => (
+    <ToastProvider disablePortal {...props}>
+      <Capture />
+    </ToastProvider>
+  ));
+  return { ...result, api };
+};
 
 describe("Toast Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Toast />);
-    expect(getByText("Toast Component")).toBeInTheDocument();
+  describe("Basic Rendering", () => {
+    it("renders children inside the toast container", () => {
+      const { getByText } = render(() => <Toast>Saved</Toast>);
+      expect(getByText("Saved")).toBeInTheDocument();
+    });
+
+    it("applies default DaisyUI placement classes", () => {
+      const { container } = render(() => <Toast />);
+      expect(container.firstChild).toHaveClass("toast", "toast-bottom", "toast-end");
+    });
+
+    it("applies custom placement classes", () => {
+      const { container } = render(() => <Toast vertical="top" horizontal="center" />);
+      expect(container.firstChild).toHaveClass("toast-top", "toast-center");
+      expect(container.firstChild).not.toHaveClass("toast-bottom");
+    });
+
+    it("applies custom class and classList", () => {
+      const { container } = render(() => <Toast class="custom" classList={{ extra: true }} />);
+      expect(container.firstChild).toHaveClass("custom", "extra");
+    });
+
+    it("is a polite live region", () => {
+      const { getByRole } = render(() => <Toast />);
+      const region = getByRole("region", { name: "Notifications" });
+      expect(region).toHaveAttribute("aria-live", "polite");
+    });
+  });
+});
+
+describe("ToastProvider", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("Showing Toasts", () => {
+    it("renders the live region before any toast is shown", () => {
+      const { getByRole } = renderWithToast();
+      expect(getByRole("region")).toHaveAttribute("aria-live", "polite");
+    });
+
+    it("shows a toast using the Alert component", () => {
+      const { api, getByText, container } = renderWithToast();
+      api.show("Hello");
+      expect(getByText("Hello")).toBeInTheDocument();
+      expect(container.querySelector(".toast .alert")).toHaveClass("alert-info");
+    });
+
+    it("returns a generated id", () => {
+      const { api, container } = renderWithToast();
+      const id = api.show("Hello");
+      expect(id).toBeTruthy();
+      expect(container.querySelector(`[data-toast-id="${id}"]`)).toBeInTheDocument();
+    });
+
+    it("supports typed helpers", () => {
+      const { api, getByText } = renderWithToast();
+      api.success("Done");
+      api.error("Failed");
+      api.warning("Careful");
+      api.info("FYI");
+      expect(getByText("Done").closest(".alert")).toHaveClass("alert-success");
+      expect(getByText("Failed").closest(".alert")).toHaveClass("alert-error");
+      expect(getByText("Careful").closest(".alert")).toHaveClass("alert-warning");
+    });
+
+    it("applies provider placement to the stack", () => {
+      const { container } = renderWithToast({ vertical: "top", horizontal: "start" });
+      expect(container.querySelector(".toast")).toHaveClass("toast-top", "toast-start");
+    });
+
+    it("passes style options to the alert", () => {
+      const { api, getByText } = renderWithToast();
+      api.show("Soft", { style: "soft" });
+      expect(getByText("Soft").closest(".alert")).toHaveClass("alert-soft");
+    });
+
+    it("updates an existing toast when shown again with the same id", () => {
+      const { api, queryByText, getByText, container } = renderWithToast();
+      api.show("First", { id: "sync" });
+      api.show("Second", { id: "sync" });
+      expect(queryByText("First")).not.toBeInTheDocument();
+      expect(getByText("Second")).toBeInTheDocument();
+      expect(container.querySelectorAll("[data-toast-id]")).toHaveLength(1);
+    });
+
+    it("throws when useToast is used outside a provider", () => {
+      const Orphan = () => {
+        useToast();
+        return null;
+      };
+      expect(() => render(() => <Orphan />)).toThrow("useToast must be used within a ToastProvider component");
+    });
+  });
+
+  describe("Auto Dismiss", () => {
+    it("dismisses after the default duration", () => {
+      const { api, queryByText } = renderWithToast();
+      api.show("Bye");
+      vi.advanceTimersByTime(4999);
+      expect(queryByText("Bye")).toBeInTheDocument();
+      vi.advanceTimersByTime(1);
+      expect(queryByText("Bye")).not.toBeInTheDocument();
+    });
+
+    it("respects per-toast and provider durations", () => {
+      const { api, queryByText } = renderWithToast({ duration: 1000 });
+      api.show("Provider");
+      api.show("Own", { duration: 3000 });
+      vi.advanceTimersByTime(1000);
+      expect(queryByText("Provider")).not.toBeInTheDocument();
+      expect(queryByText("Own")).toBeInTheDocument();
+      vi.advanceTimersByTime(2000);
+      expect(queryByText("Own")).not.toBeInTheDocument();
+    });
+
+    it("keeps toasts with a zero duration", () => {
+      const { api, queryByText } = renderWithToast();
+      api.show("Sticky", { duration: 0 });
+      vi.advanceTimersByTime(60000);
+      expect(queryByText("Sticky")).toBeInTheDocument();
+    });
+
+    it("pauses while hovered and resumes with the remaining time", () => {
+      const { api, container, queryByText } = renderWithToast({ duration: 1000 });
+      const id = api.show("Hover me");
+      const item = container.querySelector(`[data-toast-id="${id}"]`)!;
+
+      vi.advanceTimersByTime(600);
+      fireEvent.mouseEnter(item);
+      vi.advanceTimersByTime(5000);
+      expect(queryByText("Hover me")).toBeInTheDocument();
+
+      fireEvent.mouseLeave(item);
+      vi.advanceTimersByTime(399);
+      expect(queryByText("Hover me")).toBeInTheDocument();
+      vi.advanceTimersByTime(1);
+      expect(queryByText("Hover me")).not.toBeInTheDocument();
+    });
+
+    it("does not pause when pauseOnHover is false", () => {
+      const { api, container, queryByText } = renderWithToast({ duration: 1000, pauseOnHover: false });
+      const id = api.show("No pause");
+      fireEvent.mouseEnter(container.querySelector(`[data-toast-id="${id}"]`)!);
+      vi.advanceTimersByTime(1000);
+      expect(queryByText("No pause")).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Dismiss and Update", () => {
+    it("dismisses a toast by id and calls onDismiss", () => {
+      const onDismiss = vi.fn();
+      const { api, queryByText } = renderWithToast();
+      const id = api.show("Remove me", { onDismiss });
+      api.dismiss(id);
+      expect(queryByText("Remove me")).not.toBeInTheDocument();
+      expect(onDismiss).toHaveBeenCalledWith(id);
+    });
+
+    it("dismisses all toasts when no id is given", () => {
+      const { api, container } = renderWithToast();
+      api.show("One");
+      api.show("Two");
+      api.dismiss();
+      expect(container.querySelectorAll("[data-toast-id]")).toHaveLength(0);
+    });
+
+    it("dismisses through the alert close button", () => {
+      const { api, getByLabelText, queryByText } = renderWithToast();
+      api.show("Closable");
+      fireEvent.click(getByLabelText("Close"));
+      expect(queryByText("Closable")).not.toBeInTheDocument();
+    });
+
+    it("hides the close button when not dismissible", () => {
+      const { api, queryByLabelText } = renderWithToast();
+      api.show("Locked", { dismissible: false });
+      expect(queryByLabelText("Close")).not.toBeInTheDocument();
+    });
+
+    it("updates message and type and restarts the timer", () => {
+      const { api, getByText, queryByText } = renderWithToast({ duration: 1000 });
+      const id = api.show("Saving");
+      vi.advanceTimersByTime(800);
+      api.update(id, { message: "Saved", type: "success" });
+      expect(getByText("Saved").closest(".alert")).toHaveClass("alert-success");
+      vi.advanceTimersByTime(800);
+      expect(queryByText("Saved")).toBeInTheDocument();
+      vi.advanceTimersByTime(200);
+      expect(queryByText("Saved")).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Queue", () => {
+    it("limits visible toasts and queues the rest", () => {
+      const { api, container, queryByText } = renderWithToast({ maxVisible: 2, duration: 0 });
+      const first = api.show("One");
+      api.show("Two");
+      api.show("Three");
+      expect(container.querySelectorAll("[data-toast-id]")).toHaveLength(2);
+      expect(queryByText("Three")).not.toBeInTheDocument();
+
+      api.dismiss(first);
+      expect(queryByText("Three")).toBeInTheDocument();
+    });
+
+    it("starts a queued toast's timer only when it becomes visible", () => {
+      const { api, queryByText } = renderWithToast({ maxVisible: 1, duration: 1000 });
+      api.show("One");
+      api.show("Two");
+      vi.advanceTimersByTime(1000);
+      expect(queryByText("One")).not.toBeInTheDocument();
+      expect(queryByText("Two")).toBeInTheDocument();
+      vi.advanceTimersByTime(1000);
+      expect(queryByText("Two")).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Promise", () => {
+    it("shows a loading toast that becomes a success toast", async () => {
+      const { api, getByText, queryByLabelText } = renderWithToast();
+      let resolve!: (value: string) => void;
+      const tracked = new Promise<string>((r) => (resolve = r));
+
+      api.promise(tracked, {
+        loading: "Uploading",
+        success: (value) => `Uploaded ${value}`,
+        error: "Upload failed",
+      });
+
+      expect(getByText("Uploading")).toBeInTheDocument();
+      expect(queryByLabelText("Close")).not.toBeInTheDocument();
+      vi.advanceTimersByTime(60000);
+      expect(getByText("Uploading")).toBeInTheDocument();
+
+      resolve("report.pdf");
+      await vi.runAllTicks();
+      await tracked;
+
+      expect(getByText("Uploaded report.pdf").closest(".alert")).toHaveClass("alert-success");
+    });
+
+    it("shows an error toast when the promise rejects", async () => {
+      const { api, getByText } = renderWithToast();
+      const tracked = Promise.reject(new Error("boom"));
+
+      await expect(
+        api.promise(tracked, {
+          loading: "Working",
+          success: "Done",
+          error: (error) => `Failed: ${(error as Error).message}`,
+        })
+      ).rejects.toThrow("boom");
+
+      expect(getByText("Failed: boom").closest(".alert")).toHaveClass("alert-error");
+    });
   });
 });
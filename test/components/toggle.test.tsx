@@ -1,10 +1,185 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
+import { describe, it, expect, vi } from "vitest";
+import { render, fireEvent } from "@solidjs/testing-library";
+import { createSignal } from "solid-js";
 import Toggle from "@/components/toggle";
+import Field from "@/components/fieldset/field";
+
+const deferred = () => {
+  let resolve!: (value?: boolean) => void;
+  let reject!: (reason?: unknown) => void;
+  const promise = new Promise<boolean | void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+const settle = () => new Promise((resolve) => setTimeout(resolve));
 
 describe("Toggle Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Toggle />);
-    expect(getByText("Toggle Component")).toBeInTheDocument();
+  describe("Basic Rendering", () => {
+    it("renders a DaisyUI toggle switch", () => {
+      const { getByRole } = render(() => <Toggle aria-label="Notifications" />);
+      const toggle = getByRole("switch", { name: "Notifications" });
+      expect(toggle).toHaveAttribute("type", "checkbox");
+      expect(toggle).toHaveClass("toggle");
+      expect(toggle).not.toBeChecked();
+    });
+
+    it("applies size, color, class and classList", () => {
+      const { getByRole } = render(() => (
+        <Toggle size="xl" color="success" class="ml-2" classList={{ "my-1": true }} />
+      ));
+      expect(getByRole("switch")).toHaveClass("toggle", "toggle-xl", "toggle-success", "ml-2", "my-1");
+    });
+
+    it("supports disabled and indeterminate states", () => {
+      const { getByRole } = render(() => <Toggle disabled indeterminate />);
+      const toggle = getByRole("switch") as HTMLInputElement;
+      expect(toggle).toBeDisabled();
+      expect(toggle.indeterminate).toBe(true);
+    });
+
+    it("passes form attributes to the input", () => {
+      const { getByRole } = render(() => <Toggle name="beta" value="on" required />);
+      const toggle = getByRole("switch");
+      expect(toggle).toHaveAttribute("name", "beta");
+      expect(toggle).toHaveAttribute("value", "on");
+      expect(toggle).toBeRequired();
+    });
+
+    it("shows icons in the knob", () => {
+      const { container, getByRole, getByText } = render(() => (
+        <Toggle onIcon="✓" offIcon="✕" color="primary" aria-label="Dark mode" />
+      ));
+      const label = container.querySelector("label") as HTMLElement;
+      expect(label).toHaveClass("toggle", "toggle-primary");
+      expect(label.firstElementChild).toBe(getByRole("switch", { name: "Dark mode" }));
+      expect(label.children[1]).toBe(getByText("✕").closest("span"));
+      expect(label.children[2]).toBe(getByText("✓").closest("span"));
+      expect(getByRole("switch")).not.toHaveClass("toggle");
+    });
+  });
+
+  describe("Checked State", () => {
+    it("toggles in uncontrolled mode", () => {
+      const onChange = vi.fn();
+      const { getByRole } = render(() => <Toggle defaultChecked onChange={onChange} />);
+      const toggle = getByRole("switch");
+      expect(toggle).toBeChecked();
+
+      fireEvent.click(toggle);
+      expect(toggle).not.toBeChecked();
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+
+    it("follows the checked prop in controlled mode", () => {
+      const [checked, setChecked] = createSignal(false);
+      const { getByRole } = render(() => (
+        <Toggle checked={checked()} onChange={(event) => setChecked((event.target as HTMLInputElement).checked)} />
+      ));
+      const toggle = getByRole("switch");
+
+      fireEvent.click(toggle);
+      expect(checked()).toBe(true);
+      expect(toggle).toBeChecked();
+
+      setChecked(false);
+      expect(toggle).not.toBeChecked();
+    });
+
+    it("keeps the controlled state when it is not updated", () => {
+      const { getByRole } = render(() => <Toggle checked={false} onChange={() => {}} />);
+      const toggle = getByRole("switch");
+      fireEvent.click(toggle);
+      expect(toggle).not.toBeChecked();
+    });
+  });
+
+  describe("onBeforeChange", () => {
+    it("cancels the change when it returns false", () => {
+      const onChange = vi.fn();
+      const onBeforeChange = vi.fn(() => false);
+      const { getByRole } = render(() => <Toggle onBeforeChange={onBeforeChange} onChange={onChange} />);
+      const toggle = getByRole("switch");
+
+      fireEvent.click(toggle);
+      expect(onBeforeChange).toHaveBeenCalledWith(true);
+      expect(toggle).not.toBeChecked();
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it("shows Loading while a confirmation is pending and commits when it resolves", async () => {
+      const confirmation = deferred();
+      const onChange = vi.fn();
+      const { container, getByRole, queryByRole } = render(() => (
+        <Toggle onBeforeChange={() => confirmation.promise} onChange={onChange} />
+      ));
+      const toggle = getByRole("switch");
+
+      fireEvent.click(toggle);
+      expect(toggle).toBeChecked();
+      expect(toggle).toHaveAttribute("aria-busy", "true");
+      expect(container.querySelector(".loading")).toHaveAttribute("aria-label", "Loading");
+      expect(onChange).not.toHaveBeenCalled();
+
+      fireEvent.click(toggle);
+      expect(toggle).toBeChecked();
+
+      confirmation.resolve();
+      await settle();
+      expect(toggle).toBeChecked();
+      expect(toggle).not.toHaveAttribute("aria-busy");
+      expect(queryByRole("status")).toBeNull();
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+
+    it("rolls back when the confirmation rejects", async () => {
+      const confirmation = deferred();
+      const onChange = vi.fn();
+      const { getByRole } = render(() => (
+        <Toggle defaultChecked onBeforeChange={() => confirmation.promise} onChange={onChange} />
+      ));
+      const toggle = getByRole("switch");
+
+      fireEvent.click(toggle);
+      expect(toggle).not.toBeChecked();
+
+      confirmation.reject(new Error("Network error"));
+      await settle();
+      expect(toggle).toBeChecked();
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it("rolls back a controlled toggle when the confirmation resolves to false", async () => {
+      const [checked, setChecked] = createSignal(false);
+      const { getByRole } = render(() => (
+        <Toggle
+          checked={checked()}
+          onBeforeChange={async () => false}
+          onChange={(event) => setChecked((event.target as HTMLInputElement).checked)}
+        />
+      ));
+      const toggle = getByRole("switch");
+
+      fireEvent.click(toggle);
+      await settle();
+      expect(checked()).toBe(false);
+      expect(toggle).not.toBeChecked();
+    });
+  });
+
+  describe("Field Integration", () => {
+    it("takes id, description and error color from a Field", () => {
+      const { getByRole } = render(() => (
+        <Field label="Beta features" labelPlacement="end" hint="May be unstable" error="Required">
+          <Toggle />
+        </Field>
+      ));
+      const toggle = getByRole("switch", { name: "Beta features" });
+      expect(toggle).toHaveClass("toggle-error");
+      expect(toggle).toHaveAttribute("aria-invalid", "true");
+      expect(toggle.getAttribute("aria-describedby")).toContain("-hint");
+    });
   });
 });
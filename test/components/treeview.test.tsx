@@ -1,10 +1,363 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
-import Treeview from "@/components/treeview";
+import { fireEvent, render, waitFor } from "@solidjs/testing-library";
+import { describe, it, expect, vi } from "vitest";
+import { createSignal } from "solid-js";
+import Treeview, { TreeNode } from "@/components/treeview";
+
+const data: TreeNode[] = [
+  {
+    id: "src",
+    label: "src",
+    children: [
+      { id: "app", label: "app.tsx" },
+      { id: "index", label: "index.ts" },
+    ],
+  },
+  {
+    id: "docs",
+    label: "docs",
+    children: [{ id: "readme", label: "README.md" }],
+  },
+  { id: "package", label: "package.json" },
+];
+
+const item = (container: HTMLElement, id: string) =>
+  container.querySelector(`[data-node-id="${id}"]`) as HTMLElement;
+
+const row = (container: HTMLElement, id: string) => item(container, id).firstElementChild as HTMLElement;
 
 describe("Treeview Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Treeview />);
-    expect(getByText("Treeview Component")).toBeInTheDocument();
+  describe("Basic Rendering", () => {
+    it("renders a tree with DaisyUI menu class", () => {
+      const { getByRole } = render(() => <Treeview data={data} aria-label="Files" />);
+      const tree = getByRole("tree", { name: "Files" });
+      expect(tree).toHaveClass("menu");
+    });
+
+    it("renders root nodes as tree items", () => {
+      const { getAllByRole } = render(() => <Treeview data={data} />);
+      expect(getAllByRole("treeitem")).toHaveLength(3);
+    });
+
+    it("applies size, class and classList", () => {
+      const { getByRole } = render(() => (
+        <Treeview data={data} size="sm" class="custom" classList={{ extra: true }} />
+      ));
+      expect(getByRole("tree")).toHaveClass("menu-sm", "custom", "extra");
+    });
+
+    it("sets level, position and set size", () => {
+      const { container } = render(() => <Treeview data={data} defaultExpanded={["src"]} />);
+      expect(item(container, "src")).toHaveAttribute("aria-level", "1");
+      expect(item(container, "src")).toHaveAttribute("aria-setsize", "3");
+      expect(item(container, "index")).toHaveAttribute("aria-level", "2");
+      expect(item(container, "index")).toHaveAttribute("aria-posinset", "2");
+    });
+
+    it("renders icons and custom labels", () => {
+      const nodes: TreeNode<{ size: number }>[] = [
+        { id: "a", label: "a.txt", icon: <span data-testid="icon" />, data: { size: 4 } },
+      ];
+      const { getByTestId, getByText } = render(() => (
+        <Treeview data={nodes} renderLabel={(node) => `${node.label} (${node.data?.size} KB)`} />
+      ));
+      expect(getByTestId("icon")).toBeInTheDocument();
+      expect(getByText("a.txt (4 KB)")).toBeInTheDocument();
+    });
+
+    it("makes only one item tabbable", () => {
+      const { getAllByRole } = render(() => <Treeview data={data} />);
+      const tabbable = getAllByRole("treeitem").filter((el) => el.tabIndex === 0);
+      expect(tabbable).toHaveLength(1);
+    });
+  });
+
+  describe("Expansion", () => {
+    it("hides children until expanded", () => {
+      const { queryByText } = render(() => <Treeview data={data} />);
+      expect(queryByText("app.tsx")).not.toBeInTheDocument();
+    });
+
+    it("expands and collapses on click", () => {
+      const { container, queryByText } = render(() => <Treeview data={data} />);
+      fireEvent.click(row(container, "src"));
+      expect(queryByText("app.tsx")).toBeInTheDocument();
+      expect(item(container, "src")).toHaveAttribute("aria-expanded", "true");
+      expect(row(container, "src")).toHaveClass("menu-dropdown-toggle", "menu-dropdown-show");
+
+      fireEvent.click(row(container, "src"));
+      expect(queryByText("app.tsx")).not.toBeInTheDocument();
+      expect(item(container, "src")).toHaveAttribute("aria-expanded", "false");
+    });
+
+    it("does not set aria-expanded on leaf nodes", () => {
+      const { container } = render(() => <Treeview data={data} />);
+      expect(item(container, "package")).not.toHaveAttribute("aria-expanded");
+    });
+
+    it("supports controlled expanded state", () => {
+      const onExpandedChange = vi.fn();
+      const [expanded, setExpanded] = createSignal(new Set<string>());
+      const { container, queryByText } = render(() => (
+        <Treeview data={data} expanded={expanded()} onExpandedChange={onExpandedChange} />
+      ));
+
+      fireEvent.click(row(container, "src"));
+      expect(onExpandedChange).toHaveBeenCalledWith(new Set(["src"]));
+      expect(queryByText("app.tsx")).not.toBeInTheDocument();
+
+      setExpanded(new Set(["docs"]));
+      expect(queryByText("README.md")).toBeInTheDocument();
+    });
+  });
+
+  describe("Lazy Loading", () => {
+    const lazy: TreeNode[] = [{ id: "remote", label: "remote", hasChildren: true }];
+
+    it("loads children on first expand and shows a loading state", async () => {
+      let resolve!: (nodes: TreeNode[]) => void;
+      const loadChildren = vi.fn(() => new Promise<TreeNode[]>((r) => (resolve = r)));
+      const { container, getByText, findByText } = render(() => (
+        <Treeview data={lazy} loadChildren={loadChildren} />
+      ));
+
+      fireEvent.click(row(container, "remote"));
+      expect(loadChildren).toHaveBeenCalledWith(lazy[0]);
+      expect(item(container, "remote")).toHaveAttribute("aria-busy", "true");
+      expect(getByText("Loading…")).toBeInTheDocument();
+
+      resolve([{ id: "child", label: "child.txt" }]);
+      expect(await findByText("child.txt")).toBeInTheDocument();
+      expect(item(container, "remote")).not.toHaveAttribute("aria-busy");
+    });
+
+    it("does not reload children that were already loaded", async () => {
+      const loadChildren = vi.fn(async () => [{ id: "child", label: "child.txt" }]);
+      const { container, findByText } = render(() => <Treeview data={lazy} loadChildren={loadChildren} />);
+
+      fireEvent.click(row(container, "remote"));
+      await findByText("child.txt");
+      fireEvent.click(row(container, "remote"));
+      fireEvent.click(row(container, "remote"));
+      expect(loadChildren).toHaveBeenCalledTimes(1);
+    });
+
+    it("collapses the node and reports errors when loading fails", async () => {
+      const onLoadError = vi.fn();
+      const loadChildren = vi.fn(async () => {
+        throw new Error("offline");
+      });
+      const { container } = render(() => (
+        <Treeview data={lazy} loadChildren={loadChildren} onLoadError={onLoadError} />
+      ));
+
+      fireEvent.click(row(container, "remote"));
+      await waitFor(() => expect(onLoadError).toHaveBeenCalled());
+      expect(item(container, "remote")).toHaveAttribute("aria-expanded", "false");
+    });
+  });
+
+  describe("Selection", () => {
+    it("selects a single node on click", () => {
+      const onSelectedChange = vi.fn();
+      const { container } = render(() => <Treeview data={data} onSelectedChange={onSelectedChange} />);
+      fireEvent.click(row(container, "package"));
+      expect(item(container, "package")).toHaveAttribute("aria-selected", "true");
+      expect(row(container, "package")).toHaveClass("menu-active");
+      expect(onSelectedChange).toHaveBeenCalledWith(new Set(["package"]));
+
+      fireEvent.click(row(container, "docs"));
+      expect(item(container, "package")).toHaveAttribute("aria-selected", "false");
+    });
+
+    it("toggles several nodes in multiple mode", () => {
+      const { container, getByRole } = render(() => <Treeview data={data} selectionMode="multiple" />);
+      expect(getByRole("tree")).toHaveAttribute("aria-multiselectable", "true");
+      fireEvent.click(row(container, "package"));
+      fireEvent.click(row(container, "docs"));
+      expect(item(container, "package")).toHaveAttribute("aria-selected", "true");
+      expect(item(container, "docs")).toHaveAttribute("aria-selected", "true");
+
+      fireEvent.click(row(container, "package"));
+      expect(item(container, "package")).toHaveAttribute("aria-selected", "false");
+    });
+
+    it("does not select in none mode", () => {
+      const { container } = render(() => <Treeview data={data} selectionMode="none" />);
+      fireEvent.click(row(container, "package"));
+      expect(item(container, "package")).not.toHaveAttribute("aria-selected");
+    });
+
+    it("ignores disabled nodes", () => {
+      const nodes: TreeNode[] = [{ id: "x", label: "x", disabled: true }];
+      const { container } = render(() => <Treeview data={nodes} />);
+      fireEvent.click(row(container, "x"));
+      expect(item(container, "x")).toHaveAttribute("aria-selected", "false");
+      expect(item(container, "x")).toHaveAttribute("aria-disabled", "true");
+      expect(row(container, "x")).toHaveClass("menu-disabled");
+    });
+
+    it("supports controlled selection", () => {
+      const [selected] = createSignal(new Set(["docs"]));
+      const { container } = render(() => <Treeview data={data} selected={selected()} />);
+      expect(item(container, "docs")).toHaveAttribute("aria-selected", "true");
+      fireEvent.click(row(container, "package"));
+      expect(item(container, "docs")).toHaveAttribute("aria-selected", "true");
+    });
+  });
+
+  describe("Checkbox Selection", () => {
+    it("renders checkboxes with aria-checked", () => {
+      const { container, getAllByRole } = render(() => <Treeview data={data} selectionMode="checkbox" />);
+      expect(getAllByRole("checkbox")).toHaveLength(3);
+      expect(item(container, "src")).toHaveAttribute("aria-checked", "false");
+    });
+
+    it("checks all descendants when a parent is checked", () => {
+      const onSelectedChange = vi.fn();
+      const { container, getByLabelText } = render(() => (
+        <Treeview
+          data={data}
+          selectionMode="checkbox"
+          defaultExpanded={["src"]}
+          onSelectedChange={onSelectedChange}
+        />
+      ));
+      fireEvent.change(getByLabelText("src"), { target: { checked: true } });
+      expect(onSelectedChange).toHaveBeenCalledWith(new Set(["src", "app", "index"]));
+      expect(item(container, "app")).toHaveAttribute("aria-checked", "true");
+    });
+
+    it("shows an indeterminate parent when some children are checked", () => {
+      const { container, getByLabelText } = render(() => (
+        <Treeview data={data} selectionMode="checkbox" defaultExpanded={["src"]} />
+      ));
+      fireEvent.change(getByLabelText("app.tsx"), { target: { checked: true } });
+      expect(item(container, "src")).toHaveAttribute("aria-checked", "mixed");
+      expect((getByLabelText("src") as HTMLInputElement).indeterminate).toBe(true);
+
+      fireEvent.change(getByLabelText("index.ts"), { target: { checked: true } });
+      expect(item(container, "src")).toHaveAttribute("aria-checked", "true");
+    });
+
+    it("unchecks a parent whose disabled child is unchecked", () => {
+      const onSelectedChange = vi.fn();
+      const withDisabled: TreeNode[] = [
+        {
+          id: "src",
+          label: "src",
+          children: [
+            { id: "app", label: "app.tsx" },
+            { id: "locked", label: "locked.ts", disabled: true },
+          ],
+        },
+      ];
+      const { container, getByLabelText } = render(() => (
+        <Treeview data={withDisabled} selectionMode="checkbox" defaultExpanded={["src"]} onSelectedChange={onSelectedChange} />
+      ));
+
+      fireEvent.change(getByLabelText("src"), { target: { checked: true } });
+      expect(onSelectedChange).toHaveBeenLastCalledWith(new Set(["src", "app"]));
+      expect(item(container, "src")).toHaveAttribute("aria-checked", "mixed");
+
+      fireEvent.change(getByLabelText("src"), { target: { checked: false } });
+      expect(onSelectedChange).toHaveBeenLastCalledWith(new Set());
+      expect(item(container, "app")).toHaveAttribute("aria-checked", "false");
+    });
+
+    it("checking a checkbox does not expand the node", () => {
+      const { container, getByLabelText } = render(() => <Treeview data={data} selectionMode="checkbox" />);
+      fireEvent.click(getByLabelText("src"));
+      expect(item(container, "src")).toHaveAttribute("aria-expanded", "false");
+    });
+
+    it("checks lazily loaded children of a checked parent", async () => {
+      const onSelectedChange = vi.fn();
+      const lazy: TreeNode[] = [{ id: "remote", label: "remote", hasChildren: true }];
+      const { container, findByText } = render(() => (
+        <Treeview
+          data={lazy}
+          selectionMode="checkbox"
+          defaultSelected={["remote"]}
+          loadChildren={async () => [{ id: "child", label: "child.txt" }]}
+          onSelectedChange={onSelectedChange}
+        />
+      ));
+      fireEvent.click(row(container, "remote"));
+      await findByText("child.txt");
+      expect(onSelectedChange).toHaveBeenCalledWith(new Set(["remote", "child"]));
+    });
+  });
+
+  describe("Keyboard Navigation", () => {
+    it("moves focus with arrow keys, Home and End", () => {
+      const { container, getByRole } = render(() => <Treeview data={data} />);
+      const tree = getByRole("tree");
+      item(container, "src").focus();
+
+      fireEvent.keyDown(tree, { key: "ArrowDown" });
+      expect(document.activeElement).toBe(item(container, "docs"));
+
+      fireEvent.keyDown(tree, { key: "End" });
+      expect(document.activeElement).toBe(item(container, "package"));
+
+      fireEvent.keyDown(tree, { key: "ArrowUp" });
+      expect(document.activeElement).toBe(item(container, "docs"));
+
+      fireEvent.keyDown(tree, { key: "Home" });
+      expect(document.activeElement).toBe(item(container, "src"));
+      expect(item(container, "src").tabIndex).toBe(0);
+    });
+
+    it("expands with ArrowRight then moves into children", () => {
+      const { container, getByRole } = render(() => <Treeview data={data} />);
+      const tree = getByRole("tree");
+      item(container, "src").focus();
+
+      fireEvent.keyDown(tree, { key: "ArrowRight" });
+      expect(item(container, "src")).toHaveAttribute("aria-expanded", "true");
+
+      fireEvent.keyDown(tree, { key: "ArrowRight" });
+      expect(document.activeElement).toBe(item(container, "app"));
+    });
+
+    it("moves to the parent then collapses with ArrowLeft", () => {
+      const { container, getByRole } = render(() => <Treeview data={data} defaultExpanded={["src"]} />);
+      const tree = getByRole("tree");
+      item(container, "index").focus();
+
+      fireEvent.keyDown(tree, { key: "ArrowLeft" });
+      expect(document.activeElement).toBe(item(container, "src"));
+
+      fireEvent.keyDown(tree, { key: "ArrowLeft" });
+      expect(item(container, "src")).toHaveAttribute("aria-expanded", "false");
+    });
+
+    it("selects the focused node with Enter and Space", () => {
+      const { container, getByRole } = render(() => <Treeview data={data} selectionMode="multiple" />);
+      const tree = getByRole("tree");
+      item(container, "docs").focus();
+
+      fireEvent.keyDown(tree, { key: "Enter" });
+      expect(item(container, "docs")).toHaveAttribute("aria-selected", "true");
+
+      fireEvent.keyDown(tree, { key: " " });
+      expect(item(container, "docs")).toHaveAttribute("aria-selected", "false");
+    });
+
+    it("moves focus with type-ahead", () => {
+      vi.useFakeTimers();
+      const { container, getByRole } = render(() => <Treeview data={data} />);
+      const tree = getByRole("tree");
+      item(container, "src").focus();
+
+      fireEvent.keyDown(tree, { key: "p" });
+      expect(document.activeElement).toBe(item(container, "package"));
+
+      vi.advanceTimersByTime(600);
+      fireEvent.keyDown(tree, { key: "d" });
+      fireEvent.keyDown(tree, { key: "o" });
+      expect(document.activeElement).toBe(item(container, "docs"));
+      vi.useRealTimers();
+    });
   });
 });
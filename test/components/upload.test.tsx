@@ -1,10 +1,289 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
-import Upload from "@/components/upload";
+import { fireEvent, render, waitFor } from "@solidjs/testing-library";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import Upload, { isFileAccepted, formatFileSize, UploaderOptions } from "@/components/upload";
+
+const makeFile = (name: string, type: string, size = 10) =>
+  new File([new Uint8Array(size)], name, { type });
+
+// Fake transport whose uploads are resolved, rejected or advanced by the test
+const createFakeUploader = () => {
+  const calls: {
+    file: File;
+    options: UploaderOptions;
+    resolve: (value: string) => void;
+    reject: (error: unknown) => void;
+  }[] = [];
+  const uploader = vi.fn(
+    (file: File, options: UploaderOptions) =>
+      new Promise<string>((resolve, reject) => {
+        calls.push({ file, options, resolve, reject });
+      })
+  );
+  return { uploader, calls };
+};
+
+const dropFiles = (zone: HTMLElement, files: File[]) => {
+  fireEvent.drop(zone, { dataTransfer: { files } });
+};
 
 describe("Upload Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Upload />);
-    expect(getByText("Upload Component")).toBeInTheDocument();
+  beforeEach(() => {
+    URL.createObjectURL = vi.fn(() => "blob:preview");
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  describe("Basic Rendering", () => {
+    it("renders a drop zone button", () => {
+      const { getByRole } = render(() => <Upload />);
+      expect(getByRole("button", { name: "Upload files" })).toBeInTheDocument();
+    });
+
+    it("renders custom drop zone content", () => {
+      const { getByText } = render(() => <Upload>Drop invoices</Upload>);
+      expect(getByText("Drop invoices")).toBeInTheDocument();
+    });
+
+    it("applies class and classList to the container", () => {
+      const { container } = render(() => <Upload class="custom" classList={{ extra: true }} />);
+      expect(container.firstChild).toHaveClass("custom", "extra");
+    });
+
+    it("passes accept, multiple and name to the file input", () => {
+      const { container } = render(() => <Upload accept="image/*" name="files" />);
+      const input = container.querySelector('input[type="file"]') as HTMLInputElement;
+      expect(input).toHaveAttribute("accept", "image/*");
+      expect(input).toHaveAttribute("name", "files");
+      expect(input.multiple).toBe(true);
+    });
+  });
+
+  describe("Adding Files", () => {
+    it("adds dropped files to the list", () => {
+      const onChange = vi.fn();
+      const { getByRole, getByText } = render(() => <Upload onChange={onChange} />);
+      dropFiles(getByRole("button", { name: "Upload files" }), [makeFile("a.txt", "text/plain")]);
+      expect(getByText("a.txt")).toBeInTheDocument();
+      expect(onChange).toHaveBeenCalledWith([expect.objectContaining({ status: "pending", progress: 0 })]);
+    });
+
+    it("adds files chosen with the file picker", () => {
+      const { container, getByText } = render(() => <Upload />);
+      const input = container.querySelector('input[type="file"]') as HTMLInputElement;
+      fireEvent.change(input, { target: { files: [makeFile("picked.pdf", "application/pdf")] } });
+      expect(getByText("picked.pdf")).toBeInTheDocument();
+    });
+
+    it("keeps the files of the list in a named input", () => {
+      class FakeDataTransfer {
+        files: File[] = [];
+        items = { add: (file: File) => this.files.push(file) };
+      }
+      vi.stubGlobal("DataTransfer", FakeDataTransfer);
+
+      const a = makeFile("a.txt", "text/plain");
+      const b = makeFile("b.pdf", "application/pdf");
+      const { container, getByRole } = render(() => <Upload name="attachments" />);
+      const input = container.querySelector('input[type="file"]') as HTMLInputElement;
+      // jsdom only accepts a real FileList
+      Object.defineProperty(input, "files", { configurable: true, writable: true, value: null });
+
+      dropFiles(getByRole("button", { name: "Upload files" }), [a]);
+      fireEvent.change(input, { target: { files: [b] } });
+      expect(Array.from(input.files ?? [])).toEqual([a, b]);
+
+      fireEvent.click(getByRole("button", { name: "Remove a.txt" }));
+      expect(Array.from(input.files ?? [])).toEqual([b]);
+    });
+
+    it("adds pasted files", () => {
+      const { getByRole, getByText } = render(() => <Upload />);
+      fireEvent.paste(getByRole("button", { name: "Upload files" }), {
+        clipboardData: { files: [makeFile("clip.png", "image/png")] },
+      });
+      expect(getByText("clip.png")).toBeInTheDocument();
+    });
+
+    it("opens the file picker on click and keyboard", () => {
+      const { container, getByRole } = render(() => <Upload />);
+      const input = container.querySelector('input[type="file"]') as HTMLInputElement;
+      const click = vi.spyOn(input, "click");
+      const zone = getByRole("button", { name: "Upload files" });
+
+      fireEvent.click(zone);
+      fireEvent.keyDown(zone, { key: "Enter" });
+      fireEvent.keyDown(zone, { key: " " });
+      expect(click).toHaveBeenCalledTimes(3);
+    });
+
+    it("shows the dragging state while files are dragged over", () => {
+      const { getByRole } = render(() => <Upload />);
+      const zone = getByRole("button", { name: "Upload files" });
+      fireEvent.dragEnter(zone);
+      expect(zone).toHaveAttribute("data-dragging", "true");
+      fireEvent.dragLeave(zone);
+      expect(zone).not.toHaveAttribute("data-dragging");
+    });
+
+    it("keeps only the first file when multiple is false", () => {
+      const { getByRole, queryByText } = render(() => <Upload multiple={false} />);
+      dropFiles(getByRole("button", { name: "Upload files" }), [
+        makeFile("one.txt", "text/plain"),
+        makeFile("two.txt", "text/plain"),
+      ]);
+      expect(queryByText("one.txt")).toBeInTheDocument();
+      expect(queryByText("two.txt")).not.toBeInTheDocument();
+    });
+
+    it("rejects a second file when multiple is false", () => {
+      const onReject = vi.fn();
+      const { getByRole, queryByText, getByText } = render(() => <Upload multiple={false} onReject={onReject} />);
+      const zone = getByRole("button", { name: "Upload files" });
+      dropFiles(zone, [makeFile("one.txt", "text/plain")]);
+      dropFiles(zone, [makeFile("two.txt", "text/plain")]);
+      expect(queryByText("one.txt")).toBeInTheDocument();
+      expect(queryByText("two.txt")).not.toBeInTheDocument();
+      expect(onReject).toHaveBeenCalledWith([expect.objectContaining({ reason: "too-many-files" })]);
+      expect(getByText("Only 1 file can be uploaded")).toBeInTheDocument();
+    });
+
+    it("ignores files when disabled", () => {
+      const { getByRole, queryByText } = render(() => <Upload disabled />);
+      const zone = getByRole("button", { name: "Upload files" });
+      expect(zone).toHaveAttribute("aria-disabled", "true");
+      dropFiles(zone, [makeFile("a.txt", "text/plain")]);
+      expect(queryByText("a.txt")).not.toBeInTheDocument();
+    });
+
+    it("shows image thumbnails with object URLs and revokes them on remove", () => {
+      const { getByRole, container } = render(() => <Upload />);
+      dropFiles(getByRole("button", { name: "Upload files" }), [makeFile("photo.png", "image/png")]);
+      expect(container.querySelector("img")).toHaveAttribute("src", "blob:preview");
+
+      fireEvent.click(getByRole("button", { name: "Remove photo.png" }));
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:preview");
+      expect(container.querySelector("img")).not.toBeInTheDocument();
+    });
+
+    it("does not create previews for non-image files", () => {
+      const { getByRole } = render(() => <Upload />);
+      dropFiles(getByRole("button", { name: "Upload files" }), [makeFile("a.txt", "text/plain")]);
+      expect(URL.createObjectURL).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Validation", () => {
+    it("rejects files that do not match accept", () => {
+      const onReject = vi.fn();
+      const { getByRole, getByText } = render(() => <Upload accept="image/*" onReject={onReject} />);
+      dropFiles(getByRole("button", { name: "Upload files" }), [makeFile("a.txt", "text/plain")]);
+      expect(onReject).toHaveBeenCalledWith([expect.objectContaining({ reason: "file-type" })]);
+      expect(getByRole("alert")).toBeInTheDocument();
+      expect(getByText("a.txt is not an accepted file type")).toBeInTheDocument();
+    });
+
+    it("rejects files larger than maxSize", () => {
+      const onReject = vi.fn();
+      const { getByRole } = render(() => <Upload maxSize={5} onReject={onReject} />);
+      dropFiles(getByRole("button", { name: "Upload files" }), [makeFile("big.bin", "", 10)]);
+      expect(onReject).toHaveBeenCalledWith([expect.objectContaining({ reason: "file-too-large" })]);
+    });
+
+    it("rejects files beyond maxFiles", () => {
+      const onReject = vi.fn();
+      const { getByRole, queryByText } = render(() => <Upload maxFiles={1} onReject={onReject} />);
+      const zone = getByRole("button", { name: "Upload files" });
+      dropFiles(zone, [makeFile("one.txt", "text/plain")]);
+      dropFiles(zone, [makeFile("two.txt", "text/plain")]);
+      expect(queryByText("two.txt")).not.toBeInTheDocument();
+      expect(onReject).toHaveBeenCalledWith([expect.objectContaining({ reason: "too-many-files" })]);
+    });
+  });
+
+  describe("Uploading", () => {
+    it("uploads files automatically and reports progress", async () => {
+      const { uploader, calls } = createFakeUploader();
+      const onUploadComplete = vi.fn();
+      const { getByRole, getByLabelText, container } = render(() => (
+        <Upload uploader={uploader} onUploadComplete={onUploadComplete} />
+      ));
+      dropFiles(getByRole("button", { name: "Upload files" }), [makeFile("a.txt", "text/plain")]);
+
+      expect(uploader).toHaveBeenCalledTimes(1);
+      const progress = getByLabelText("a.txt upload progress") as HTMLProgressElement;
+      expect(progress).toHaveClass("progress");
+
+      calls[0].options.onProgress(40);
+      expect(progress.value).toBe(40);
+
+      calls[0].resolve("https://cdn/a.txt");
+      await waitFor(() => expect(onUploadComplete).toHaveBeenCalled());
+      expect(onUploadComplete.mock.calls[0][0]).toMatchObject({ status: "success", result: "https://cdn/a.txt" });
+      expect(container.querySelector("[data-status]")).toHaveAttribute("data-status", "success");
+    });
+
+    it("cancels an upload through the abort signal", () => {
+      const { uploader, calls } = createFakeUploader();
+      const { getByRole, container } = render(() => <Upload uploader={uploader} />);
+      dropFiles(getByRole("button", { name: "Upload files" }), [makeFile("a.txt", "text/plain")]);
+
+      fireEvent.click(getByRole("button", { name: "Cancel a.txt" }));
+      expect(calls[0].options.signal.aborted).toBe(true);
+      expect(container.querySelector("[data-status]")).toHaveAttribute("data-status", "canceled");
+    });
+
+    it("retries a failed upload", async () => {
+      const { uploader, calls } = createFakeUploader();
+      const onUploadError = vi.fn();
+      const { getByRole, findByRole } = render(() => (
+        <Upload uploader={uploader} onUploadError={onUploadError} />
+      ));
+      dropFiles(getByRole("button", { name: "Upload files" }), [makeFile("a.txt", "text/plain")]);
+
+      calls[0].reject(new Error("network"));
+      fireEvent.click(await findByRole("button", { name: "Retry a.txt" }));
+      expect(onUploadError).toHaveBeenCalled();
+      expect(uploader).toHaveBeenCalledTimes(2);
+    });
+
+    it("waits for the Upload button when autoUpload is false", () => {
+      const { uploader } = createFakeUploader();
+      const { getByRole } = render(() => <Upload uploader={uploader} autoUpload={false} />);
+      dropFiles(getByRole("button", { name: "Upload files" }), [makeFile("a.txt", "text/plain")]);
+      expect(uploader).not.toHaveBeenCalled();
+
+      fireEvent.click(getByRole("button", { name: "Upload" }));
+      expect(uploader).toHaveBeenCalledTimes(1);
+    });
+
+    it("aborts the upload when a file is removed", () => {
+      const { uploader, calls } = createFakeUploader();
+      const { getByRole, queryByText } = render(() => <Upload uploader={uploader} />);
+      dropFiles(getByRole("button", { name: "Upload files" }), [makeFile("a.txt", "text/plain")]);
+
+      fireEvent.click(getByRole("button", { name: "Remove a.txt" }));
+      expect(calls[0].options.signal.aborted).toBe(true);
+      expect(queryByText("a.txt")).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Helpers", () => {
+    it("matches MIME types, wildcards and extensions", () => {
+      expect(isFileAccepted(makeFile("a.png", "image/png"), "image/*")).toBe(true);
+      expect(isFileAccepted(makeFile("a.pdf", "application/pdf"), "application/pdf")).toBe(true);
+      expect(isFileAccepted(makeFile("A.CSV", ""), ".csv")).toBe(true);
+      expect(isFileAccepted(makeFile("a.txt", "text/plain"), "image/*, .pdf")).toBe(false);
+      expect(isFileAccepted(makeFile("a.txt", "text/plain"))).toBe(true);
+    });
+
+    it("formats file sizes", () => {
+      expect(formatFileSize(512)).toBe("512 B");
+      expect(formatFileSize(1536)).toBe("1.5 KB");
+      expect(formatFileSize(5 * 1024 * 1024)).toBe("5 MB");
+    });
   });
 });
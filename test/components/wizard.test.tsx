@@ -1,10 +1,462 @@
-import { describe, it, expect } from "vitest";
-import { render } from "@solidjs/testing-library";
-import Wizard from "@/components/wizard";
+import { describe, it, expect, vi } from "vitest";
+import { render, fireEvent, waitFor } from "@solidjs/testing-library";
+import { createSignal } from "solid-js";
+import Wizard, { WizardContextValue, useWizard } from "@/components/wizard";
+
+const renderBasicWizard = (props: Record<string, unknown> = {}) =>
+  render(() => (
+    <Wizard {...props}>
+      <Wizard.Step title="Account">
+        <p>Account body</p>
+      </Wizard.Step>
+      <Wizard.Step title="Profile" description="About you">
+        <p>Profile body</p>
+      </Wizard.Step>
+      <Wizard.Step title="Confirm">
+        <p>Confirm body</p>
+      </Wizard.Step>
+    </Wizard>
+  ));
 
 describe("Wizard Component", () => {
-  it("renders correctly", () => {
-    const { getByText } = render(() => <Wizard />);
-    expect(getByText("Wizard Component")).toBeInTheDocument();
+  describe("Basic Rendering", () => {
+    it("renders a steps header from its steps", () => {
+      const { container } = renderBasicWizard();
+      const list = container.querySelector("ol.steps");
+      expect(list).toBeInTheDocument();
+      expect(list).toHaveAttribute("aria-label", "Progress");
+      expect(list?.querySelectorAll("li.step")).toHaveLength(3);
+      expect(list).toHaveTextContent("Account");
+      expect(list).toHaveTextContent("About you");
+    });
+
+    it("renders only the active step body", () => {
+      const { getByText, queryByText } = renderBasicWizard();
+      expect(getByText("Account body")).toBeInTheDocument();
+      expect(queryByText("Profile body")).not.toBeInTheDocument();
+      expect(queryByText("Confirm body")).not.toBeInTheDocument();
+    });
+
+    it("renders the active step body as a labelled group", () => {
+      const { getByRole } = renderBasicWizard();
+      expect(getByRole("group", { name: "Account" })).toHaveTextContent("Account body");
+    });
+
+    it("marks the current step with aria-current", () => {
+      const { container } = renderBasicWizard();
+      const items = container.querySelectorAll("li.step");
+      expect(items[0]).toHaveAttribute("aria-current", "step");
+      expect(items[1]).not.toHaveAttribute("aria-current");
+    });
+
+    it("applies the color class to reached steps", () => {
+      const { container } = renderBasicWizard({ color: "secondary", defaultStep: 1 });
+      const items = container.querySelectorAll("li.step");
+      expect(items[0]).toHaveClass("step-secondary");
+      expect(items[1]).toHaveClass("step-secondary");
+      expect(items[2]).not.toHaveClass("step-secondary");
+    });
+
+    it("applies custom class and classList", () => {
+      const { container } = renderBasicWizard({ class: "custom-wizard", classList: { "is-active": true } });
+      const root = container.firstChild as HTMLElement;
+      expect(root).toHaveClass("custom-wizard");
+      expect(root).toHaveClass("is-active");
+    });
+  });
+
+  describe("Navigation", () => {
+    it("moves forwards and backwards with the actions", async () => {
+      const { getByText, getByRole } = renderBasicWizard();
+      const back = getByRole("button", { name: "Back" });
+      expect(back).toBeDisabled();
+
+      fireEvent.click(getByRole("button", { name: "Next" }));
+      await waitFor(() => expect(getByText("Profile body")).toBeInTheDocument());
+      expect(back).not.toBeDisabled();
+
+      fireEvent.click(back);
+      await waitFor(() => expect(getByText("Account body")).toBeInTheDocument());
+    });
+
+    it("shows Finish on the last step and calls onFinish", async () => {
+      const onFinish = vi.fn();
+      const { getByRole } = renderBasicWizard({ defaultStep: 2, onFinish });
+      fireEvent.click(getByRole("button", { name: "Finish" }));
+      await waitFor(() => expect(onFinish).toHaveBeenCalledWith({}));
+    });
+
+    it("shows an error when onFinish rejects", async () => {
+      const onFinish = vi.fn(() => Promise.reject(new Error("Could not save")));
+      const { getByRole, getByText } = renderBasicWizard({ defaultStep: 2, onFinish });
+      fireEvent.click(getByRole("button", { name: "Finish" }));
+      await waitFor(() => expect(getByText("Could not save")).toBeInTheDocument());
+      expect(getByRole("button", { name: "Finish" })).not.toBeDisabled();
+    });
+
+    it("calls onFinish once and disables the actions while it is pending", async () => {
+      let resolveFinish!: () => void;
+      const onFinish = vi.fn(() => new Promise<void>((resolve) => (resolveFinish = resolve)));
+      const { getByRole } = renderBasicWizard({ defaultStep: 2, onFinish });
+
+      const finish = getByRole("button", { name: "Finish" });
+      fireEvent.click(finish);
+      fireEvent.click(finish);
+      await waitFor(() => expect(onFinish).toHaveBeenCalled());
+      fireEvent.click(finish);
+      expect(finish).toBeDisabled();
+      expect(getByRole("button", { name: "Back" })).toBeDisabled();
+      expect(onFinish).toHaveBeenCalledTimes(1);
+
+      resolveFinish();
+      await waitFor(() => expect(getByRole("button", { name: "Back" })).not.toBeDisabled());
+      expect(onFinish).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not finish again after onFinish succeeds", async () => {
+      const onFinish = vi.fn();
+      const { getByRole } = renderBasicWizard({ defaultStep: 2, onFinish });
+
+      const finish = getByRole("button", { name: "Finish" });
+      fireEvent.click(finish);
+      await waitFor(() => expect(finish).toBeDisabled());
+      fireEvent.click(finish);
+      await Promise.resolve();
+      expect(onFinish).toHaveBeenCalledTimes(1);
+    });
+
+    it("calls onStepChange when the step changes", async () => {
+      const onStepChange = vi.fn();
+      const { getByRole } = renderBasicWizard({ onStepChange });
+      fireEvent.click(getByRole("button", { name: "Next" }));
+      await waitFor(() => expect(onStepChange).toHaveBeenCalledWith(1));
+    });
+
+    it("marks completed steps with a check marker", async () => {
+      const { container, getByRole, getByText } = renderBasicWizard();
+      fireEvent.click(getByRole("button", { name: "Next" }));
+      await waitFor(() => expect(getByText("Profile body")).toBeInTheDocument());
+      expect(container.querySelectorAll("li.step")[0]).toHaveAttribute("data-content", "✓");
+    });
+
+    it("supports controlled step", async () => {
+      const [step, setStep] = createSignal(0);
+      const { getByText, getByRole } = render(() => (
+        <Wizard step={step()} onStepChange={setStep}>
+          <Wizard.Step title="One">First</Wizard.Step>
+          <Wizard.Step title="Two">Second</Wizard.Step>
+        </Wizard>
+      ));
+
+      fireEvent.click(getByRole("button", { name: "Next" }));
+      await waitFor(() => expect(getByText("Second")).toBeInTheDocument());
+
+      setStep(0);
+      await waitFor(() => expect(getByText("First")).toBeInTheDocument());
+    });
+
+    it("uses custom action labels", () => {
+      const { getByRole } = renderBasicWizard({ backLabel: "Previous", nextLabel: "Continue" });
+      expect(getByRole("button", { name: "Previous" })).toBeInTheDocument();
+      expect(getByRole("button", { name: "Continue" })).toBeInTheDocument();
+    });
+
+    it("hides the actions when hideActions is set", () => {
+      const { queryByRole } = renderBasicWizard({ hideActions: true });
+      expect(queryByRole("button", { name: "Next" })).not.toBeInTheDocument();
+    });
+  });
+
+  describe("Validation", () => {
+    it("blocks navigation when validate returns false", async () => {
+      const validate = vi.fn(() => false);
+      const { getByRole, getByText } = render(() => (
+        <Wizard>
+          <Wizard.Step title="One" validate={validate}>
+            First
+          </Wizard.Step>
+          <Wizard.Step title="Two">Second</Wizard.Step>
+        </Wizard>
+      ));
+
+      fireEvent.click(getByRole("button", { name: "Next" }));
+      await waitFor(() => expect(validate).toHaveBeenCalled());
+      expect(getByText("First")).toBeInTheDocument();
+    });
+
+    it("shows the message returned by validate in an error alert", async () => {
+      const { getByRole, getByText } = render(() => (
+        <Wizard>
+          <Wizard.Step title="One" validate={() => "Email is required"}>
+            First
+          </Wizard.Step>
+          <Wizard.Step title="Two">Second</Wizard.Step>
+        </Wizard>
+      ));
+
+      fireEvent.click(getByRole("button", { name: "Next" }));
+      await waitFor(() => expect(getByRole("alert")).toHaveTextContent("Email is required"));
+      expect(getByRole("alert")).toHaveClass("alert-error");
+      expect(getByText("First")).toBeInTheDocument();
+    });
+
+    it("shows the message of a thrown error", async () => {
+      const { getByRole } = render(() => (
+        <Wizard>
+          <Wizard.Step
+            title="One"
+            validate={() => {
+              throw new Error("Server unavailable");
+            }}
+          >
+            First
+          </Wizard.Step>
+          <Wizard.Step title="Two">Second</Wizard.Step>
+        </Wizard>
+      ));
+
+      fireEvent.click(getByRole("button", { name: "Next" }));
+      await waitFor(() => expect(getByRole("alert")).toHaveTextContent("Server unavailable"));
+    });
+
+    it("waits for async validation and shows a loading state", async () => {
+      let resolve!: (value: boolean) => void;
+      const { getByRole, getByText } = render(() => (
+        <Wizard>
+          <Wizard.Step title="One" validate={() => new Promise<boolean>((done) => (resolve = done))}>
+            First
+          </Wizard.Step>
+          <Wizard.Step title="Two">Second</Wizard.Step>
+        </Wizard>
+      ));
+
+      const next = getByRole("button", { name: "Next" });
+      fireEvent.click(next);
+      await waitFor(() => expect(next).toBeDisabled());
+      expect(getByRole("button", { name: "Back" })).toBeDisabled();
+
+      resolve(true);
+      await waitFor(() => expect(getByText("Second")).toBeInTheDocument());
+    });
+
+    it("clears the error when the step changes", async () => {
+      let valid = false;
+      const { getByRole, queryByRole, getByText } = render(() => (
+        <Wizard>
+          <Wizard.Step title="One" validate={() => valid || "Not yet"}>
+            First
+          </Wizard.Step>
+          <Wizard.Step title="Two">Second</Wizard.Step>
+        </Wizard>
+      ));
+
+      fireEvent.click(getByRole("button", { name: "Next" }));
+      await waitFor(() => expect(getByRole("alert")).toBeInTheDocument());
+
+      valid = true;
+      fireEvent.click(getByRole("button", { name: "Next" }));
+      await waitFor(() => expect(getByText("Second")).toBeInTheDocument());
+      expect(queryByRole("alert")).not.toBeInTheDocument();
+    });
+
+    it("skips optional steps without validation", async () => {
+      const validate = vi.fn(() => false);
+      const { getByRole, getByText } = render(() => (
+        <Wizard>
+          <Wizard.Step title="One" optional validate={validate}>
+            First
+          </Wizard.Step>
+          <Wizard.Step title="Two">Second</Wizard.Step>
+        </Wizard>
+      ));
+
+      fireEvent.click(getByRole("button", { name: "Skip" }));
+      await waitFor(() => expect(getByText("Second")).toBeInTheDocument());
+      expect(validate).not.toHaveBeenCalled();
+    });
+
+    it("disables Skip and Finish while finishing from an optional last step", async () => {
+      const onFinish = vi.fn(() => new Promise<void>(() => {}));
+      const { getByRole } = render(() => (
+        <Wizard onFinish={onFinish}>
+          <Wizard.Step title="One" optional>
+            First
+          </Wizard.Step>
+        </Wizard>
+      ));
+
+      const skip = getByRole("button", { name: "Skip" });
+      fireEvent.click(skip);
+      fireEvent.click(skip);
+      await waitFor(() => expect(skip).toBeDisabled());
+      expect(getByRole("button", { name: "Finish" })).toBeDisabled();
+      expect(onFinish).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Step Data", () => {
+    it("passes step data to validate and onFinish", async () => {
+      const validate = vi.fn((value: string | undefined) => !!value);
+      const onFinish = vi.fn();
+
+      const EmailField = () => {
+        const wizard = useWizard();
+        return (
+          <input
+            aria-label="Email"
+            value={wizard.stepData<string>() ?? ""}
+            onInput={(event) => wizard.setData(event.currentTarget.value)}
+          />
+        );
+      };
+
+      const { getByRole, getByLabelText } = render(() => (
+        <Wizard onFinish={onFinish}>
+          <Wizard.Step<string> title="Account" name="email" validate={validate}>
+            <EmailField />
+          </Wizard.Step>
+        </Wizard>
+      ));
+
+      fireEvent.input(getByLabelText("Email"), { target: { value: "ada@example.com" } });
+      fireEvent.click(getByRole("button", { name: "Finish" }));
+
+      await waitFor(() => expect(onFinish).toHaveBeenCalledWith({ email: "ada@example.com" }));
+      expect(validate).toHaveBeenCalledWith("ada@example.com");
+    });
+
+    it("keeps data when revisiting a step", async () => {
+      const Field = () => {
+        const wizard = useWizard();
+        return (
+          <input
+            aria-label="Name"
+            value={wizard.stepData<string>() ?? ""}
+            onInput={(event) => wizard.setData(event.currentTarget.value)}
+          />
+        );
+      };
+
+      const { getByRole, getByLabelText, getByText } = render(() => (
+        <Wizard>
+          <Wizard.Step title="One">
+            <Field />
+          </Wizard.Step>
+          <Wizard.Step title="Two">Second</Wizard.Step>
+        </Wizard>
+      ));
+
+      fireEvent.input(getByLabelText("Name"), { target: { value: "Ada" } });
+      fireEvent.click(getByRole("button", { name: "Next" }));
+      await waitFor(() => expect(getByText("Second")).toBeInTheDocument());
+      fireEvent.click(getByRole("button", { name: "Back" }));
+
+      await waitFor(() => expect(getByLabelText("Name")).toHaveValue("Ada"));
+    });
+  });
+
+  describe("useWizard", () => {
+    it("lets step bodies drive navigation", async () => {
+      const Controls = () => {
+        const wizard = useWizard();
+        return (
+          <button type="button" onClick={() => void wizard.next()}>
+            Continue {wizard.currentStep() + 1} of {wizard.steps().length}
+          </button>
+        );
+      };
+
+      const { getByRole, getByText } = render(() => (
+        <Wizard hideActions>
+          <Wizard.Step title="One">
+            <Controls />
+          </Wizard.Step>
+          <Wizard.Step title="Two">Second</Wizard.Step>
+        </Wizard>
+      ));
+
+      fireEvent.click(getByRole("button", { name: "Continue 1 of 2" }));
+      await waitFor(() => expect(getByText("Second")).toBeInTheDocument());
+    });
+
+    it("ignores next and skip once finished", async () => {
+      const onFinish = vi.fn();
+      let wizard!: WizardContextValue;
+      const Capture = () => {
+        wizard = useWizard();
+        return null;
+      };
+
+      render(() => (
+        <Wizard hideActions onFinish={onFinish}>
+          <Wizard.Step title="Last" optional>
+            <Capture />
+          </Wizard.Step>
+        </Wizard>
+      ));
+
+      expect(await wizard.next()).toBe(true);
+      expect(wizard.isFinished()).toBe(true);
+      expect(await wizard.next()).toBe(false);
+      wizard.skip();
+      await Promise.resolve();
+      expect(onFinish).toHaveBeenCalledTimes(1);
+    });
+
+    it("throws when used outside a Wizard", () => {
+      const Orphan = () => {
+        useWizard();
+        return null;
+      };
+      expect(() => render(() => <Orphan />)).toThrow("useWizard must be used within a Wizard component");
+    });
+
+    it("does not jump ahead in linear mode", async () => {
+      let api!: ReturnType<typeof useWizard>;
+      const Capture = () => {
+        api = useWizard();
+        return null;
+      };
+
+      const { getByText } = render(() => (
+        <Wizard>
+          <Wizard.Step title="One">
+            <Capture />
+            First
+          </Wizard.Step>
+          <Wizard.Step title="Two">Second</Wizard.Step>
+          <Wizard.Step title="Three">Third</Wizard.Step>
+        </Wizard>
+      ));
+
+      expect(await api.goTo(2)).toBe(false);
+      expect(getByText("First")).toBeInTheDocument();
+    });
+  });
+
+  describe("Non-linear Mode", () => {
+    it("does not render header buttons in linear mode", async () => {
+      const { container, getByRole, getByText } = renderBasicWizard();
+      fireEvent.click(getByRole("button", { name: "Next" }));
+      await waitFor(() => expect(getByText("Profile body")).toBeInTheDocument());
+      expect(container.querySelector("ol.steps button")).not.toBeInTheDocument();
+    });
+
+    it("lets completed steps be revisited from the header", async () => {
+      const { container, getByRole, getByText } = renderBasicWizard({ linear: false });
+      fireEvent.click(getByRole("button", { name: "Next" }));
+      await waitFor(() => expect(getByText("Profile body")).toBeInTheDocument());
+
+      const stepButton = container.querySelector("ol.steps li button") as HTMLButtonElement;
+      expect(stepButton).toHaveTextContent("Account");
+      fireEvent.click(stepButton);
+      await waitFor(() => expect(getByText("Account body")).toBeInTheDocument());
+
+      // The step after the completed one stays reachable
+      const buttons = container.querySelectorAll("ol.steps li button");
+      expect(buttons).toHaveLength(1);
+      fireEvent.click(buttons[0]);
+      await waitFor(() => expect(getByText("Profile body")).toBeInTheDocument());
+    });
   });
 });
@@ -12,10 +12,11 @@ export default defineConfig({
       formats: ["es", "umd"],
     },
     rollupOptions: {
-      external: ["solid-js"],
+      external: ["solid-js", "@solidjs/router"],
       output: {
         globals: {
           "solid-js": "SolidJS",
+          "@solidjs/router": "SolidRouter",
         },
       },
     },